@@ -25,7 +25,7 @@ module.exports = {
 		'**/dist/**',
 		'**/__tests__/**',
 		'**/*.test.ts',
-		'**/*.spec.ts'
+		'**/*.spec.ts',
 	],
 
 	overrides: [
@@ -152,7 +152,10 @@ module.exports = {
 			},
 		},
 		{
-			files: ['./nodes/Pinterest/PinterestDescription.ts'],
+			files: [
+				'./nodes/Pinterest/PinterestDescription.ts',
+				'./nodes/Pinterest/PinterestTriggerDescription.ts',
+			],
 			rules: {
 				'n8n-nodes-base/node-filename-against-convention': 'off',
 			},
@@ -93,6 +93,10 @@ describe('PinterestOAuth2Api Credentials', () => {
 			expect(scopeValue).toContain('pins:write');
 			expect(scopeValue).toContain('pins:read_secret');
 			expect(scopeValue).toContain('pins:write_secret');
+			expect(scopeValue).toContain('ads:read');
+			expect(scopeValue).toContain('ads:write');
+			expect(scopeValue).toContain('catalogs:read');
+			expect(scopeValue).toContain('catalogs:write');
 		});
 	});
 
@@ -1,4 +1,5 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -6,25 +7,49 @@ import type {
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
-import { PinterestApiClient } from './utils/PinterestApiClient';
+import { PinterestApiClient, type RetryOptions } from './utils/PinterestApiClient';
 import { PinterestDescription } from './PinterestDescription';
 
 // Import all operation handlers
 import * as pinOperations from './operations/pin';
 import * as boardOperations from './operations/board';
+import * as boardSectionOperations from './operations/boardSection';
 import * as userOperations from './operations/user';
 import * as searchOperations from './operations/search';
 import * as mediaOperations from './operations/media';
+import * as adAccountOperations from './operations/adAccount';
+import * as campaignOperations from './operations/campaign';
+import * as adGroupOperations from './operations/adGroup';
+import * as adOperations from './operations/ad';
+import * as conversionEventOperations from './operations/conversionEvent';
+import * as audienceOperations from './operations/audience';
+import * as catalogOperations from './operations/catalog';
+
+import * as listSearch from './methods/listSearch';
 
 export class Pinterest implements INodeType {
 	description: INodeTypeDescription = PinterestDescription;
 
+	methods = {
+		listSearch,
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		// Filled by operations with a second output for rows they could not process
+		const rowErrorData: INodeExecutionData[] = [];
+		// Like the outputs expression, read from the node parameters so it holds for every item
+		const { resource: nodeResource, operation: nodeOperation } = this.getNode().parameters;
+		const hasRowErrorOutput = Pinterest.hasRowErrorOutput(
+			nodeResource as string,
+			nodeOperation as string,
+		);
 
-		// Initialize Pinterest API client with execution context
-		const apiClient = new PinterestApiClient(this);
+		// Initialize Pinterest API client with execution context and the node's retry settings
+		const apiClient = new PinterestApiClient(this, 0, {
+			retry: Pinterest.getRetryOptions.call(this),
+		});
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -37,9 +62,13 @@ export class Pinterest implements INodeType {
 				// Route to appropriate operation handler with execution context
 				const result = await Pinterest.routeOperation.call(this, resource, operation, apiClient, i);
 
-				// Handle both single results and arrays of results
-				if (Array.isArray(result)) {
-					returnData.push(...result);
+				// Handle single results, arrays of results and results split across outputs
+				if (Array.isArray(result) && Array.isArray(result[0])) {
+					const [mainItems, rowErrorItems] = result as INodeExecutionData[][];
+					returnData.push(...mainItems);
+					rowErrorData.push(...(rowErrorItems || []));
+				} else if (Array.isArray(result)) {
+					returnData.push(...(result as INodeExecutionData[]));
 				} else {
 					returnData.push(result);
 				}
@@ -57,7 +86,31 @@ export class Pinterest implements INodeType {
 			}
 		}
 
-		return [returnData];
+		return hasRowErrorOutput ? [returnData, rowErrorData] : [returnData];
+	}
+
+	/**
+	 * Whether an operation has a second output for invalid rows, matching the node's outputs
+	 */
+	private static hasRowErrorOutput(resource: string, operation: string): boolean {
+		return resource === 'catalog' && operation === 'generateFeed';
+	}
+
+	/**
+	 * Reads the node's retry settings, converting the delay to milliseconds
+	 */
+	private static getRetryOptions(this: IExecuteFunctions): RetryOptions {
+		const retryOptions = this.getNodeParameter('retryOptions', 0, {}) as IDataObject;
+		const options: RetryOptions = {};
+
+		if (typeof retryOptions.maxRetries === 'number') {
+			options.maxRetries = retryOptions.maxRetries;
+		}
+		if (typeof retryOptions.maxRetryDelay === 'number') {
+			options.maxDelay = retryOptions.maxRetryDelay * 1000;
+		}
+
+		return options;
 	}
 
 	/**
@@ -65,11 +118,36 @@ export class Pinterest implements INodeType {
 	 */
 	private static validateResourceOperation(resource: string, operation: string, node: any): void {
 		const validCombinations: Record<string, string[]> = {
-			pin: ['create', 'get', 'update', 'delete', 'bulk'],
-			board: ['create', 'get', 'update', 'delete'],
-			user: ['getProfile', 'getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+			pin: ['create', 'get', 'update', 'delete', 'save', 'bulk'],
+			board: ['create', 'get', 'getAll', 'getPins', 'update', 'delete', 'bulk'],
+			boardSection: ['create', 'getAll', 'update', 'delete', 'getPins'],
+			user: [
+				'getProfile',
+				'getAnalytics',
+				'getPinAnalytics',
+				'getBoardAnalytics',
+				'getTopPins',
+				'getBestTimeToPost',
+			],
 			search: ['pins', 'boards', 'trending'],
 			media: ['upload'],
+			adAccount: ['get', 'getAll'],
+			campaign: ['create', 'get', 'getAll', 'update'],
+			adGroup: ['create', 'get', 'getAll', 'update'],
+			ad: ['create', 'get', 'getAll', 'update'],
+			conversionEvent: ['send'],
+			audience: ['create', 'get', 'getAll', 'addMembers', 'removeMembers'],
+			catalog: [
+				'createFeed',
+				'generateFeed',
+				'getFeed',
+				'getFeeds',
+				'updateFeed',
+				'upsertItems',
+				'deleteItems',
+				'getItemBatch',
+				'getProductGroups',
+			],
 		};
 
 		if (!validCombinations[resource]) {
@@ -93,7 +171,7 @@ export class Pinterest implements INodeType {
 		operation: string,
 		apiClient: PinterestApiClient,
 		itemIndex: number,
-	): Promise<INodeExecutionData | INodeExecutionData[]> {
+	): Promise<INodeExecutionData | INodeExecutionData[] | INodeExecutionData[][]> {
 		try {
 			switch (resource) {
 				case 'pin':
@@ -102,6 +180,14 @@ export class Pinterest implements INodeType {
 				case 'board':
 					return await Pinterest.routeBoardOperation.call(this, operation, apiClient, itemIndex);
 
+				case 'boardSection':
+					return await Pinterest.routeBoardSectionOperation.call(
+						this,
+						operation,
+						apiClient,
+						itemIndex,
+					);
+
 				case 'user':
 					return await Pinterest.routeUserOperation.call(this, operation, apiClient, itemIndex);
 
@@ -111,6 +197,37 @@ export class Pinterest implements INodeType {
 				case 'media':
 					return await Pinterest.routeMediaOperation.call(this, operation, apiClient, itemIndex);
 
+				case 'adAccount':
+					return await Pinterest.routeAdAccountOperation.call(
+						this,
+						operation,
+						apiClient,
+						itemIndex,
+					);
+
+				case 'campaign':
+					return await Pinterest.routeCampaignOperation.call(this, operation, apiClient, itemIndex);
+
+				case 'adGroup':
+					return await Pinterest.routeAdGroupOperation.call(this, operation, apiClient, itemIndex);
+
+				case 'ad':
+					return await Pinterest.routeAdOperation.call(this, operation, apiClient, itemIndex);
+
+				case 'conversionEvent':
+					return await Pinterest.routeConversionEventOperation.call(
+						this,
+						operation,
+						apiClient,
+						itemIndex,
+					);
+
+				case 'audience':
+					return await Pinterest.routeAudienceOperation.call(this, operation, apiClient, itemIndex);
+
+				case 'catalog':
+					return await Pinterest.routeCatalogOperation.call(this, operation, apiClient, itemIndex);
+
 				default:
 					throw new NodeOperationError(this.getNode(), `Unsupported resource: ${resource}`, {
 						itemIndex,
@@ -141,18 +258,24 @@ export class Pinterest implements INodeType {
 				return await pinOperations.updatePin.call(this, apiClient, itemIndex);
 			case 'delete':
 				return await pinOperations.deletePin.call(this, apiClient, itemIndex);
+			case 'save':
+				return await pinOperations.savePin.call(this, apiClient, itemIndex);
 			case 'bulk':
 				// Handle bulk operations based on bulk operation type
 				const bulkOperationType = this.getNodeParameter(
 					'bulkOperationType',
 					itemIndex,
-					'createMultiple',
+					'getMultiple',
 				) as string;
 				switch (bulkOperationType) {
+					case 'createMultiple':
+						return await pinOperations.bulkCreatePins.call(this, apiClient, itemIndex);
 					case 'updateMultiple':
 						return await pinOperations.bulkUpdatePins.call(this, apiClient, itemIndex);
 					case 'deleteMultiple':
 						return await pinOperations.bulkDeletePins.call(this, apiClient, itemIndex);
+					case 'saveMultiple':
+						return await pinOperations.bulkSavePins.call(this, apiClient, itemIndex);
 					default:
 						return await pinOperations.bulkGetPins.call(this, apiClient, itemIndex);
 				}
@@ -177,6 +300,10 @@ export class Pinterest implements INodeType {
 				return await boardOperations.createBoard.call(this, apiClient, itemIndex);
 			case 'get':
 				return await boardOperations.getBoard.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await boardOperations.getBoards.call(this, apiClient, itemIndex);
+			case 'getPins':
+				return await boardOperations.getBoardPins.call(this, apiClient, itemIndex);
 			case 'update':
 				return await boardOperations.updateBoard.call(this, apiClient, itemIndex);
 			case 'delete':
@@ -189,6 +316,8 @@ export class Pinterest implements INodeType {
 					'getMultiple',
 				) as string;
 				switch (bulkOperationType) {
+					case 'createMultiple':
+						return await boardOperations.bulkCreateBoards.call(this, apiClient, itemIndex);
 					case 'updateMultiple':
 						return await boardOperations.bulkUpdateBoards.call(this, apiClient, itemIndex);
 					case 'deleteMultiple':
@@ -203,6 +332,37 @@ export class Pinterest implements INodeType {
 		}
 	}
 
+	/**
+	 * Routes board section operations to specific handlers
+	 */
+	private static async routeBoardSectionOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
+		switch (operation) {
+			case 'create':
+				return await boardSectionOperations.createBoardSection.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await boardSectionOperations.getBoardSections.call(this, apiClient, itemIndex);
+			case 'update':
+				return await boardSectionOperations.updateBoardSection.call(this, apiClient, itemIndex);
+			case 'delete':
+				return await boardSectionOperations.deleteBoardSection.call(this, apiClient, itemIndex);
+			case 'getPins':
+				return await boardSectionOperations.getBoardSectionPins.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported board section operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
 	/**
 	 * Routes user operations to specific handlers
 	 */
@@ -211,7 +371,7 @@ export class Pinterest implements INodeType {
 		operation: string,
 		apiClient: PinterestApiClient,
 		itemIndex: number,
-	): Promise<INodeExecutionData> {
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
 		switch (operation) {
 			case 'getProfile':
 				return await userOperations.getUserProfile.call(this, apiClient, itemIndex);
@@ -221,6 +381,10 @@ export class Pinterest implements INodeType {
 				return await userOperations.getPinAnalytics.call(this, apiClient, itemIndex);
 			case 'getBoardAnalytics':
 				return await userOperations.getBoardAnalytics.call(this, apiClient, itemIndex);
+			case 'getTopPins':
+				return await userOperations.getTopPins.call(this, apiClient, itemIndex);
+			case 'getBestTimeToPost':
+				return await userOperations.getBestTimeToPost.call(this, apiClient, itemIndex);
 			default:
 				throw new NodeOperationError(this.getNode(), `Unsupported user operation: ${operation}`, {
 					itemIndex,
@@ -262,7 +426,7 @@ export class Pinterest implements INodeType {
 	): Promise<INodeExecutionData> {
 		switch (operation) {
 			case 'upload':
-				return await mediaOperations.uploadMedia.call(this, itemIndex);
+				return await mediaOperations.uploadMedia.call(this, itemIndex, apiClient);
 			default:
 				throw new NodeOperationError(this.getNode(), `Unsupported media operation: ${operation}`, {
 					itemIndex,
@@ -270,6 +434,211 @@ export class Pinterest implements INodeType {
 		}
 	}
 
+	/**
+	 * Routes ad account operations to specific handlers
+	 */
+	private static async routeAdAccountOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
+		switch (operation) {
+			case 'get':
+				return await adAccountOperations.getAdAccount.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await adAccountOperations.getAdAccounts.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported ad account operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
+	/**
+	 * Routes campaign operations to specific handlers
+	 */
+	private static async routeCampaignOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
+		switch (operation) {
+			case 'create':
+				return await campaignOperations.createCampaign.call(this, apiClient, itemIndex);
+			case 'get':
+				return await campaignOperations.getCampaign.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await campaignOperations.getCampaigns.call(this, apiClient, itemIndex);
+			case 'update':
+				return await campaignOperations.updateCampaign.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported campaign operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
+	/**
+	 * Routes ad group operations to specific handlers
+	 */
+	private static async routeAdGroupOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
+		switch (operation) {
+			case 'create':
+				return await adGroupOperations.createAdGroup.call(this, apiClient, itemIndex);
+			case 'get':
+				return await adGroupOperations.getAdGroup.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await adGroupOperations.getAdGroups.call(this, apiClient, itemIndex);
+			case 'update':
+				return await adGroupOperations.updateAdGroup.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported ad group operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
+	/**
+	 * Routes ad operations to specific handlers
+	 */
+	private static async routeAdOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
+		switch (operation) {
+			case 'create':
+				return await adOperations.createAd.call(this, apiClient, itemIndex);
+			case 'get':
+				return await adOperations.getAd.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await adOperations.getAds.call(this, apiClient, itemIndex);
+			case 'update':
+				return await adOperations.updateAd.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(this.getNode(), `Unsupported ad operation: ${operation}`, {
+					itemIndex,
+				});
+		}
+	}
+
+	/**
+	 * Routes conversion event operations to specific handlers
+	 */
+	private static async routeConversionEventOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData[]> {
+		switch (operation) {
+			case 'send':
+				return await conversionEventOperations.sendConversionEvents.call(
+					this,
+					apiClient,
+					itemIndex,
+				);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported conversion event operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
+	/**
+	 * Routes audience operations to specific handlers
+	 */
+	private static async routeAudienceOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[]> {
+		switch (operation) {
+			case 'create':
+				return await audienceOperations.createAudience.call(this, apiClient, itemIndex);
+			case 'get':
+				return await audienceOperations.getAudience.call(this, apiClient, itemIndex);
+			case 'getAll':
+				return await audienceOperations.getAudiences.call(this, apiClient, itemIndex);
+			case 'addMembers':
+				return await audienceOperations.addAudienceMembers.call(this, apiClient, itemIndex);
+			case 'removeMembers':
+				return await audienceOperations.removeAudienceMembers.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported audience operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
+	/**
+	 * Routes catalog operations to specific handlers
+	 */
+	private static async routeCatalogOperation(
+		this: IExecuteFunctions,
+		operation: string,
+		apiClient: PinterestApiClient,
+		itemIndex: number,
+	): Promise<INodeExecutionData | INodeExecutionData[] | INodeExecutionData[][]> {
+		switch (operation) {
+			case 'createFeed':
+				return await catalogOperations.createCatalogFeed.call(this, apiClient, itemIndex);
+			case 'generateFeed':
+				return await catalogOperations.generateCatalogFeed.call(this, apiClient, itemIndex);
+			case 'getFeed':
+				return await catalogOperations.getCatalogFeed.call(this, apiClient, itemIndex);
+			case 'getFeeds':
+				return await catalogOperations.getCatalogFeeds.call(this, apiClient, itemIndex);
+			case 'updateFeed':
+				return await catalogOperations.updateCatalogFeed.call(this, apiClient, itemIndex);
+			case 'upsertItems':
+				return await catalogOperations.upsertCatalogItems.call(this, apiClient, itemIndex);
+			case 'deleteItems':
+				return await catalogOperations.deleteCatalogItems.call(this, apiClient, itemIndex);
+			case 'getItemBatch':
+				return await catalogOperations.getCatalogItemsBatch.call(this, apiClient, itemIndex);
+			case 'getProductGroups':
+				return await catalogOperations.getProductGroups.call(this, apiClient, itemIndex);
+			default:
+				throw new NodeOperationError(
+					this.getNode(),
+					`Unsupported catalog operation: ${operation}`,
+					{
+						itemIndex,
+					},
+				);
+		}
+	}
+
 	/**
 	 * Handles execution errors with proper context and error propagation
 	 */
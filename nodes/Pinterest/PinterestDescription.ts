@@ -1,6 +1,106 @@
-import type { INodeTypeDescription } from 'n8n-workflow';
+import type { INodeProperties, INodeTypeDescription } from 'n8n-workflow';
 import { NodeConnectionType } from 'n8n-workflow';
 
+import { BOARD_URL_REGEX, PINTEREST_ID_REGEX, PIN_URL_REGEX } from './utils/ResourceLocator';
+
+/**
+ * Anomaly detection settings shared by the analytics operations and the trigger
+ */
+export const ANALYTICS_ANOMALY_OPTIONS: INodeProperties[] = [
+	{
+		displayName: 'Direction',
+		name: 'direction',
+		type: 'options',
+		options: [
+			{
+				name: 'Drops and Spikes',
+				value: 'both',
+			},
+			{
+				name: 'Drops Only',
+				value: 'drops',
+			},
+			{
+				name: 'Spikes Only',
+				value: 'spikes',
+			},
+		],
+		default: 'drops',
+		description: 'Which deviations count as anomalies',
+	},
+	{
+		displayName: 'Method',
+		name: 'method',
+		type: 'options',
+		options: [
+			{
+				name: 'Rolling Z-Score',
+				value: 'rollingZScore',
+				description: 'Compare each day with the mean and standard deviation of the days before it',
+			},
+			{
+				name: 'Seasonal Median',
+				value: 'seasonalMedian',
+				description:
+					'Compare each day with the median of the same weekday in the weeks before it, so weekly patterns are not flagged',
+			},
+		],
+		default: 'rollingZScore',
+	},
+	{
+		displayName: 'Metrics',
+		name: 'metrics',
+		type: 'multiOptions',
+		options: [
+			{
+				name: 'Engagements',
+				value: 'ENGAGEMENT',
+			},
+			{
+				name: 'Impressions',
+				value: 'IMPRESSION',
+			},
+			{
+				name: 'Outbound Clicks',
+				value: 'OUTBOUND_CLICK',
+			},
+			{
+				name: 'Pin Clicks',
+				value: 'PIN_CLICK',
+			},
+			{
+				name: 'Saves',
+				value: 'SAVE',
+			},
+		],
+		default: ['IMPRESSION', 'SAVE'],
+		description: 'Daily metrics to check for anomalies',
+	},
+	{
+		displayName: 'Threshold',
+		name: 'threshold',
+		type: 'number',
+		typeOptions: {
+			minValue: 0.1,
+			numberPrecision: 1,
+		},
+		default: 3,
+		description:
+			'How many standard deviations a day must be from the expected value to be flagged. Severity is medium from 1.5 times and high from 2 times the threshold.',
+	},
+	{
+		displayName: 'Window Days',
+		name: 'windowDays',
+		type: 'number',
+		typeOptions: {
+			minValue: 3,
+		},
+		default: 28,
+		description:
+			'Number of days before each day that its expected value is based on. Seasonal median needs at least 21 days.',
+	},
+];
+
 /**
  * Pinterest Node Description with comprehensive UI elements
  * Provides dynamic field visibility, validation, tooltips, and user-friendly organization
@@ -18,7 +118,8 @@ export const PinterestDescription: INodeTypeDescription = {
 		name: 'Pinterest',
 	},
 	inputs: [NodeConnectionType.Main],
-	outputs: [NodeConnectionType.Main],
+	// Generate Feed File lists invalid rows on a second output
+	outputs: `={{ $parameter["resource"] === "catalog" && $parameter["operation"] === "generateFeed" ? [{ "type": "${NodeConnectionType.Main}", "displayName": "Feed" }, { "type": "${NodeConnectionType.Main}", "displayName": "Row Errors" }] : ["${NodeConnectionType.Main}"] }}`,
 	credentials: [
 		{
 			name: 'pinterestOAuth2Api',
@@ -42,11 +143,51 @@ export const PinterestDescription: INodeTypeDescription = {
 			type: 'options',
 			noDataExpression: true,
 			options: [
+				{
+					name: 'Ad',
+					value: 'ad',
+					description: 'Promote pins with ads inside an ad group',
+				},
+				{
+					name: 'Ad Account',
+					value: 'adAccount',
+					description: 'Look up the ad accounts you can manage',
+				},
+				{
+					name: 'Ad Group',
+					value: 'adGroup',
+					description: 'Set the budget, bid and schedule of a group of ads',
+				},
+				{
+					name: 'Audience',
+					value: 'audience',
+					description: 'Build customer list audiences from CRM data for retargeting',
+				},
 				{
 					name: 'Board',
 					value: 'board',
 					description: 'Create, update, delete, and organize Pinterest boards and collections',
 				},
+				{
+					name: 'Board Section',
+					value: 'boardSection',
+					description: 'Organize pins within a board using named sections',
+				},
+				{
+					name: 'Campaign',
+					value: 'campaign',
+					description: 'Manage ad campaigns with an objective, spend caps and schedule',
+				},
+				{
+					name: 'Catalog',
+					value: 'catalog',
+					description: 'Manage product feeds, catalog items and product groups for shopping',
+				},
+				{
+					name: 'Conversion Event',
+					value: 'conversionEvent',
+					description: 'Send web, app and offline conversions to the Conversions API',
+				},
 				{
 					name: 'Media',
 					value: 'media',
@@ -74,7 +215,7 @@ export const PinterestDescription: INodeTypeDescription = {
 		},
 
 		// ================================
-		// PIN OPERATIONS
+		// AD ACCOUNT OPERATIONS
 		// ================================
 		{
 			displayName: 'Operation',
@@ -83,47 +224,71 @@ export const PinterestDescription: INodeTypeDescription = {
 			noDataExpression: true,
 			displayOptions: {
 				show: {
-					resource: ['pin'],
+					resource: ['adAccount'],
 				},
 			},
 			options: [
 				{
-					name: 'Bulk Operations',
-					value: 'bulk',
-					description: 'Perform operations on multiple pins efficiently',
-					action: 'Bulk pin operations',
+					name: 'Get',
+					value: 'get',
+					description: 'Retrieve the details of an ad account',
+					action: 'Get an ad account',
 				},
 				{
-					name: 'Create',
-					value: 'create',
-					description: 'Create a new pin with image or video content on a board',
-					action: 'Create a pin',
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the ad accounts you own or have access to',
+					action: 'Get many ad accounts',
+				},
+			],
+			default: 'getAll',
+			hint: 'Ads operations require a Pinterest Business account with access to the ad account',
+		},
+
+		// ================================
+		// CAMPAIGN OPERATIONS
+		// ================================
+		{
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					resource: ['campaign'],
 				},
+			},
+			options: [
 				{
-					name: 'Delete',
-					value: 'delete',
-					description: 'Permanently remove a pin from Pinterest',
-					action: 'Delete a pin',
+					name: 'Create',
+					value: 'create',
+					description: 'Create a campaign with an objective, spend caps and schedule',
+					action: 'Create a campaign',
 				},
 				{
 					name: 'Get',
 					value: 'get',
-					description: 'Retrieve detailed information about a specific pin',
-					action: 'Get a pin',
+					description: 'Retrieve the details of a campaign',
+					action: 'Get a campaign',
+				},
+				{
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the campaigns of an ad account',
+					action: 'Get many campaigns',
 				},
 				{
 					name: 'Update',
 					value: 'update',
-					description: 'Modify pin title, description, board assignment, or other properties',
-					action: 'Update a pin',
+					description: "Change a campaign's status, spend caps or schedule",
+					action: 'Update a campaign',
 				},
 			],
-			default: 'create',
-			hint: 'Pin operations allow you to manage your Pinterest content programmatically',
+			default: 'getAll',
 		},
 
 		// ================================
-		// BOARD OPERATIONS
+		// AD GROUP OPERATIONS
 		// ================================
 		{
 			displayName: 'Operation',
@@ -132,47 +297,40 @@ export const PinterestDescription: INodeTypeDescription = {
 			noDataExpression: true,
 			displayOptions: {
 				show: {
-					resource: ['board'],
+					resource: ['adGroup'],
 				},
 			},
 			options: [
-				{
-					name: 'Bulk Operations',
-					value: 'bulk',
-					description: 'Perform operations on multiple boards efficiently',
-					action: 'Bulk board operations',
-				},
 				{
 					name: 'Create',
 					value: 'create',
-					description: 'Create a new board with custom privacy settings and description',
-					action: 'Create a board',
-				},
-				{
-					name: 'Delete',
-					value: 'delete',
-					description: 'Permanently remove a board and all its contained pins',
-					action: 'Delete a board',
+					description: 'Create an ad group with a budget, bid and schedule in a campaign',
+					action: 'Create an ad group',
 				},
 				{
 					name: 'Get',
 					value: 'get',
-					description: 'Retrieve board information, statistics, and metadata',
-					action: 'Get a board',
+					description: 'Retrieve the details of an ad group',
+					action: 'Get an ad group',
+				},
+				{
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the ad groups of an ad account',
+					action: 'Get many ad groups',
 				},
 				{
 					name: 'Update',
 					value: 'update',
-					description: 'Modify board name, description, privacy settings, or cover image',
-					action: 'Update a board',
+					description: "Change an ad group's status, budget, bid or schedule",
+					action: 'Update an ad group',
 				},
 			],
-			default: 'create',
-			hint: 'Boards are collections that organize your pins by topic or theme',
+			default: 'getAll',
 		},
 
 		// ================================
-		// USER OPERATIONS
+		// AD OPERATIONS
 		// ================================
 		{
 			displayName: 'Operation',
@@ -181,41 +339,40 @@ export const PinterestDescription: INodeTypeDescription = {
 			noDataExpression: true,
 			displayOptions: {
 				show: {
-					resource: ['user'],
+					resource: ['ad'],
 				},
 			},
 			options: [
 				{
-					name: 'Get Profile',
-					value: 'getProfile',
-					description: 'Retrieve your Pinterest account information and profile details',
-					action: 'Get user profile',
+					name: 'Create',
+					value: 'create',
+					description: 'Promote a pin by creating an ad for it in an ad group',
+					action: 'Create an ad',
 				},
 				{
-					name: 'Get Analytics',
-					value: 'getAnalytics',
-					description: 'Access account-level analytics including impressions and engagement',
-					action: 'Get user analytics',
+					name: 'Get',
+					value: 'get',
+					description: 'Retrieve the details of an ad',
+					action: 'Get an ad',
 				},
 				{
-					name: 'Get Pin Analytics',
-					value: 'getPinAnalytics',
-					description: 'Retrieve detailed performance metrics for a specific pin',
-					action: 'Get pin analytics',
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the ads of an ad account',
+					action: 'Get many ads',
 				},
 				{
-					name: 'Get Board Analytics',
-					value: 'getBoardAnalytics',
-					description: 'Access performance data and insights for a specific board',
-					action: 'Get board analytics',
+					name: 'Update',
+					value: 'update',
+					description: "Change an ad's status, name or destination URL",
+					action: 'Update an ad',
 				},
 			],
-			default: 'getProfile',
-			hint: 'Analytics operations require a Pinterest Business account',
+			default: 'getAll',
 		},
 
 		// ================================
-		// SEARCH OPERATIONS
+		// AUDIENCE OPERATIONS
 		// ================================
 		{
 			displayName: 'Operation',
@@ -224,35 +381,46 @@ export const PinterestDescription: INodeTypeDescription = {
 			noDataExpression: true,
 			displayOptions: {
 				show: {
-					resource: ['search'],
+					resource: ['audience'],
 				},
 			},
 			options: [
 				{
-					name: 'Search Pins',
-					value: 'pins',
-					description: 'Find pins using keywords with advanced filtering options',
-					action: 'Search pins',
+					name: 'Add Members',
+					value: 'addMembers',
+					description: 'Add the member of every input item to an audience',
+					action: 'Add members to an audience',
 				},
 				{
-					name: 'Search Boards',
-					value: 'boards',
-					description: 'Discover boards by name, description, and topic',
-					action: 'Search boards',
+					name: 'Create',
+					value: 'create',
+					description: 'Create an audience from the members of all input items',
+					action: 'Create an audience',
 				},
 				{
-					name: 'Get Trending',
-					value: 'trending',
-					description: 'Access currently trending pins and popular topics',
-					action: 'Get trending content',
+					name: 'Get',
+					value: 'get',
+					description: 'Get an audience with its match status',
+					action: 'Get an audience',
+				},
+				{
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the audiences of an ad account',
+					action: 'Get many audiences',
+				},
+				{
+					name: 'Remove Members',
+					value: 'removeMembers',
+					description: 'Remove the member of every input item from an audience',
+					action: 'Remove members from an audience',
 				},
 			],
-			default: 'pins',
-			hint: 'Search operations help you discover content and trends on Pinterest',
+			default: 'create',
 		},
 
 		// ================================
-		// MEDIA OPERATIONS
+		// CATALOG OPERATIONS
 		// ================================
 		{
 			displayName: 'Operation',
@@ -261,84 +429,478 @@ export const PinterestDescription: INodeTypeDescription = {
 			noDataExpression: true,
 			displayOptions: {
 				show: {
-					resource: ['media'],
+					resource: ['catalog'],
 				},
 			},
 			options: [
 				{
-					name: 'Upload',
-					value: 'upload',
-					description: 'Upload image or video files to Pinterest for use in pins',
-					action: 'Upload media',
+					name: 'Create Feed',
+					value: 'createFeed',
+					description: 'Register a product feed file that Pinterest fetches on a schedule',
+					action: 'Create a catalog feed',
+				},
+				{
+					name: 'Delete Items',
+					value: 'deleteItems',
+					description: 'Delete the catalog item of every input item in batches',
+					action: 'Delete catalog items',
+				},
+				{
+					name: 'Generate Feed File',
+					value: 'generateFeed',
+					description:
+						'Convert input items into a CSV, TSV or XML product feed file to host yourself',
+					action: 'Generate a catalog feed file',
+				},
+				{
+					name: 'Get Feed',
+					value: 'getFeed',
+					description: 'Retrieve a product feed by ID',
+					action: 'Get a catalog feed',
+				},
+				{
+					name: 'Get Item Batch Status',
+					value: 'getItemBatch',
+					description: 'Check whether Pinterest has processed an item batch and its item errors',
+					action: 'Get a catalog item batch status',
+				},
+				{
+					name: 'Get Many Feeds',
+					value: 'getFeeds',
+					description: 'List the product feeds of your catalogs',
+					action: 'Get many catalog feeds',
+				},
+				{
+					name: 'Get Product Groups',
+					value: 'getProductGroups',
+					description: 'List the product groups of your catalogs',
+					action: 'Get product groups',
+				},
+				{
+					name: 'Update Feed',
+					value: 'updateFeed',
+					description: "Change a product feed's location, format, defaults or status",
+					action: 'Update a catalog feed',
+				},
+				{
+					name: 'Upsert Items',
+					value: 'upsertItems',
+					description: 'Create or replace one catalog item per input item in batches',
+					action: 'Upsert catalog items',
 				},
 			],
-			default: 'upload',
-			description: 'Upload media files to Pinterest',
-			hint: 'Uploaded media can be used when creating pins. Supports images (10MB max) and videos (100MB max)',
+			default: 'getFeeds',
+			hint: 'Catalogs require a Pinterest Business account with a claimed website',
 		},
 
 		// ================================
-		// PIN OPERATION FIELDS
+		// CONVERSION EVENT OPERATIONS
 		// ================================
-
-		// Pin Create - Board Selection
 		{
-			displayName: 'Board ID',
-			name: 'boardId',
-			type: 'string',
-			required: true,
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create'],
+					resource: ['conversionEvent'],
 				},
 			},
-			default: '',
-			description: 'The unique identifier of the board where the pin will be created',
-			placeholder: '123456789012345678',
-			hint: 'You can find the board ID in the Pinterest URL or by using the Board Get operation. Board IDs are typically 18-digit numbers.',
-			validateType: 'string',
-			typeOptions: {
-				minLength: 1,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^[0-9]{10,20}$',
-							errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
-						},
-					},
-				],
-			},
+			options: [
+				{
+					name: 'Send',
+					value: 'send',
+					description: 'Send one conversion event per input item to the Conversions API',
+					action: 'Send conversion events',
+				},
+			],
+			default: 'send',
 		},
 
-		// Pin Create - Media Source Selection
+		// ================================
+		// PIN OPERATIONS
+		// ================================
 		{
-			displayName: 'Media Source',
-			name: 'mediaSource',
+			displayName: 'Operation',
+			name: 'operation',
 			type: 'options',
-			required: true,
+			noDataExpression: true,
 			displayOptions: {
 				show: {
 					resource: ['pin'],
-					operation: ['create'],
 				},
 			},
 			options: [
 				{
-					name: 'URL',
-					value: 'url',
-					description: 'Use an image or video URL from the web (recommended for web content)',
+					name: 'Bulk Operations',
+					value: 'bulk',
+					description: 'Perform operations on multiple pins efficiently',
+					action: 'Bulk pin operations',
 				},
 				{
-					name: 'Upload File',
-					value: 'upload',
-					description: 'Upload an image or video file from your local system or workflow',
+					name: 'Create',
+					value: 'create',
+					description: 'Create a new pin with image or video content on a board',
+					action: 'Create a pin',
+				},
+				{
+					name: 'Delete',
+					value: 'delete',
+					description: 'Permanently remove a pin from Pinterest',
+					action: 'Delete a pin',
+				},
+				{
+					name: 'Get',
+					value: 'get',
+					description: 'Retrieve detailed information about a specific pin',
+					action: 'Get a pin',
+				},
+				{
+					name: 'Save',
+					value: 'save',
+					description: 'Save an existing pin to one of your boards or board sections',
+					action: 'Save a pin',
+				},
+				{
+					name: 'Update',
+					value: 'update',
+					description: 'Modify pin title, description, board assignment, or other properties',
+					action: 'Update a pin',
 				},
 			],
-			default: 'url',
-			description: 'Choose how you want to provide the media content for your pin',
-			hint: 'URL is faster for web content, Upload is better for processed files',
+			default: 'create',
+			hint: 'Pin operations allow you to manage your Pinterest content programmatically',
+		},
+
+		// ================================
+		// BOARD OPERATIONS
+		// ================================
+		{
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					resource: ['board'],
+				},
+			},
+			options: [
+				{
+					name: 'Bulk Operations',
+					value: 'bulk',
+					description: 'Perform operations on multiple boards efficiently',
+					action: 'Bulk board operations',
+				},
+				{
+					name: 'Create',
+					value: 'create',
+					description: 'Create a new board with custom privacy settings and description',
+					action: 'Create a board',
+				},
+				{
+					name: 'Delete',
+					value: 'delete',
+					description: 'Permanently remove a board and all its contained pins',
+					action: 'Delete a board',
+				},
+				{
+					name: 'Get',
+					value: 'get',
+					description: 'Retrieve board information, statistics, and metadata',
+					action: 'Get a board',
+				},
+				{
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the boards of the connected account',
+					action: 'Get many boards',
+				},
+				{
+					name: 'Get Pins',
+					value: 'getPins',
+					description: 'List the pins saved on a board',
+					action: 'Get pins on a board',
+				},
+				{
+					name: 'Update',
+					value: 'update',
+					description: 'Modify board name, description, privacy settings, or cover image',
+					action: 'Update a board',
+				},
+			],
+			default: 'create',
+			hint: 'Boards are collections that organize your pins by topic or theme',
+		},
+
+		// ================================
+		// BOARD SECTION OPERATIONS
+		// ================================
+		{
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					resource: ['boardSection'],
+				},
+			},
+			options: [
+				{
+					name: 'Create',
+					value: 'create',
+					description: 'Add a new section to a board',
+					action: 'Create a board section',
+				},
+				{
+					name: 'Delete',
+					value: 'delete',
+					description: 'Permanently remove a section and the pins it contains',
+					action: 'Delete a board section',
+				},
+				{
+					name: 'Get Many',
+					value: 'getAll',
+					description: 'List the sections of a board',
+					action: 'Get many board sections',
+				},
+				{
+					name: 'Get Pins',
+					value: 'getPins',
+					description: 'List the pins saved in a board section',
+					action: 'Get pins in a board section',
+				},
+				{
+					name: 'Update',
+					value: 'update',
+					description: 'Rename a board section',
+					action: 'Update a board section',
+				},
+			],
+			default: 'getAll',
+			hint: 'Sections split a board into smaller groups of related pins',
+		},
+
+		// ================================
+		// USER OPERATIONS
+		// ================================
+		{
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+				},
+			},
+			options: [
+				{
+					name: 'Get Analytics',
+					value: 'getAnalytics',
+					description: 'Access account-level analytics including impressions and engagement',
+					action: 'Get user analytics',
+				},
+				{
+					name: 'Get Best Time to Post',
+					value: 'getBestTimeToPost',
+					description:
+						'Recommend weekdays to post on from daily analytics and the days your pins were created',
+					action: 'Get best time to post',
+				},
+				{
+					name: 'Get Board Analytics',
+					value: 'getBoardAnalytics',
+					description: 'Access performance data and insights for a specific board',
+					action: 'Get board analytics',
+				},
+				{
+					name: 'Get Pin Analytics',
+					value: 'getPinAnalytics',
+					description: 'Retrieve detailed performance metrics for a specific pin',
+					action: 'Get pin analytics',
+				},
+				{
+					name: 'Get Profile',
+					value: 'getProfile',
+					description: 'Retrieve your Pinterest account information and profile details',
+					action: 'Get user profile',
+				},
+				{
+					name: 'Get Top Pins',
+					value: 'getTopPins',
+					description: 'Rank the pins of a board or a list of pins by a metric over a date range',
+					action: 'Get top pins',
+				},
+			],
+			default: 'getProfile',
+			hint: 'Analytics operations require a Pinterest Business account',
+		},
+
+		// ================================
+		// SEARCH OPERATIONS
+		// ================================
+		{
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					resource: ['search'],
+				},
+			},
+			options: [
+				{
+					name: 'Search Pins',
+					value: 'pins',
+					description: 'Find pins using keywords with advanced filtering options',
+					action: 'Search pins',
+				},
+				{
+					name: 'Search Boards',
+					value: 'boards',
+					description: 'Discover boards by name, description, and topic',
+					action: 'Search boards',
+				},
+				{
+					name: 'Get Trending',
+					value: 'trending',
+					description: 'Access currently trending pins and popular topics',
+					action: 'Get trending content',
+				},
+			],
+			default: 'pins',
+			hint: 'Search operations help you discover content and trends on Pinterest',
+		},
+
+		// ================================
+		// MEDIA OPERATIONS
+		// ================================
+		{
+			displayName: 'Operation',
+			name: 'operation',
+			type: 'options',
+			noDataExpression: true,
+			displayOptions: {
+				show: {
+					resource: ['media'],
+				},
+			},
+			options: [
+				{
+					name: 'Upload',
+					value: 'upload',
+					description: 'Upload image or video files to Pinterest for use in pins',
+					action: 'Upload media',
+				},
+			],
+			default: 'upload',
+			description: 'Upload media files to Pinterest',
+			hint: 'Uploaded media can be used when creating pins. Supports images (10MB max) and videos (100MB max)',
+		},
+
+		// ================================
+		// PIN OPERATION FIELDS
+		// ================================
+
+		// Pin Create - Board Selection
+		{
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'save'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The board where the pin will be created or saved',
+			hint: 'Pick one of your boards, paste its pinterest.com URL, or enter its ID. Board IDs are typically 18-digit numbers.',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+
+		// Pin Create - Media Source Selection
+		{
+			displayName: 'Media Source',
+			name: 'mediaSource',
+			type: 'options',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					name: 'Carousel From Binary Files',
+					value: 'multipleUploads',
+					description: 'Create a carousel from 2 to 5 images in binary properties of the item',
+				},
+				{
+					name: 'Carousel From URLs',
+					value: 'multipleUrls',
+					description: 'Create a carousel from 2 to 5 image URLs',
+				},
+				{
+					name: 'URL',
+					value: 'url',
+					description: 'Use an image or video URL from the web (recommended for web content)',
+				},
+				{
+					name: 'Upload File',
+					value: 'upload',
+					description: 'Upload an image or video file from your local system or workflow',
+				},
+			],
+			default: 'url',
+			description: 'Choose how you want to provide the media content for your pin',
+			hint: 'URL is faster for web content, Upload is better for processed files',
 		},
 
 		// Pin Create - Media URL
@@ -382,691 +944,4265 @@ export const PinterestDescription: INodeTypeDescription = {
 			required: true,
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create'],
-					mediaSource: ['upload'],
+					resource: ['pin'],
+					operation: ['create'],
+					mediaSource: ['upload'],
+				},
+			},
+			default: 'data',
+			description: 'Name of the binary property containing the media file from previous node',
+			placeholder: 'data',
+			hint: 'This should match the property name from a previous node that provides binary data',
+		},
+
+		// Pin Create - Video Cover
+		{
+			displayName: 'Video Cover',
+			name: 'videoCover',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create'],
+					mediaSource: ['url', 'upload'],
+				},
+			},
+			options: [
+				{
+					name: 'Binary File',
+					value: 'upload',
+					description: 'Use a JPEG or PNG image from a binary property of the item',
+				},
+				{
+					name: 'Image URL',
+					value: 'url',
+					description: 'Use a JPEG or PNG image from a URL',
+				},
+				{
+					name: 'Key Frame',
+					value: 'keyFrame',
+					description: 'Use the frame of the video at a given time',
+				},
+				{
+					name: 'Pinterest Default',
+					value: 'default',
+					description: 'Let Pinterest pick a frame',
+				},
+			],
+			default: 'default',
+			description: 'Cover image shown before the video plays',
+			hint: 'Only used when the media is a video',
+		},
+		{
+			displayName: 'Cover Image URL',
+			name: 'coverImageUrl',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create'],
+					mediaSource: ['url', 'upload'],
+					videoCover: ['url'],
+				},
+			},
+			default: '',
+			placeholder: 'https://example.com/cover.jpg',
+			description: 'Publicly accessible URL of the cover image',
+		},
+		{
+			displayName: 'Cover Binary Property Name',
+			name: 'coverBinaryPropertyName',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create'],
+					mediaSource: ['url', 'upload'],
+					videoCover: ['upload'],
+				},
+			},
+			default: 'cover',
+			description: 'Name of the binary property holding the cover image',
+		},
+		{
+			displayName: 'Cover Key Frame Time',
+			name: 'coverKeyFrameTime',
+			type: 'number',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create'],
+					mediaSource: ['url', 'upload'],
+					videoCover: ['keyFrame'],
+				},
+			},
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 2,
+			},
+			default: 0,
+			description: 'Time of the cover frame in seconds from the start of the video',
+		},
+
+		// Pin Create - Carousel Slides
+		{
+			displayName: 'Slides',
+			name: 'carouselSlides',
+			type: 'fixedCollection',
+			placeholder: 'Add Slide',
+			required: true,
+			typeOptions: {
+				multipleValues: true,
+				sortable: true,
+			},
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create'],
+					mediaSource: ['multipleUrls', 'multipleUploads'],
+				},
+			},
+			default: {},
+			description: 'Images of the carousel in the order they are shown',
+			hint: 'Add 2 to 5 JPEG or PNG images that all have a 1:1 or all have a 2:3 aspect ratio',
+			options: [
+				{
+					displayName: 'Slide',
+					name: 'slides',
+					values: [
+						{
+							displayName: 'Binary Property Name',
+							name: 'binaryPropertyName',
+							type: 'string',
+							displayOptions: {
+								show: {
+									'/mediaSource': ['multipleUploads'],
+								},
+							},
+							default: 'data',
+							description: 'Name of the binary property holding the slide image',
+						},
+						{
+							displayName: 'Description',
+							name: 'description',
+							type: 'string',
+							default: '',
+							description: 'Description shown with this slide',
+							typeOptions: {
+								maxLength: 500,
+							},
+						},
+						{
+							displayName: 'Image URL',
+							name: 'imageUrl',
+							type: 'string',
+							displayOptions: {
+								show: {
+									'/mediaSource': ['multipleUrls'],
+								},
+							},
+							default: '',
+							placeholder: 'https://example.com/image.jpg',
+							description: 'Publicly accessible URL of the slide image',
+						},
+						{
+							displayName: 'Link',
+							name: 'link',
+							type: 'string',
+							default: '',
+							placeholder: 'https://example.com/product',
+							description: 'URL users are sent to from this slide',
+						},
+						{
+							displayName: 'Title',
+							name: 'title',
+							type: 'string',
+							default: '',
+							description: 'Title shown with this slide',
+							typeOptions: {
+								maxLength: 100,
+							},
+						},
+					],
+				},
+			],
+		},
+
+		// Pin Content Fields Section
+		{
+			displayName: 'Pin Content & Details',
+			name: 'pinContentNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'update'],
+				},
+			},
+			default:
+				"Configure your pin's content, including title, description, and destination link. All fields except title are optional but recommended for better engagement.",
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+
+		{
+			displayName: 'Title',
+			name: 'title',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'Pin title (optional but highly recommended for SEO and discoverability)',
+			placeholder: 'Enter a descriptive and engaging title...',
+			hint: 'Good titles help your pins get discovered in search results',
+			typeOptions: {
+				maxLength: 100,
+			},
+		},
+
+		{
+			displayName: 'Description',
+			name: 'description',
+			type: 'string',
+			typeOptions: {
+				rows: 4,
+				maxLength: 500,
+			},
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'Pin description with hashtags and mentions (up to 500 characters)',
+			placeholder: 'Describe your pin content and add relevant #hashtags...',
+			hint: 'Use hashtags (#) and mentions (@) to increase discoverability',
+		},
+
+		{
+			displayName: 'Destination Link',
+			name: 'link',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'URL where users will be directed when they click on the pin (optional)',
+			placeholder: 'https://your-website.com/page',
+			hint: 'Adding a link can drive traffic to your website or blog',
+		},
+
+		{
+			displayName: 'Alt Text',
+			name: 'altText',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'Alternative text for accessibility and screen readers (recommended)',
+			placeholder: 'Describe the visual content of your pin...',
+			hint: 'Alt text helps visually impaired users understand your content',
+			typeOptions: {
+				maxLength: 500,
+			},
+		},
+
+		{
+			displayName: 'Board Section',
+			name: 'boardSectionId',
+			type: 'resourceLocator',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['create', 'update', 'save'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'Section of the board to place the pin in (optional)',
+			hint: 'The list shows the sections of the selected board. When updating, provide the Board ID as well if the section belongs to a different board.',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a section...',
+					typeOptions: {
+						searchListMethod: 'searchBoardSections',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Section ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+
+		// Pin Get/Update/Delete/Save Fields
+		{
+			displayName: 'Pin',
+			name: 'pinId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['get', 'update', 'delete', 'save'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The pin to use',
+			hint: 'Pick one of your recent pins, paste its pinterest.com URL, or enter its ID. Pin IDs are typically 18-digit numbers.',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a pin...',
+					typeOptions: {
+						searchListMethod: 'searchPins',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/pin/123456789012345678/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PIN_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest pin URL',
+							},
+						},
+					],
+					extractValue: {
+						type: 'regex',
+						regex: PIN_URL_REGEX,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Pin ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+
+		// Pin Get Options
+		{
+			displayName: 'Options',
+			name: 'pinOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['get'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Ad Account ID',
+					name: 'adAccountId',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., 549755885175',
+					description:
+						'Request the pin as this ad account, for pins the account can access but you do not own',
+				},
+				{
+					displayName: 'Include Metrics',
+					name: 'pinMetrics',
+					type: 'boolean',
+					default: false,
+					description:
+						'Whether to include the lifetime and last 90 days impressions, pin clicks and outbound clicks of the pin',
+					hint: 'Lifetime reactions and comments are included as well. Metrics are only returned for pins you own.',
+				},
+			],
+		},
+
+		// Board Configuration Notice
+		{
+			displayName: 'Board Configuration',
+			name: 'boardConfigNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['create', 'update'],
+				},
+			},
+			default:
+				'Configure your board settings. Board name is required, while description and privacy settings help organize and control access to your content.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+
+		// Board Create Fields
+		{
+			displayName: 'Board Name',
+			name: 'name',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'Name of the board (required, 1-180 characters)',
+			placeholder: 'My Awesome Board',
+			hint: "Choose a descriptive name that reflects the board's content theme",
+			validateType: 'string',
+			typeOptions: {
+				minLength: 1,
+				maxLength: 180,
+				validation: [
+					{
+						type: 'regex',
+						properties: {
+							regex: '^.{1,180}$',
+							errorMessage: 'Board name must be between 1 and 180 characters',
+						},
+					},
+				],
+			},
+		},
+		{
+			displayName: 'Board Description',
+			name: 'description',
+			type: 'string',
+			typeOptions: {
+				rows: 2,
+			},
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'Description of the board content and purpose (optional)',
+			placeholder: 'Describe what this board is about...',
+		},
+		{
+			displayName: 'Privacy',
+			name: 'privacy',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['create', 'update'],
+				},
+			},
+			options: [
+				{
+					name: 'Public',
+					value: 'public',
+					description: 'Anyone can see this board',
+				},
+				{
+					name: 'Protected',
+					value: 'protected',
+					description: 'Only you and collaborators can see this board',
+				},
+				{
+					name: 'Secret',
+					value: 'secret',
+					description: 'Only you can see this board',
+				},
+			],
+			default: 'public',
+			description: 'Privacy setting for the board',
+		},
+
+		// Board Get/Get Pins/Update/Delete Fields
+		{
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['get', 'getPins', 'update', 'delete'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The board to use',
+			hint: 'Pick one of your boards, paste its pinterest.com URL, or enter its ID. Board IDs are typically 18-digit numbers.',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+
+		// Board Section Fields
+		{
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['boardSection'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The board that owns the sections',
+			hint: 'Pick one of your boards, paste its pinterest.com URL, or enter its ID. Board IDs are typically 18-digit numbers.',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Section',
+			name: 'sectionId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['boardSection'],
+					operation: ['update', 'delete', 'getPins'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The board section to use',
+			hint: 'The list shows the sections of the selected board. Section IDs are also returned by the "Get Many" operation.',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a section...',
+					typeOptions: {
+						searchListMethod: 'searchBoardSections',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Section ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Section Name',
+			name: 'sectionName',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['boardSection'],
+					operation: ['create', 'update'],
+				},
+			},
+			default: '',
+			description: 'Name of the section (1-180 characters)',
+			placeholder: 'Spring Collection',
+			typeOptions: {
+				minLength: 1,
+				maxLength: 180,
+			},
+		},
+		{
+			displayName: 'Confirm Delete',
+			name: 'confirmDelete',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					resource: ['boardSection'],
+					operation: ['delete'],
+				},
+			},
+			default: false,
+			description: 'Whether to confirm that you want to permanently delete the section',
+			hint: 'Deleting a section also deletes the pins saved in it. This action cannot be undone.',
+		},
+
+		// Board and Board Section List Fields
+		{
+			displayName: 'Privacy Filter',
+			name: 'privacyFilter',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['getAll'],
+				},
+			},
+			options: [
+				{
+					name: 'All',
+					value: 'ALL',
+					description: 'Return boards of every privacy setting',
+				},
+				{
+					name: 'Protected',
+					value: 'PROTECTED',
+					description: 'Only return protected boards',
+				},
+				{
+					name: 'Public',
+					value: 'PUBLIC',
+					description: 'Only return public boards',
+				},
+				{
+					name: 'Public and Secret',
+					value: 'PUBLIC_AND_SECRET',
+					description: 'Return public and secret boards',
+				},
+				{
+					name: 'Secret',
+					value: 'SECRET',
+					description: 'Only return secret boards',
+				},
+			],
+			default: 'ALL',
+			description: 'Which boards to return based on their privacy setting',
+		},
+		{
+			displayName: 'Return All',
+			name: 'returnAll',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					resource: [
+						'board',
+						'boardSection',
+						'adAccount',
+						'campaign',
+						'adGroup',
+						'ad',
+						'audience',
+						'catalog',
+					],
+					operation: ['getAll', 'getPins', 'getFeeds', 'getProductGroups'],
+				},
+			},
+			default: false,
+			description: 'Whether to return all results or only up to a given limit',
+		},
+		{
+			displayName: 'Limit',
+			name: 'limit',
+			type: 'number',
+			displayOptions: {
+				show: {
+					resource: [
+						'board',
+						'boardSection',
+						'adAccount',
+						'campaign',
+						'adGroup',
+						'ad',
+						'audience',
+						'catalog',
+					],
+					operation: ['getAll', 'getPins', 'getFeeds', 'getProductGroups'],
+					returnAll: [false],
+				},
+			},
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 50,
+			description: 'Max number of results to return',
+		},
+
+		// Ads Fields
+		{
+			displayName: 'Ads Requirements',
+			name: 'adsNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['adAccount', 'campaign', 'adGroup', 'ad'],
+				},
+			},
+			default:
+				'Ads operations need the ads:read and ads:write scopes. Reconnect credentials created before ads support was added. Budgets, bids and spend caps are entered in the ad account currency.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+		{
+			displayName: 'Ad Account',
+			name: 'adAccountId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['adAccount'],
+					operation: ['get'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The ad account to work with',
+			hint: 'Pick one of the ad accounts you can access or enter its ID',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select an ad account...',
+					typeOptions: {
+						searchListMethod: 'searchAdAccounts',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 549755885175',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: '^[0-9]+$',
+								errorMessage: 'Ad account ID must be a numeric string',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Ad Account',
+			name: 'adAccountId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['campaign', 'adGroup', 'ad', 'conversionEvent', 'audience'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The ad account to work with',
+			hint: 'Pick one of the ad accounts you can access or enter its ID',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select an ad account...',
+					typeOptions: {
+						searchListMethod: 'searchAdAccounts',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 549755885175',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: '^[0-9]+$',
+								errorMessage: 'Ad account ID must be a numeric string',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Campaign ID',
+			name: 'campaignId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['campaign'],
+					operation: ['get', 'update'],
+				},
+			},
+			default: '',
+			description: 'ID of the campaign',
+			placeholder: '626735565838',
+		},
+		{
+			displayName: 'Campaign ID',
+			name: 'campaignId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['adGroup'],
+					operation: ['create'],
+				},
+			},
+			default: '',
+			description: 'ID of the campaign the ad group belongs to',
+			placeholder: '626735565838',
+		},
+		{
+			displayName: 'Ad Group ID',
+			name: 'adGroupId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['adGroup'],
+					operation: ['get', 'update'],
+				},
+			},
+			default: '',
+			description: 'ID of the ad group',
+			placeholder: '2680059592705',
+		},
+		{
+			displayName: 'Ad Group ID',
+			name: 'adGroupId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['ad'],
+					operation: ['create'],
+				},
+			},
+			default: '',
+			description: 'ID of the ad group the ad belongs to',
+			placeholder: '2680059592705',
+		},
+		{
+			displayName: 'Ad ID',
+			name: 'adId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['ad'],
+					operation: ['get', 'update'],
+				},
+			},
+			default: '',
+			description: 'ID of the ad',
+			placeholder: '687195134316',
+		},
+		{
+			displayName: 'Name',
+			name: 'name',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['campaign', 'adGroup'],
+					operation: ['create'],
+				},
+			},
+			default: '',
+			description: 'Name shown in Ads Manager',
+			placeholder: 'Spring Sale 2025',
+		},
+		{
+			displayName: 'Objective',
+			name: 'objectiveType',
+			type: 'options',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['campaign'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					name: 'Awareness',
+					value: 'AWARENESS',
+					description: 'Reach as many people as possible',
+				},
+				{
+					name: 'Catalog Sales',
+					value: 'CATALOG_SALES',
+					description: 'Promote products from your catalog',
+				},
+				{
+					name: 'Consideration',
+					value: 'CONSIDERATION',
+					description: 'Drive clicks to your website',
+				},
+				{
+					name: 'Video Completion',
+					value: 'VIDEO_COMPLETION',
+					description: 'Get people to watch videos to the end',
+				},
+				{
+					name: 'Video View',
+					value: 'VIDEO_VIEW',
+					description: 'Get more video views',
+				},
+				{
+					name: 'Web Conversion',
+					value: 'WEB_CONVERSION',
+					description: 'Drive conversions on your website',
+				},
+				{
+					name: 'Web Sessions',
+					value: 'WEB_SESSIONS',
+					description: 'Drive sessions on your website',
+				},
+			],
+			default: 'AWARENESS',
+			description: 'What the campaign optimizes for. It cannot be changed after creation.',
+		},
+		{
+			displayName: 'Billable Event',
+			name: 'billableEvent',
+			type: 'options',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['adGroup'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					name: 'Click',
+					value: 'CLICKTHROUGH',
+				},
+				{
+					name: 'Impression',
+					value: 'IMPRESSION',
+				},
+				{
+					name: 'Video View',
+					value: 'VIDEO_V_50_MRC',
+				},
+			],
+			default: 'IMPRESSION',
+			description: 'The event you are charged for. It must fit the campaign objective.',
+		},
+		{
+			displayName: 'Pin',
+			name: 'pinId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['ad'],
+					operation: ['create'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The pin to promote',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a pin...',
+					typeOptions: {
+						searchListMethod: 'searchPins',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/pin/123456789012345678/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PIN_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest pin URL',
+							},
+						},
+					],
+					extractValue: {
+						type: 'regex',
+						regex: PIN_URL_REGEX,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Pin ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Creative Type',
+			name: 'creativeType',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['ad'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					name: 'Carousel',
+					value: 'CAROUSEL',
+				},
+				{
+					name: 'Idea',
+					value: 'IDEA',
+				},
+				{
+					name: 'Max Width Video',
+					value: 'MAX_VIDEO',
+				},
+				{
+					name: 'Regular',
+					value: 'REGULAR',
+				},
+				{
+					name: 'Shopping',
+					value: 'SHOPPING',
+				},
+				{
+					name: 'Video',
+					value: 'VIDEO',
+				},
+			],
+			default: 'REGULAR',
+			description: 'Ad format. It must match the type of the promoted pin.',
+		},
+		{
+			displayName: 'Additional Fields',
+			name: 'additionalFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['campaign'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Daily Spend Cap',
+					name: 'dailySpendCap',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description: 'Maximum spend per day, in the ad account currency',
+				},
+				{
+					displayName: 'End Time',
+					name: 'endTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery ends',
+				},
+				{
+					displayName: 'Lifetime Spend Cap',
+					name: 'lifetimeSpendCap',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description: 'Maximum total spend, in the ad account currency',
+				},
+				{
+					displayName: 'Start Time',
+					name: 'startTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery starts. Defaults to now.',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Delivery status; archived entities cannot be reactivated',
+				},
+			],
+		},
+		{
+			displayName: 'Update Fields',
+			name: 'updateFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['campaign'],
+					operation: ['update'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Daily Spend Cap',
+					name: 'dailySpendCap',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description: 'Maximum spend per day, in the ad account currency',
+				},
+				{
+					displayName: 'End Time',
+					name: 'endTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery ends',
+				},
+				{
+					displayName: 'Lifetime Spend Cap',
+					name: 'lifetimeSpendCap',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description: 'Maximum total spend, in the ad account currency',
+				},
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					description: 'New name',
+				},
+				{
+					displayName: 'Start Time',
+					name: 'startTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery starts. Defaults to now.',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Delivery status; archived entities cannot be reactivated',
+				},
+			],
+		},
+		{
+			displayName: 'Additional Fields',
+			name: 'additionalFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['adGroup'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Auto Targeting',
+					name: 'autoTargetingEnabled',
+					type: 'boolean',
+					default: true,
+					description: 'Whether Pinterest may expand targeting to people likely to engage',
+				},
+				{
+					displayName: 'Bid',
+					name: 'bid',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description:
+						'Bid per billable event, in the ad account currency. Leave unset for automatic bidding.',
+				},
+				{
+					displayName: 'Budget',
+					name: 'budget',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description:
+						'Daily or lifetime budget depending on the budget type, in the ad account currency',
+				},
+				{
+					displayName: 'Budget Type',
+					name: 'budgetType',
+					type: 'options',
+					options: [
+						{
+							name: 'Daily',
+							value: 'DAILY',
+						},
+						{
+							name: 'Lifetime',
+							value: 'LIFETIME',
+						},
+					],
+					default: 'DAILY',
+					description:
+						'Whether the budget applies per day or to the whole schedule. Lifetime budgets need an end time.',
+				},
+				{
+					displayName: 'End Time',
+					name: 'endTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery ends',
+				},
+				{
+					displayName: 'Start Time',
+					name: 'startTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery starts. Defaults to now.',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Delivery status; archived entities cannot be reactivated',
+				},
+			],
+		},
+		{
+			displayName: 'Update Fields',
+			name: 'updateFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['adGroup'],
+					operation: ['update'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Auto Targeting',
+					name: 'autoTargetingEnabled',
+					type: 'boolean',
+					default: true,
+					description: 'Whether Pinterest may expand targeting to people likely to engage',
+				},
+				{
+					displayName: 'Bid',
+					name: 'bid',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description:
+						'Bid per billable event, in the ad account currency. Leave unset for automatic bidding.',
+				},
+				{
+					displayName: 'Budget',
+					name: 'budget',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description:
+						'Daily or lifetime budget depending on the budget type, in the ad account currency',
+				},
+				{
+					displayName: 'End Time',
+					name: 'endTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery ends',
+				},
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					description: 'New name',
+				},
+				{
+					displayName: 'Start Time',
+					name: 'startTime',
+					type: 'dateTime',
+					default: '',
+					description: 'When delivery starts. Defaults to now.',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Delivery status; archived entities cannot be reactivated',
+				},
+			],
+		},
+		{
+			displayName: 'Additional Fields',
+			name: 'additionalFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['ad'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Destination URL',
+					name: 'destinationUrl',
+					type: 'string',
+					default: '',
+					placeholder: 'https://example.com/landing-page',
+					description: 'Where people go when they click the ad. Defaults to the pin link.',
+				},
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					description: 'Name of the ad shown in Ads Manager',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Delivery status; archived entities cannot be reactivated',
+				},
+			],
+		},
+		{
+			displayName: 'Update Fields',
+			name: 'updateFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['ad'],
+					operation: ['update'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Destination URL',
+					name: 'destinationUrl',
+					type: 'string',
+					default: '',
+					placeholder: 'https://example.com/landing-page',
+					description: 'Where people go when they click the ad. Defaults to the pin link.',
+				},
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					description: 'Name of the ad shown in Ads Manager',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Delivery status; archived entities cannot be reactivated',
+				},
+			],
+		},
+		{
+			displayName: 'Filters',
+			name: 'adsFilters',
+			type: 'collection',
+			placeholder: 'Add Filter',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['campaign'],
+					operation: ['getAll'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Campaign IDs',
+					name: 'campaignIds',
+					type: 'string',
+					default: '',
+					placeholder: '626735565838, 626735565839',
+					description: 'Comma-separated campaign IDs to limit the results to',
+				},
+				{
+					displayName: 'Statuses',
+					name: 'entityStatuses',
+					type: 'multiOptions',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: [],
+					description: 'Only return entities with these statuses',
+				},
+			],
+		},
+		{
+			displayName: 'Filters',
+			name: 'adsFilters',
+			type: 'collection',
+			placeholder: 'Add Filter',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['adGroup', 'ad'],
+					operation: ['getAll'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Ad Group IDs',
+					name: 'adGroupIds',
+					type: 'string',
+					default: '',
+					placeholder: '626735565838, 626735565839',
+					description: 'Comma-separated ad group IDs to limit the results to',
+				},
+				{
+					displayName: 'Campaign IDs',
+					name: 'campaignIds',
+					type: 'string',
+					default: '',
+					placeholder: '626735565838, 626735565839',
+					description: 'Comma-separated campaign IDs to limit the results to',
+				},
+				{
+					displayName: 'Statuses',
+					name: 'entityStatuses',
+					type: 'multiOptions',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Archived',
+							value: 'ARCHIVED',
+						},
+						{
+							name: 'Paused',
+							value: 'PAUSED',
+						},
+					],
+					default: [],
+					description: 'Only return entities with these statuses',
+				},
+			],
+		},
+
+		// Catalog Fields
+		{
+			displayName: 'Catalogs',
+			name: 'catalogNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+				},
+			},
+			default:
+				'Catalog operations need the catalogs:read and catalogs:write scopes. Reconnect credentials created before catalog support was added. Item upserts and deletes are processed by Pinterest in the background; use Get Item Batch Status or Wait for Completion to see the result of each item.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+		{
+			displayName: 'Feed ID',
+			name: 'feedId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['getFeed', 'updateFeed'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., 2680059592705',
+			description: 'ID of the product feed',
+		},
+		{
+			displayName: 'Feed ID',
+			name: 'feedId',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['getProductGroups'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., 2680059592705',
+			description: 'Only return the product groups of this feed. Leave empty for all feeds.',
+		},
+		{
+			displayName: 'Feed Name',
+			name: 'feedName',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['createFeed'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., Spring Collection',
+			description: 'Name of the product feed',
+		},
+		{
+			displayName: 'Feed Format',
+			name: 'feedFormat',
+			type: 'options',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['createFeed', 'generateFeed'],
+				},
+			},
+			options: [
+				{
+					name: 'CSV',
+					value: 'CSV',
+				},
+				{
+					name: 'TSV',
+					value: 'TSV',
+				},
+				{
+					name: 'XML (RSS)',
+					value: 'XML',
+				},
+			],
+			default: 'CSV',
+			description: 'File format of the product feed',
+		},
+		{
+			displayName: 'Feed File',
+			name: 'generateFeedNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['generateFeed'],
+				},
+			},
+			default:
+				'Each input item becomes one row of the feed file. Item ID, Title, Description, Link, Image Link, Price and Availability are required. Rows that break the feed rules are left out and listed on the Row Errors output.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+		{
+			displayName: 'File Name',
+			name: 'feedFileName',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['generateFeed'],
+				},
+			},
+			default: 'pinterest-catalog',
+			description: 'Name of the feed file, without extension. Read from the first item.',
+		},
+		{
+			displayName: 'Put Output File in Field',
+			name: 'binaryPropertyName',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['generateFeed'],
+				},
+			},
+			default: 'data',
+			hint: 'The name of the output binary field to put the file in',
+		},
+		{
+			displayName: 'Feed Location',
+			name: 'feedLocation',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['createFeed'],
+				},
+			},
+			default: '',
+			placeholder: 'https://example.com/feeds/products.csv',
+			description: 'HTTP, HTTPS, FTP or SFTP URL Pinterest downloads the feed file from',
+		},
+		{
+			displayName: 'Default Locale',
+			name: 'defaultLocale',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['createFeed'],
+				},
+			},
+			default: 'en-US',
+			description: 'Language and country of the feed items, such as en-US',
+		},
+		{
+			displayName: 'Default Country',
+			name: 'defaultCountry',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['createFeed'],
+				},
+			},
+			default: 'US',
+			description: 'Two-letter code of the country the feed items are sold in',
+		},
+		{
+			displayName: 'Additional Fields',
+			name: 'additionalFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['createFeed'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Default Availability',
+					name: 'defaultAvailability',
+					type: 'options',
+					options: [
+						{
+							name: 'In Stock',
+							value: 'IN_STOCK',
+						},
+						{
+							name: 'Out of Stock',
+							value: 'OUT_OF_STOCK',
+						},
+						{
+							name: 'Preorder',
+							value: 'PREORDER',
+						},
+					],
+					default: 'IN_STOCK',
+					description: 'Availability of items that do not set their own',
+				},
+				{
+					displayName: 'Default Currency',
+					name: 'defaultCurrency',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., USD',
+					description: 'Three-letter code of the currency of prices without one',
+				},
+			],
+		},
+		{
+			displayName: 'Update Fields',
+			name: 'updateFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['updateFeed'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Default Availability',
+					name: 'defaultAvailability',
+					type: 'options',
+					options: [
+						{
+							name: 'In Stock',
+							value: 'IN_STOCK',
+						},
+						{
+							name: 'Out of Stock',
+							value: 'OUT_OF_STOCK',
+						},
+						{
+							name: 'Preorder',
+							value: 'PREORDER',
+						},
+					],
+					default: 'IN_STOCK',
+					description: 'Availability of items that do not set their own',
+				},
+				{
+					displayName: 'Default Currency',
+					name: 'defaultCurrency',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., USD',
+					description: 'Three-letter code of the currency of prices without one',
+				},
+				{
+					displayName: 'Default Locale',
+					name: 'defaultLocale',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., en-US',
+					description: 'Language and country of the feed items',
+				},
+				{
+					displayName: 'Feed Format',
+					name: 'format',
+					type: 'options',
+					options: [
+						{
+							name: 'CSV',
+							value: 'CSV',
+						},
+						{
+							name: 'TSV',
+							value: 'TSV',
+						},
+						{
+							name: 'XML (RSS)',
+							value: 'XML',
+						},
+					],
+					default: 'CSV',
+					description: 'File format of the product feed',
+				},
+				{
+					displayName: 'Feed Location',
+					name: 'location',
+					type: 'string',
+					default: '',
+					placeholder: 'https://example.com/feeds/products.csv',
+					description: 'URL Pinterest downloads the feed file from',
+				},
+				{
+					displayName: 'Feed Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					description: 'New name of the product feed',
+				},
+				{
+					displayName: 'Status',
+					name: 'status',
+					type: 'options',
+					options: [
+						{
+							name: 'Active',
+							value: 'ACTIVE',
+						},
+						{
+							name: 'Inactive',
+							value: 'INACTIVE',
+						},
+					],
+					default: 'ACTIVE',
+					description: 'Whether Pinterest keeps fetching the feed',
+				},
+			],
+		},
+		{
+			displayName: 'Country',
+			name: 'catalogCountry',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['upsertItems', 'deleteItems'],
+				},
+			},
+			default: 'US',
+			description:
+				'Two-letter code of the country the items are sold in. Read from the first item.',
+		},
+		{
+			displayName: 'Language',
+			name: 'catalogLanguage',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['upsertItems', 'deleteItems'],
+				},
+			},
+			default: 'EN',
+			description: 'Two-letter code of the language of the items. Read from the first item.',
+		},
+		{
+			displayName: 'Item ID',
+			name: 'itemId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['upsertItems', 'deleteItems', 'generateFeed'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., {{ $json.sku }}',
+			description: 'Your unique ID of the item, usually its SKU',
+		},
+		{
+			displayName: 'Item Attributes',
+			name: 'catalogItemAttributes',
+			type: 'collection',
+			placeholder: 'Add Attribute',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['upsertItems', 'generateFeed'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Additional Attributes (JSON)',
+					name: 'additionalAttributes',
+					type: 'json',
+					default: '{}',
+					description:
+						'Other catalog attributes by their API name, such as {"color": "Red"}. Fields set above take precedence.',
+				},
+				{
+					displayName: 'Availability',
+					name: 'availability',
+					type: 'options',
+					options: [
+						{
+							name: 'In Stock',
+							value: 'in stock',
+						},
+						{
+							name: 'Out of Stock',
+							value: 'out of stock',
+						},
+						{
+							name: 'Preorder',
+							value: 'preorder',
+						},
+					],
+					default: 'in stock',
+				},
+				{
+					displayName: 'Brand',
+					name: 'brand',
+					type: 'string',
+					default: '',
+				},
+				{
+					displayName: 'Condition',
+					name: 'condition',
+					type: 'options',
+					options: [
+						{
+							name: 'New',
+							value: 'new',
+						},
+						{
+							name: 'Refurbished',
+							value: 'refurbished',
+						},
+						{
+							name: 'Used',
+							value: 'used',
+						},
+					],
+					default: 'new',
+				},
+				{
+					displayName: 'Description',
+					name: 'description',
+					type: 'string',
+					typeOptions: {
+						rows: 3,
+					},
+					default: '',
+				},
+				{
+					displayName: 'Google Product Category',
+					name: 'googleProductCategory',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., Apparel & Accessories > Clothing',
+				},
+				{
+					displayName: 'Image Link',
+					name: 'imageLink',
+					type: 'string',
+					default: '',
+					placeholder: 'https://example.com/images/item.jpg',
+					description: 'URL of the item image. Separate several images with commas.',
+				},
+				{
+					displayName: 'Item Group ID',
+					name: 'itemGroupId',
+					type: 'string',
+					default: '',
+					description: 'Groups variants of the same product, such as sizes and colors',
+				},
+				{
+					displayName: 'Link',
+					name: 'link',
+					type: 'string',
+					default: '',
+					placeholder: 'https://example.com/products/item',
+					description: 'URL of the product page',
+				},
+				{
+					displayName: 'Price',
+					name: 'price',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., 24.99 USD',
+					description: 'Price with its currency code',
+				},
+				{
+					displayName: 'Product Type',
+					name: 'productType',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., Dresses > Maxi',
+					description: 'Your own category of the item',
+				},
+				{
+					displayName: 'Sale Price',
+					name: 'salePrice',
+					type: 'string',
+					default: '',
+					placeholder: 'e.g., 19.99 USD',
+					description: 'Discounted price with its currency code',
+				},
+				{
+					displayName: 'Title',
+					name: 'title',
+					type: 'string',
+					default: '',
+				},
+			],
+		},
+		{
+			displayName: 'Options',
+			name: 'catalogItemOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['upsertItems', 'deleteItems'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Batch Size',
+					name: 'batchSize',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+						maxValue: 1000,
+					},
+					default: 1000,
+					description: 'Maximum number of items per batch request. Read from the first item.',
+				},
+				{
+					displayName: 'Poll Interval (Seconds)',
+					name: 'pollInterval',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: 5,
+					description: 'How often to check the batch status while waiting',
+				},
+				{
+					displayName: 'Processing Timeout (Seconds)',
+					name: 'processingTimeout',
+					type: 'number',
+					typeOptions: {
+						minValue: 10,
+					},
+					default: 300,
+					description:
+						'How long to wait for a batch. Items of batches still processing are returned with the PROCESSING status.',
+				},
+				{
+					displayName: 'Wait for Completion',
+					name: 'waitForCompletion',
+					type: 'boolean',
+					default: false,
+					description:
+						'Whether to wait until Pinterest has processed each batch and return the result of every item',
+				},
+			],
+		},
+		{
+			displayName: 'Batch ID',
+			name: 'batchId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['catalog'],
+					operation: ['getItemBatch'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., 595953100599279259-66753b9bb65c46c49bd8503b27fecf9e',
+			description: 'ID returned when the items were upserted or deleted',
+		},
+
+		// Audience Fields
+		{
+			displayName: 'Audience Members',
+			name: 'audienceNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['create', 'addMembers', 'removeMembers'],
+				},
+			},
+			default:
+				'Each input item adds one member, or several when the identifier holds a comma-separated list. Identifiers are normalized and SHA-256 hashed before they are sent, in chunks of up to 5000 per request. Pinterest needs a few hours to match the members before the audience size is known.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+		{
+			displayName: 'Audience Name',
+			name: 'audienceName',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['create'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., Newsletter subscribers',
+			description: 'Name of the audience and its customer list. Read from the first item.',
+		},
+		{
+			displayName: 'List Type',
+			name: 'audienceListType',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					name: 'Email',
+					value: 'EMAIL',
+				},
+				{
+					name: 'Mobile Advertising ID',
+					value: 'MAID',
+					description: 'Apple IDFA or Google advertising ID',
+				},
+			],
+			default: 'EMAIL',
+			description: 'Type of identifier the members are matched by',
+		},
+		{
+			displayName: 'Audience ID',
+			name: 'audienceId',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['get', 'addMembers', 'removeMembers'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., 2542620639259',
+			description: 'ID of a customer list audience',
+		},
+		{
+			displayName: 'Member Identifier',
+			name: 'audienceMember',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['create', 'addMembers', 'removeMembers'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g., {{ $json.email }}',
+			description:
+				'Email address or mobile advertising ID of the member, matching the list type. Values that already are SHA-256 hashes are sent as they are.',
+		},
+		{
+			displayName: 'Additional Fields',
+			name: 'additionalFields',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['create'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Description',
+					name: 'description',
+					type: 'string',
+					default: '',
+					description: 'Description of the audience',
+				},
+			],
+		},
+		{
+			displayName: 'Options',
+			name: 'audienceOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['audience'],
+					operation: ['create', 'addMembers', 'removeMembers'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Batch Size',
+					name: 'batchSize',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+						maxValue: 5000,
+					},
+					default: 5000,
+					description: 'Maximum number of members per request. Read from the first item.',
+				},
+			],
+		},
+
+		// Conversion Event Fields
+		{
+			displayName: 'Conversion Events',
+			name: 'conversionEventNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+				},
+			},
+			default:
+				'Each input item becomes one event. Events are sent together in batches of up to 1000 per request. Emails, phone numbers and external IDs are normalized and SHA-256 hashed before they are sent.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+		{
+			displayName: 'Event Name',
+			name: 'eventName',
+			type: 'options',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			options: [
+				{
+					name: 'Add to Cart',
+					value: 'add_to_cart',
+				},
+				{
+					name: 'Checkout',
+					value: 'checkout',
+				},
+				{
+					name: 'Custom',
+					value: 'custom',
+				},
+				{
+					name: 'Lead',
+					value: 'lead',
+				},
+				{
+					name: 'Page Visit',
+					value: 'page_visit',
+				},
+				{
+					name: 'Search',
+					value: 'search',
+				},
+				{
+					name: 'Signup',
+					value: 'signup',
+				},
+				{
+					name: 'View Category',
+					value: 'view_category',
+				},
+				{
+					name: 'Watch Video',
+					value: 'watch_video',
+				},
+			],
+			default: 'checkout',
+			description: 'The type of conversion that happened',
+		},
+		{
+			displayName: 'Action Source',
+			name: 'actionSource',
+			type: 'options',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			options: [
+				{
+					name: 'Android App',
+					value: 'app_android',
+				},
+				{
+					name: 'iOS App',
+					value: 'app_ios',
+				},
+				{
+					name: 'Offline',
+					value: 'offline',
+				},
+				{
+					name: 'Web',
+					value: 'web',
+				},
+			],
+			default: 'web',
+			description: 'Where the conversion happened',
+		},
+		{
+			displayName: 'Event Time',
+			name: 'eventTime',
+			type: 'dateTime',
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			default: '',
+			description: 'When the conversion happened. Defaults to the time the event is sent.',
+		},
+		{
+			displayName: 'Event ID',
+			name: 'eventId',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			default: '',
+			placeholder: 'order-12345-checkout',
+			description: 'Unique ID of the event, such as an order ID',
+			hint: 'Use the same ID as the Pinterest tag so events sent from both are only counted once. A random ID is used when empty.',
+		},
+		{
+			displayName: 'User Data',
+			name: 'conversionUserData',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			description:
+				'Who converted. An email or both the client IP address and user agent are required.',
+			options: [
+				{
+					displayName: 'Click ID',
+					name: 'clickId',
+					type: 'string',
+					default: '',
+					description: 'The epik click ID from the landing page URL or _epik cookie',
+				},
+				{
+					displayName: 'Client IP Address',
+					name: 'clientIpAddress',
+					type: 'string',
+					default: '',
+					placeholder: '203.0.113.10',
+					description: 'IP address of the browser or device the event came from',
+				},
+				{
+					displayName: 'Client User Agent',
+					name: 'clientUserAgent',
+					type: 'string',
+					default: '',
+					description: 'User agent of the browser the event came from',
+				},
+				{
+					displayName: 'Email',
+					name: 'email',
+					type: 'string',
+					placeholder: 'name@email.com',
+					default: '',
+					description: 'Email addresses, comma-separated. They are lowercased and hashed.',
+				},
+				{
+					displayName: 'External ID',
+					name: 'externalId',
+					type: 'string',
+					default: '',
+					description: 'Your own user IDs, comma-separated. They are hashed.',
+				},
+				{
+					displayName: 'Phone',
+					name: 'phone',
+					type: 'string',
+					default: '',
+					placeholder: '+1 (555) 010-0000',
+					description:
+						'Phone numbers with country code, comma-separated. They are reduced to digits and hashed.',
+				},
+			],
+		},
+		{
+			displayName: 'Custom Data',
+			name: 'conversionCustomData',
+			type: 'collection',
+			placeholder: 'Add Field',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Content IDs',
+					name: 'contentIds',
+					type: 'string',
+					default: '',
+					description: 'Comma-separated product IDs of the items involved',
+				},
+				{
+					displayName: 'Currency',
+					name: 'currency',
+					type: 'string',
+					default: '',
+					placeholder: 'USD',
+					description: 'ISO 4217 currency code of the value',
+				},
+				{
+					displayName: 'Number of Items',
+					name: 'numItems',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+					},
+					default: 1,
+					description: 'How many items were involved',
+				},
+				{
+					displayName: 'Order ID',
+					name: 'orderId',
+					type: 'string',
+					default: '',
+					description: 'ID of the order',
+				},
+				{
+					displayName: 'Search String',
+					name: 'searchString',
+					type: 'string',
+					default: '',
+					description: 'What the user searched for',
+				},
+				{
+					displayName: 'Value',
+					name: 'value',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description: 'Total value of the conversion',
+				},
+			],
+		},
+		{
+			displayName: 'Options',
+			name: 'conversionOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['conversionEvent'],
+					operation: ['send'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Batch Size',
+					name: 'batchSize',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+						maxValue: 1000,
+					},
+					default: 1000,
+					description: 'Maximum number of events per request. Read from the first item.',
+				},
+				{
+					displayName: 'Event Source URL',
+					name: 'eventSourceUrl',
+					type: 'string',
+					default: '',
+					placeholder: 'https://example.com/checkout',
+					description: 'URL of the page the event happened on',
+				},
+				{
+					displayName: 'Opt Out',
+					name: 'optOut',
+					type: 'boolean',
+					default: false,
+					description: 'Whether the user opted out of ads personalization',
+				},
+				{
+					displayName: 'Test Mode',
+					name: 'testMode',
+					type: 'boolean',
+					default: false,
+					description:
+						'Whether Pinterest should only validate the events without recording them. Read from the first item.',
+				},
+			],
+		},
+
+		// Search Configuration Notice
+		{
+			displayName: 'Search Configuration',
+			name: 'searchConfigNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['search'],
+					operation: ['pins', 'boards', 'trending'],
+				},
+			},
+			default:
+				'Search Pinterest content using keywords. Results are paginated and respect rate limits. Use specific terms for better results.',
+			typeOptions: {
+				theme: 'info',
+			},
+		},
+
+		// Search Fields
+		{
+			displayName: 'Search Query',
+			name: 'query',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['search'],
+					operation: ['pins', 'boards'],
+				},
+			},
+			default: '',
+			description: 'Keywords to search for (2-100 characters)',
+			placeholder: 'Enter search terms...',
+			hint: 'Use specific keywords for better results. You can include hashtags and mentions.',
+			validateType: 'string',
+			typeOptions: {
+				minLength: 2,
+				maxLength: 100,
+				validation: [
+					{
+						type: 'regex',
+						properties: {
+							regex: '^.{2,100}$',
+							errorMessage: 'Search query must be between 2 and 100 characters',
+						},
+					},
+				],
+			},
+		},
+		{
+			displayName: 'Return All',
+			name: 'returnAll',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					resource: ['search'],
+					operation: ['pins', 'boards'],
+				},
+			},
+			default: false,
+			description: 'Whether to return all results or only up to a given limit',
+			hint: 'Follows the Pinterest pagination bookmark automatically and returns one item per result',
+		},
+		{
+			displayName: 'Max Results',
+			name: 'maxResults',
+			type: 'number',
+			displayOptions: {
+				show: {
+					resource: ['search'],
+					operation: ['pins', 'boards'],
+					returnAll: [true],
+				},
+			},
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 1000,
+			description: 'Maximum number of results to collect across all pages (0 for no cap)',
+			hint: 'Every page counts against the Pinterest rate limit of 1000 requests per hour',
+		},
+		{
+			displayName: 'Limit',
+			name: 'limit',
+			type: 'number',
+			displayOptions: {
+				show: {
+					resource: ['search'],
+					operation: ['pins', 'boards', 'trending'],
+				},
+				hide: {
+					returnAll: [true],
+				},
+			},
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 50,
+			description: 'Max number of results to return',
+		},
+
+		// Analytics Configuration Notice
+		{
+			displayName: 'Analytics Configuration',
+			name: 'analyticsConfigNotice',
+			type: 'notice',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: [
+						'getAnalytics',
+						'getPinAnalytics',
+						'getBoardAnalytics',
+						'getTopPins',
+						'getBestTimeToPost',
+					],
+				},
+			},
+			default:
+				'Analytics data requires a Pinterest Business account and may have a 24-48 hour delay. Date ranges are optional - omit for default periods.',
+			typeOptions: {
+				theme: 'warning',
+			},
+		},
+
+		// Analytics Fields
+		{
+			displayName: 'Date Range',
+			name: 'dateRange',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: [
+						'getAnalytics',
+						'getPinAnalytics',
+						'getBoardAnalytics',
+						'getTopPins',
+						'getBestTimeToPost',
+					],
+				},
+			},
+			options: [
+				{
+					name: 'Custom',
+					value: 'custom',
+					description: 'Use the start and end dates below',
+				},
+				{
+					name: 'Last 30 Days',
+					value: 'last30Days',
+					description: 'The 30 days before today',
+				},
+				{
+					name: 'Last 7 Days',
+					value: 'last7Days',
+					description: 'The 7 days before today',
+				},
+				{
+					name: 'Last 90 Days',
+					value: 'last90Days',
+					description: 'The 90 days before today',
+				},
+				{
+					name: 'Month to Date',
+					value: 'monthToDate',
+					description: 'From the first day of the current month up to today',
+				},
+				{
+					name: 'Previous Month',
+					value: 'previousMonth',
+					description: 'The whole previous calendar month',
+				},
+			],
+			default: 'custom',
+			description: 'Period to get analytics for',
+			hint: 'Pinterest keeps analytics for 914 days. Ranges longer than 90 days are fetched in several requests and merged, which leaves the audience and average totals empty.',
+		},
+		{
+			displayName: 'Timezone',
+			name: 'timezone',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: [
+						'getAnalytics',
+						'getPinAnalytics',
+						'getBoardAnalytics',
+						'getTopPins',
+						'getBestTimeToPost',
+					],
+				},
+				hide: {
+					dateRange: ['custom'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g. America/New_York',
+			description:
+				'IANA timezone that decides which day is today when resolving the date range. Leave empty to use the workflow timezone.',
+		},
+		{
+			displayName: 'Start Date',
+			name: 'startDate',
+			type: 'dateTime',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: [
+						'getAnalytics',
+						'getPinAnalytics',
+						'getBoardAnalytics',
+						'getTopPins',
+						'getBestTimeToPost',
+					],
+					dateRange: ['custom'],
+				},
+			},
+			default: '',
+			description: 'Start date for analytics data (optional)',
+		},
+		{
+			displayName: 'End Date',
+			name: 'endDate',
+			type: 'dateTime',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: [
+						'getAnalytics',
+						'getPinAnalytics',
+						'getBoardAnalytics',
+						'getTopPins',
+						'getBestTimeToPost',
+					],
+					dateRange: ['custom'],
+				},
+			},
+			default: '',
+			description: 'End date for analytics data (optional)',
+		},
+		{
+			displayName: 'Compare To',
+			name: 'compareTo',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+				},
+			},
+			options: [
+				{
+					name: 'Custom Range',
+					value: 'custom',
+					description: 'Compare to the comparison start and end dates below',
+				},
+				{
+					name: 'Nothing',
+					value: 'none',
+				},
+				{
+					name: 'Previous Period',
+					value: 'previousPeriod',
+					description: 'Compare to the range of the same length that ends before this one',
+				},
+				{
+					name: 'Same Period Last Year',
+					value: 'previousYear',
+					description: 'Compare to the same dates one year earlier',
+				},
+			],
+			default: 'none',
+			description:
+				'Range to compare the analytics to. The output gets the change and change in percent of every metric.',
+		},
+		{
+			displayName: 'Comparison Start Date',
+			name: 'compareStartDate',
+			type: 'dateTime',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+					compareTo: ['custom'],
+				},
+			},
+			default: '',
+			description: 'Start date of the range to compare to',
+		},
+		{
+			displayName: 'Comparison End Date',
+			name: 'compareEndDate',
+			type: 'dateTime',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+					compareTo: ['custom'],
+				},
+			},
+			default: '',
+			description: 'End date of the range to compare to',
+		},
+		{
+			displayName: 'Split By',
+			name: 'splitField',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics'],
+				},
+			},
+			options: [
+				{
+					name: 'App Type',
+					value: 'APP_TYPE',
+				},
+				{
+					name: 'No Split',
+					value: '',
+				},
+				{
+					name: 'Owned Content',
+					value: 'OWNED_CONTENT',
+				},
+				{
+					name: 'Pin Format',
+					value: 'PIN_FORMAT',
+				},
+				{
+					name: 'Source',
+					value: 'SOURCE',
+				},
+			],
+			default: '',
+			description: 'Dimension to break the metrics down by',
+		},
+		{
+			displayName: 'Output',
+			name: 'analyticsOutput',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+				},
+			},
+			options: [
+				{
+					name: 'Summary',
+					value: 'summary',
+					description: 'One item with the totals and the daily metrics as a list',
+				},
+				{
+					name: 'Daily Rows',
+					value: 'dailyRows',
+					description:
+						'One item per day, or per day and split value, with engagement, save, outbound click and video completion rates, followed by a totals item',
+				},
+			],
+			default: 'summary',
+			description: 'How to return the analytics',
+		},
+		{
+			displayName: 'Detect Anomalies',
+			name: 'detectAnomalies',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+				},
+			},
+			default: false,
+			description:
+				'Whether to flag days whose metrics deviate from what the days before them predict, with the expected value and severity',
+		},
+		{
+			displayName: 'Anomaly Options',
+			name: 'anomalyOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+					detectAnomalies: [true],
+				},
+			},
+			default: {},
+			options: ANALYTICS_ANOMALY_OPTIONS,
+		},
+		{
+			displayName: 'Pin',
+			name: 'pinId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getPinAnalytics'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The pin to get analytics for',
+			hint: 'Pin analytics are only available for pins you own and may have a 24-48 hour delay',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a pin...',
+					typeOptions: {
+						searchListMethod: 'searchPins',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/pin/123456789012345678/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PIN_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest pin URL',
+							},
+						},
+					],
+					extractValue: {
+						type: 'regex',
+						regex: PIN_URL_REGEX,
+					},
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Pin ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getBoardAnalytics'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The board to get analytics for',
+			hint: 'Board analytics are only available for boards you own and may have a 24-48 hour delay',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+
+		{
+			displayName: 'Pins From',
+			name: 'topPinsSource',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getTopPins'],
+				},
+			},
+			options: [
+				{
+					name: 'Board',
+					value: 'board',
+					description: 'Rank the pins saved on a board',
+				},
+				{
+					name: 'Pin IDs',
+					value: 'pinIds',
+					description: 'Rank a list of pins',
+				},
+			],
+			default: 'board',
+		},
+		{
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getTopPins'],
+					topPinsSource: ['board'],
+				},
+			},
+			default: { mode: 'list', value: '' },
+			description: 'The board whose pins are ranked',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Pin IDs',
+			name: 'pinIds',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getTopPins'],
+					topPinsSource: ['pinIds'],
+				},
+			},
+			default: '',
+			placeholder: 'pin1,pin2,pin3 or use array from previous node',
+			description: 'Comma-separated list of pin IDs or array from previous node',
+		},
+		{
+			displayName: 'Rank By',
+			name: 'rankBy',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['user'],
+					operation: ['getTopPins'],
 				},
 			},
-			default: 'data',
-			description: 'Name of the binary property containing the media file from previous node',
-			placeholder: 'data',
-			hint: 'This should match the property name from a previous node that provides binary data',
+			options: [
+				{
+					name: 'Impressions',
+					value: 'IMPRESSION',
+				},
+				{
+					name: 'Outbound Clicks',
+					value: 'OUTBOUND_CLICK',
+				},
+				{
+					name: 'Pin Clicks',
+					value: 'PIN_CLICK',
+				},
+				{
+					name: 'Saves',
+					value: 'SAVE',
+				},
+				{
+					name: 'Video Starts',
+					value: 'VIDEO_START',
+				},
+			],
+			default: 'IMPRESSION',
+			description: 'Metric the pins are sorted by, highest first',
 		},
-
-		// Pin Content Fields Section
 		{
-			displayName: 'Pin Content & Details',
-			name: 'pinContentNotice',
-			type: 'notice',
+			displayName: 'Limit',
+			name: 'limit',
+			type: 'number',
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create', 'update'],
+					resource: ['user'],
+					operation: ['getTopPins'],
 				},
 			},
-			default:
-				"Configure your pin's content, including title, description, and destination link. All fields except title are optional but recommended for better engagement.",
 			typeOptions: {
-				theme: 'info',
+				minValue: 1,
 			},
+			default: 50,
+			description: 'Max number of results to return',
 		},
-
 		{
-			displayName: 'Title',
-			name: 'title',
-			type: 'string',
+			displayName: 'Options',
+			name: 'topPinsOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create', 'update'],
+					resource: ['user'],
+					operation: ['getTopPins'],
 				},
 			},
-			default: '',
-			description: 'Pin title (optional but highly recommended for SEO and discoverability)',
-			placeholder: 'Enter a descriptive and engaging title...',
-			hint: 'Good titles help your pins get discovered in search results',
-			typeOptions: {
-				maxLength: 100,
-			},
+			default: {},
+			options: [
+				{
+					displayName: 'Concurrency',
+					name: 'maxConcurrency',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+						maxValue: 10,
+					},
+					default: 2,
+					description:
+						'How many pins to fetch analytics for at the same time. Pinterest limits analytics requests, so keep this low for large boards.',
+				},
+				{
+					displayName: 'Max Pins',
+					name: 'maxPins',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: 250,
+					description:
+						'Max number of pins to fetch analytics for. Each pin costs one analytics request per 90 days of the range. Boards with more pins are ranked on their first pins and the summary is marked as truncated.',
+				},
+			],
 		},
 
 		{
-			displayName: 'Description',
-			name: 'description',
-			type: 'string',
-			typeOptions: {
-				rows: 4,
-				maxLength: 500,
-			},
+			displayName: 'Metric',
+			name: 'bestTimeMetric',
+			type: 'options',
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create', 'update'],
+					resource: ['user'],
+					operation: ['getBestTimeToPost'],
 				},
 			},
-			default: '',
-			description: 'Pin description with hashtags and mentions (up to 500 characters)',
-			placeholder: 'Describe your pin content and add relevant #hashtags...',
-			hint: 'Use hashtags (#) and mentions (@) to increase discoverability',
+			options: [
+				{
+					name: 'Engagement Rate',
+					value: 'engagementRate',
+					description: 'Engagements divided by impressions',
+				},
+				{
+					name: 'Engagements',
+					value: 'ENGAGEMENT',
+				},
+				{
+					name: 'Impressions',
+					value: 'IMPRESSION',
+				},
+				{
+					name: 'Outbound Clicks',
+					value: 'OUTBOUND_CLICK',
+				},
+				{
+					name: 'Saves',
+					value: 'SAVE',
+				},
+			],
+			default: 'engagementRate',
+			description: 'Daily metric that posting days are compared on',
 		},
-
 		{
-			displayName: 'Destination Link',
-			name: 'link',
-			type: 'string',
+			displayName: 'Options',
+			name: 'bestTimeOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create', 'update'],
+					resource: ['user'],
+					operation: ['getBestTimeToPost'],
 				},
 			},
-			default: '',
-			description: 'URL where users will be directed when they click on the pin (optional)',
-			placeholder: 'https://your-website.com/page',
-			hint: 'Adding a link can drive traffic to your website or blog',
+			default: {},
+			options: [
+				{
+					displayName: 'Max Pins',
+					name: 'maxPins',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: 1000,
+					description:
+						'Max number of your most recent pins to read creation times from. Pins created before the date range are ignored.',
+				},
+				{
+					displayName: 'Minimum Posting Days',
+					name: 'minPostingDays',
+					type: 'number',
+					typeOptions: {
+						minValue: 2,
+					},
+					default: 2,
+					description:
+						'Weekdays with fewer days on which a pin was created, or fewer days on which none was, are flagged as having too little data and get no lift or recommendation',
+				},
+			],
 		},
 
+		// Media Upload Configuration Notice
 		{
-			displayName: 'Alt Text',
-			name: 'altText',
-			type: 'string',
+			displayName: 'Media Upload Requirements',
+			name: 'mediaUploadNotice',
+			type: 'notice',
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['create', 'update'],
+					resource: ['media'],
+					operation: ['upload'],
 				},
 			},
-			default: '',
-			description: 'Alternative text for accessibility and screen readers (recommended)',
-			placeholder: 'Describe the visual content of your pin...',
-			hint: 'Alt text helps visually impaired users understand your content',
+			default:
+				'Upload images (JPEG, PNG, GIF, max 10MB) or videos (MP4, MOV, max 100MB). Uploaded media can be used in pin creation operations.',
 			typeOptions: {
-				maxLength: 500,
+				theme: 'info',
 			},
 		},
 
-		// Pin Get/Update/Delete Fields
+		// Media Upload Fields
 		{
-			displayName: 'Pin ID',
-			name: 'pinId',
+			displayName: 'Binary Property Name',
+			name: 'binaryPropertyName',
 			type: 'string',
 			required: true,
 			displayOptions: {
 				show: {
-					resource: ['pin'],
-					operation: ['get', 'update', 'delete'],
+					resource: ['media'],
+					operation: ['upload'],
 				},
 			},
-			default: '',
-			description: 'The unique identifier of the pin',
-			placeholder: 'e.g., 123456789012345678',
-			hint: 'Pin IDs are typically 18-digit numbers. You can find them in Pinterest URLs or from previous operations.',
-			validateType: 'string',
-			typeOptions: {
-				minLength: 1,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^[0-9]{10,20}$',
-							errorMessage: 'Pin ID must be a numeric string (typically 18 digits)',
-						},
-					},
-				],
-			},
+			default: 'data',
+			description: 'Name of the binary property containing the media file',
+			placeholder: 'data',
 		},
-
-		// Board Configuration Notice
 		{
-			displayName: 'Board Configuration',
-			name: 'boardConfigNotice',
-			type: 'notice',
+			displayName: 'Media Type',
+			name: 'mediaType',
+			type: 'options',
 			displayOptions: {
 				show: {
-					resource: ['board'],
-					operation: ['create', 'update'],
+					resource: ['media'],
+					operation: ['upload'],
 				},
 			},
-			default:
-				'Configure your board settings. Board name is required, while description and privacy settings help organize and control access to your content.',
-			typeOptions: {
-				theme: 'info',
-			},
+			options: [
+				{
+					name: 'Image',
+					value: 'image',
+					description: 'Image file (JPEG, PNG, GIF, max 10MB)',
+				},
+				{
+					name: 'Video',
+					value: 'video',
+					description: 'Video file (MP4, MOV, max 100MB)',
+				},
+			],
+			default: 'image',
+			description: 'Type of media file being uploaded',
 		},
-
-		// Board Create Fields
 		{
-			displayName: 'Board Name',
-			name: 'name',
-			type: 'string',
-			required: true,
+			displayName: 'Wait for Processing',
+			name: 'waitForProcessing',
+			type: 'boolean',
 			displayOptions: {
 				show: {
-					resource: ['board'],
-					operation: ['create', 'update'],
+					resource: ['media'],
+					operation: ['upload'],
 				},
 			},
-			default: '',
-			description: 'Name of the board (required, 1-180 characters)',
-			placeholder: 'My Awesome Board',
-			hint: "Choose a descriptive name that reflects the board's content theme",
-			validateType: 'string',
+			default: true,
+			description:
+				'Whether to wait until Pinterest has finished processing the media before continuing',
+			hint: 'Videos are processed asynchronously and can only be used in pins once processing succeeded',
+		},
+		{
+			displayName: 'Poll Interval (Seconds)',
+			name: 'pollInterval',
+			type: 'number',
 			typeOptions: {
-				minLength: 1,
-				maxLength: 180,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^.{1,180}$',
-							errorMessage: 'Board name must be between 1 and 180 characters',
-						},
-					},
-				],
+				minValue: 1,
+				maxValue: 60,
+			},
+			displayOptions: {
+				show: {
+					resource: ['media'],
+					operation: ['upload'],
+					waitForProcessing: [true],
+				},
 			},
+			default: 5,
+			description: 'How often to check the media processing status',
 		},
 		{
-			displayName: 'Board Description',
-			name: 'description',
-			type: 'string',
+			displayName: 'Processing Timeout (Seconds)',
+			name: 'processingTimeout',
+			type: 'number',
 			typeOptions: {
-				rows: 2,
+				minValue: 1,
+				maxValue: 3600,
 			},
 			displayOptions: {
 				show: {
-					resource: ['board'],
-					operation: ['create', 'update'],
+					resource: ['media'],
+					operation: ['upload'],
+					waitForProcessing: [true],
 				},
 			},
-			default: '',
-			description: 'Description of the board content and purpose (optional)',
-			placeholder: 'Describe what this board is about...',
+			default: 300,
+			description: 'Maximum time to wait for processing before the upload is reported as failed',
 		},
+
+		// Bulk Operations Configuration Notice
 		{
-			displayName: 'Privacy',
-			name: 'privacy',
-			type: 'options',
+			displayName: 'Bulk Operations',
+			name: 'bulkOperationsNotice',
+			type: 'notice',
 			displayOptions: {
 				show: {
-					resource: ['board'],
-					operation: ['create', 'update'],
+					resource: ['pin'],
+					operation: ['bulk'],
+				},
+			},
+			default:
+				'Bulk operations process multiple items efficiently while respecting rate limits. Input data should be provided as an array from previous nodes.',
+			typeOptions: {
+				theme: 'warning',
+			},
+		},
+
+		// Bulk Operations Fields
+		{
+			displayName: 'Bulk Operation Type',
+			name: 'bulkOperationType',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['pin'],
+					operation: ['bulk'],
 				},
 			},
 			options: [
 				{
-					name: 'Public',
-					value: 'public',
-					description: 'Anyone can see this board',
+					name: 'Create Multiple',
+					value: 'createMultiple',
+					description: 'Create one pin per input item',
 				},
 				{
-					name: 'Protected',
-					value: 'protected',
-					description: 'Only you and collaborators can see this board',
+					name: 'Delete Multiple',
+					value: 'deleteMultiple',
+					description: 'Delete multiple pins using an array of IDs',
 				},
 				{
-					name: 'Secret',
-					value: 'secret',
-					description: 'Only you can see this board',
+					name: 'Get Multiple',
+					value: 'getMultiple',
+					description: 'Retrieve multiple pins by their IDs',
+				},
+				{
+					name: 'Save Multiple',
+					value: 'saveMultiple',
+					description: 'Save multiple existing pins to a board',
+				},
+				{
+					name: 'Update Multiple',
+					value: 'updateMultiple',
+					description: 'Update multiple pins with new data',
 				},
 			],
-			default: 'public',
-			description: 'Privacy setting for the board',
+			default: 'getMultiple',
+			hint: 'Bulk operations are more efficient for processing large numbers of items',
 		},
-
-		// Board Get/Update/Delete Fields
 		{
-			displayName: 'Board ID',
-			name: 'boardId',
-			type: 'string',
-			required: true,
+			displayName: 'Bulk Operation Type',
+			name: 'bulkOperationType',
+			type: 'options',
 			displayOptions: {
 				show: {
 					resource: ['board'],
-					operation: ['get', 'update', 'delete'],
+					operation: ['bulk'],
 				},
 			},
-			default: '',
-			description: 'The unique identifier of the board',
-			placeholder: 'e.g., 123456789012345678',
-			hint: 'Board IDs are typically 18-digit numbers. You can find them in Pinterest URLs or from previous operations.',
-			validateType: 'string',
-			typeOptions: {
-				minLength: 1,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^[0-9]{10,20}$',
-							errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
-						},
-					},
-				],
-			},
+			options: [
+				{
+					name: 'Create Multiple',
+					value: 'createMultiple',
+					description: 'Create one board per input item',
+				},
+				{
+					name: 'Get Multiple',
+					value: 'getMultiple',
+					description: 'Retrieve multiple items by their IDs',
+				},
+				{
+					name: 'Update Multiple',
+					value: 'updateMultiple',
+					description: 'Update multiple items with new data',
+				},
+				{
+					name: 'Delete Multiple',
+					value: 'deleteMultiple',
+					description: 'Delete multiple items using an array of IDs',
+				},
+			],
+			default: 'getMultiple',
+			hint: 'Bulk operations are more efficient for processing large numbers of items',
 		},
 
-		// Search Configuration Notice
+		// Enhanced Batch Configuration
 		{
-			displayName: 'Search Configuration',
-			name: 'searchConfigNotice',
+			displayName: 'Batch Configuration',
+			name: 'batchConfigNotice',
 			type: 'notice',
 			displayOptions: {
 				show: {
-					resource: ['search'],
-					operation: ['pins', 'boards', 'trending'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
 				},
 			},
 			default:
-				'Search Pinterest content using keywords. Results are paginated and respect rate limits. Use specific terms for better results.',
+				'Configure batch processing settings for optimal performance and rate limit compliance.',
 			typeOptions: {
 				theme: 'info',
 			},
 		},
 
-		// Search Fields
 		{
-			displayName: 'Search Query',
-			name: 'query',
-			type: 'string',
-			required: true,
+			displayName: 'Max Batch Size',
+			name: 'maxBatchSize',
+			type: 'number',
 			displayOptions: {
 				show: {
-					resource: ['search'],
-					operation: ['pins', 'boards'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
 				},
 			},
-			default: '',
-			description: 'Keywords to search for (2-100 characters)',
-			placeholder: 'Enter search terms...',
-			hint: 'Use specific keywords for better results. You can include hashtags and mentions.',
-			validateType: 'string',
+			default: 50,
 			typeOptions: {
-				minLength: 2,
-				maxLength: 100,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^.{2,100}$',
-							errorMessage: 'Search query must be between 2 and 100 characters',
-						},
-					},
-				],
+				minValue: 1,
+				maxValue: 100,
 			},
+			description: 'Maximum number of items to process in each batch',
+			hint: 'Smaller batches are more reliable but slower. Larger batches are faster but may hit rate limits.',
 		},
+
 		{
-			displayName: 'Limit',
-			name: 'limit',
+			displayName: 'Max Concurrency',
+			name: 'maxConcurrency',
 			type: 'number',
 			displayOptions: {
 				show: {
-					resource: ['search'],
-					operation: ['pins', 'boards', 'trending'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
 				},
 			},
+			default: 5,
 			typeOptions: {
 				minValue: 1,
+				maxValue: 10,
 			},
-			default: 50,
-			description: 'Max number of results to return',
+			description: 'Maximum number of concurrent API requests',
+			hint: 'Higher concurrency is faster but may trigger rate limits. Lower values are more stable.',
 		},
 
-		// Analytics Configuration Notice
 		{
-			displayName: 'Analytics Configuration',
-			name: 'analyticsConfigNotice',
-			type: 'notice',
+			displayName: 'Enable Progress Tracking',
+			name: 'enableProgressTracking',
+			type: 'boolean',
 			displayOptions: {
 				show: {
-					resource: ['user'],
-					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
 				},
 			},
-			default:
-				'Analytics data requires a Pinterest Business account and may have a 24-48 hour delay. Date ranges are optional - omit for default periods.',
-			typeOptions: {
-				theme: 'warning',
-			},
+			default: true,
+			description: 'Whether to track and report progress during batch operations',
+			hint: 'Progress tracking provides visibility into long-running operations but adds slight overhead.',
 		},
 
-		// Analytics Fields
 		{
-			displayName: 'Start Date',
-			name: 'startDate',
-			type: 'dateTime',
+			displayName: 'Enable Optimization',
+			name: 'enableOptimization',
+			type: 'boolean',
 			displayOptions: {
 				show: {
-					resource: ['user'],
-					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
 				},
 			},
-			default: '',
-			description: 'Start date for analytics data (optional)',
+			default: true,
+			description: 'Whether to enable intelligent optimizations like duplicate removal and caching',
+			hint: 'Optimizations can significantly improve performance for large batches with duplicates.',
 		},
+
 		{
-			displayName: 'End Date',
-			name: 'endDate',
-			type: 'dateTime',
+			displayName: 'Retry Attempts',
+			name: 'retryAttempts',
+			type: 'number',
 			displayOptions: {
 				show: {
-					resource: ['user'],
-					operation: ['getAnalytics', 'getPinAnalytics', 'getBoardAnalytics'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
+				},
+				hide: {
+					bulkOperationType: ['createMultiple', 'saveMultiple'],
 				},
 			},
-			default: '',
-			description: 'End date for analytics data (optional)',
+			default: 3,
+			typeOptions: {
+				minValue: 0,
+				maxValue: 5,
+			},
+			description: 'Number of retry attempts for failed requests',
+			hint: 'More retries increase reliability but may slow down operations.',
 		},
 		{
-			displayName: 'Pin ID',
-			name: 'pinId',
-			type: 'string',
-			required: true,
+			displayName: 'Retry Attempts',
+			name: 'retryAttempts',
+			type: 'number',
 			displayOptions: {
 				show: {
-					resource: ['user'],
-					operation: ['getPinAnalytics'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
+					bulkOperationType: ['createMultiple', 'saveMultiple'],
 				},
 			},
-			default: '',
-			description: 'ID of the pin to get analytics for',
-			placeholder: 'e.g., 123456789012345678',
-			hint: 'Pin analytics are only available for pins you own and may have a 24-48 hour delay',
-			validateType: 'string',
+			default: 0,
 			typeOptions: {
-				minLength: 1,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^[0-9]{10,20}$',
-							errorMessage: 'Pin ID must be a numeric string (typically 18 digits)',
-						},
-					},
-				],
+				minValue: 0,
+				maxValue: 5,
 			},
+			description:
+				'Number of times a row is tried again after a rate limit or server error. Other errors are not retried.',
+			hint: 'Off by default, as a retried row can be created or saved twice. Requests that are safe to repeat are already retried.',
 		},
+
 		{
-			displayName: 'Board ID',
-			name: 'boardId',
-			type: 'string',
-			required: true,
+			displayName: 'Retry Delay (Ms)',
+			name: 'retryDelay',
+			type: 'number',
 			displayOptions: {
 				show: {
-					resource: ['user'],
-					operation: ['getBoardAnalytics'],
+					resource: ['pin', 'board'],
+					operation: ['bulk'],
 				},
 			},
-			default: '',
-			description: 'ID of the board to get analytics for',
-			placeholder: 'e.g., 123456789012345678',
-			hint: 'Board analytics are only available for boards you own and may have a 24-48 hour delay',
-			validateType: 'string',
+			default: 1000,
 			typeOptions: {
-				minLength: 1,
-				validation: [
-					{
-						type: 'regex',
-						properties: {
-							regex: '^[0-9]{10,20}$',
-							errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
-						},
-					},
-				],
+				minValue: 100,
+				maxValue: 10000,
 			},
+			description: 'Delay between retry attempts in milliseconds',
+			hint: 'Longer delays reduce server load but increase total processing time.',
 		},
 
-		// Media Upload Configuration Notice
+		// Bulk Operation Data Fields
 		{
-			displayName: 'Media Upload Requirements',
-			name: 'mediaUploadNotice',
-			type: 'notice',
+			displayName: 'Pin IDs',
+			name: 'pinIds',
+			type: 'string',
 			displayOptions: {
 				show: {
-					resource: ['media'],
-					operation: ['upload'],
+					resource: ['pin'],
+					operation: ['bulk'],
+				},
+				hide: {
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default:
-				'Upload images (JPEG, PNG, GIF, max 10MB) or videos (MP4, MOV, max 100MB). Uploaded media can be used in pin creation operations.',
+			default: '',
+			placeholder: 'pin1,pin2,pin3 or use array from previous node',
+			description: 'Comma-separated list of pin IDs or array from previous node',
+			hint: 'You can provide pin IDs as a comma-separated string or connect an array from a previous node.',
+			validateType: 'string',
 			typeOptions: {
-				theme: 'info',
+				rows: 3,
 			},
 		},
 
-		// Media Upload Fields
+		// Bulk Save - The board and section every pin is saved to
 		{
-			displayName: 'Binary Property Name',
-			name: 'binaryPropertyName',
-			type: 'string',
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
 			required: true,
 			displayOptions: {
 				show: {
-					resource: ['media'],
-					operation: ['upload'],
+					resource: ['pin'],
+					operation: ['bulk'],
+					bulkOperationType: ['saveMultiple'],
 				},
 			},
-			default: 'data',
-			description: 'Name of the binary property containing the media file',
-			placeholder: 'data',
+			default: { mode: 'list', value: '' },
+			description: 'The board to save the pins to',
+			modes: [
+				{
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
+				},
+				{
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
+				},
+				{
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
+				},
+			],
 		},
+
 		{
-			displayName: 'Media Type',
-			name: 'mediaType',
-			type: 'options',
+			displayName: 'Board Section',
+			name: 'boardSectionId',
+			type: 'resourceLocator',
 			displayOptions: {
 				show: {
-					resource: ['media'],
-					operation: ['upload'],
+					resource: ['pin'],
+					operation: ['bulk'],
+					bulkOperationType: ['saveMultiple'],
 				},
 			},
-			options: [
+			default: { mode: 'list', value: '' },
+			description: 'Section of the board to save the pins in (optional)',
+			modes: [
 				{
-					name: 'Image',
-					value: 'image',
-					description: 'Image file (JPEG, PNG, GIF, max 10MB)',
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a section...',
+					typeOptions: {
+						searchListMethod: 'searchBoardSections',
+						searchable: true,
+					},
 				},
 				{
-					name: 'Video',
-					value: 'video',
-					description: 'Video file (MP4, MOV, max 100MB)',
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Section ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
 				},
 			],
-			default: 'image',
-			description: 'Type of media file being uploaded',
 		},
 
-		// Bulk Operations Configuration Notice
+		// Bulk Create - Per-row pin fields, usually mapped from input item expressions
 		{
-			displayName: 'Bulk Operations',
-			name: 'bulkOperationsNotice',
+			displayName: 'Pins to Create',
+			name: 'bulkCreateNotice',
 			type: 'notice',
 			displayOptions: {
 				show: {
 					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
 			default:
-				'Bulk operations process multiple items efficiently while respecting rate limits. Input data should be provided as an array from previous nodes.',
+				'Each input item creates one pin. Map the fields below to columns of your input, for example {{ $json.board_id }}.',
 			typeOptions: {
-				theme: 'warning',
+				theme: 'info',
 			},
 		},
 
-		// Bulk Operations Fields
 		{
-			displayName: 'Bulk Operation Type',
-			name: 'bulkOperationType',
-			type: 'options',
+			displayName: 'Board',
+			name: 'boardId',
+			type: 'resourceLocator',
+			required: true,
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			options: [
+			default: { mode: 'id', value: '' },
+			description: 'The board to create the pin on',
+			modes: [
 				{
-					name: 'Get Multiple',
-					value: 'getMultiple',
-					description: 'Retrieve multiple items by their IDs',
+					displayName: 'From List',
+					name: 'list',
+					type: 'list',
+					placeholder: 'Select a board...',
+					typeOptions: {
+						searchListMethod: 'searchBoards',
+						searchable: true,
+					},
 				},
 				{
-					name: 'Update Multiple',
-					value: 'updateMultiple',
-					description: 'Update multiple items with new data',
+					displayName: 'By URL',
+					name: 'url',
+					type: 'string',
+					placeholder: 'e.g., https://www.pinterest.com/username/board-name/',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: BOARD_URL_REGEX,
+								errorMessage: 'Not a valid Pinterest board URL',
+							},
+						},
+					],
 				},
 				{
-					name: 'Delete Multiple',
-					value: 'deleteMultiple',
-					description: 'Delete multiple items using an array of IDs',
+					displayName: 'ID',
+					name: 'id',
+					type: 'string',
+					placeholder: 'e.g., 123456789012345678',
+					validation: [
+						{
+							type: 'regex',
+							properties: {
+								regex: PINTEREST_ID_REGEX,
+								errorMessage: 'Board ID must be a numeric string (typically 18 digits)',
+							},
+						},
+					],
 				},
 			],
-			default: 'getMultiple',
-			hint: 'Bulk operations are more efficient for processing large numbers of items',
 		},
 
-		// Enhanced Batch Configuration
 		{
-			displayName: 'Batch Configuration',
-			name: 'batchConfigNotice',
-			type: 'notice',
+			displayName: 'Media URL',
+			name: 'mediaUrl',
+			type: 'string',
+			required: true,
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default:
-				'Configure batch processing settings for optimal performance and rate limit compliance.',
-			typeOptions: {
-				theme: 'info',
-			},
+			default: '',
+			description: 'Publicly accessible URL of the pin image',
+			placeholder: 'https://example.com/image.jpg',
 		},
 
 		{
-			displayName: 'Max Batch Size',
-			name: 'maxBatchSize',
-			type: 'number',
+			displayName: 'Title',
+			name: 'title',
+			type: 'string',
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default: 50,
+			default: '',
+			description: 'Title shown on the pin',
+			placeholder: 'Enter a descriptive and engaging title...',
 			typeOptions: {
-				minValue: 1,
-				maxValue: 100,
+				maxLength: 100,
 			},
-			description: 'Maximum number of items to process in each batch',
-			hint: 'Smaller batches are more reliable but slower. Larger batches are faster but may hit rate limits.',
 		},
 
 		{
-			displayName: 'Max Concurrency',
-			name: 'maxConcurrency',
-			type: 'number',
+			displayName: 'Description',
+			name: 'description',
+			type: 'string',
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default: 5,
+			default: '',
+			description: 'Pin description with hashtags and mentions (up to 500 characters)',
+			placeholder: 'Describe your pin content...',
 			typeOptions: {
-				minValue: 1,
-				maxValue: 10,
+				maxLength: 500,
 			},
-			description: 'Maximum number of concurrent API requests',
-			hint: 'Higher concurrency is faster but may trigger rate limits. Lower values are more stable.',
 		},
 
 		{
-			displayName: 'Enable Progress Tracking',
-			name: 'enableProgressTracking',
-			type: 'boolean',
+			displayName: 'Destination Link',
+			name: 'link',
+			type: 'string',
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default: true,
-			description: 'Whether to track and report progress during batch operations',
-			hint: 'Progress tracking provides visibility into long-running operations but adds slight overhead.',
+			default: '',
+			description: 'URL where users will be directed when they click on the pin',
+			placeholder: 'https://your-website.com/page',
 		},
 
 		{
-			displayName: 'Enable Optimization',
-			name: 'enableOptimization',
-			type: 'boolean',
+			displayName: 'Alt Text',
+			name: 'altText',
+			type: 'string',
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['pin'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default: true,
-			description: 'Whether to enable intelligent optimizations like duplicate removal and caching',
-			hint: 'Optimizations can significantly improve performance for large batches with duplicates.',
+			default: '',
+			description: 'Alternative text for accessibility and screen readers',
+			placeholder: 'Describe the visual content of your pin...',
+			typeOptions: {
+				maxLength: 500,
+			},
 		},
 
+		// Bulk Create - Per-row board fields, usually mapped from input item expressions
 		{
-			displayName: 'Retry Attempts',
-			name: 'retryAttempts',
-			type: 'number',
+			displayName: 'Boards to Create',
+			name: 'bulkCreateBoardsNotice',
+			type: 'notice',
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['board'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default: 3,
+			default:
+				'Each input item creates one board and its sections. Map the fields below to columns of your input, for example {{ $json.board_name }}.',
 			typeOptions: {
-				minValue: 0,
-				maxValue: 5,
+				theme: 'info',
 			},
-			description: 'Number of retry attempts for failed requests',
-			hint: 'More retries increase reliability but may slow down operations.',
 		},
 
 		{
-			displayName: 'Retry Delay (Ms)',
-			name: 'retryDelay',
-			type: 'number',
+			displayName: 'Board Name',
+			name: 'name',
+			type: 'string',
+			required: true,
 			displayOptions: {
 				show: {
-					resource: ['pin', 'board'],
+					resource: ['board'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
-			default: 1000,
+			default: '',
+			description: 'Name of the board to create (1-180 characters)',
+			placeholder: 'My Awesome Board',
 			typeOptions: {
-				minValue: 100,
-				maxValue: 10000,
+				maxLength: 180,
 			},
-			description: 'Delay between retry attempts in milliseconds',
-			hint: 'Longer delays reduce server load but increase total processing time.',
 		},
 
-		// Bulk Operation Data Fields
 		{
-			displayName: 'Pin IDs',
-			name: 'pinIds',
+			displayName: 'Board Description',
+			name: 'description',
 			type: 'string',
 			displayOptions: {
 				show: {
-					resource: ['pin'],
+					resource: ['board'],
 					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
 				},
 			},
 			default: '',
-			placeholder: 'pin1,pin2,pin3 or use array from previous node',
-			description: 'Comma-separated list of pin IDs or array from previous node',
-			hint: 'You can provide pin IDs as a comma-separated string or connect an array from a previous node.',
-			validateType: 'string',
-			typeOptions: {
-				rows: 3,
+			description: 'Description of the board content and purpose (optional)',
+			placeholder: 'Describe what this board is about...',
+		},
+
+		{
+			displayName: 'Privacy',
+			name: 'privacy',
+			type: 'options',
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
+				},
+			},
+			options: [
+				{
+					name: 'Public',
+					value: 'public',
+					description: 'Anyone can see this board',
+				},
+				{
+					name: 'Protected',
+					value: 'protected',
+					description: 'Only you and collaborators can see this board',
+				},
+				{
+					name: 'Secret',
+					value: 'secret',
+					description: 'Only you can see this board',
+				},
+			],
+			default: 'public',
+			description: 'Privacy setting for the board',
+		},
+
+		{
+			displayName: 'Section Names',
+			name: 'sectionNames',
+			type: 'string',
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
+				},
+			},
+			default: '',
+			placeholder: 'Recipes,Tips,Inspiration',
+			description: 'Comma-separated list of sections to add to the new board',
+			hint: 'Sections are only added to boards created by this run, not to existing boards that are skipped',
+		},
+
+		{
+			displayName: 'Skip Existing Boards',
+			name: 'skipExistingBoards',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					resource: ['board'],
+					operation: ['bulk'],
+					bulkOperationType: ['createMultiple'],
+				},
 			},
+			default: true,
+			description:
+				'Whether to skip rows whose board name already exists on the account (or earlier in the input) and return the existing board ID instead',
 		},
 
 		{
@@ -1078,6 +5214,9 @@ export const PinterestDescription: INodeTypeDescription = {
 					resource: ['board'],
 					operation: ['bulk'],
 				},
+				hide: {
+					bulkOperationType: ['createMultiple'],
+				},
 			},
 			default: '',
 			placeholder: 'board1,board2,board3 or use array from previous node',
@@ -1152,5 +5291,41 @@ export const PinterestDescription: INodeTypeDescription = {
 			description: 'Whether to simplify the output by removing empty fields and nested objects',
 			hint: 'Recommended for easier data processing in subsequent nodes',
 		},
+
+		// Retry Options
+		{
+			displayName: 'Retry Options',
+			name: 'retryOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			description: 'How to retry requests that fail with rate limit, server or network errors',
+			options: [
+				{
+					displayName: 'Max Retries',
+					name: 'maxRetries',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						maxValue: 10,
+					},
+					default: 3,
+					description:
+						'Maximum number of retries per request. Set to 0 to disable retries. By default rate limit errors are retried up to 5 times and server errors up to 3 times.',
+				},
+				{
+					displayName: 'Max Retry Delay (Seconds)',
+					name: 'maxRetryDelay',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+						maxValue: 600,
+					},
+					default: 60,
+					description:
+						'Longest time to wait between attempts. Requests are not retried when Pinterest asks to wait longer than this.',
+				},
+			],
+		},
 	],
 };
@@ -0,0 +1,246 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+import { PinterestApiClient } from './utils/PinterestApiClient';
+import { DataTransformer } from './utils/DataTransformer';
+import { AnalyticsDateRange } from './utils/AnalyticsDateRange';
+import { AnalyticsStatistics, type AnomalyDetectionOptions } from './utils/AnalyticsStatistics';
+import type { PinResponse } from './utils/types';
+import { fetchAnalyticsRange } from './operations/user/analytics-range';
+import { PinterestTriggerDescription } from './PinterestTriggerDescription';
+
+/**
+ * Cursor kept in workflow static data for each watched source
+ */
+interface PinCursor {
+	lastCreatedAt: string;
+	lastPinIds: string[];
+}
+
+export class PinterestTrigger implements INodeType {
+	description: INodeTypeDescription = PinterestTriggerDescription;
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const watch = this.getNodeParameter('watch', 'boards') as string;
+
+		const apiClient = new PinterestApiClient(this);
+
+		if (watch === 'analyticsAnomalies') {
+			return await PinterestTrigger.pollAnomalies.call(this, apiClient);
+		}
+
+		const maxPinsPerPoll = this.getNodeParameter('maxPinsPerPoll', 100) as number;
+		const sources = PinterestTrigger.getSources.call(this, watch);
+
+		if (this.getMode() === 'manual') {
+			return await PinterestTrigger.getLatestPin(apiClient, sources);
+		}
+
+		const staticData = this.getWorkflowStaticData('node');
+		const cursors = (staticData.cursors || {}) as IDataObject;
+		const newPins: PinResponse[] = [];
+
+		for (const source of sources) {
+			const pins = await PinterestTrigger.fetchRecentPins(apiClient, source, maxPinsPerPoll);
+			const cursor = cursors[source] as PinCursor | undefined;
+
+			// First poll for a source only records where we are
+			if (cursor) {
+				newPins.push(...PinterestTrigger.filterNewPins(pins, cursor));
+			}
+
+			cursors[source] = PinterestTrigger.advanceCursor(pins, cursor) as unknown as IDataObject;
+		}
+
+		staticData.cursors = cursors;
+
+		if (newPins.length === 0) {
+			return null;
+		}
+
+		newPins.sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+
+		return [newPins.map((pin) => ({ json: DataTransformer.transformPinResponse(pin) }))];
+	}
+
+	/**
+	 * Emits anomalies of the account's daily analytics that earlier polls did not find. The first
+	 * poll only records the anomalies that already exist, and manual executions return the latest
+	 * anomaly without recording anything.
+	 */
+	private static async pollAnomalies(
+		this: IPollFunctions,
+		apiClient: PinterestApiClient,
+	): Promise<INodeExecutionData[][] | null> {
+		const lookbackDays = this.getNodeParameter('lookbackDays', 60) as number;
+
+		let options: AnomalyDetectionOptions;
+		try {
+			options = AnalyticsStatistics.resolveAnomalyOptions(
+				this.getNodeParameter('anomalyOptions', {}) as IDataObject,
+			);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error.message);
+		}
+
+		if (!(lookbackDays > options.windowDays)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Lookback days must be greater than the anomaly window of ${options.windowDays} days`,
+			);
+		}
+
+		// Complete days up to yesterday in the workflow timezone
+		const today = DataTransformer.formatDateForApi(new Date(), this.getTimezone());
+		const range = {
+			startDate: AnalyticsDateRange.addDays(today, -lookbackDays),
+			endDate: AnalyticsDateRange.addDays(today, -1),
+		};
+		const analytics = await fetchAnalyticsRange(
+			range,
+			{ metric_types: options.metrics },
+			async (params) => await apiClient.getUserAnalytics(params),
+		);
+		const anomalies = DataTransformer.findAnalyticsAnomalies(analytics, options);
+
+		if (this.getMode() === 'manual') {
+			return anomalies.length > 0 ? [[{ json: anomalies[anomalies.length - 1] }]] : null;
+		}
+
+		const key = (anomaly: IDataObject) => `${anomaly.date}:${anomaly.metric}`;
+		const staticData = this.getWorkflowStaticData('node');
+		const seen = staticData.anomalyKeys as string[] | undefined;
+		const newAnomalies = seen ? anomalies.filter((anomaly) => !seen.includes(key(anomaly))) : [];
+
+		// Days that fell out of the lookback are not checked again, so their keys can go
+		staticData.anomalyKeys = [...new Set([...(seen || []), ...anomalies.map(key)])].filter(
+			(anomalyKey) => anomalyKey.substring(0, 10) >= range.startDate,
+		);
+
+		if (newAnomalies.length === 0) {
+			return null;
+		}
+
+		return [newAnomalies.map((anomaly) => ({ json: anomaly }))];
+	}
+
+	/**
+	 * Resolves the watched sources into cursor keys ("account" or board IDs)
+	 */
+	private static getSources(this: IPollFunctions, watch: string): string[] {
+		if (watch === 'account') {
+			return ['account'];
+		}
+
+		const boardIds = (this.getNodeParameter('boardIds', '') as string)
+			.split(',')
+			.map((id) => id.trim())
+			.filter((id) => id !== '');
+
+		if (boardIds.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'At least one board ID is required');
+		}
+
+		const invalidId = boardIds.find((id) => !/^[a-zA-Z0-9_-]+$/.test(id));
+		if (invalidId) {
+			throw new NodeOperationError(this.getNode(), `Invalid board ID format: ${invalidId}`);
+		}
+
+		return [...new Set(boardIds)];
+	}
+
+	/**
+	 * Fetches the most recent pins of a source, capped to the given amount
+	 */
+	private static async fetchRecentPins(
+		apiClient: PinterestApiClient,
+		source: string,
+		maxPins: number,
+	): Promise<PinResponse[]> {
+		const pageSize = Math.min(maxPins, 250);
+
+		return await apiClient.fetchAllPages(
+			async (bookmark) =>
+				source === 'account'
+					? await apiClient.getUserPins({ limit: pageSize, bookmark })
+					: await apiClient.getBoardPins(source, { limit: pageSize, bookmark }),
+			maxPins,
+		);
+	}
+
+	/**
+	 * Returns the newest pin across all sources for manual executions
+	 */
+	private static async getLatestPin(
+		apiClient: PinterestApiClient,
+		sources: string[],
+	): Promise<INodeExecutionData[][] | null> {
+		let latest: PinResponse | undefined;
+
+		for (const source of sources) {
+			const pins = await PinterestTrigger.fetchRecentPins(apiClient, source, 25);
+			for (const pin of pins) {
+				if (!latest || Date.parse(pin.created_at) > Date.parse(latest.created_at)) {
+					latest = pin;
+				}
+			}
+		}
+
+		if (!latest) {
+			return null;
+		}
+
+		return [[{ json: DataTransformer.transformPinResponse(latest) }]];
+	}
+
+	/**
+	 * Keeps pins created after the cursor, skipping pins already emitted at the cursor timestamp
+	 */
+	static filterNewPins(pins: PinResponse[], cursor: PinCursor): PinResponse[] {
+		const cursorTime = Date.parse(cursor.lastCreatedAt);
+
+		return pins.filter((pin) => {
+			const createdAt = Date.parse(pin.created_at);
+			if (isNaN(createdAt)) {
+				return false;
+			}
+			if (createdAt > cursorTime) {
+				return true;
+			}
+			return createdAt === cursorTime && !cursor.lastPinIds.includes(pin.id);
+		});
+	}
+
+	/**
+	 * Moves the cursor to the newest pin seen, remembering every pin at that timestamp
+	 */
+	static advanceCursor(pins: PinResponse[], cursor?: PinCursor): PinCursor {
+		let lastTime = cursor ? Date.parse(cursor.lastCreatedAt) : 0;
+		let lastPinIds = cursor ? [...cursor.lastPinIds] : [];
+
+		for (const pin of pins) {
+			const createdAt = Date.parse(pin.created_at);
+			if (isNaN(createdAt)) {
+				continue;
+			}
+
+			if (createdAt > lastTime) {
+				lastTime = createdAt;
+				lastPinIds = [pin.id];
+			} else if (createdAt === lastTime && !lastPinIds.includes(pin.id)) {
+				lastPinIds.push(pin.id);
+			}
+		}
+
+		return {
+			lastCreatedAt: new Date(lastTime || Date.now()).toISOString(),
+			lastPinIds,
+		};
+	}
+}
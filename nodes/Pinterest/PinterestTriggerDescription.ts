@@ -0,0 +1,123 @@
+import type { INodeTypeDescription } from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+
+import { ANALYTICS_ANOMALY_OPTIONS } from './PinterestDescription';
+
+/**
+ * Pinterest Trigger Node Description
+ * Polls boards or the connected account for newly created pins, or the account's daily analytics
+ * for new anomalies
+ */
+export const PinterestTriggerDescription: INodeTypeDescription = {
+	displayName: 'Pinterest Trigger',
+	name: 'pinterestTrigger',
+	icon: 'file:pinterest.svg',
+	group: ['trigger'],
+	version: 1,
+	subtitle:
+		'={{$parameter["watch"] === "analyticsAnomalies" ? "Analytics anomalies" : "New pins: " + $parameter["watch"]}}',
+	description:
+		'Starts the workflow when new pins are created on Pinterest or an analytics anomaly appears',
+	defaults: {
+		name: 'Pinterest Trigger',
+	},
+	polling: true,
+	inputs: [],
+	outputs: [NodeConnectionType.Main],
+	credentials: [
+		{
+			name: 'pinterestOAuth2Api',
+			required: true,
+		},
+	],
+	properties: [
+		{
+			displayName: 'Watch',
+			name: 'watch',
+			type: 'options',
+			noDataExpression: true,
+			options: [
+				{
+					name: 'Analytics Anomalies',
+					value: 'analyticsAnomalies',
+					description: "Trigger when a new anomaly appears in the account's daily analytics",
+				},
+				{
+					name: 'My Pins',
+					value: 'account',
+					description: 'Trigger on any new pin created by the connected account',
+				},
+				{
+					name: 'Specific Boards',
+					value: 'boards',
+					description: 'Trigger on new pins saved to one or more boards',
+				},
+			],
+			default: 'boards',
+			description: 'Where to look for new pins or anomalies',
+		},
+		{
+			displayName: 'Board IDs',
+			name: 'boardIds',
+			type: 'string',
+			required: true,
+			displayOptions: {
+				show: {
+					watch: ['boards'],
+				},
+			},
+			default: '',
+			placeholder: '123456789012345678,234567890123456789',
+			description: 'Comma-separated list of board IDs to watch',
+			hint: 'Board IDs are typically 18-digit numbers. Use the Board "Get Many" operation to look them up.',
+		},
+		{
+			displayName: 'Max Pins Per Poll',
+			name: 'maxPinsPerPoll',
+			type: 'number',
+			displayOptions: {
+				hide: {
+					watch: ['analyticsAnomalies'],
+				},
+			},
+			typeOptions: {
+				minValue: 1,
+				maxValue: 1000,
+			},
+			default: 100,
+			description: 'Maximum number of recent pins to inspect per board on each poll',
+			hint: 'Every page of 250 pins costs one request against the Pinterest rate limit',
+		},
+		{
+			displayName: 'Lookback Days',
+			name: 'lookbackDays',
+			type: 'number',
+			displayOptions: {
+				show: {
+					watch: ['analyticsAnomalies'],
+				},
+			},
+			typeOptions: {
+				minValue: 4,
+				maxValue: 365,
+			},
+			default: 60,
+			description:
+				'Number of complete days of analytics to fetch on each poll. Must be longer than the anomaly window, as the first days only serve as history.',
+			hint: 'Every 90 days cost one request against the Pinterest analytics rate limit',
+		},
+		{
+			displayName: 'Anomaly Options',
+			name: 'anomalyOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			displayOptions: {
+				show: {
+					watch: ['analyticsAnomalies'],
+				},
+			},
+			default: {},
+			options: ANALYTICS_ANOMALY_OPTIONS,
+		},
+	],
+};
@@ -26,14 +26,22 @@ describe('Pinterest Node - Integration Tests', () => {
 			expect(resourceProperty?.type).toBe('options');
 
 			const resourceOptions = (resourceProperty as any)?.options;
-			expect(resourceOptions).toHaveLength(5);
+			expect(resourceOptions).toHaveLength(13);
 
 			const resourceValues = resourceOptions.map((option: any) => option.value);
 			expect(resourceValues).toContain('pin');
 			expect(resourceValues).toContain('board');
+			expect(resourceValues).toContain('boardSection');
 			expect(resourceValues).toContain('user');
 			expect(resourceValues).toContain('search');
 			expect(resourceValues).toContain('media');
+			expect(resourceValues).toContain('adAccount');
+			expect(resourceValues).toContain('campaign');
+			expect(resourceValues).toContain('adGroup');
+			expect(resourceValues).toContain('ad');
+			expect(resourceValues).toContain('conversionEvent');
+			expect(resourceValues).toContain('catalog');
+			expect(resourceValues).toContain('audience');
 		});
 
 		it('should have pin operations defined', () => {
@@ -89,7 +97,9 @@ describe('Pinterest Node - Integration Tests', () => {
 
 		it('should have correct input/output configuration', () => {
 			expect(pinterest.description.inputs).toHaveLength(1);
-			expect(pinterest.description.outputs).toHaveLength(1);
+			// A single output, plus a Row Errors output for Generate Feed File
+			expect(pinterest.description.outputs).toContain('"displayName": "Row Errors"');
+			expect(pinterest.description.outputs).toContain(': ["main"]');
 		});
 
 		it('should have correct request defaults', () => {
@@ -9,16 +9,33 @@ jest.mock('../operations/pin', () => ({
 	getPin: jest.fn(),
 	updatePin: jest.fn(),
 	deletePin: jest.fn(),
+	savePin: jest.fn(),
+	bulkCreatePins: jest.fn(),
 	bulkGetPins: jest.fn(),
 	bulkUpdatePins: jest.fn(),
 	bulkDeletePins: jest.fn(),
+	bulkSavePins: jest.fn(),
 }));
 
 jest.mock('../operations/board', () => ({
 	createBoard: jest.fn(),
 	getBoard: jest.fn(),
+	getBoards: jest.fn(),
+	getBoardPins: jest.fn(),
 	updateBoard: jest.fn(),
 	deleteBoard: jest.fn(),
+	bulkCreateBoards: jest.fn(),
+	bulkGetBoards: jest.fn(),
+	bulkUpdateBoards: jest.fn(),
+	bulkDeleteBoards: jest.fn(),
+}));
+
+jest.mock('../operations/boardSection', () => ({
+	createBoardSection: jest.fn(),
+	getBoardSections: jest.fn(),
+	updateBoardSection: jest.fn(),
+	deleteBoardSection: jest.fn(),
+	getBoardSectionPins: jest.fn(),
 }));
 
 jest.mock('../operations/user', () => ({
@@ -26,6 +43,8 @@ jest.mock('../operations/user', () => ({
 	getUserAnalytics: jest.fn(),
 	getPinAnalytics: jest.fn(),
 	getBoardAnalytics: jest.fn(),
+	getTopPins: jest.fn(),
+	getBestTimeToPost: jest.fn(),
 }));
 
 jest.mock('../operations/search', () => ({
@@ -38,6 +57,56 @@ jest.mock('../operations/media', () => ({
 	uploadMedia: jest.fn(),
 }));
 
+jest.mock('../operations/adAccount', () => ({
+	getAdAccount: jest.fn(),
+	getAdAccounts: jest.fn(),
+}));
+
+jest.mock('../operations/campaign', () => ({
+	createCampaign: jest.fn(),
+	getCampaign: jest.fn(),
+	getCampaigns: jest.fn(),
+	updateCampaign: jest.fn(),
+}));
+
+jest.mock('../operations/adGroup', () => ({
+	createAdGroup: jest.fn(),
+	getAdGroup: jest.fn(),
+	getAdGroups: jest.fn(),
+	updateAdGroup: jest.fn(),
+}));
+
+jest.mock('../operations/conversionEvent', () => ({
+	sendConversionEvents: jest.fn(),
+}));
+
+jest.mock('../operations/audience', () => ({
+	createAudience: jest.fn(),
+	getAudience: jest.fn(),
+	getAudiences: jest.fn(),
+	addAudienceMembers: jest.fn(),
+	removeAudienceMembers: jest.fn(),
+}));
+
+jest.mock('../operations/catalog', () => ({
+	createCatalogFeed: jest.fn(),
+	generateCatalogFeed: jest.fn(),
+	getCatalogFeed: jest.fn(),
+	getCatalogFeeds: jest.fn(),
+	updateCatalogFeed: jest.fn(),
+	upsertCatalogItems: jest.fn(),
+	deleteCatalogItems: jest.fn(),
+	getCatalogItemsBatch: jest.fn(),
+	getProductGroups: jest.fn(),
+}));
+
+jest.mock('../operations/ad', () => ({
+	createAd: jest.fn(),
+	getAd: jest.fn(),
+	getAds: jest.fn(),
+	updateAd: jest.fn(),
+}));
+
 jest.mock('../utils/PinterestApiClient');
 
 describe('Pinterest Node - Operation Routing', () => {
@@ -85,7 +154,8 @@ describe('Pinterest Node - Operation Routing', () => {
 	describe('Resource and Operation Validation', () => {
 		it('should validate valid resource and operation combinations', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('pin') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('pin') // resourceNone
 				.mockReturnValueOnce('create'); // operation
 
 			const mockResult: INodeExecutionData = {
@@ -104,7 +174,8 @@ describe('Pinterest Node - Operation Routing', () => {
 
 		it('should throw error for invalid resource', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('invalid') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('invalid') // resourceNone
 				.mockReturnValueOnce('create'); // operation
 
 			await expect(pinterest.execute.call(mockExecuteFunctions)).rejects.toThrow(
@@ -114,7 +185,8 @@ describe('Pinterest Node - Operation Routing', () => {
 
 		it('should throw error for invalid operation for valid resource', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('pin') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('pin') // resourceNone
 				.mockReturnValueOnce('invalid'); // operation
 
 			await expect(pinterest.execute.call(mockExecuteFunctions)).rejects.toThrow(
@@ -125,7 +197,9 @@ describe('Pinterest Node - Operation Routing', () => {
 
 	describe('Pin Operations Routing', () => {
 		beforeEach(() => {
-			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('pin'); // resource
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('pin'); // resource
 		});
 
 		it('should route to createPin operation', async () => {
@@ -196,6 +270,23 @@ describe('Pinterest Node - Operation Routing', () => {
 			expect(pinOperations.deletePin).toHaveBeenCalledWith(mockApiClient, 0);
 		});
 
+		it('should route to savePin operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('save'); // operation
+
+			const mockResult: INodeExecutionData = {
+				json: { pinId: '789', boardId: '456' },
+				pairedItem: { item: 0 },
+			};
+
+			const pinOperations = require('../operations/pin');
+			pinOperations.savePin.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([[mockResult]]);
+			expect(pinOperations.savePin).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
 		it('should route to bulk pin operations', async () => {
 			mockExecuteFunctions.getNodeParameter
 				.mockReturnValueOnce('bulk') // operation
@@ -220,11 +311,57 @@ describe('Pinterest Node - Operation Routing', () => {
 			expect(result).toEqual([mockResult]);
 			expect(pinOperations.bulkGetPins).toHaveBeenCalledWith(mockApiClient, 0);
 		});
+
+		it('should route to bulk create pins', async () => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('bulk') // operation
+				.mockReturnValueOnce('createMultiple'); // bulkOperationType
+
+			const mockResult: INodeExecutionData[] = [
+				{
+					json: { success: true, rowIndex: 0, pinId: '123' },
+					pairedItem: { item: 0 },
+				},
+			];
+
+			const pinOperations = require('../operations/pin');
+			pinOperations.bulkCreatePins.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(pinOperations.bulkCreatePins).toHaveBeenCalledWith(mockApiClient, 0);
+			expect(pinOperations.bulkGetPins).not.toHaveBeenCalled();
+		});
+
+		it('should route to bulk save pins', async () => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('bulk') // operation
+				.mockReturnValueOnce('saveMultiple'); // bulkOperationType
+
+			const mockResult: INodeExecutionData[] = [
+				{
+					json: { sourcePinId: '123', pinId: '789' },
+					pairedItem: { item: 0 },
+				},
+			];
+
+			const pinOperations = require('../operations/pin');
+			pinOperations.bulkSavePins.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(pinOperations.bulkSavePins).toHaveBeenCalledWith(mockApiClient, 0);
+			expect(pinOperations.bulkGetPins).not.toHaveBeenCalled();
+		});
 	});
 
 	describe('Board Operations Routing', () => {
 		beforeEach(() => {
-			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('board'); // resource
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('board'); // resource
 		});
 
 		it('should route to createBoard operation', async () => {
@@ -260,11 +397,106 @@ describe('Pinterest Node - Operation Routing', () => {
 			expect(result).toEqual([[mockResult]]);
 			expect(boardOperations.getBoard).toHaveBeenCalledWith(mockApiClient, 0);
 		});
+
+		it('should route to getBoards operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getAll'); // operation
+
+			const mockResult: INodeExecutionData[] = [
+				{ json: { boardId: '456', name: 'First Board' }, pairedItem: { item: 0 } },
+				{ json: { boardId: '789', name: 'Second Board' }, pairedItem: { item: 0 } },
+			];
+
+			const boardOperations = require('../operations/board');
+			boardOperations.getBoards.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(boardOperations.getBoards).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
+		it('should route to getBoardPins operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getPins'); // operation
+
+			const mockResult: INodeExecutionData[] = [
+				{ json: { pinId: '123' }, pairedItem: { item: 0 } },
+			];
+
+			const boardOperations = require('../operations/board');
+			boardOperations.getBoardPins.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(boardOperations.getBoardPins).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
+		it('should route to bulk create boards', async () => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('bulk') // operation
+				.mockReturnValueOnce('createMultiple'); // bulkOperationType
+
+			const mockResult: INodeExecutionData[] = [
+				{ json: { success: true, rowIndex: 0, boardId: '456' }, pairedItem: { item: 0 } },
+				{ json: { operation: 'bulkCreateBoards', boards: {} }, pairedItem: { item: 0 } },
+			];
+
+			const boardOperations = require('../operations/board');
+			boardOperations.bulkCreateBoards.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(boardOperations.bulkCreateBoards).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+	});
+
+	describe('Board Section Operations Routing', () => {
+		beforeEach(() => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('boardSection'); // resource
+		});
+
+		it('should route to getBoardSections operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getAll'); // operation
+
+			const mockResult: INodeExecutionData[] = [
+				{ json: { sectionId: '1', name: 'Spring' }, pairedItem: { item: 0 } },
+				{ json: { sectionId: '2', name: 'Summer' }, pairedItem: { item: 0 } },
+			];
+
+			const boardSectionOperations = require('../operations/boardSection');
+			boardSectionOperations.getBoardSections.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(boardSectionOperations.getBoardSections).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
+		it('should route to getBoardSectionPins operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getPins'); // operation
+
+			const mockResult: INodeExecutionData[] = [
+				{ json: { pinId: '123' }, pairedItem: { item: 0 } },
+			];
+
+			const boardSectionOperations = require('../operations/boardSection');
+			boardSectionOperations.getBoardSectionPins.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(boardSectionOperations.getBoardSectionPins).toHaveBeenCalledWith(mockApiClient, 0);
+		});
 	});
 
 	describe('User Operations Routing', () => {
 		beforeEach(() => {
-			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('user'); // resource
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('user'); // resource
 		});
 
 		it('should route to getUserProfile operation', async () => {
@@ -300,11 +532,47 @@ describe('Pinterest Node - Operation Routing', () => {
 			expect(result).toEqual([[mockResult]]);
 			expect(userOperations.getUserAnalytics).toHaveBeenCalledWith(mockApiClient, 0);
 		});
+
+		it('should route to getTopPins operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getTopPins'); // operation
+
+			const mockResults: INodeExecutionData[] = [
+				{ json: { rank: 1, pinId: 'pin1' }, pairedItem: { item: 0 } },
+				{ json: { operation: 'getTopPins' }, pairedItem: { item: 0 } },
+			];
+
+			const userOperations = require('../operations/user');
+			userOperations.getTopPins.mockResolvedValue(mockResults);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResults]);
+			expect(userOperations.getTopPins).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
+		it('should route to getBestTimeToPost operation', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('getBestTimeToPost'); // operation
+
+			const mockResults: INodeExecutionData[] = [
+				{ json: { weekday: 'Tuesday', recommended: true }, pairedItem: { item: 0 } },
+				{ json: { operation: 'getBestTimeToPost' }, pairedItem: { item: 0 } },
+			];
+
+			const userOperations = require('../operations/user');
+			userOperations.getBestTimeToPost.mockResolvedValue(mockResults);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResults]);
+			expect(userOperations.getBestTimeToPost).toHaveBeenCalledWith(mockApiClient, 0);
+		});
 	});
 
 	describe('Search Operations Routing', () => {
 		beforeEach(() => {
-			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('search'); // resource
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('search'); // resource
 		});
 
 		it('should route to searchPins operation', async () => {
@@ -344,7 +612,9 @@ describe('Pinterest Node - Operation Routing', () => {
 
 	describe('Media Operations Routing', () => {
 		beforeEach(() => {
-			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('media'); // resource
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('media'); // resource
 		});
 
 		it('should route to uploadMedia operation', async () => {
@@ -361,14 +631,106 @@ describe('Pinterest Node - Operation Routing', () => {
 			const result = await pinterest.execute.call(mockExecuteFunctions);
 
 			expect(result).toEqual([[mockResult]]);
-			expect(mediaOperations.uploadMedia).toHaveBeenCalledWith(0);
+			expect(mediaOperations.uploadMedia).toHaveBeenCalledWith(0, mockApiClient);
+		});
+	});
+
+	describe('Ads Operations Routing', () => {
+		it('should route to getAdAccounts operation', async () => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('adAccount') // resource
+				.mockReturnValueOnce('getAll'); // operation
+
+			const mockResult: INodeExecutionData[] = [
+				{ json: { adAccountId: '549755885175' }, pairedItem: { item: 0 } },
+			];
+
+			const adAccountOperations = require('../operations/adAccount');
+			adAccountOperations.getAdAccounts.mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([mockResult]);
+			expect(adAccountOperations.getAdAccounts).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
+		it.each([
+			['campaign', 'create', 'createCampaign'],
+			['campaign', 'update', 'updateCampaign'],
+			['adGroup', 'get', 'getAdGroup'],
+			['ad', 'getAll', 'getAds'],
+			['conversionEvent', 'send', 'sendConversionEvents'],
+			['audience', 'create', 'createAudience'],
+			['audience', 'addMembers', 'addAudienceMembers'],
+			['audience', 'removeMembers', 'removeAudienceMembers'],
+			['catalog', 'createFeed', 'createCatalogFeed'],
+			['catalog', 'upsertItems', 'upsertCatalogItems'],
+			['catalog', 'getItemBatch', 'getCatalogItemsBatch'],
+			['catalog', 'getProductGroups', 'getProductGroups'],
+		])('should route %s %s to %s', async (resource, operation, handler) => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce(resource)
+				.mockReturnValueOnce(operation);
+
+			const mockResult: INodeExecutionData = { json: { id: '1' }, pairedItem: { item: 0 } };
+
+			const operations = require(`../operations/${resource}`);
+			operations[handler].mockResolvedValue(mockResult);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([[mockResult]]);
+			expect(operations[handler]).toHaveBeenCalledWith(mockApiClient, 0);
+		});
+
+		it('should send generated feed row errors to the second output', async () => {
+			mockExecuteFunctions.getNode.mockReturnValue({
+				id: 'pinterest-node-id',
+				name: 'Pinterest',
+				type: 'pinterest',
+				typeVersion: 1,
+				position: [0, 0],
+				parameters: { resource: 'catalog', operation: 'generateFeed' },
+			});
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('catalog') // resource
+				.mockReturnValueOnce('generateFeed'); // operation
+
+			const feedItem: INodeExecutionData = { json: { itemCount: 1 }, pairedItem: [{ item: 0 }] };
+			const rowError: INodeExecutionData = {
+				json: { rowIndex: 1, errors: ['title is required'] },
+				pairedItem: { item: 1 },
+			};
+
+			const catalogOperations = require('../operations/catalog');
+			catalogOperations.generateCatalogFeed.mockResolvedValue([[feedItem], [rowError]]);
+
+			const result = await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([[feedItem], [rowError]]);
+		});
+
+		it('should reject operations that ad accounts do not support', async () => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('adAccount') // resource
+				.mockReturnValueOnce('create'); // operation
+			mockExecuteFunctions.continueOnFail.mockReturnValue(false);
+
+			await expect(pinterest.execute.call(mockExecuteFunctions)).rejects.toThrow(
+				"Invalid operation 'create' for resource 'adAccount'",
+			);
 		});
 	});
 
 	describe('Error Handling and Propagation', () => {
 		it('should propagate errors from operation handlers when not continuing on fail', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('pin') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('pin') // resourceNone
 				.mockReturnValueOnce('create'); // operation
 
 			mockExecuteFunctions.continueOnFail.mockReturnValue(false);
@@ -393,7 +755,8 @@ describe('Pinterest Node - Operation Routing', () => {
 
 		it('should handle errors gracefully when continuing on fail', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('pin') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('pin') // resourceNone
 				.mockReturnValueOnce('create') // operation
 				.mockReturnValueOnce('pin') // resource for error handling
 				.mockReturnValueOnce('create'); // operation for error handling
@@ -420,7 +783,8 @@ describe('Pinterest Node - Operation Routing', () => {
 
 		it('should enhance errors with operation context', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('board') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('board') // resourceNone
 				.mockReturnValueOnce('update'); // operation
 
 			const testError = new NodeOperationError(
@@ -453,6 +817,7 @@ describe('Pinterest Node - Operation Routing', () => {
 			mockExecuteFunctions.getInputData.mockReturnValue(inputItems);
 
 			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({}) // retryOptions
 				.mockReturnValueOnce('pin') // resource for item 0
 				.mockReturnValueOnce('create') // operation for item 0
 				.mockReturnValueOnce('pin') // resource for item 1
@@ -480,10 +845,29 @@ describe('Pinterest Node - Operation Routing', () => {
 		});
 	});
 
+	describe('Retry Options', () => {
+		it('should pass the node retry settings to the API client', async () => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce({ maxRetries: 2, maxRetryDelay: 15 }) // retryOptions
+				.mockReturnValueOnce('user') // resource
+				.mockReturnValueOnce('getProfile'); // operation
+
+			const userOperations = require('../operations/user');
+			userOperations.getUserProfile.mockResolvedValue({ json: {} });
+
+			await pinterest.execute.call(mockExecuteFunctions);
+
+			expect(PinterestApiClient).toHaveBeenLastCalledWith(mockExecuteFunctions, 0, {
+				retry: { maxRetries: 2, maxDelay: 15000 },
+			});
+		});
+	});
+
 	describe('Execution Context Passing', () => {
 		it('should pass execution context to all operation handlers', async () => {
 			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('user') // resource
+				.mockReturnValueOnce({}) // retryOptions
+				.mockReturnValueOnce('user') // resourceNone
 				.mockReturnValueOnce('getProfile'); // operation
 
 			const mockResult: INodeExecutionData = {
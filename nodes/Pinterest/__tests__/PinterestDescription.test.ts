@@ -42,10 +42,24 @@ describe('PinterestDescription', () => {
 			expect(resourceField?.type).toBe('options');
 
 			const options = (resourceField as any)?.options as INodePropertyOptions[];
-			expect(options).toHaveLength(5);
+			expect(options).toHaveLength(13);
 
 			const resourceValues = options.map((opt) => opt.value);
-			expect(resourceValues).toEqual(['board', 'media', 'pin', 'search', 'user']);
+			expect(resourceValues).toEqual([
+				'ad',
+				'adAccount',
+				'adGroup',
+				'audience',
+				'board',
+				'boardSection',
+				'campaign',
+				'catalog',
+				'conversionEvent',
+				'media',
+				'pin',
+				'search',
+				'user',
+			]);
 		});
 
 		it('should have descriptive resource options', () => {
@@ -119,10 +133,18 @@ describe('PinterestDescription', () => {
 
 			expect(operationField).toBeDefined();
 			const options = (operationField as any)?.options as INodePropertyOptions[];
-			expect(options).toHaveLength(5);
+			expect(options).toHaveLength(7);
 
 			const operationValues = options.map((opt) => opt.value);
-			expect(operationValues).toEqual(['create', 'get', 'update', 'delete', 'bulk']);
+			expect(operationValues).toEqual([
+				'bulk',
+				'create',
+				'delete',
+				'get',
+				'getAll',
+				'getPins',
+				'update',
+			]);
 		});
 
 		it('should have privacy options for board creation', () => {
@@ -144,14 +166,16 @@ describe('PinterestDescription', () => {
 
 			expect(operationField).toBeDefined();
 			const options = (operationField as any)?.options as INodePropertyOptions[];
-			expect(options).toHaveLength(4);
+			expect(options).toHaveLength(6);
 
 			const operationValues = options.map((opt) => opt.value);
 			expect(operationValues).toEqual([
-				'getProfile',
 				'getAnalytics',
-				'getPinAnalytics',
+				'getBestTimeToPost',
 				'getBoardAnalytics',
+				'getPinAnalytics',
+				'getProfile',
+				'getTopPins',
 			]);
 		});
 
@@ -230,8 +254,9 @@ describe('PinterestDescription', () => {
 				(p) => p.name === 'pinId' && p.displayOptions?.show?.resource?.includes('pin'),
 			);
 
-			expect(pinIdField?.typeOptions?.validation).toBeDefined();
-			const validation = pinIdField?.typeOptions?.validation?.[0];
+			expect(pinIdField?.type).toBe('resourceLocator');
+			const idMode = pinIdField?.modes?.find((mode) => mode.name === 'id');
+			const validation = idMode?.validation?.[0] as any;
 			expect(validation?.type).toBe('regex');
 			expect(validation?.properties?.regex).toBe('^[0-9]{10,20}$');
 		});
@@ -306,11 +331,13 @@ describe('PinterestDescription', () => {
 			expect(bulkTypeField?.type).toBe('options');
 
 			const options = (bulkTypeField as any)?.options as INodePropertyOptions[];
-			expect(options).toHaveLength(3);
+			expect(options).toHaveLength(5);
 			expect(options.map((opt) => opt.value)).toEqual([
+				'createMultiple',
+				'deleteMultiple',
 				'getMultiple',
+				'saveMultiple',
 				'updateMultiple',
-				'deleteMultiple',
 			]);
 		});
 
@@ -0,0 +1,270 @@
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { PinterestTrigger } from '../PinterestTrigger.node';
+import { PinterestApiClient } from '../utils/PinterestApiClient';
+import type { PinResponse } from '../utils/types';
+import { mockPollParameters } from './helpers';
+
+jest.mock('../utils/PinterestApiClient');
+
+const createPin = (id: string, createdAt: string): PinResponse => ({
+	id,
+	created_at: createdAt,
+	url: `https://pinterest.com/pin/${id}`,
+	board_id: '123456789012345678',
+	media: { url: `https://i.pinimg.com/${id}.jpg`, media_type: 'image' },
+});
+
+describe('PinterestTrigger', () => {
+	let trigger: PinterestTrigger;
+	let mockPollFunctions: jest.Mocked<IPollFunctions>;
+	let staticData: IDataObject;
+	let mockGetBoardPins: jest.Mock;
+	let mockGetUserPins: jest.Mock;
+	let mockGetUserAnalytics: jest.Mock;
+
+	beforeEach(() => {
+		trigger = new PinterestTrigger();
+		staticData = {};
+
+		mockPollFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest Trigger' }),
+			getMode: jest.fn().mockReturnValue('trigger'),
+			getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+			getTimezone: jest.fn().mockReturnValue('UTC'),
+		} as unknown as jest.Mocked<IPollFunctions>;
+
+		mockGetBoardPins = jest.fn();
+		mockGetUserPins = jest.fn();
+		mockGetUserAnalytics = jest.fn();
+
+		(PinterestApiClient as jest.MockedClass<typeof PinterestApiClient>).mockImplementation(
+			() =>
+				({
+					getBoardPins: mockGetBoardPins,
+					getUserPins: mockGetUserPins,
+					getUserAnalytics: mockGetUserAnalytics,
+					fetchAllPages: jest.requireActual('../utils/PinterestApiClient').PinterestApiClient
+						.prototype.fetchAllPages,
+				}) as unknown as PinterestApiClient,
+		);
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should be a polling trigger', () => {
+		expect(trigger.description.name).toBe('pinterestTrigger');
+		expect(trigger.description.polling).toBe(true);
+		expect(trigger.description.inputs).toEqual([]);
+	});
+
+	it('should only record the cursor on the first poll', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'boards', boardIds: '123456789012345678' });
+		mockGetBoardPins.mockResolvedValue({
+			items: [createPin('pin1', '2024-01-01T10:00:00Z')],
+		});
+
+		const result = await trigger.poll.call(mockPollFunctions);
+
+		expect(result).toBeNull();
+		expect(staticData.cursors).toEqual({
+			'123456789012345678': {
+				lastCreatedAt: '2024-01-01T10:00:00.000Z',
+				lastPinIds: ['pin1'],
+			},
+		});
+	});
+
+	it('should emit only pins created since the last poll, oldest first', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'boards', boardIds: '123456789012345678' });
+		staticData.cursors = {
+			'123456789012345678': {
+				lastCreatedAt: '2024-01-01T10:00:00.000Z',
+				lastPinIds: ['pin1'],
+			},
+		};
+		mockGetBoardPins.mockResolvedValue({
+			items: [
+				createPin('pin3', '2024-01-01T12:00:00Z'),
+				createPin('pin2', '2024-01-01T11:00:00Z'),
+				createPin('pin1', '2024-01-01T10:00:00Z'),
+			],
+		});
+
+		const result = await trigger.poll.call(mockPollFunctions);
+
+		expect(result).not.toBeNull();
+		expect(result![0].map((item) => item.json.pinId)).toEqual(['pin2', 'pin3']);
+		expect((staticData.cursors as IDataObject)['123456789012345678']).toEqual({
+			lastCreatedAt: '2024-01-01T12:00:00.000Z',
+			lastPinIds: ['pin3'],
+		});
+	});
+
+	it('should not re-emit pins sharing the cursor timestamp', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'account' });
+		staticData.cursors = {
+			account: { lastCreatedAt: '2024-01-01T10:00:00.000Z', lastPinIds: ['pin1'] },
+		};
+		mockGetUserPins.mockResolvedValue({
+			items: [createPin('pin1', '2024-01-01T10:00:00Z'), createPin('pin2', '2024-01-01T10:00:00Z')],
+		});
+
+		const result = await trigger.poll.call(mockPollFunctions);
+
+		expect(result![0].map((item) => item.json.pinId)).toEqual(['pin2']);
+		expect((staticData.cursors as IDataObject).account).toEqual({
+			lastCreatedAt: '2024-01-01T10:00:00.000Z',
+			lastPinIds: ['pin1', 'pin2'],
+		});
+	});
+
+	it('should return null when nothing is new', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'account' });
+		staticData.cursors = {
+			account: { lastCreatedAt: '2024-01-01T10:00:00.000Z', lastPinIds: ['pin1'] },
+		};
+		mockGetUserPins.mockResolvedValue({ items: [createPin('pin1', '2024-01-01T10:00:00Z')] });
+
+		expect(await trigger.poll.call(mockPollFunctions)).toBeNull();
+	});
+
+	it('should return the latest pin without moving the cursor in manual mode', async () => {
+		mockPollFunctions.getMode.mockReturnValue('manual');
+		mockPollParameters(mockPollFunctions, {
+			watch: 'boards',
+			boardIds: '123456789012345678, 234567890123456789',
+		});
+		mockGetBoardPins
+			.mockResolvedValueOnce({ items: [createPin('pin1', '2024-01-01T10:00:00Z')] })
+			.mockResolvedValueOnce({ items: [createPin('pin2', '2024-01-02T10:00:00Z')] });
+
+		const result = await trigger.poll.call(mockPollFunctions);
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.pinId).toBe('pin2');
+		expect(staticData.cursors).toBeUndefined();
+	});
+
+	it('should cap each source at the configured number of pins', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'account', maxPinsPerPoll: 2 });
+		mockGetUserPins.mockResolvedValue({
+			items: [
+				createPin('pin3', '2024-01-01T12:00:00Z'),
+				createPin('pin2', '2024-01-01T11:00:00Z'),
+				createPin('pin1', '2024-01-01T10:00:00Z'),
+			],
+			bookmark: 'next',
+		});
+
+		await trigger.poll.call(mockPollFunctions);
+
+		expect(mockGetUserPins).toHaveBeenCalledTimes(1);
+		expect(mockGetUserPins).toHaveBeenCalledWith({ limit: 2, bookmark: undefined });
+	});
+
+	it('should reject invalid board IDs', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'boards', boardIds: 'bad id!' });
+
+		await expect(trigger.poll.call(mockPollFunctions)).rejects.toThrow(NodeOperationError);
+		expect(mockGetBoardPins).not.toHaveBeenCalled();
+	});
+
+	it('should require at least one board ID', async () => {
+		mockPollParameters(mockPollFunctions, { watch: 'boards', boardIds: ' , ' });
+
+		await expect(trigger.poll.call(mockPollFunctions)).rejects.toThrow(
+			'At least one board ID is required',
+		);
+	});
+
+	describe('analytics anomalies', () => {
+		// Impressions hold steady for two weeks and collapse on 15 January
+		const analytics = {
+			daily_metrics: Array.from({ length: 15 }, (_, index) => ({
+				date: `2024-01-${String(index + 1).padStart(2, '0')}`,
+				data_status: 'READY',
+				metrics: { IMPRESSION: index === 14 ? 400 : index % 2 ? 990 : 1010, SAVE: 10 },
+			})),
+		};
+
+		beforeEach(() => {
+			jest.useFakeTimers().setSystemTime(new Date('2024-01-16T12:00:00Z'));
+			mockGetUserAnalytics.mockResolvedValue(analytics);
+			mockPollParameters(mockPollFunctions, {
+				watch: 'analyticsAnomalies',
+				lookbackDays: 20,
+				anomalyOptions: { windowDays: 14 },
+			});
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should only record the anomalies found on the first poll', async () => {
+			const result = await trigger.poll.call(mockPollFunctions);
+
+			expect(result).toBeNull();
+			expect(mockGetUserAnalytics).toHaveBeenCalledWith({
+				start_date: '2023-12-27',
+				end_date: '2024-01-15',
+				metric_types: ['IMPRESSION', 'SAVE'],
+			});
+			expect(staticData.anomalyKeys).toEqual(['2024-01-15:IMPRESSION']);
+		});
+
+		it('should emit anomalies that earlier polls did not find', async () => {
+			staticData.anomalyKeys = ['2023-12-01:SAVE'];
+
+			const result = await trigger.poll.call(mockPollFunctions);
+
+			expect(result).toEqual([
+				[
+					{
+						json: expect.objectContaining({
+							metric: 'IMPRESSION',
+							date: '2024-01-15',
+							value: 400,
+							expected: 1000,
+							severity: 'high',
+						}),
+					},
+				],
+			]);
+			// Keys of days before the lookback are dropped
+			expect(staticData.anomalyKeys).toEqual(['2024-01-15:IMPRESSION']);
+		});
+
+		it('should return null when no anomaly is new', async () => {
+			staticData.anomalyKeys = ['2024-01-15:IMPRESSION'];
+
+			expect(await trigger.poll.call(mockPollFunctions)).toBeNull();
+		});
+
+		it('should return the latest anomaly without recording it in manual mode', async () => {
+			mockPollFunctions.getMode.mockReturnValue('manual');
+
+			const result = await trigger.poll.call(mockPollFunctions);
+
+			expect(result![0][0].json).toMatchObject({ metric: 'IMPRESSION', date: '2024-01-15' });
+			expect(staticData.anomalyKeys).toBeUndefined();
+		});
+
+		it('should require a lookback longer than the anomaly window', async () => {
+			mockPollParameters(mockPollFunctions, {
+				watch: 'analyticsAnomalies',
+				lookbackDays: 14,
+				anomalyOptions: { windowDays: 14 },
+			});
+
+			await expect(trigger.poll.call(mockPollFunctions)).rejects.toThrow(
+				'Lookback days must be greater than the anomaly window of 14 days',
+			);
+			expect(mockGetUserAnalytics).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,48 @@
+import type { IDataObject, IExecuteFunctions, IPollFunctions } from 'n8n-workflow';
+
+/**
+ * Makes getNodeParameter return the given values by parameter name, and the fallback passed by
+ * the operation for every other parameter
+ */
+export function mockParameters(
+	executeFunctions: jest.Mocked<IExecuteFunctions>,
+	parameters: Record<string, unknown>,
+): void {
+	executeFunctions.getNodeParameter.mockImplementation(((
+		name: string,
+		_itemIndex: number,
+		fallback?: unknown,
+	) =>
+		name in parameters ? parameters[name] : fallback) as IExecuteFunctions['getNodeParameter']);
+}
+
+/**
+ * Makes the rows the input items and reads every parameter from the row of its item, except for
+ * the settings, which are the same for all items
+ */
+export function mockRows(
+	executeFunctions: jest.Mocked<IExecuteFunctions>,
+	rows: IDataObject[],
+	settings: Record<string, unknown> = {},
+): void {
+	executeFunctions.getInputData.mockReturnValue(rows.map((row) => ({ json: row })));
+	executeFunctions.getNodeParameter.mockImplementation(((
+		name: string,
+		itemIndex: number,
+		fallback?: unknown,
+	) => {
+		if (name in settings) return settings[name];
+		return rows[itemIndex]?.[name] ?? fallback;
+	}) as IExecuteFunctions['getNodeParameter']);
+}
+
+/**
+ * mockParameters for polling nodes, whose getNodeParameter takes no item index
+ */
+export function mockPollParameters(
+	pollFunctions: jest.Mocked<IPollFunctions>,
+	parameters: Record<string, unknown>,
+): void {
+	pollFunctions.getNodeParameter.mockImplementation(((name: string, fallback?: unknown) =>
+		name in parameters ? parameters[name] : fallback) as IPollFunctions['getNodeParameter']);
+}
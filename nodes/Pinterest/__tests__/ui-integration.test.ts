@@ -158,7 +158,8 @@ describe('Pinterest Node UI Integration', () => {
 				(p) => p.name === 'pinId' && p.displayOptions?.show?.resource?.includes('pin'),
 			);
 
-			const validation = pinIdField?.typeOptions?.validation?.[0];
+			const idMode = pinIdField?.modes?.find((mode) => mode.name === 'id');
+			const validation = idMode?.validation?.[0] as any;
 			expect(validation?.type).toBe('regex');
 
 			// Test the regex pattern
@@ -270,7 +271,7 @@ describe('Pinterest Node UI Integration', () => {
 			const bulkTypeField = description.properties.find((p) => p.name === 'bulkOperationType');
 			expect(bulkTypeField).toBeDefined();
 			const bulkOptions = (bulkTypeField as any)?.options as INodePropertyOptions[];
-			expect(bulkOptions?.length).toBe(3);
+			expect(bulkOptions?.length).toBe(5);
 
 			// Check that bulk operations are only shown for pin resource
 			expect(bulkTypeField?.displayOptions?.show?.resource).toContain('pin');
@@ -0,0 +1,121 @@
+import type { ILoadOptionsFunctions } from 'n8n-workflow';
+import { searchAdAccounts, searchBoards, searchBoardSections, searchPins } from '../listSearch';
+import { PinterestApiClient } from '../../utils/PinterestApiClient';
+
+jest.mock('../../utils/PinterestApiClient');
+
+describe('Pinterest list search methods', () => {
+	let mockLoadOptionsFunctions: jest.Mocked<ILoadOptionsFunctions>;
+	let mockGetBoards: jest.Mock;
+	let mockGetUserPins: jest.Mock;
+	let mockGetBoardSections: jest.Mock;
+	let mockGetAdAccounts: jest.Mock;
+
+	beforeEach(() => {
+		mockLoadOptionsFunctions = {
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+			getCurrentNodeParameter: jest.fn(),
+		} as unknown as jest.Mocked<ILoadOptionsFunctions>;
+
+		mockGetBoards = jest.fn();
+		mockGetUserPins = jest.fn();
+		mockGetBoardSections = jest.fn();
+		mockGetAdAccounts = jest.fn();
+
+		(PinterestApiClient as jest.MockedClass<typeof PinterestApiClient>).mockImplementation(
+			() =>
+				({
+					getBoards: mockGetBoards,
+					getUserPins: mockGetUserPins,
+					getBoardSections: mockGetBoardSections,
+					getAdAccounts: mockGetAdAccounts,
+				}) as unknown as PinterestApiClient,
+		);
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should list boards filtered by name and pass on the bookmark', async () => {
+		mockGetBoards.mockResolvedValue({
+			items: [
+				{ id: '1', name: 'Summer Recipes', url: '/jane/summer-recipes/' },
+				{ id: '2', name: 'Travel', url: '/jane/travel/' },
+			],
+			bookmark: 'next-page',
+		});
+
+		const result = await searchBoards.call(mockLoadOptionsFunctions, 'recipe', 'page-1');
+
+		expect(mockGetBoards).toHaveBeenCalledWith({ limit: 100, bookmark: 'page-1' });
+		expect(result).toEqual({
+			results: [{ name: 'Summer Recipes', value: '1', url: '/jane/summer-recipes/' }],
+			paginationToken: 'next-page',
+		});
+	});
+
+	it('should list pins by title, falling back to the description or ID', async () => {
+		mockGetUserPins.mockResolvedValue({
+			items: [
+				{ id: '10', title: 'Lemon Tart' },
+				{ id: '11', description: 'Weekend brunch ideas' },
+				{ id: '12' },
+			],
+		});
+
+		const result = await searchPins.call(mockLoadOptionsFunctions);
+
+		expect(result.results.map((item) => item.name)).toEqual([
+			'Lemon Tart',
+			'Weekend brunch ideas',
+			'Pin 12',
+		]);
+		expect(result.results[0].url).toBe('https://www.pinterest.com/pin/10/');
+		expect(result.paginationToken).toBeUndefined();
+	});
+
+	it('should list the sections of the selected board', async () => {
+		mockLoadOptionsFunctions.getCurrentNodeParameter.mockReturnValue({
+			__rl: true,
+			mode: 'list',
+			value: '123456789012345678',
+		});
+		mockGetBoardSections.mockResolvedValue({ items: [{ id: '50', name: 'Desserts' }] });
+
+		const result = await searchBoardSections.call(mockLoadOptionsFunctions);
+
+		expect(mockGetBoardSections).toHaveBeenCalledWith('123456789012345678', {
+			limit: 100,
+			bookmark: undefined,
+		});
+		expect(result.results).toEqual([{ name: 'Desserts', value: '50' }]);
+	});
+
+	it('should return no sections until a board is selected', async () => {
+		mockLoadOptionsFunctions.getCurrentNodeParameter.mockReturnValue({
+			__rl: true,
+			mode: 'list',
+			value: '',
+		});
+
+		const result = await searchBoardSections.call(mockLoadOptionsFunctions);
+
+		expect(result).toEqual({ results: [] });
+		expect(mockGetBoardSections).not.toHaveBeenCalled();
+	});
+
+	it('should list ad accounts filtered by name', async () => {
+		mockGetAdAccounts.mockResolvedValue({
+			items: [
+				{ id: '549755885175', name: 'Main account' },
+				{ id: '549755885176', name: 'Agency' },
+			],
+		});
+
+		const result = await searchAdAccounts.call(mockLoadOptionsFunctions, 'main');
+
+		expect(mockGetAdAccounts).toHaveBeenCalledWith({ limit: 100, bookmark: undefined });
+		expect(result.results).toEqual([{ name: 'Main account', value: '549755885175' }]);
+	});
+});
@@ -0,0 +1,125 @@
+import type {
+	ILoadOptionsFunctions,
+	INodeListSearchItems,
+	INodeListSearchResult,
+} from 'n8n-workflow';
+
+import { PinterestApiClient } from '../utils/PinterestApiClient';
+import { ResourceLocator } from '../utils/ResourceLocator';
+
+/**
+ * List search methods backing the node's board, pin, section and ad account pickers.
+ * Pinterest cannot filter these lists by name, so each page is filtered locally and the
+ * bookmark is handed back to the UI as the pagination token.
+ */
+
+const PAGE_SIZE = 100;
+
+const matchesFilter = (name: string, filter?: string) =>
+	!filter || name.toLowerCase().includes(filter.toLowerCase());
+
+/**
+ * Lists the connected account's boards
+ */
+export async function searchBoards(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const response = await new PinterestApiClient(this).getBoards({
+		limit: PAGE_SIZE,
+		bookmark: paginationToken,
+	});
+
+	const results: INodeListSearchItems[] = (response.items || [])
+		.filter((board) => matchesFilter(board.name, filter))
+		.map((board) => ({
+			name: board.name,
+			value: board.id,
+			url: board.url,
+		}));
+
+	return { results, paginationToken: response.bookmark || undefined };
+}
+
+/**
+ * Lists the connected account's pins, newest first
+ */
+export async function searchPins(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const response = await new PinterestApiClient(this).getUserPins({
+		limit: PAGE_SIZE,
+		bookmark: paginationToken,
+	});
+
+	const results: INodeListSearchItems[] = (response.items || [])
+		.map((pin) => ({
+			name: pin.title || pin.description?.slice(0, 80) || `Pin ${pin.id}`,
+			value: pin.id,
+			url: `https://www.pinterest.com/pin/${pin.id}/`,
+		}))
+		.filter((item) => matchesFilter(item.name, filter));
+
+	return { results, paginationToken: response.bookmark || undefined };
+}
+
+/**
+ * Lists the sections of the board currently selected in the node
+ */
+export async function searchBoardSections(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const apiClient = new PinterestApiClient(this);
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getCurrentNodeParameter('boardId'),
+		0,
+	);
+
+	if (!boardId) {
+		return { results: [] };
+	}
+
+	const response = await apiClient.getBoardSections(boardId, {
+		limit: PAGE_SIZE,
+		bookmark: paginationToken,
+	});
+
+	const results: INodeListSearchItems[] = (response.items || [])
+		.filter((section) => matchesFilter(section.name, filter))
+		.map((section) => ({
+			name: section.name,
+			value: section.id,
+		}));
+
+	return { results, paginationToken: response.bookmark || undefined };
+}
+
+/**
+ * Lists the ad accounts the connected user can access
+ */
+export async function searchAdAccounts(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const response = await new PinterestApiClient(this).getAdAccounts({
+		limit: PAGE_SIZE,
+		bookmark: paginationToken,
+	});
+
+	const results: INodeListSearchItems[] = (response.items || [])
+		.filter((adAccount) => matchesFilter(adAccount.name, filter))
+		.map((adAccount) => ({
+			name: adAccount.name,
+			value: adAccount.id,
+		}));
+
+	return { results, paginationToken: response.bookmark || undefined };
+}
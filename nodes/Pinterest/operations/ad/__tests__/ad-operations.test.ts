@@ -0,0 +1,96 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { AdResponse } from '../../../utils/types';
+import { createAd } from '../create.operation';
+import { getAd } from '../get.operation';
+import { updateAd } from '../update.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Ad Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const adAccountId = { __rl: true, mode: 'list', value: '549755885175' };
+
+	const ad: AdResponse = {
+		id: '687195134316',
+		ad_account_id: '549755885175',
+		campaign_id: '626735565838',
+		ad_group_id: '2680059592705',
+		pin_id: '123456789012345678',
+		creative_type: 'REGULAR',
+		status: 'ACTIVE',
+		review_status: 'PENDING',
+		created_time: 1735603200,
+	};
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createAd: jest.fn().mockResolvedValue(ad),
+			getAd: jest.fn().mockResolvedValue(ad),
+			updateAd: jest.fn().mockResolvedValue(ad),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should promote a pin selected by URL', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId,
+			adGroupId: '2680059592705',
+			pinId: {
+				__rl: true,
+				mode: 'url',
+				value: 'https://www.pinterest.com/pin/123456789012345678/',
+			},
+			creativeType: 'REGULAR',
+			additionalFields: { destinationUrl: 'https://example.com/spring', name: 'Spring ad' },
+		});
+
+		const result = await createAd.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createAd).toHaveBeenCalledWith('549755885175', {
+			ad_group_id: '2680059592705',
+			pin_id: '123456789012345678',
+			creative_type: 'REGULAR',
+			status: 'ACTIVE',
+			name: 'Spring ad',
+			destination_url: 'https://example.com/spring',
+		});
+		expect(result.json).toMatchObject({
+			adId: '687195134316',
+			pinId: '123456789012345678',
+			reviewStatus: 'PENDING',
+			createdAt: '2024-12-31T00:00:00.000Z',
+		});
+	});
+
+	it('should reject destination URLs that are not web addresses', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId,
+			adId: '687195134316',
+			updateFields: { destinationUrl: 'example.com' },
+		});
+
+		await expect(updateAd.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Invalid destination URL format: example.com',
+		);
+		expect(mockApiClient.updateAd).not.toHaveBeenCalled();
+	});
+
+	it('should wrap API errors with the operation', async () => {
+		mockParameters(mockExecuteFunctions, { adAccountId, adId: '687195134316' });
+		mockApiClient.getAd.mockRejectedValue(new Error('Not found'));
+
+		await expect(getAd.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Failed to get ad: Not found',
+		);
+	});
+});
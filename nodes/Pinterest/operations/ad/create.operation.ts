@@ -0,0 +1,108 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AdEntityStatus, AdRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Create ad operation handler
+ * Promotes a pin by creating an ad for it in an ad group
+ */
+export async function createAd(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const adGroupId = (this.getNodeParameter('adGroupId', itemIndex) as string).trim();
+	const pinId = ResourceLocator.getPinId(
+		this.getNode(),
+		this.getNodeParameter('pinId', itemIndex),
+		itemIndex,
+	);
+	const creativeType = this.getNodeParameter('creativeType', itemIndex, 'REGULAR') as string;
+	const additionalFields = this.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!adGroupId) {
+		throw new NodeOperationError(this.getNode(), 'Ad group ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!pinId) {
+		throw new NodeOperationError(this.getNode(), 'Pin ID is required', {
+			itemIndex,
+		});
+	}
+
+	const adData: AdRequest = {
+		ad_group_id: adGroupId,
+		pin_id: pinId,
+		creative_type: creativeType,
+		status: 'ACTIVE',
+		...buildAdFields.call(this, additionalFields, itemIndex),
+	};
+
+	try {
+		// Create ad via API
+		const response = await apiClient.createAd(adAccountId, adData);
+
+		return {
+			json: DataTransformer.transformAdResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to create ad: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Converts the ad fields of the create and update operations into API fields
+ */
+export function buildAdFields(
+	this: IExecuteFunctions,
+	fields: IDataObject,
+	itemIndex: number,
+): AdRequest {
+	const adData: AdRequest = {};
+
+	if (typeof fields.name === 'string' && fields.name.trim() !== '') {
+		adData.name = fields.name.trim();
+	}
+
+	if (fields.status) {
+		adData.status = fields.status as AdEntityStatus;
+	}
+
+	if (typeof fields.destinationUrl === 'string' && fields.destinationUrl.trim() !== '') {
+		const destinationUrl = fields.destinationUrl.trim();
+
+		if (!/^https?:\/\/[^\s]+$/i.test(destinationUrl)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Invalid destination URL format: ${destinationUrl}`,
+				{
+					itemIndex,
+				},
+			);
+		}
+		adData.destination_url = destinationUrl;
+	}
+
+	return adData;
+}
@@ -0,0 +1,49 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get ad operation handler
+ * Retrieves an ad of an ad account by ID
+ */
+export async function getAd(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const adId = (this.getNodeParameter('adId', itemIndex) as string).trim();
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!adId) {
+		throw new NodeOperationError(this.getNode(), 'Ad ID is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const response = await apiClient.getAd(adAccountId, adId);
+
+		return {
+			json: DataTransformer.transformAdResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to get ad: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
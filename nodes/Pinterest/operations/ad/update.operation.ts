@@ -0,0 +1,64 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { buildAdFields } from './create.operation';
+
+/**
+ * Update ad operation handler
+ * Changes an ad's name, status or destination URL
+ */
+export async function updateAd(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const adId = (this.getNodeParameter('adId', itemIndex) as string).trim();
+	const updateFields = this.getNodeParameter('updateFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!adId) {
+		throw new NodeOperationError(this.getNode(), 'Ad ID is required', {
+			itemIndex,
+		});
+	}
+
+	const updateData = buildAdFields.call(this, updateFields, itemIndex);
+
+	// Check if at least one field is being updated
+	if (Object.keys(updateData).length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'At least one field must be provided to update the ad',
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	try {
+		const response = await apiClient.updateAd(adAccountId, adId, updateData);
+
+		return {
+			json: DataTransformer.transformAdResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to update ad: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
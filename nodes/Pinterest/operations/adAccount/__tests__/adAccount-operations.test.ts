@@ -0,0 +1,65 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { getAdAccount } from '../get.operation';
+import { getAdAccounts } from '../getAll.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Ad Account Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			getAdAccount: jest.fn(),
+			getAdAccounts: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should get an ad account selected from the list', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId: { __rl: true, mode: 'list', value: '549755885175' },
+		});
+		mockApiClient.getAdAccount.mockResolvedValue({
+			id: '549755885175',
+			name: 'Main account',
+			owner: { username: 'jane' },
+			currency: 'USD',
+		});
+
+		const result = await getAdAccount.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.getAdAccount).toHaveBeenCalledWith('549755885175');
+		expect(result.json).toEqual({
+			adAccountId: '549755885175',
+			name: 'Main account',
+			ownerUsername: 'jane',
+			country: null,
+			currency: 'USD',
+			permissions: [],
+			createdAt: null,
+			updatedAt: null,
+		});
+	});
+
+	it('should follow bookmarks when returning all ad accounts', async () => {
+		mockParameters(mockExecuteFunctions, { returnAll: true });
+		mockApiClient.getAdAccounts
+			.mockResolvedValueOnce({ items: [{ id: '1', name: 'One' }], bookmark: 'next' })
+			.mockResolvedValueOnce({ items: [{ id: '2', name: 'Two' }] });
+
+		const result = await getAdAccounts.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.getAdAccounts).toHaveBeenLastCalledWith({ limit: 250, bookmark: 'next' });
+		expect(result.map((item) => item.json.adAccountId)).toEqual(['1', '2']);
+	});
+});
@@ -0,0 +1,42 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get ad account operation handler
+ * Retrieves an ad account the connected user can access
+ */
+export async function getAdAccount(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const response = await apiClient.getAdAccount(adAccountId);
+
+		return {
+			json: DataTransformer.transformAdAccountResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to get ad account: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
@@ -0,0 +1,49 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Get ad accounts operation handler
+ * Lists the ad accounts the connected user owns or has been granted access to
+ */
+export async function getAdAccounts(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get list parameters
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+
+	// Validate parameters
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const adAccounts = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getAdAccounts({
+					limit: returnAll ? 250 : Math.min(limit, 250),
+					bookmark,
+				}),
+			limit,
+		);
+
+		return adAccounts.map((adAccount) => ({
+			json: DataTransformer.transformAdAccountResponse(adAccount),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to list ad accounts: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
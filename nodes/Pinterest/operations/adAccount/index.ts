@@ -0,0 +1,5 @@
+// Ad account operations index file
+// Exports ad account lookup operations of the ads API
+
+export * from './get.operation';
+export * from './getAll.operation';
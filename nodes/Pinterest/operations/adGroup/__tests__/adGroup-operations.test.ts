@@ -0,0 +1,121 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { AdGroupResponse } from '../../../utils/types';
+import { createAdGroup } from '../create.operation';
+import { getAdGroups } from '../getAll.operation';
+import { updateAdGroup } from '../update.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Ad Group Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const adAccountId = { __rl: true, mode: 'id', value: '549755885175' };
+
+	const adGroup: AdGroupResponse = {
+		id: '2680059592705',
+		ad_account_id: '549755885175',
+		campaign_id: '626735565838',
+		name: 'Shoppers',
+		status: 'ACTIVE',
+		budget_type: 'DAILY',
+		budget_in_micro_currency: 10_000_000,
+		bid_in_micro_currency: 1_250_000,
+		billable_event: 'CLICKTHROUGH',
+	};
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createAdGroup: jest.fn().mockResolvedValue(adGroup),
+			getAdGroups: jest.fn(),
+			updateAdGroup: jest.fn().mockResolvedValue(adGroup),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should create an ad group with the budget and bid in micro-currency', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId,
+			campaignId: '626735565838',
+			name: 'Shoppers',
+			billableEvent: 'CLICKTHROUGH',
+			additionalFields: { budgetType: 'DAILY', budget: 10, bid: 1.25, autoTargetingEnabled: false },
+		});
+
+		const result = await createAdGroup.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createAdGroup).toHaveBeenCalledWith('549755885175', {
+			campaign_id: '626735565838',
+			name: 'Shoppers',
+			billable_event: 'CLICKTHROUGH',
+			status: 'ACTIVE',
+			budget_type: 'DAILY',
+			budget_in_micro_currency: 10_000_000,
+			bid_in_micro_currency: 1_250_000,
+			auto_targeting_enabled: false,
+		});
+		expect(result.json).toMatchObject({
+			adGroupId: '2680059592705',
+			campaignId: '626735565838',
+			budget: 10,
+			bid: 1.25,
+		});
+	});
+
+	it('should require an end time for lifetime budgets', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId,
+			campaignId: '626735565838',
+			name: 'Shoppers',
+			billableEvent: 'IMPRESSION',
+			additionalFields: { budgetType: 'LIFETIME', budget: 500 },
+		});
+
+		await expect(createAdGroup.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'An end time is required for lifetime budgets',
+		);
+	});
+
+	it('should filter ad groups by campaign and ad group IDs', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId,
+			returnAll: true,
+			adsFilters: { campaignIds: '626735565838', adGroupIds: '1,,2' },
+		});
+		mockApiClient.getAdGroups.mockResolvedValue({ items: [adGroup] });
+
+		const result = await getAdGroups.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.getAdGroups).toHaveBeenCalledWith('549755885175', {
+			limit: 250,
+			bookmark: undefined,
+			entity_statuses: undefined,
+			campaign_ids: ['626735565838'],
+			ad_group_ids: ['1', '2'],
+		});
+		expect(result).toHaveLength(1);
+	});
+
+	it('should update the budget of an ad group', async () => {
+		mockParameters(mockExecuteFunctions, {
+			adAccountId,
+			adGroupId: '2680059592705',
+			updateFields: { budget: 12.345678 },
+		});
+
+		await updateAdGroup.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.updateAdGroup).toHaveBeenCalledWith('549755885175', '2680059592705', {
+			budget_in_micro_currency: 12_345_678,
+		});
+	});
+});
@@ -0,0 +1,143 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AdEntityStatus, AdGroupRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Create ad group operation handler
+ * Creates an ad group in a campaign with a budget, bid and schedule
+ */
+export async function createAdGroup(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const campaignId = (this.getNodeParameter('campaignId', itemIndex) as string).trim();
+	const name = this.getNodeParameter('name', itemIndex) as string;
+	const billableEvent = this.getNodeParameter(
+		'billableEvent',
+		itemIndex,
+	) as AdGroupRequest['billable_event'];
+	const additionalFields = this.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!campaignId) {
+		throw new NodeOperationError(this.getNode(), 'Campaign ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!name || name.trim() === '') {
+		throw new NodeOperationError(this.getNode(), 'Ad group name is required', {
+			itemIndex,
+		});
+	}
+
+	const adGroupData: AdGroupRequest = {
+		campaign_id: campaignId,
+		name: name.trim(),
+		billable_event: billableEvent,
+		status: 'ACTIVE',
+		...buildAdGroupFields.call(this, additionalFields, itemIndex),
+	};
+
+	try {
+		// Create ad group via API
+		const response = await apiClient.createAdGroup(adAccountId, adGroupData);
+
+		return {
+			json: DataTransformer.transformAdGroupResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to create ad group: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Converts the ad group fields of the create and update operations into API fields.
+ * Budgets and bids are entered in the account currency and the schedule as dates.
+ */
+export function buildAdGroupFields(
+	this: IExecuteFunctions,
+	fields: IDataObject,
+	itemIndex: number,
+): AdGroupRequest {
+	const adGroupData: AdGroupRequest = {};
+
+	if (typeof fields.name === 'string' && fields.name.trim() !== '') {
+		adGroupData.name = fields.name.trim();
+	}
+
+	if (fields.status) {
+		adGroupData.status = fields.status as AdEntityStatus;
+	}
+
+	if (fields.budgetType) {
+		adGroupData.budget_type = fields.budgetType as AdGroupRequest['budget_type'];
+	}
+
+	for (const [field, apiField, label] of [
+		['budget', 'budget_in_micro_currency', 'Budget'],
+		['bid', 'bid_in_micro_currency', 'Bid'],
+	] as const) {
+		if (fields[field] === undefined || fields[field] === '') {
+			continue;
+		}
+
+		const amount = Number(fields[field]);
+		if (isNaN(amount) || amount <= 0) {
+			throw new NodeOperationError(this.getNode(), `${label} must be a positive amount`, {
+				itemIndex,
+			});
+		}
+		adGroupData[apiField] = DataTransformer.toMicroCurrency(amount);
+	}
+
+	if (fields.autoTargetingEnabled !== undefined) {
+		adGroupData.auto_targeting_enabled = fields.autoTargetingEnabled as boolean;
+	}
+
+	if (fields.startTime) {
+		adGroupData.start_time = DataTransformer.toUnixSeconds(fields.startTime as string);
+	}
+
+	if (fields.endTime) {
+		adGroupData.end_time = DataTransformer.toUnixSeconds(fields.endTime as string);
+	}
+
+	if (
+		adGroupData.start_time &&
+		adGroupData.end_time &&
+		adGroupData.end_time <= adGroupData.start_time
+	) {
+		throw new NodeOperationError(this.getNode(), 'End time must be after the start time', {
+			itemIndex,
+		});
+	}
+
+	// Lifetime budgets are spent over the schedule, so Pinterest needs to know when it ends
+	if (adGroupData.budget_type === 'LIFETIME' && fields.endTime === undefined) {
+		throw new NodeOperationError(this.getNode(), 'An end time is required for lifetime budgets', {
+			itemIndex,
+		});
+	}
+
+	return adGroupData;
+}
@@ -0,0 +1,70 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AdEntityStatus } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get ad groups operation handler
+ * Lists the ad groups of an ad account, optionally filtered by status, campaign or ID
+ */
+export async function getAdGroups(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get list parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+	const filters = this.getNodeParameter('adsFilters', itemIndex, {}) as IDataObject;
+	const [campaignIds, adGroupIds] = [filters.campaignIds, filters.adGroupIds].map((ids) =>
+		ids
+			? String(ids)
+					.split(',')
+					.map((id) => id.trim())
+					.filter((id) => id !== '')
+			: [],
+	);
+
+	// Validate parameters
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const adGroups = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getAdGroups(adAccountId, {
+					limit: returnAll ? 250 : Math.min(limit, 250),
+					bookmark,
+					entity_statuses: filters.entityStatuses as AdEntityStatus[] | undefined,
+					campaign_ids: campaignIds,
+					ad_group_ids: adGroupIds,
+				}),
+			limit,
+		);
+
+		return adGroups.map((adGroup) => ({
+			json: DataTransformer.transformAdGroupResponse(adGroup),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to list ad groups: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
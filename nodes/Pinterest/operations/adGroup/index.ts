@@ -0,0 +1,7 @@
+// Ad group operations index file
+// Exports ad group management operations of the ads API
+
+export * from './create.operation';
+export * from './get.operation';
+export * from './getAll.operation';
+export * from './update.operation';
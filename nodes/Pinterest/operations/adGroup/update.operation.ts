@@ -0,0 +1,64 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { buildAdGroupFields } from './create.operation';
+
+/**
+ * Update ad group operation handler
+ * Changes an ad group's name, status, budget, bid or schedule
+ */
+export async function updateAdGroup(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const adGroupId = (this.getNodeParameter('adGroupId', itemIndex) as string).trim();
+	const updateFields = this.getNodeParameter('updateFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!adGroupId) {
+		throw new NodeOperationError(this.getNode(), 'Ad group ID is required', {
+			itemIndex,
+		});
+	}
+
+	const updateData = buildAdGroupFields.call(this, updateFields, itemIndex);
+
+	// Check if at least one field is being updated
+	if (Object.keys(updateData).length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'At least one field must be provided to update the ad group',
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	try {
+		const response = await apiClient.updateAdGroup(adAccountId, adGroupId, updateData);
+
+		return {
+			json: DataTransformer.transformAdGroupResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to update ad group: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
@@ -0,0 +1,220 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { SecurityValidator } from '../../../utils/SecurityValidator';
+import type { AudienceResponse, CustomerListResponse } from '../../../utils/types';
+import { createAudience } from '../create.operation';
+import { getAudience } from '../get.operation';
+import { addAudienceMembers, removeAudienceMembers } from '../members.operation';
+import { mockRows } from '../../../__tests__/helpers';
+
+describe('Audience Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const hash = (value: string) => SecurityValidator.hashSensitiveData(value, true);
+
+	const audience: AudienceResponse = {
+		id: '2542620639259',
+		ad_account_id: '549755885175',
+		name: 'Newsletter subscribers',
+		audience_type: 'CUSTOMER_LIST',
+		rule: { customer_list_id: 'list-1' },
+		status: 'READY',
+		size: 1500,
+		created_timestamp: 1735689600,
+	};
+
+	const customerList: CustomerListResponse = {
+		id: 'list-1',
+		type: 'EMAIL',
+		status: 'READY',
+		num_uploaded_user_records: 2500,
+		num_removed_user_records: 500,
+	};
+
+	// Member identifiers come from each row, everything else from the shared parameters
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getInputData: jest.fn(),
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createCustomerList: jest.fn().mockResolvedValue({ id: 'list-1', type: 'EMAIL' }),
+			updateCustomerList: jest.fn().mockResolvedValue(customerList),
+			getCustomerList: jest.fn().mockResolvedValue(customerList),
+			createAudience: jest.fn().mockResolvedValue(audience),
+			getAudience: jest.fn().mockResolvedValue(audience),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('createAudience', () => {
+		it('should create the list with the first chunk and append the remaining members', async () => {
+			mockRows(
+				mockExecuteFunctions,
+				[
+					{ audienceMember: ' Ann@Example.com ' },
+					{ audienceMember: 'not-an-email' },
+					{ audienceMember: 'bob@example.com, ann@example.com' },
+					{ audienceMember: 'cy@example.com' },
+				],
+				{
+					adAccountId: { __rl: true, mode: 'list', value: '549755885175' },
+					audienceName: 'Newsletter subscribers',
+					audienceListType: 'EMAIL',
+					additionalFields: { description: 'From the CRM' },
+					audienceOptions: { batchSize: 2 },
+				},
+			);
+
+			const result = await createAudience.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.createCustomerList).toHaveBeenCalledWith('549755885175', {
+				name: 'Newsletter subscribers',
+				list_type: 'EMAIL',
+				records: `${hash('ann@example.com')},${hash('bob@example.com')}`,
+			});
+			expect(mockApiClient.updateCustomerList).toHaveBeenCalledWith('549755885175', 'list-1', {
+				records: hash('cy@example.com'),
+				operation_type: 'ADD',
+			});
+			expect(mockApiClient.createAudience).toHaveBeenCalledWith('549755885175', {
+				name: 'Newsletter subscribers',
+				audience_type: 'CUSTOMER_LIST',
+				description: 'From the CRM',
+				rule: { customer_list_id: 'list-1' },
+			});
+			expect(result).toHaveLength(1);
+			expect(result[0].json).toMatchObject({
+				audienceId: '2542620639259',
+				customerListId: 'list-1',
+				membersReceived: 4,
+				membersUploaded: 3,
+				duplicatesRemoved: 1,
+				invalidMembers: [{ rowIndex: 1, error: 'Invalid email address in user data' }],
+				failedMembers: [],
+				matchStatus: { matchedUsers: 1500, matchRate: 0.75 },
+			});
+			expect(result[0].pairedItem).toHaveLength(4);
+		});
+
+		it('should fail without any valid member', async () => {
+			mockRows(mockExecuteFunctions, [{ audienceMember: '' }], {
+				adAccountId: '549755885175',
+				audienceName: 'Newsletter subscribers',
+			});
+
+			await expect(createAudience.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'No valid audience members in the input items',
+			);
+			expect(mockApiClient.createCustomerList).not.toHaveBeenCalled();
+		});
+
+		it('should only run once for all input items', async () => {
+			mockRows(mockExecuteFunctions, [{ audienceMember: 'ann@example.com' }]);
+
+			const result = await createAudience.call(mockExecuteFunctions, mockApiClient, 1);
+
+			expect(result).toEqual([]);
+			expect(mockApiClient.createCustomerList).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('addAudienceMembers', () => {
+		it('should hash mobile advertising IDs for MAID lists and report failed chunks', async () => {
+			(mockApiClient.getCustomerList as jest.Mock).mockResolvedValue({
+				...customerList,
+				type: 'MAID',
+			});
+			(mockApiClient.updateCustomerList as jest.Mock).mockRejectedValue(
+				new Error('Customer list is being processed'),
+			);
+			mockRows(
+				mockExecuteFunctions,
+				[
+					{ audienceMember: '6D92078A-8246-4BA4-AE5B-76104861E7DC' },
+					{ audienceMember: 'ann@example.com' },
+				],
+				{ adAccountId: '549755885175', audienceId: '2542620639259' },
+			);
+
+			const result = await addAudienceMembers.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.updateCustomerList).toHaveBeenCalledWith('549755885175', 'list-1', {
+				records: hash('6d92078a-8246-4ba4-ae5b-76104861e7dc'),
+				operation_type: 'ADD',
+			});
+			expect(result[0].json).toMatchObject({
+				operation: 'ADD',
+				listType: 'MAID',
+				membersUploaded: 0,
+				invalidMembers: [{ rowIndex: 1, error: 'Invalid mobile advertising ID in user data' }],
+				failedMembers: [{ rowIndex: 0, error: 'Customer list is being processed' }],
+			});
+		});
+	});
+
+	describe('removeAudienceMembers', () => {
+		it('should pass already hashed identifiers through', async () => {
+			const hashed = hash('ann@example.com');
+			mockRows(mockExecuteFunctions, [{ audienceMember: hashed.toUpperCase() }], {
+				adAccountId: '549755885175',
+				audienceId: '2542620639259',
+			});
+
+			const result = await removeAudienceMembers.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.updateCustomerList).toHaveBeenCalledWith('549755885175', 'list-1', {
+				records: hashed,
+				operation_type: 'REMOVE',
+			});
+			expect(result[0].json).toMatchObject({ operation: 'REMOVE', membersUploaded: 1 });
+		});
+
+		it('should reject audiences that are not based on a customer list', async () => {
+			(mockApiClient.getAudience as jest.Mock).mockResolvedValue({ ...audience, rule: {} });
+			mockRows(mockExecuteFunctions, [{ audienceMember: 'ann@example.com' }], {
+				adAccountId: '549755885175',
+				audienceId: '2542620639259',
+			});
+
+			await expect(
+				removeAudienceMembers.call(mockExecuteFunctions, mockApiClient, 0),
+			).rejects.toThrow(NodeOperationError);
+			expect(mockApiClient.updateCustomerList).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('getAudience', () => {
+		it('should report the match status of the customer list', async () => {
+			mockRows(mockExecuteFunctions, [{}], {
+				adAccountId: '549755885175',
+				audienceId: '2542620639259',
+			});
+
+			const result = await getAudience.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getCustomerList).toHaveBeenCalledWith('549755885175', 'list-1');
+			expect(result.json).toMatchObject({
+				audienceId: '2542620639259',
+				customerListId: 'list-1',
+				size: 1500,
+				createdAt: '2025-01-01T00:00:00.000Z',
+				matchStatus: {
+					audienceStatus: 'READY',
+					listStatus: 'READY',
+					uploadedRecords: 2500,
+					removedRecords: 500,
+					matchedUsers: 1500,
+					matchRate: 0.75,
+				},
+			});
+		});
+	});
+});
@@ -0,0 +1,131 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AudienceResponse, CustomerListResponse, CustomerListType } from '../../utils/types';
+import { MAX_AUDIENCE_RECORDS_PER_REQUEST } from '../../utils/BatchProcessor';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { readAudienceMembers, uploadAudienceMembers } from './members.operation';
+
+/**
+ * Create audience operation handler
+ * Uploads the members of all input items to a new customer list and creates an audience
+ * targeting the Pinterest users it matches
+ */
+export async function createAudience(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// All input items become members of one audience when the node runs for the first item
+	if (itemIndex !== 0) {
+		return [];
+	}
+
+	const items = this.getInputData();
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', 0));
+	const name = (this.getNodeParameter('audienceName', 0, '') as string).trim();
+	const listType = this.getNodeParameter('audienceListType', 0, 'EMAIL') as CustomerListType;
+	const additionalFields = this.getNodeParameter('additionalFields', 0, {}) as IDataObject;
+	const options = this.getNodeParameter('audienceOptions', 0, {}) as IDataObject;
+	const recordsPerRequest = Math.min(
+		Math.max(Math.floor(Number(options.batchSize) || MAX_AUDIENCE_RECORDS_PER_REQUEST), 1),
+		MAX_AUDIENCE_RECORDS_PER_REQUEST,
+	);
+
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', { itemIndex });
+	}
+
+	if (!name) {
+		throw new NodeOperationError(this.getNode(), 'Audience name is required', { itemIndex });
+	}
+
+	if (name.length > 255) {
+		throw new NodeOperationError(this.getNode(), 'Audience name must be at most 255 characters', {
+			itemIndex,
+		});
+	}
+
+	const members = readAudienceMembers.call(this, items.length, listType);
+	if (members.rows.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'No valid audience members in the input items', {
+			itemIndex,
+			description: members.invalidMembers[0]?.error,
+		});
+	}
+
+	// Pinterest creates the customer list with its first records; the rest are appended
+	const [firstChunk, remaining] = [
+		members.rows.slice(0, recordsPerRequest),
+		members.rows.slice(recordsPerRequest),
+	];
+
+	let customerList: CustomerListResponse;
+	try {
+		customerList = await apiClient.createCustomerList(adAccountId, {
+			name,
+			list_type: listType,
+			records: firstChunk.map((row) => row.record).join(','),
+		});
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to create customer list: ${error.message}`,
+			{ itemIndex },
+		);
+	}
+
+	let membersUploaded = firstChunk.length;
+	let failedMembers: Array<{ rowIndex: number; error: string }> = [];
+
+	if (remaining.length > 0) {
+		const upload = await uploadAudienceMembers.call(
+			this,
+			apiClient,
+			adAccountId,
+			customerList.id,
+			remaining,
+			'ADD',
+			recordsPerRequest,
+		);
+		customerList = upload.customerList || customerList;
+		membersUploaded += upload.membersUploaded;
+		failedMembers = upload.failedMembers;
+	}
+
+	let audience: AudienceResponse;
+	try {
+		audience = await apiClient.createAudience(adAccountId, {
+			name,
+			audience_type: 'CUSTOMER_LIST',
+			...(additionalFields.description
+				? { description: String(additionalFields.description) }
+				: {}),
+			rule: { customer_list_id: customerList.id },
+		});
+	} catch (error) {
+		// The uploaded list is kept, so the audience can be created from it later
+		throw new NodeOperationError(this.getNode(), `Failed to create audience: ${error.message}`, {
+			itemIndex,
+			description: `The members were uploaded to customer list ${customerList.id}`,
+		});
+	}
+
+	return [
+		{
+			json: {
+				...DataTransformer.transformAudienceResponse(audience),
+				customerListId: customerList.id,
+				listType,
+				membersReceived: items.length,
+				membersUploaded,
+				duplicatesRemoved: members.duplicatesRemoved,
+				invalidMembers: members.invalidMembers,
+				failedMembers,
+				matchStatus: DataTransformer.transformAudienceMatchStatus(audience, customerList),
+			},
+			pairedItem: items.map((_item, rowIndex) => ({ item: rowIndex })),
+		},
+	];
+}
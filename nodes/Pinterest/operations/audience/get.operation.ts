@@ -0,0 +1,58 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { CustomerListResponse } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get audience operation handler
+ * Retrieves an audience by ID with the match status of its customer list
+ */
+export async function getAudience(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const audienceId = (this.getNodeParameter('audienceId', itemIndex) as string).trim();
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!audienceId) {
+		throw new NodeOperationError(this.getNode(), 'Audience ID is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const audience = await apiClient.getAudience(adAccountId, audienceId);
+
+		let customerList: CustomerListResponse | null = null;
+		if (audience.rule?.customer_list_id) {
+			customerList = await apiClient.getCustomerList(adAccountId, audience.rule.customer_list_id);
+		}
+
+		return {
+			json: {
+				...DataTransformer.transformAudienceResponse(audience),
+				matchStatus: DataTransformer.transformAudienceMatchStatus(audience, customerList),
+			},
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to get audience: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
@@ -0,0 +1,57 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get audiences operation handler
+ * Lists the audiences of an ad account
+ */
+export async function getAudiences(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get list parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+
+	// Validate parameters
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const audiences = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getAudiences(adAccountId, {
+					limit: returnAll ? 250 : Math.min(limit, 250),
+					bookmark,
+				}),
+			limit,
+		);
+
+		return audiences.map((audience) => ({
+			json: DataTransformer.transformAudienceResponse(audience),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to list audiences: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
@@ -0,0 +1,7 @@
+// Audience operations index file
+// Exports customer list audience operations of the ads API
+
+export * from './create.operation';
+export * from './get.operation';
+export * from './getAll.operation';
+export * from './members.operation';
@@ -0,0 +1,263 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type {
+	AudienceMemberRow,
+	AudienceResponse,
+	BatchOperationConfig,
+	CustomerListOperation,
+	CustomerListResponse,
+	CustomerListType,
+} from '../../utils/types';
+import {
+	BatchProcessor,
+	CancellationToken,
+	MAX_AUDIENCE_RECORDS_PER_REQUEST,
+} from '../../utils/BatchProcessor';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { hashIdentifiers, normalizeEmail } from '../conversionEvent/send.operation';
+
+const MOBILE_AD_ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Hashed members read from the input items, with the rows that could not be used
+ */
+export interface AudienceMembers {
+	rows: AudienceMemberRow[];
+	invalidMembers: Array<{ rowIndex: number; error: string }>;
+	duplicatesRemoved: number;
+}
+
+/**
+ * Add audience members operation handler
+ * Appends the member of every input item to the customer list behind an audience
+ */
+export async function addAudienceMembers(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	return await updateAudienceMembers.call(this, apiClient, itemIndex, 'ADD');
+}
+
+/**
+ * Remove audience members operation handler
+ * Removes the member of every input item from the customer list behind an audience
+ */
+export async function removeAudienceMembers(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	return await updateAudienceMembers.call(this, apiClient, itemIndex, 'REMOVE');
+}
+
+/**
+ * Uploads the members of all input items to the audience's customer list in chunks and
+ * returns one summary with the match status of the audience
+ */
+async function updateAudienceMembers(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+	operation: CustomerListOperation,
+): Promise<INodeExecutionData[]> {
+	// All input items are uploaded together when the node runs for the first item
+	if (itemIndex !== 0) {
+		return [];
+	}
+
+	const items = this.getInputData();
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', 0));
+	const audienceId = (this.getNodeParameter('audienceId', 0, '') as string).trim();
+	const options = this.getNodeParameter('audienceOptions', 0, {}) as IDataObject;
+
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', { itemIndex });
+	}
+
+	if (!audienceId) {
+		throw new NodeOperationError(this.getNode(), 'Audience ID is required', { itemIndex });
+	}
+
+	let audience: AudienceResponse;
+	let customerList: CustomerListResponse;
+	try {
+		audience = await apiClient.getAudience(adAccountId, audienceId);
+		const customerListId = audience.rule?.customer_list_id;
+		if (!customerListId) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Audience ${audienceId} is not based on a customer list`,
+				{
+					itemIndex,
+					description: 'Members can only be added to or removed from customer list audiences',
+				},
+			);
+		}
+		customerList = await apiClient.getCustomerList(adAccountId, customerListId);
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to get audience: ${error.message}`, {
+			itemIndex,
+		});
+	}
+
+	// The list type decides how identifiers are normalized before hashing
+	const members = readAudienceMembers.call(this, items.length, customerList.type || 'EMAIL');
+	const failedMembers: Array<{ rowIndex: number; error: string }> = [];
+	let membersUploaded = 0;
+
+	if (members.rows.length > 0) {
+		const upload = await uploadAudienceMembers.call(
+			this,
+			apiClient,
+			adAccountId,
+			customerList.id,
+			members.rows,
+			operation,
+			Number(options.batchSize) || MAX_AUDIENCE_RECORDS_PER_REQUEST,
+		);
+		customerList = upload.customerList || customerList;
+		membersUploaded = upload.membersUploaded;
+		failedMembers.push(...upload.failedMembers);
+	}
+
+	return [
+		{
+			json: {
+				audienceId: audience.id,
+				customerListId: customerList.id,
+				operation,
+				listType: customerList.type || null,
+				membersReceived: items.length,
+				membersUploaded,
+				duplicatesRemoved: members.duplicatesRemoved,
+				invalidMembers: members.invalidMembers,
+				failedMembers,
+				matchStatus: DataTransformer.transformAudienceMatchStatus(audience, customerList),
+			},
+			pairedItem: items.map((_item, rowIndex) => ({ item: rowIndex })),
+		},
+	];
+}
+
+/**
+ * Reads the member identifiers of all input items, normalizing and SHA-256 hashing them.
+ * Rows without a usable identifier are reported rather than failing the run, and repeated
+ * identifiers are only sent once.
+ */
+export function readAudienceMembers(
+	this: IExecuteFunctions,
+	itemCount: number,
+	listType: CustomerListType,
+): AudienceMembers {
+	const normalize = listType === 'MAID' ? normalizeMobileAdId : normalizeEmail;
+	const members: AudienceMembers = { rows: [], invalidMembers: [], duplicatesRemoved: 0 };
+	const records = new Set<string>();
+
+	for (let rowIndex = 0; rowIndex < itemCount; rowIndex++) {
+		let hashed: string[] | undefined;
+		try {
+			hashed = hashIdentifiers(this.getNodeParameter('audienceMember', rowIndex, ''), normalize);
+		} catch (error) {
+			members.invalidMembers.push({ rowIndex, error: error.message });
+			continue;
+		}
+
+		if (!hashed) {
+			members.invalidMembers.push({ rowIndex, error: 'Member identifier is required' });
+			continue;
+		}
+
+		for (const record of hashed) {
+			if (records.has(record)) {
+				members.duplicatesRemoved++;
+				continue;
+			}
+			records.add(record);
+			members.rows.push({ rowIndex, record });
+		}
+	}
+
+	return members;
+}
+
+/**
+ * Sends hashed members to a customer list in chunks. Failed chunks are reported by input
+ * row and the latest list state is returned for the match status.
+ */
+export async function uploadAudienceMembers(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	adAccountId: string,
+	customerListId: string,
+	rows: AudienceMemberRow[],
+	operation: CustomerListOperation,
+	recordsPerRequest: number,
+): Promise<{
+	customerList?: CustomerListResponse;
+	membersUploaded: number;
+	failedMembers: Array<{ rowIndex: number; error: string }>;
+}> {
+	const batchConfig: BatchOperationConfig = {
+		maxConcurrency: 1,
+		enableOptimization: false,
+		retryAttempts: 2,
+	};
+
+	const batchProcessor = new BatchProcessor(this, apiClient);
+	const cancellationToken = new CancellationToken();
+	let customerList: CustomerListResponse | undefined;
+	let membersUploaded = 0;
+	const failedRows = new Map<number, string>();
+
+	try {
+		const batchResult = await batchProcessor.processAudienceMemberBatch(
+			adAccountId,
+			customerListId,
+			rows,
+			operation,
+			recordsPerRequest,
+			batchConfig,
+			cancellationToken,
+		);
+
+		for (const result of batchResult.success) {
+			membersUploaded += result.rows.length;
+			customerList = result.customerList;
+		}
+
+		for (const batchError of batchResult.errors) {
+			for (const rowIndex of batchError.itemId.split(',').map(Number)) {
+				failedRows.set(rowIndex, batchError.error);
+			}
+		}
+	} finally {
+		// Clean up resources
+		batchProcessor.clearCache();
+	}
+
+	return {
+		customerList,
+		membersUploaded,
+		failedMembers: [...failedRows].map(([rowIndex, error]) => ({ rowIndex, error })),
+	};
+}
+
+/**
+ * Lowercases a mobile advertising ID (IDFA or GAID) as Pinterest does before hashing
+ */
+export function normalizeMobileAdId(mobileAdId: string): string {
+	const normalized = mobileAdId.trim().toLowerCase();
+
+	if (!MOBILE_AD_ID_REGEX.test(normalized)) {
+		throw new Error('Invalid mobile advertising ID in user data');
+	}
+
+	return normalized;
+}
@@ -0,0 +1,171 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { bulkCreateBoards } from '../bulk.operation';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { BoardResponse, CreateBoardRequest } from '../../../utils/types';
+import { mockRows } from '../../../__tests__/helpers';
+
+describe('Board Bulk Create Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const createBoardResponse = (id: string, name: string): BoardResponse => ({
+		id,
+		name,
+		created_at: '2024-01-01T00:00:00Z',
+		url: `https://pinterest.com/user/${id}`,
+		privacy: 'public',
+		pin_count: 0,
+		follower_count: 0,
+		owner: { username: 'user' },
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getInputData: jest.fn(),
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createBoard: jest.fn(async (boardData: CreateBoardRequest) =>
+				createBoardResponse(`id-${boardData.name}`, boardData.name),
+			),
+			createBoardSection: jest.fn(async (_boardId: string, { name }: { name: string }) => ({
+				id: `section-${name}`,
+				name,
+			})),
+			getBoards: jest.fn().mockResolvedValue({ items: [] }),
+			fetchAllPages: jest.requireActual('../../../utils/PinterestApiClient').PinterestApiClient
+				.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should create boards with their sections and return a name-to-ID map', async () => {
+		mockRows(mockExecuteFunctions, [
+			{ name: 'Recipes', description: 'Food', privacy: 'secret', sectionNames: 'Soups, Salads' },
+			{ name: 'Travel', sectionNames: ['Europe'] },
+		]);
+
+		const result = await bulkCreateBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createBoard).toHaveBeenCalledWith({
+			name: 'Recipes',
+			description: 'Food',
+			privacy: 'secret',
+		});
+		expect(mockApiClient.createBoardSection).toHaveBeenCalledWith('id-Recipes', { name: 'Soups' });
+		expect(mockApiClient.createBoardSection).toHaveBeenCalledWith('id-Recipes', {
+			name: 'Salads',
+		});
+		expect(mockApiClient.createBoardSection).toHaveBeenCalledWith('id-Travel', { name: 'Europe' });
+
+		expect(result).toHaveLength(3);
+		expect(result[0].json).toMatchObject({
+			success: true,
+			skipped: false,
+			rowIndex: 0,
+			boardId: 'id-Recipes',
+			sections: [
+				{ sectionId: 'section-Soups', name: 'Soups', boardId: 'id-Recipes' },
+				{ sectionId: 'section-Salads', name: 'Salads', boardId: 'id-Recipes' },
+			],
+		});
+		expect(result[1].pairedItem).toEqual({ item: 1 });
+		expect(result[2].json).toMatchObject({
+			operation: 'bulkCreateBoards',
+			createdCount: 2,
+			skippedCount: 0,
+			errorCount: 0,
+			boards: { Recipes: 'id-Recipes', Travel: 'id-Travel' },
+		});
+	});
+
+	it('should skip boards that already exist or repeat a name in the input', async () => {
+		(mockApiClient.getBoards as jest.Mock).mockResolvedValue({
+			items: [createBoardResponse('existing-1', 'Recipes')],
+		});
+		mockRows(mockExecuteFunctions, [{ name: 'recipes ' }, { name: 'Travel' }, { name: 'Travel' }]);
+
+		const result = await bulkCreateBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createBoard).toHaveBeenCalledTimes(1);
+		expect(result.map((item) => item.json.skipped)).toEqual([true, false, true, undefined]);
+		expect(result[0].json).toEqual({
+			success: true,
+			skipped: true,
+			rowIndex: 0,
+			name: 'Recipes',
+			boardId: 'existing-1',
+		});
+		expect(result[2].json).toMatchObject({ rowIndex: 2, boardId: 'id-Travel' });
+		expect(result[3].json.boards).toEqual({ Recipes: 'existing-1', Travel: 'id-Travel' });
+	});
+
+	it('should create every row without looking up boards when skipping is off', async () => {
+		mockRows(mockExecuteFunctions, [{ name: 'Recipes' }], { skipExistingBoards: false });
+
+		await bulkCreateBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.getBoards).not.toHaveBeenCalled();
+		expect(mockApiClient.createBoard).toHaveBeenCalledTimes(1);
+	});
+
+	it('should report invalid rows, failed boards and failed sections per row', async () => {
+		(mockApiClient.createBoard as jest.Mock).mockImplementation(
+			async (boardData: CreateBoardRequest) => {
+				if (boardData.name === 'Broken') {
+					throw new Error('Board limit reached');
+				}
+				return createBoardResponse(`id-${boardData.name}`, boardData.name);
+			},
+		);
+		(mockApiClient.createBoardSection as jest.Mock).mockRejectedValueOnce(
+			new Error('Section name taken'),
+		);
+		mockRows(mockExecuteFunctions, [
+			{ name: 'Recipes', sectionNames: 'Soups' },
+			{ name: '' },
+			{ name: 'Broken' },
+		]);
+
+		const result = await bulkCreateBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result[0].json).toMatchObject({
+			success: true,
+			sections: [],
+			sectionErrors: [{ name: 'Soups', error: 'Section name taken' }],
+		});
+		expect(result[1].json).toEqual({
+			success: false,
+			rowIndex: 1,
+			error: 'Board name is required',
+		});
+		expect(result[2].json).toMatchObject({
+			success: false,
+			rowIndex: 2,
+			error: 'Board limit reached',
+		});
+		expect(result[3].json).toMatchObject({ errorCount: 2, boards: { Recipes: 'id-Recipes' } });
+	});
+
+	it('should not create a board again after a server error by default', async () => {
+		(mockApiClient.createBoard as jest.Mock).mockRejectedValue(
+			Object.assign(new Error('Service Unavailable'), { httpCode: '503' }),
+		);
+		mockRows(mockExecuteFunctions, [{ name: 'Recipes' }]);
+
+		const result = await bulkCreateBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result[0].json).toMatchObject({ success: false, error: 'Service Unavailable' });
+		expect(mockApiClient.createBoard).toHaveBeenCalledTimes(1);
+	});
+
+	it('should only run once for all input items', async () => {
+		mockRows(mockExecuteFunctions, [{ name: 'Recipes' }]);
+
+		const result = await bulkCreateBoards.call(mockExecuteFunctions, mockApiClient, 1);
+
+		expect(result).toEqual([]);
+		expect(mockApiClient.createBoard).not.toHaveBeenCalled();
+	});
+});
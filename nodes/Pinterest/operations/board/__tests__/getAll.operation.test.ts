@@ -0,0 +1,98 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { getBoards } from '../getAll.operation';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { BoardResponse } from '../../../utils/types';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Board Get Many Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const makeBoard = (id: string): BoardResponse => ({
+		id,
+		name: `Board ${id}`,
+		created_at: '2023-01-01T00:00:00Z',
+		url: `https://pinterest.com/board/${id}`,
+		privacy: 'public',
+		pin_count: 3,
+		follower_count: 7,
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as any;
+
+		mockApiClient = {
+			getBoards: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as any;
+
+		jest.clearAllMocks();
+	});
+
+	it('should page through every board when returning all', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, { returnAll: true, privacyFilter: 'ALL' });
+		mockApiClient.getBoards
+			.mockResolvedValueOnce({ items: [makeBoard('b1'), makeBoard('b2')], bookmark: 'next' })
+			.mockResolvedValueOnce({ items: [makeBoard('b3')] });
+
+		// Act
+		const result = await getBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		// Assert
+		expect(mockApiClient.getBoards).toHaveBeenNthCalledWith(2, {
+			limit: 250,
+			bookmark: 'next',
+			privacy: 'ALL',
+		});
+		expect(result.map((item) => item.json.boardId)).toEqual(['b1', 'b2', 'b3']);
+		expect(result[0].json).toMatchObject({ name: 'Board b1', pinCount: 3, followerCount: 7 });
+		expect(result[0].pairedItem).toEqual({ item: 0 });
+	});
+
+	it('should pass the privacy filter and respect the limit', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, { returnAll: false, limit: 2, privacyFilter: 'SECRET' });
+		mockApiClient.getBoards.mockResolvedValue({
+			items: [makeBoard('b1'), makeBoard('b2')],
+			bookmark: 'next',
+		});
+
+		// Act
+		const result = await getBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+		// Assert
+		expect(mockApiClient.getBoards).toHaveBeenCalledTimes(1);
+		expect(mockApiClient.getBoards).toHaveBeenCalledWith({
+			limit: 2,
+			bookmark: undefined,
+			privacy: 'SECRET',
+		});
+		expect(result).toHaveLength(2);
+	});
+
+	it('should reject an unknown privacy filter', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, { returnAll: true, privacyFilter: 'friends' });
+
+		// Act & Assert
+		await expect(getBoards.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Invalid privacy filter',
+		);
+		expect(mockApiClient.getBoards).not.toHaveBeenCalled();
+	});
+
+	it('should wrap API errors with context', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, { returnAll: true });
+		mockApiClient.getBoards.mockRejectedValue(new Error('Unauthorized'));
+
+		// Act & Assert
+		await expect(getBoards.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Failed to list boards: Unauthorized',
+		);
+	});
+});
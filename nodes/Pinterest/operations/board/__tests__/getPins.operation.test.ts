@@ -0,0 +1,81 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { getBoardPins } from '../getPins.operation';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { PinResponse } from '../../../utils/types';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Board Get Pins Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const makePin = (id: string): PinResponse => ({
+		id,
+		created_at: '2023-01-01T00:00:00Z',
+		url: `https://pinterest.com/pin/${id}`,
+		board_id: '123456789012345678',
+		media: { url: `https://i.pinimg.com/${id}.jpg`, media_type: 'image' },
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as any;
+
+		mockApiClient = {
+			getBoardPins: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as any;
+
+		jest.clearAllMocks();
+	});
+
+	it('should return one transformed item per pin across pages', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, { boardId: ' 123456789012345678 ', returnAll: true });
+		mockApiClient.getBoardPins
+			.mockResolvedValueOnce({ items: [makePin('p1')], bookmark: 'next' })
+			.mockResolvedValueOnce({ items: [makePin('p2')] });
+
+		// Act
+		const result = await getBoardPins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		// Assert
+		expect(mockApiClient.getBoardPins).toHaveBeenNthCalledWith(1, '123456789012345678', {
+			limit: 250,
+			bookmark: undefined,
+		});
+		expect(result.map((item) => item.json.pinId)).toEqual(['p1', 'p2']);
+		expect(result[0].json.mediaUrl).toBe('https://i.pinimg.com/p1.jpg');
+	});
+
+	it('should stop after the limit is reached', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123456789012345678',
+			returnAll: false,
+			limit: 1,
+		});
+		mockApiClient.getBoardPins.mockResolvedValue({
+			items: [makePin('p1'), makePin('p2')],
+			bookmark: 'next',
+		});
+
+		// Act
+		const result = await getBoardPins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		// Assert
+		expect(mockApiClient.getBoardPins).toHaveBeenCalledTimes(1);
+		expect(result).toHaveLength(1);
+	});
+
+	it('should require a board ID', async () => {
+		// Arrange
+		mockParameters(mockExecuteFunctions, { boardId: '', returnAll: true });
+
+		// Act & Assert
+		await expect(getBoardPins.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Board ID is required',
+		);
+	});
+});
@@ -2,12 +2,15 @@ import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
 import type {
+	BulkBoardCreateRow,
+	CreateBoardRequest,
 	UpdateBoardRequest,
 	BatchOperationConfig,
 	BatchOperationProgress,
 } from '../../utils/types';
 import { DataTransformer } from '../../utils/DataTransformer';
 import { BatchProcessor, CancellationToken } from '../../utils/BatchProcessor';
+import { Logger } from '../../utils/Logger';
 
 /**
  * Enhanced bulk board operations handler with optimization and progress tracking
@@ -473,3 +476,260 @@ export async function bulkDeleteBoards(
 		batchProcessor.clearCache();
 	}
 }
+
+/**
+ * Bulk create boards operation with enhanced batch processing
+ * Builds one board per input item, adds its sections, and creates them all on the first
+ * item's run. Boards whose name already exists can be skipped, and a name-to-ID map of
+ * every board is returned with the summary.
+ */
+export async function bulkCreateBoards(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// All rows are handled together, so later items have nothing left to do
+	if (itemIndex > 0) {
+		return [];
+	}
+
+	const items = this.getInputData();
+	const skipExisting = this.getNodeParameter('skipExistingBoards', itemIndex, true) as boolean;
+	const results: INodeExecutionData[] = [];
+	const rows: BulkBoardCreateRow[] = [];
+
+	// Board IDs by lower-cased name, filled with existing boards and then with created ones
+	const boardIdsByName = new Map<string, { name: string; boardId: string }>();
+	// Rows repeating a name already queued in this run, resolved once the first one exists
+	const duplicateRows: Array<{ rowIndex: number; name: string }> = [];
+
+	if (skipExisting) {
+		const existingBoards = await apiClient.fetchAllPages(
+			async (bookmark) => await apiClient.getBoards({ limit: 250, bookmark }),
+		);
+		for (const board of existingBoards) {
+			boardIdsByName.set(board.name.trim().toLowerCase(), {
+				name: board.name,
+				boardId: board.id,
+			});
+		}
+	}
+
+	const queuedNames = new Set<string>();
+
+	for (let rowIndex = 0; rowIndex < items.length; rowIndex++) {
+		let row: BulkBoardCreateRow;
+		try {
+			row = buildBulkBoardRow.call(this, rowIndex);
+		} catch (error) {
+			results.push({
+				json: {
+					success: false,
+					rowIndex,
+					error: error instanceof Error ? error.message : String(error),
+				},
+				pairedItem: { item: rowIndex },
+			});
+			continue;
+		}
+
+		const nameKey = row.boardData.name.toLowerCase();
+
+		if (skipExisting && boardIdsByName.has(nameKey)) {
+			const existing = boardIdsByName.get(nameKey)!;
+			results.push({
+				json: { success: true, skipped: true, rowIndex, ...existing },
+				pairedItem: { item: rowIndex },
+			});
+			continue;
+		}
+
+		if (skipExisting && queuedNames.has(nameKey)) {
+			duplicateRows.push({ rowIndex, name: row.boardData.name });
+			continue;
+		}
+
+		queuedNames.add(nameKey);
+		rows.push(row);
+	}
+
+	// Get batch configuration from node parameters
+	const batchConfig: BatchOperationConfig = {
+		maxBatchSize: this.getNodeParameter('maxBatchSize', itemIndex, 50) as number,
+		maxConcurrency: this.getNodeParameter('maxConcurrency', itemIndex, 3) as number, // Lower concurrency for creates
+		enableProgressTracking: this.getNodeParameter(
+			'enableProgressTracking',
+			itemIndex,
+			true,
+		) as boolean,
+		enableOptimization: this.getNodeParameter('enableOptimization', itemIndex, true) as boolean,
+		// The first attempt plus the retries, which are off unless asked for as a repeated create
+		// can create the board twice
+		retryAttempts: (this.getNodeParameter('retryAttempts', itemIndex, 0) as number) + 1,
+		retryDelay: this.getNodeParameter('retryDelay', itemIndex, 1500) as number,
+	};
+
+	// Validate batch size limits
+	const maxAllowedBatchSize = 100;
+	if (batchConfig.maxBatchSize! > maxAllowedBatchSize) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Maximum batch size is ${maxAllowedBatchSize}, got ${batchConfig.maxBatchSize}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	// Initialize batch processor
+	const batchProcessor = new BatchProcessor(this, apiClient);
+	const cancellationToken = new CancellationToken();
+	const logger = new Logger(this.getNode());
+
+	if (batchConfig.enableProgressTracking) {
+		batchConfig.progressCallback = (progress: BatchOperationProgress) => {
+			logger.debug('Bulk create boards progress', {
+				percentage: progress.percentage,
+				completed: progress.completed,
+				total: progress.total,
+			});
+		};
+	}
+
+	try {
+		const batchResult = await batchProcessor.processBoardCreateBatch(
+			rows,
+			batchConfig,
+			cancellationToken,
+		);
+
+		for (const { rowIndex, board, sections, sectionErrors } of batchResult.success) {
+			boardIdsByName.set(board.name.trim().toLowerCase(), {
+				name: board.name,
+				boardId: board.id,
+			});
+			results.push({
+				json: {
+					success: true,
+					skipped: false,
+					rowIndex,
+					...DataTransformer.transformBoardResponse(board),
+					sections: sections.map((section) =>
+						DataTransformer.transformBoardSectionResponse(section, board.id),
+					),
+					...(sectionErrors.length > 0 ? { sectionErrors } : {}),
+				},
+				pairedItem: { item: rowIndex },
+			});
+		}
+
+		for (const batchError of batchResult.errors) {
+			const rowIndex = Number(batchError.itemId);
+			results.push({
+				json: {
+					success: false,
+					rowIndex,
+					error: batchError.error,
+					attempts: batchError.attempt,
+				},
+				pairedItem: { item: rowIndex },
+			});
+		}
+
+		for (const { rowIndex, name } of duplicateRows) {
+			const created = boardIdsByName.get(name.toLowerCase());
+			results.push({
+				json: created
+					? { success: true, skipped: true, rowIndex, ...created }
+					: {
+							success: false,
+							rowIndex,
+							error: `Board "${name}" appears earlier in the input and could not be created`,
+						},
+				pairedItem: { item: rowIndex },
+			});
+		}
+
+		// Keep the output in the same order as the input rows
+		results.sort((a, b) => (a.json.rowIndex as number) - (b.json.rowIndex as number));
+
+		const boards: Record<string, string> = {};
+		for (const { json } of results) {
+			if (json.success) {
+				boards[json.name as string] = json.boardId as string;
+			}
+		}
+
+		const summary = {
+			operation: 'bulkCreateBoards',
+			totalItems: items.length,
+			createdCount: batchResult.success.length,
+			skippedCount: results.filter(({ json }) => json.skipped === true).length,
+			errorCount: results.filter(({ json }) => json.success === false).length,
+			duration: Date.now() - batchResult.progress.startTime,
+			boards,
+		};
+
+		results.push({
+			json: summary,
+			pairedItem: { item: itemIndex },
+		});
+
+		return results;
+	} catch (error) {
+		if (error instanceof Error && error.message.includes('cancelled')) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Bulk operation was cancelled: ${error.message}`,
+				{
+					itemIndex,
+				},
+			);
+		}
+		throw error;
+	} finally {
+		// Clean up resources
+		batchProcessor.clearCache();
+	}
+}
+
+/**
+ * Reads and validates the board fields and section names of a single input row
+ */
+function buildBulkBoardRow(this: IExecuteFunctions, rowIndex: number): BulkBoardCreateRow {
+	const name = (this.getNodeParameter('name', rowIndex, '') as string).trim();
+	const description = (this.getNodeParameter('description', rowIndex, '') as string).trim();
+	const privacy = this.getNodeParameter('privacy', rowIndex, 'public') as string;
+	const sectionNamesParam = this.getNodeParameter('sectionNames', rowIndex, '') as
+		| string
+		| string[];
+
+	if (!name) {
+		throw new Error('Board name is required');
+	}
+	if (name.length > 180) {
+		throw new Error('Board name must be between 1 and 180 characters');
+	}
+
+	const validPrivacySettings = ['public', 'protected', 'secret'];
+	if (!validPrivacySettings.includes(privacy)) {
+		throw new Error(`Invalid privacy setting. Must be one of: ${validPrivacySettings.join(', ')}`);
+	}
+
+	const sectionNames = (
+		typeof sectionNamesParam === 'string' ? sectionNamesParam.split(',') : sectionNamesParam
+	)
+		.map((sectionName) => String(sectionName).trim())
+		.filter((sectionName) => sectionName.length > 0);
+
+	const boardData: CreateBoardRequest = {
+		name,
+		privacy: privacy as CreateBoardRequest['privacy'],
+	};
+
+	if (description) {
+		boardData.description = description;
+	}
+
+	return { rowIndex, boardData, sectionNames: [...new Set(sectionNames)] };
+}
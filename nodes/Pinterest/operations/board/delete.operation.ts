@@ -1,6 +1,7 @@
 import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { ResourceLocator } from '../../utils/ResourceLocator';
 
 /**
  * Delete board operation handler
@@ -12,7 +13,12 @@ export async function deleteBoard(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get required parameters
-	const boardId = this.getNodeParameter('boardId', itemIndex) as string;
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
 	const confirmDeletion = this.getNodeParameter('confirmDeletion', itemIndex, false) as boolean;
 
 	// Validate required fields
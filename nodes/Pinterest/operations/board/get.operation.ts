@@ -2,6 +2,7 @@ import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
 import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
 
 /**
  * Get board operation handler
@@ -13,7 +14,12 @@ export async function getBoard(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get required parameters
-	const boardId = this.getNodeParameter('boardId', itemIndex) as string;
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
 
 	// Validate required fields
 	if (!boardId || boardId.trim() === '') {
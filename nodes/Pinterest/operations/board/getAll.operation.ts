@@ -0,0 +1,63 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { ListBoardsParams } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Get boards operation handler
+ * Lists the boards of the connected account, following pagination bookmarks
+ */
+export async function getBoards(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get list parameters
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+	const privacy = this.getNodeParameter('privacyFilter', itemIndex, 'ALL') as string;
+
+	// Validate parameters
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	const validPrivacyFilters = ['ALL', 'PUBLIC', 'PROTECTED', 'SECRET', 'PUBLIC_AND_SECRET'];
+	if (!validPrivacyFilters.includes(privacy)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Invalid privacy filter. Must be one of: ${validPrivacyFilters.join(', ')}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	try {
+		const boards = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getBoards({
+					limit: returnAll ? 250 : Math.min(limit, 250),
+					bookmark,
+					privacy: privacy as ListBoardsParams['privacy'],
+				}),
+			limit,
+		);
+
+		return boards.map((board) => ({
+			json: DataTransformer.transformBoardResponse(board),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to list boards: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
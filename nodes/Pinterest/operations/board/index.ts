@@ -4,6 +4,13 @@
 
 export * from './create.operation';
 export * from './get.operation';
+export * from './getAll.operation';
+export * from './getPins.operation';
 export * from './update.operation';
 export * from './delete.operation';
-export { bulkGetBoards, bulkUpdateBoards, bulkDeleteBoards } from './bulk.operation';
+export {
+	bulkCreateBoards,
+	bulkGetBoards,
+	bulkUpdateBoards,
+	bulkDeleteBoards,
+} from './bulk.operation';
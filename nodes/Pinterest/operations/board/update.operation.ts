@@ -3,6 +3,7 @@ import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
 import type { UpdateBoardRequest } from '../../utils/types';
 import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
 
 /**
  * Update board operation handler
@@ -14,7 +15,12 @@ export async function updateBoard(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get required parameters
-	const boardId = this.getNodeParameter('boardId', itemIndex) as string;
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
 	const name = this.getNodeParameter('name', itemIndex, '') as string;
 	const description = this.getNodeParameter('description', itemIndex, '') as string;
 	const privacy = this.getNodeParameter('privacy', itemIndex, '') as string;
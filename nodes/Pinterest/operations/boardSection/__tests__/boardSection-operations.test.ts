@@ -0,0 +1,210 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { PinResponse } from '../../../utils/types';
+import { createBoardSection } from '../create.operation';
+import { getBoardSections } from '../getAll.operation';
+import { updateBoardSection } from '../update.operation';
+import { deleteBoardSection } from '../delete.operation';
+import { getBoardSectionPins } from '../getPins.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Board Section Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			getBoardSections: jest.fn(),
+			createBoardSection: jest.fn(),
+			updateBoardSection: jest.fn(),
+			deleteBoardSection: jest.fn(),
+			getBoardSectionPins: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('createBoardSection', () => {
+		it('should create a section with a trimmed name', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionName: '  Spring  ',
+			});
+			mockApiClient.createBoardSection.mockResolvedValue({ id: 'section1', name: 'Spring' });
+
+			const result = await createBoardSection.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.createBoardSection).toHaveBeenCalledWith('123456789012345678', {
+				name: 'Spring',
+			});
+			expect(result).toEqual({
+				json: { sectionId: 'section1', name: 'Spring', boardId: '123456789012345678' },
+				pairedItem: { item: 0 },
+			});
+		});
+
+		it('should require a section name', async () => {
+			mockParameters(mockExecuteFunctions, { boardId: '123456789012345678', sectionName: ' ' });
+
+			await expect(createBoardSection.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Section name is required',
+			);
+			expect(mockApiClient.createBoardSection).not.toHaveBeenCalled();
+		});
+
+		it('should wrap API errors with context', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionName: 'Spring',
+			});
+			mockApiClient.createBoardSection.mockRejectedValue(new Error('Board not found'));
+
+			await expect(createBoardSection.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Failed to create board section: Board not found',
+			);
+		});
+	});
+
+	describe('getBoardSections', () => {
+		it('should return every section when returning all', async () => {
+			mockParameters(mockExecuteFunctions, { boardId: '123456789012345678', returnAll: true });
+			mockApiClient.getBoardSections
+				.mockResolvedValueOnce({ items: [{ id: 's1', name: 'One' }], bookmark: 'next' })
+				.mockResolvedValueOnce({ items: [{ id: 's2', name: 'Two' }] });
+
+			const result = await getBoardSections.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getBoardSections).toHaveBeenNthCalledWith(1, '123456789012345678', {
+				limit: 250,
+				bookmark: undefined,
+			});
+			expect(mockApiClient.getBoardSections).toHaveBeenNthCalledWith(2, '123456789012345678', {
+				limit: 250,
+				bookmark: 'next',
+			});
+			expect(result.map((item) => item.json.sectionId)).toEqual(['s1', 's2']);
+		});
+
+		it('should stop at the limit', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				returnAll: false,
+				limit: 1,
+			});
+			mockApiClient.getBoardSections.mockResolvedValue({
+				items: [
+					{ id: 's1', name: 'One' },
+					{ id: 's2', name: 'Two' },
+				],
+				bookmark: 'next',
+			});
+
+			const result = await getBoardSections.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getBoardSections).toHaveBeenCalledTimes(1);
+			expect(result).toHaveLength(1);
+		});
+	});
+
+	describe('updateBoardSection', () => {
+		it('should rename the section', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionId: 'section1',
+				sectionName: 'Summer',
+			});
+			mockApiClient.updateBoardSection.mockResolvedValue({ id: 'section1', name: 'Summer' });
+
+			const result = await updateBoardSection.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.updateBoardSection).toHaveBeenCalledWith(
+				'123456789012345678',
+				'section1',
+				{ name: 'Summer' },
+			);
+			expect(result.json.name).toBe('Summer');
+		});
+
+		it('should reject an invalid section ID', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionId: 'bad id!',
+				sectionName: 'Summer',
+			});
+
+			await expect(updateBoardSection.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				NodeOperationError,
+			);
+		});
+	});
+
+	describe('deleteBoardSection', () => {
+		it('should require confirmation', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionId: 'section1',
+			});
+
+			await expect(deleteBoardSection.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Section deletion must be confirmed',
+			);
+			expect(mockApiClient.deleteBoardSection).not.toHaveBeenCalled();
+		});
+
+		it('should delete the section when confirmed', async () => {
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionId: 'section1',
+				confirmDelete: true,
+			});
+			mockApiClient.deleteBoardSection.mockResolvedValue();
+
+			const result = await deleteBoardSection.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.deleteBoardSection).toHaveBeenCalledWith(
+				'123456789012345678',
+				'section1',
+			);
+			expect(result.json).toMatchObject({ success: true, sectionId: 'section1' });
+		});
+	});
+
+	describe('getBoardSectionPins', () => {
+		it('should return one item per pin in the section', async () => {
+			const pin: PinResponse = {
+				id: 'pin1',
+				created_at: '2023-01-01T00:00:00Z',
+				url: 'https://pinterest.com/pin/pin1',
+				board_id: '123456789012345678',
+				board_section_id: 'section1',
+				media: { url: 'https://i.pinimg.com/pin1.jpg', media_type: 'image' },
+			};
+			mockParameters(mockExecuteFunctions, {
+				boardId: '123456789012345678',
+				sectionId: 'section1',
+				returnAll: false,
+				limit: 10,
+			});
+			mockApiClient.getBoardSectionPins.mockResolvedValue({ items: [pin] });
+
+			const result = await getBoardSectionPins.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getBoardSectionPins).toHaveBeenCalledWith(
+				'123456789012345678',
+				'section1',
+				{ limit: 10, bookmark: undefined },
+			);
+			expect(result).toHaveLength(1);
+			expect(result[0].json).toMatchObject({ pinId: 'pin1', boardSectionId: 'section1' });
+		});
+	});
+});
@@ -0,0 +1,70 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { CreateBoardSectionRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Create board section operation handler
+ * Adds a new named section to an existing board
+ */
+export async function createBoardSection(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
+	const name = this.getNodeParameter('sectionName', itemIndex) as string;
+
+	// Validate required fields
+	if (!boardId || !/^[a-zA-Z0-9_-]+$/.test(boardId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid board ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!name || name.trim() === '') {
+		throw new NodeOperationError(this.getNode(), 'Section name is required', {
+			itemIndex,
+		});
+	}
+
+	if (name.trim().length > 180) {
+		throw new NodeOperationError(this.getNode(), 'Section name must be 180 characters or less', {
+			itemIndex,
+		});
+	}
+
+	const sectionData: CreateBoardSectionRequest = {
+		name: name.trim(),
+	};
+
+	try {
+		// Create section via API
+		const response = await apiClient.createBoardSection(boardId.trim(), sectionData);
+
+		return {
+			json: DataTransformer.transformBoardSectionResponse(response, boardId.trim()),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to create board section: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
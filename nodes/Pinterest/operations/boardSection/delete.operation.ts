@@ -0,0 +1,77 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Delete board section operation handler
+ * Removes a section from a board; Pinterest also deletes the pins inside it
+ */
+export async function deleteBoardSection(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
+	const sectionId = ResourceLocator.getId(this.getNodeParameter('sectionId', itemIndex));
+
+	// Validate required fields
+	if (!boardId || !/^[a-zA-Z0-9_-]+$/.test(boardId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid board ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!sectionId || !/^[a-zA-Z0-9_-]+$/.test(sectionId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid section ID is required', {
+			itemIndex,
+		});
+	}
+
+	// Get confirmation parameter (optional safety check)
+	const confirmDelete = this.getNodeParameter('confirmDelete', itemIndex, false) as boolean;
+
+	if (!confirmDelete) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Section deletion must be confirmed. Please check the "Confirm Delete" option.',
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	try {
+		// Delete section via API
+		await apiClient.deleteBoardSection(boardId.trim(), sectionId.trim());
+
+		return {
+			json: {
+				success: true,
+				boardId: boardId.trim(),
+				sectionId: sectionId.trim(),
+				message: 'Board section deleted successfully',
+				deletedAt: new Date().toISOString(),
+			},
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to delete board section: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
@@ -0,0 +1,73 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get board section pins operation handler
+ * Lists the pins saved in a board section, following pagination bookmarks
+ */
+export async function getBoardSectionPins(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get required parameters
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
+	const sectionId = ResourceLocator.getId(this.getNodeParameter('sectionId', itemIndex));
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+
+	// Validate required fields
+	if (!boardId || !/^[a-zA-Z0-9_-]+$/.test(boardId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid board ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!sectionId || !/^[a-zA-Z0-9_-]+$/.test(sectionId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid section ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const pins = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getBoardSectionPins(boardId.trim(), sectionId.trim(), {
+					limit: returnAll ? 250 : Math.min(limit, 250),
+					bookmark,
+				}),
+			limit,
+		);
+
+		return pins.map((pin) => ({
+			json: DataTransformer.transformPinResponse(pin),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to list board section pins: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
@@ -0,0 +1,8 @@
+// Board section operations index file
+// Exports section management and section pin listing operations
+
+export * from './create.operation';
+export * from './getAll.operation';
+export * from './update.operation';
+export * from './delete.operation';
+export * from './getPins.operation';
@@ -0,0 +1,81 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { UpdateBoardSectionRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Update board section operation handler
+ * Renames an existing section on a board
+ */
+export async function updateBoardSection(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
+	const sectionId = ResourceLocator.getId(this.getNodeParameter('sectionId', itemIndex));
+	const name = this.getNodeParameter('sectionName', itemIndex) as string;
+
+	// Validate required fields
+	if (!boardId || !/^[a-zA-Z0-9_-]+$/.test(boardId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid board ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!sectionId || !/^[a-zA-Z0-9_-]+$/.test(sectionId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'A valid section ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!name || name.trim() === '') {
+		throw new NodeOperationError(this.getNode(), 'Section name is required', {
+			itemIndex,
+		});
+	}
+
+	if (name.trim().length > 180) {
+		throw new NodeOperationError(this.getNode(), 'Section name must be 180 characters or less', {
+			itemIndex,
+		});
+	}
+
+	const updateData: UpdateBoardSectionRequest = {
+		name: name.trim(),
+	};
+
+	try {
+		// Rename section via API
+		const response = await apiClient.updateBoardSection(
+			boardId.trim(),
+			sectionId.trim(),
+			updateData,
+		);
+
+		return {
+			json: DataTransformer.transformBoardSectionResponse(response, boardId.trim()),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to update board section: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
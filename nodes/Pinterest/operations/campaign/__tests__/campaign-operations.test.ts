@@ -0,0 +1,177 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { CampaignResponse } from '../../../utils/types';
+import { createCampaign } from '../create.operation';
+import { getCampaign } from '../get.operation';
+import { getCampaigns } from '../getAll.operation';
+import { updateCampaign } from '../update.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Campaign Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const adAccountId = { __rl: true, mode: 'list', value: '549755885175' };
+
+	const campaign: CampaignResponse = {
+		id: '626735565838',
+		ad_account_id: '549755885175',
+		name: 'Spring Sale',
+		status: 'ACTIVE',
+		objective_type: 'AWARENESS',
+		daily_spend_cap: 25_500_000,
+		lifetime_spend_cap: null,
+		start_time: 1735689600,
+		end_time: null,
+		created_time: 1735603200,
+		updated_time: 1735603200,
+	};
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createCampaign: jest.fn().mockResolvedValue(campaign),
+			getCampaign: jest.fn().mockResolvedValue(campaign),
+			getCampaigns: jest.fn(),
+			updateCampaign: jest.fn().mockResolvedValue(campaign),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('createCampaign', () => {
+		it('should convert spend caps to micro-currency and the schedule to Unix seconds', async () => {
+			mockParameters(mockExecuteFunctions, {
+				adAccountId,
+				name: ' Spring Sale ',
+				objectiveType: 'AWARENESS',
+				additionalFields: {
+					dailySpendCap: 25.5,
+					startTime: '2025-01-01T00:00:00Z',
+					endTime: '2025-02-01T00:00:00Z',
+					status: 'PAUSED',
+				},
+			});
+
+			const result = await createCampaign.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.createCampaign).toHaveBeenCalledWith('549755885175', {
+				name: 'Spring Sale',
+				objective_type: 'AWARENESS',
+				status: 'PAUSED',
+				daily_spend_cap: 25_500_000,
+				start_time: 1735689600,
+				end_time: 1738368000,
+			});
+			expect(result.json).toMatchObject({
+				campaignId: '626735565838',
+				dailySpendCap: 25.5,
+				lifetimeSpendCap: null,
+				startTime: '2025-01-01T00:00:00.000Z',
+				endTime: null,
+			});
+		});
+
+		it('should reject a schedule that ends before it starts', async () => {
+			mockParameters(mockExecuteFunctions, {
+				adAccountId,
+				name: 'Spring Sale',
+				objectiveType: 'AWARENESS',
+				additionalFields: {
+					startTime: '2025-02-01T00:00:00Z',
+					endTime: '2025-01-01T00:00:00Z',
+				},
+			});
+
+			await expect(createCampaign.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'End time must be after the start time',
+			);
+			expect(mockApiClient.createCampaign).not.toHaveBeenCalled();
+		});
+
+		it('should reject spend caps that are not positive', async () => {
+			mockParameters(mockExecuteFunctions, {
+				adAccountId,
+				name: 'Spring Sale',
+				objectiveType: 'AWARENESS',
+				additionalFields: { lifetimeSpendCap: 0 },
+			});
+
+			await expect(createCampaign.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Lifetime spend cap must be a positive amount',
+			);
+		});
+	});
+
+	describe('getCampaign', () => {
+		it('should require a campaign ID', async () => {
+			mockParameters(mockExecuteFunctions, { adAccountId, campaignId: ' ' });
+
+			await expect(getCampaign.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				NodeOperationError,
+			);
+			expect(mockApiClient.getCampaign).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('getCampaigns', () => {
+		it('should pass filters and stop at the limit', async () => {
+			mockParameters(mockExecuteFunctions, {
+				adAccountId,
+				returnAll: false,
+				limit: 1,
+				adsFilters: { entityStatuses: ['ACTIVE'], campaignIds: '1, 2' },
+			});
+			mockApiClient.getCampaigns.mockResolvedValue({
+				items: [campaign, { ...campaign, id: '2' }],
+				bookmark: 'next',
+			});
+
+			const result = await getCampaigns.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getCampaigns).toHaveBeenCalledWith('549755885175', {
+				limit: 1,
+				bookmark: undefined,
+				entity_statuses: ['ACTIVE'],
+				campaign_ids: ['1', '2'],
+			});
+			expect(result).toHaveLength(1);
+		});
+	});
+
+	describe('updateCampaign', () => {
+		it('should only send the fields that are set', async () => {
+			mockParameters(mockExecuteFunctions, {
+				adAccountId,
+				campaignId: '626735565838',
+				updateFields: { status: 'ARCHIVED' },
+			});
+
+			await updateCampaign.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.updateCampaign).toHaveBeenCalledWith('549755885175', '626735565838', {
+				status: 'ARCHIVED',
+			});
+		});
+
+		it('should require at least one field', async () => {
+			mockParameters(mockExecuteFunctions, {
+				adAccountId,
+				campaignId: '626735565838',
+				updateFields: {},
+			});
+
+			await expect(updateCampaign.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'At least one field must be provided to update the campaign',
+			);
+		});
+	});
+});
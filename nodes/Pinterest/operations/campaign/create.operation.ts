@@ -0,0 +1,117 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AdEntityStatus, CampaignObjectiveType, CampaignRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Create campaign operation handler
+ * Creates a campaign in an ad account with an objective, spend caps and schedule
+ */
+export async function createCampaign(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const name = this.getNodeParameter('name', itemIndex) as string;
+	const objectiveType = this.getNodeParameter('objectiveType', itemIndex) as CampaignObjectiveType;
+	const additionalFields = this.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!name || name.trim() === '') {
+		throw new NodeOperationError(this.getNode(), 'Campaign name is required', {
+			itemIndex,
+		});
+	}
+
+	const campaignData: CampaignRequest = {
+		name: name.trim(),
+		objective_type: objectiveType,
+		status: 'ACTIVE',
+		...buildCampaignFields.call(this, additionalFields, itemIndex),
+	};
+
+	try {
+		// Create campaign via API
+		const response = await apiClient.createCampaign(adAccountId, campaignData);
+
+		return {
+			json: DataTransformer.transformCampaignResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to create campaign: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Converts the campaign fields of the create and update operations into API fields.
+ * Spend caps are entered in the account currency and the schedule as dates.
+ */
+export function buildCampaignFields(
+	this: IExecuteFunctions,
+	fields: IDataObject,
+	itemIndex: number,
+): CampaignRequest {
+	const campaignData: CampaignRequest = {};
+
+	if (typeof fields.name === 'string' && fields.name.trim() !== '') {
+		campaignData.name = fields.name.trim();
+	}
+
+	if (fields.status) {
+		campaignData.status = fields.status as AdEntityStatus;
+	}
+
+	for (const [field, apiField, label] of [
+		['dailySpendCap', 'daily_spend_cap', 'Daily spend cap'],
+		['lifetimeSpendCap', 'lifetime_spend_cap', 'Lifetime spend cap'],
+	] as const) {
+		if (fields[field] === undefined || fields[field] === '') {
+			continue;
+		}
+
+		const amount = Number(fields[field]);
+		if (isNaN(amount) || amount <= 0) {
+			throw new NodeOperationError(this.getNode(), `${label} must be a positive amount`, {
+				itemIndex,
+			});
+		}
+		campaignData[apiField] = DataTransformer.toMicroCurrency(amount);
+	}
+
+	if (fields.startTime) {
+		campaignData.start_time = DataTransformer.toUnixSeconds(fields.startTime as string);
+	}
+
+	if (fields.endTime) {
+		campaignData.end_time = DataTransformer.toUnixSeconds(fields.endTime as string);
+	}
+
+	if (
+		campaignData.start_time &&
+		campaignData.end_time &&
+		campaignData.end_time <= campaignData.start_time
+	) {
+		throw new NodeOperationError(this.getNode(), 'End time must be after the start time', {
+			itemIndex,
+		});
+	}
+
+	return campaignData;
+}
@@ -0,0 +1,49 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Get campaign operation handler
+ * Retrieves a campaign of an ad account by ID
+ */
+export async function getCampaign(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const campaignId = (this.getNodeParameter('campaignId', itemIndex) as string).trim();
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!campaignId) {
+		throw new NodeOperationError(this.getNode(), 'Campaign ID is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const response = await apiClient.getCampaign(adAccountId, campaignId);
+
+		return {
+			json: DataTransformer.transformCampaignResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to get campaign: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
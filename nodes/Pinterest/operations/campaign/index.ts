@@ -0,0 +1,7 @@
+// Campaign operations index file
+// Exports campaign management operations of the ads API
+
+export * from './create.operation';
+export * from './get.operation';
+export * from './getAll.operation';
+export * from './update.operation';
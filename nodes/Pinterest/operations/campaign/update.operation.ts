@@ -0,0 +1,64 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { buildCampaignFields } from './create.operation';
+
+/**
+ * Update campaign operation handler
+ * Changes a campaign's name, status, spend caps or schedule
+ */
+export async function updateCampaign(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', itemIndex));
+	const campaignId = (this.getNodeParameter('campaignId', itemIndex) as string).trim();
+	const updateFields = this.getNodeParameter('updateFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex,
+		});
+	}
+
+	if (!campaignId) {
+		throw new NodeOperationError(this.getNode(), 'Campaign ID is required', {
+			itemIndex,
+		});
+	}
+
+	const updateData = buildCampaignFields.call(this, updateFields, itemIndex);
+
+	// Check if at least one field is being updated
+	if (Object.keys(updateData).length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'At least one field must be provided to update the campaign',
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	try {
+		const response = await apiClient.updateCampaign(adAccountId, campaignId, updateData);
+
+		return {
+			json: DataTransformer.transformCampaignResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to update campaign: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
@@ -0,0 +1,275 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { CatalogFeedResponse, CatalogItemsBatchRequest } from '../../../utils/types';
+import { createCatalogFeed } from '../createFeed.operation';
+import { getProductGroups } from '../getProductGroups.operation';
+import { deleteCatalogItems, upsertCatalogItems } from '../items.operation';
+import { updateCatalogFeed } from '../updateFeed.operation';
+import { mockParameters, mockRows } from '../../../__tests__/helpers';
+
+describe('Catalog Operations', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const feed: CatalogFeedResponse = {
+		id: '2680059592705',
+		name: 'Spring Collection',
+		format: 'CSV',
+		location: 'https://example.com/feeds/products.csv',
+		catalog_type: 'RETAIL',
+		default_locale: 'en-US',
+		default_country: 'US',
+		status: 'ACTIVE',
+		created_at: '2025-01-01T00:00:00Z',
+	};
+
+	// Item-level parameters come from each row, batch settings from the shared parameters
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getInputData: jest.fn(),
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createCatalogFeed: jest.fn().mockResolvedValue(feed),
+			updateCatalogFeed: jest.fn().mockResolvedValue(feed),
+			getProductGroups: jest.fn(),
+			sendCatalogItemsBatch: jest.fn(async (batch: CatalogItemsBatchRequest) => ({
+				batch_id: `batch-${batch.items[0].item_id}`,
+				status: 'PROCESSING',
+			})),
+			getCatalogItemsBatch: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('createCatalogFeed', () => {
+		it('should normalize the locale, country and currency codes', async () => {
+			mockParameters(mockExecuteFunctions, {
+				feedName: ' Spring Collection ',
+				feedFormat: 'CSV',
+				feedLocation: 'https://example.com/feeds/products.csv',
+				defaultLocale: 'EN_us',
+				defaultCountry: 'us',
+				additionalFields: { defaultCurrency: 'usd', defaultAvailability: 'IN_STOCK' },
+			});
+
+			const result = await createCatalogFeed.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.createCatalogFeed).toHaveBeenCalledWith({
+				catalog_type: 'RETAIL',
+				name: 'Spring Collection',
+				format: 'CSV',
+				location: 'https://example.com/feeds/products.csv',
+				default_locale: 'en-US',
+				default_country: 'US',
+				default_currency: 'USD',
+				default_availability: 'IN_STOCK',
+			});
+			expect(result.json).toMatchObject({ feedId: '2680059592705', status: 'ACTIVE' });
+		});
+
+		it('should reject feed locations that are not URLs', async () => {
+			mockParameters(mockExecuteFunctions, {
+				feedName: 'Spring Collection',
+				feedFormat: 'CSV',
+				feedLocation: 'products.csv',
+			});
+
+			await expect(createCatalogFeed.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Feed location must be an HTTP, HTTPS, FTP or SFTP URL',
+			);
+			expect(mockApiClient.createCatalogFeed).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('updateCatalogFeed', () => {
+		it('should only send the changed fields', async () => {
+			mockParameters(mockExecuteFunctions, {
+				feedId: '2680059592705',
+				updateFields: { status: 'INACTIVE' },
+			});
+
+			await updateCatalogFeed.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.updateCatalogFeed).toHaveBeenCalledWith('2680059592705', {
+				status: 'INACTIVE',
+			});
+		});
+
+		it('should require at least one field', async () => {
+			mockParameters(mockExecuteFunctions, { feedId: '2680059592705', updateFields: {} });
+
+			await expect(updateCatalogFeed.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				NodeOperationError,
+			);
+		});
+	});
+
+	describe('getProductGroups', () => {
+		it('should filter by feed and stop at the limit', async () => {
+			mockParameters(mockExecuteFunctions, { feedId: '2680059592705', returnAll: false, limit: 1 });
+			(mockApiClient.getProductGroups as jest.Mock).mockResolvedValue({
+				items: [
+					{ id: '1', name: 'Mugs', feed_id: '2680059592705', created_at: 1735689600 },
+					{ id: '2', name: 'Plates' },
+				],
+				bookmark: 'next',
+			});
+
+			const result = await getProductGroups.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getProductGroups).toHaveBeenCalledWith({
+				limit: 1,
+				bookmark: undefined,
+				feed_id: '2680059592705',
+			});
+			expect(result).toHaveLength(1);
+			expect(result[0].json).toMatchObject({
+				productGroupId: '1',
+				name: 'Mugs',
+				createdAt: '2025-01-01T00:00:00.000Z',
+			});
+		});
+	});
+
+	describe('upsertCatalogItems', () => {
+		it('should batch the items of all input items and report each one', async () => {
+			mockRows(
+				mockExecuteFunctions,
+				[
+					{
+						itemId: 'SKU-1',
+						catalogItemAttributes: {
+							title: 'Mug',
+							price: '12.00 USD',
+							imageLink: 'https://example.com/a.jpg, https://example.com/b.jpg',
+							additionalAttributes: '{"color": "Red", "title": "Ignored"}',
+						},
+					},
+					{ itemId: 'SKU-2', catalogItemAttributes: { title: 'Plate' } },
+					{ itemId: 'SKU-3', catalogItemAttributes: { title: 'Bowl' } },
+				],
+				{ catalogCountry: 'us', catalogLanguage: 'en', catalogItemOptions: { batchSize: 2 } },
+			);
+
+			const result = await upsertCatalogItems.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenCalledTimes(2);
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenCalledWith({
+				country: 'US',
+				language: 'EN',
+				operation: 'UPSERT',
+				catalog_type: 'RETAIL',
+				items: [
+					{
+						item_id: 'SKU-1',
+						attributes: {
+							color: 'Red',
+							title: 'Mug',
+							price: '12.00 USD',
+							image_link: ['https://example.com/a.jpg', 'https://example.com/b.jpg'],
+						},
+					},
+					{ item_id: 'SKU-2', attributes: { title: 'Plate' } },
+				],
+			});
+			expect(result.map((item) => item.json.batchId)).toEqual([
+				'batch-SKU-1',
+				'batch-SKU-1',
+				'batch-SKU-3',
+			]);
+			expect(result[2]).toEqual({
+				json: {
+					success: true,
+					rowIndex: 2,
+					itemId: 'SKU-3',
+					batchId: 'batch-SKU-3',
+					status: 'PROCESSING',
+					error: null,
+					warnings: [],
+				},
+				pairedItem: { item: 2 },
+			});
+		});
+
+		it('should wait for the batch and report the errors of each item', async () => {
+			mockRows(
+				mockExecuteFunctions,
+				[
+					{ itemId: 'SKU-1', catalogItemAttributes: { title: 'Mug' } },
+					{ itemId: 'SKU-2', catalogItemAttributes: { title: 'Plate' } },
+					{ itemId: '', catalogItemAttributes: { title: 'No ID' } },
+				],
+				{ catalogItemOptions: { waitForCompletion: true, pollInterval: 0 } },
+			);
+			(mockApiClient.getCatalogItemsBatch as jest.Mock).mockResolvedValue({
+				batch_id: 'batch-SKU-1',
+				status: 'COMPLETED',
+				items: [
+					{ item_id: 'SKU-1', status: 'SUCCESS' },
+					{
+						item_id: 'SKU-2',
+						status: 'FAILURE',
+						errors: [{ attribute: 'price', message: 'Price is missing' }],
+					},
+				],
+			});
+
+			const result = await upsertCatalogItems.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getCatalogItemsBatch).toHaveBeenCalledWith('batch-SKU-1');
+			expect(result[0].json).toMatchObject({ success: true, status: 'SUCCESS' });
+			expect(result[1].json).toMatchObject({
+				success: false,
+				status: 'FAILURE',
+				error: 'Price is missing',
+			});
+			expect(result[2].json).toEqual({
+				success: false,
+				rowIndex: 2,
+				status: 'invalid',
+				error: 'Item ID is required',
+			});
+		});
+
+		it('should only run once for all input items', async () => {
+			mockRows(mockExecuteFunctions, [
+				{ itemId: 'SKU-1', catalogItemAttributes: { title: 'Mug' } },
+			]);
+
+			const result = await upsertCatalogItems.call(mockExecuteFunctions, mockApiClient, 1);
+
+			expect(result).toEqual([]);
+			expect(mockApiClient.sendCatalogItemsBatch).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('deleteCatalogItems', () => {
+		it('should mark every item of a failed batch request as failed', async () => {
+			(mockApiClient.sendCatalogItemsBatch as jest.Mock).mockRejectedValue(
+				new Error('Catalog not found'),
+			);
+			mockRows(mockExecuteFunctions, [{ itemId: 'SKU-1' }, { itemId: 'SKU-2' }]);
+
+			const result = await deleteCatalogItems.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenCalledWith(
+				expect.objectContaining({
+					operation: 'DELETE',
+					items: [{ item_id: 'SKU-1' }, { item_id: 'SKU-2' }],
+				}),
+			);
+			expect(result.map((item) => item.json)).toEqual([
+				expect.objectContaining({ success: false, itemId: 'SKU-1', error: 'Catalog not found' }),
+				expect.objectContaining({ success: false, itemId: 'SKU-2', error: 'Catalog not found' }),
+			]);
+		});
+	});
+});
@@ -0,0 +1,160 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { generateCatalogFeed } from '../generateFeed.operation';
+import { mockRows } from '../../../__tests__/helpers';
+
+describe('Catalog Generate Feed Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	const mockApiClient = {} as PinterestApiClient;
+
+	const validAttributes = {
+		title: 'Ceramic Mug',
+		description: 'Handmade mug, 350 ml',
+		link: 'https://example.com/products/mug',
+		imageLink: 'https://example.com/images/mug.jpg',
+		price: '12.5 usd',
+		availability: 'in stock',
+	};
+
+	const fileContent = () =>
+		(mockExecuteFunctions.helpers.prepareBinaryData as jest.Mock).mock.calls[0][0].toString('utf8');
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getInputData: jest.fn(),
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+			helpers: {
+				prepareBinaryData: jest.fn(async (_data: Buffer, fileName: string, mimeType: string) => ({
+					data: '',
+					fileName,
+					mimeType,
+				})),
+			},
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+	});
+
+	it('should write valid rows to a CSV file and list invalid rows on the second output', async () => {
+		mockRows(
+			mockExecuteFunctions,
+			[
+				{
+					itemId: 'SKU-1',
+					catalogItemAttributes: {
+						...validAttributes,
+						title: 'Mug "Classic", blue',
+						imageLink: 'https://example.com/a.jpg, https://example.com/b.jpg',
+						additionalAttributes: '{"color": "Blue"}',
+					},
+				},
+				{
+					itemId: 'SKU-2',
+					catalogItemAttributes: {
+						...validAttributes,
+						link: 'javascript:alert(1)',
+						price: '12.50 XXY',
+						availability: 'sold out',
+					},
+				},
+				{ itemId: 'SKU-1', catalogItemAttributes: validAttributes },
+			],
+			{ feedFormat: 'CSV', feedFileName: 'spring' },
+		);
+
+		const [feed, rowErrors] = await generateCatalogFeed.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		);
+
+		expect(mockExecuteFunctions.helpers.prepareBinaryData).toHaveBeenCalledWith(
+			expect.any(Buffer),
+			'spring.csv',
+			'text/csv',
+		);
+		expect(fileContent()).toBe(
+			'id,title,description,link,image_link,price,availability,color,additional_image_link\r\n' +
+				'SKU-1,"Mug ""Classic"", blue","Handmade mug, 350 ml",https://example.com/products/mug,' +
+				'https://example.com/a.jpg,12.50 USD,in stock,Blue,https://example.com/b.jpg\r\n',
+		);
+		expect(feed).toEqual([
+			{
+				json: expect.objectContaining({ fileName: 'spring.csv', itemCount: 1, errorCount: 2 }),
+				binary: { data: expect.objectContaining({ fileName: 'spring.csv' }) },
+				pairedItem: [{ item: 0 }],
+			},
+		]);
+
+		expect(rowErrors[0].json.rowIndex).toBe(1);
+		expect(rowErrors[0].json.errors).toEqual([
+			'Invalid URL format for link: alert(1)',
+			'availability must be one of: in stock, out of stock, preorder',
+			'price has an unknown currency code: XXY',
+		]);
+		expect(rowErrors[1]).toEqual({
+			json: { rowIndex: 2, itemId: 'SKU-1', errors: ['id SKU-1 is already used by row 0'] },
+			pairedItem: { item: 2 },
+		});
+	});
+
+	it('should write an RSS feed with escaped values and repeated additional images', async () => {
+		mockRows(
+			mockExecuteFunctions,
+			[
+				{
+					itemId: 'SKU-1',
+					catalogItemAttributes: {
+						...validAttributes,
+						title: 'Mug & Saucer <Set>',
+						imageLink:
+							'https://example.com/a.jpg,https://example.com/b.jpg,https://example.com/c.jpg',
+					},
+				},
+			],
+			{ feedFormat: 'XML', feedFileName: 'spring' },
+		);
+
+		await generateCatalogFeed.call(mockExecuteFunctions, mockApiClient, 0);
+
+		const content = fileContent();
+		expect(content).toContain('<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">');
+		expect(content).toContain('<g:title>Mug &amp; Saucer &lt;Set&gt;</g:title>');
+		expect(content.match(/<g:additional_image_link>/g)).toHaveLength(2);
+		expect(mockExecuteFunctions.helpers.prepareBinaryData).toHaveBeenCalledWith(
+			expect.any(Buffer),
+			'spring.xml',
+			'application/rss+xml',
+		);
+	});
+
+	it('should replace tabs and line breaks in TSV values', async () => {
+		mockRows(
+			mockExecuteFunctions,
+			[
+				{
+					itemId: 'SKU-1',
+					catalogItemAttributes: { ...validAttributes, description: 'Line one\n\tLine two' },
+				},
+			],
+			{ feedFormat: 'TSV' },
+		);
+
+		await generateCatalogFeed.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(fileContent().split('\r\n')[1].split('\t')[2]).toBe('Line one Line two');
+	});
+
+	it('should only return row errors when no row is valid', async () => {
+		mockRows(mockExecuteFunctions, [{ itemId: '', catalogItemAttributes: {} }]);
+
+		const [feed, rowErrors] = await generateCatalogFeed.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		);
+
+		expect(feed).toEqual([]);
+		expect(rowErrors[0].json.errors).toContain('id is required');
+		expect(mockExecuteFunctions.helpers.prepareBinaryData).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,149 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { CatalogAvailability, CatalogFeedFormat, CatalogFeedRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Create catalog feed operation handler
+ * Registers a product feed file that Pinterest fetches from its location on a schedule
+ */
+export async function createCatalogFeed(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const name = this.getNodeParameter('feedName', itemIndex) as string;
+	const format = this.getNodeParameter('feedFormat', itemIndex) as CatalogFeedFormat;
+	const location = this.getNodeParameter('feedLocation', itemIndex) as string;
+	const defaultLocale = this.getNodeParameter('defaultLocale', itemIndex, 'en-US') as string;
+	const defaultCountry = this.getNodeParameter('defaultCountry', itemIndex, 'US') as string;
+	const additionalFields = this.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!name || name.trim() === '') {
+		throw new NodeOperationError(this.getNode(), 'Feed name is required', {
+			itemIndex,
+		});
+	}
+
+	const feedData: CatalogFeedRequest = {
+		catalog_type: 'RETAIL',
+		...buildCatalogFeedFields.call(
+			this,
+			{
+				...additionalFields,
+				name,
+				format,
+				location,
+				defaultLocale,
+				defaultCountry,
+			},
+			itemIndex,
+		),
+	};
+
+	if (!feedData.location) {
+		throw new NodeOperationError(this.getNode(), 'Feed location is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		// Create feed via API
+		const response = await apiClient.createCatalogFeed(feedData);
+
+		return {
+			json: DataTransformer.transformCatalogFeedResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to create catalog feed: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
+
+/**
+ * Converts the feed fields of the create and update operations into API fields.
+ * Country and currency codes are upper-cased and the locale is checked against the
+ * language-COUNTRY form Pinterest expects.
+ */
+export function buildCatalogFeedFields(
+	this: IExecuteFunctions,
+	fields: IDataObject,
+	itemIndex: number,
+): CatalogFeedRequest {
+	const feedData: CatalogFeedRequest = {};
+
+	if (typeof fields.name === 'string' && fields.name.trim() !== '') {
+		feedData.name = fields.name.trim();
+	}
+
+	if (fields.format) {
+		feedData.format = fields.format as CatalogFeedFormat;
+	}
+
+	if (typeof fields.location === 'string' && fields.location.trim() !== '') {
+		const location = fields.location.trim();
+		if (!/^(https?|s?ftp):\/\/\S+$/i.test(location)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Feed location must be an HTTP, HTTPS, FTP or SFTP URL',
+				{
+					itemIndex,
+				},
+			);
+		}
+		feedData.location = location;
+	}
+
+	if (typeof fields.defaultLocale === 'string' && fields.defaultLocale.trim() !== '') {
+		const locale = fields.defaultLocale.trim().replace('_', '-');
+		if (!/^[a-z]{2}-[A-Z]{2}$/i.test(locale)) {
+			throw new NodeOperationError(this.getNode(), `Invalid locale: ${fields.defaultLocale}`, {
+				itemIndex,
+				description: 'Use a language and country code such as en-US',
+			});
+		}
+		const [language, country] = locale.split('-');
+		feedData.default_locale = `${language.toLowerCase()}-${country.toUpperCase()}`;
+	}
+
+	for (const [field, apiField, label] of [
+		['defaultCountry', 'default_country', 'country'],
+		['defaultCurrency', 'default_currency', 'currency'],
+	] as const) {
+		if (typeof fields[field] !== 'string' || fields[field].trim() === '') {
+			continue;
+		}
+
+		const code = fields[field].trim().toUpperCase();
+		const length = field === 'defaultCountry' ? 2 : 3;
+		if (!new RegExp(`^[A-Z]{${length}}$`).test(code)) {
+			throw new NodeOperationError(this.getNode(), `Invalid ${label} code: ${fields[field]}`, {
+				itemIndex,
+			});
+		}
+		feedData[apiField] = code;
+	}
+
+	if (fields.defaultAvailability) {
+		feedData.default_availability = fields.defaultAvailability as CatalogAvailability;
+	}
+
+	if (fields.status) {
+		feedData.status = fields.status as CatalogFeedRequest['status'];
+	}
+
+	return feedData;
+}
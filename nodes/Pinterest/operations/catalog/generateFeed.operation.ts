@@ -0,0 +1,139 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { CatalogFeedFormat } from '../../utils/types';
+import type { CatalogFeedItem } from '../../utils/CatalogFeedBuilder';
+import { CatalogFeedBuilder } from '../../utils/CatalogFeedBuilder';
+import { ITEM_ATTRIBUTE_FIELDS, parseAdditionalAttributes } from './items.operation';
+
+/**
+ * Generate catalog feed operation handler
+ * Converts all input items into one product feed file without calling the API. Valid rows
+ * go into the file on the first output and invalid rows are listed with their errors on the
+ * second output, so the file can be hosted and registered with Create Feed.
+ */
+export async function generateCatalogFeed(
+	this: IExecuteFunctions,
+	_apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[][]> {
+	// All input items go into one file when the node runs for the first item
+	if (itemIndex !== 0) {
+		return [[], []];
+	}
+
+	const items = this.getInputData();
+	const format = this.getNodeParameter('feedFormat', 0, 'CSV') as CatalogFeedFormat;
+	const fileName =
+		(this.getNodeParameter('feedFileName', 0, '') as string).trim() || 'pinterest-catalog';
+	const binaryPropertyName = this.getNodeParameter('binaryPropertyName', 0, 'data') as string;
+
+	const feedItems: CatalogFeedItem[] = [];
+	const feedRows: number[] = [];
+	const rowErrors: INodeExecutionData[] = [];
+	// Rows by item ID, as Pinterest rejects feeds repeating an ID
+	const rowsById = new Map<string, number>();
+
+	for (let rowIndex = 0; rowIndex < items.length; rowIndex++) {
+		let feedItem: CatalogFeedItem = {};
+		let errors: string[];
+
+		try {
+			feedItem = buildFeedItem.call(this, rowIndex);
+			({ item: feedItem, errors } = CatalogFeedBuilder.validateItem(this.getNode(), feedItem));
+		} catch (error) {
+			errors = [error.message];
+		}
+
+		if (errors.length === 0 && rowsById.has(feedItem.id)) {
+			errors = [`id ${feedItem.id} is already used by row ${rowsById.get(feedItem.id)}`];
+		}
+
+		if (errors.length > 0) {
+			rowErrors.push({
+				json: { rowIndex, itemId: feedItem.id || null, errors },
+				pairedItem: { item: rowIndex },
+			});
+			continue;
+		}
+
+		rowsById.set(feedItem.id, rowIndex);
+		feedItems.push(feedItem);
+		feedRows.push(rowIndex);
+	}
+
+	if (feedItems.length === 0) {
+		return [[], rowErrors];
+	}
+
+	const feed = CatalogFeedBuilder.build(format, feedItems, fileName);
+	const binaryData = await this.helpers.prepareBinaryData(
+		Buffer.from(feed.content, 'utf8'),
+		`${fileName}.${feed.extension}`,
+		feed.mimeType,
+	);
+
+	return [
+		[
+			{
+				json: {
+					format,
+					fileName: `${fileName}.${feed.extension}`,
+					itemCount: feedItems.length,
+					errorCount: rowErrors.length,
+					columns: feed.columns,
+				},
+				binary: { [binaryPropertyName]: binaryData },
+				pairedItem: feedRows.map((rowIndex) => ({ item: rowIndex })),
+			},
+		],
+		rowErrors,
+	];
+}
+
+/**
+ * Reads the item ID and attributes of one input item as feed columns. Validation is left
+ * to the feed builder so every problem of the row is reported at once.
+ */
+function buildFeedItem(this: IExecuteFunctions, rowIndex: number): CatalogFeedItem {
+	const itemId = String(this.getNodeParameter('itemId', rowIndex, '') ?? '').trim();
+	const fields = this.getNodeParameter('catalogItemAttributes', rowIndex, {}) as IDataObject;
+	const feedItem: CatalogFeedItem = {};
+
+	if (fields.additionalAttributes) {
+		const additional =
+			typeof fields.additionalAttributes === 'string'
+				? parseAdditionalAttributes(fields.additionalAttributes)
+				: (fields.additionalAttributes as IDataObject);
+
+		for (const [column, value] of Object.entries(additional)) {
+			if (value !== null && value !== undefined) {
+				feedItem[column] = Array.isArray(value) ? value.join(',') : String(value);
+			}
+		}
+	}
+
+	feedItem.id = itemId;
+
+	for (const [field, apiField] of ITEM_ATTRIBUTE_FIELDS) {
+		if (typeof fields[field] === 'string' && fields[field].trim() !== '') {
+			feedItem[apiField] = fields[field].trim();
+		}
+	}
+
+	if (fields.imageLink) {
+		const [imageLink, ...additionalImageLinks] = (
+			Array.isArray(fields.imageLink) ? fields.imageLink : String(fields.imageLink).split(',')
+		)
+			.map((link) => String(link).trim())
+			.filter((link) => link !== '');
+
+		if (imageLink) {
+			feedItem.image_link = imageLink;
+		}
+		if (additionalImageLinks.length > 0) {
+			feedItem.additional_image_link = additionalImageLinks.join(',');
+		}
+	}
+
+	return feedItem;
+}
@@ -0,0 +1,41 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Get catalog feed operation handler
+ * Retrieves a product feed by ID
+ */
+export async function getCatalogFeed(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const feedId = (this.getNodeParameter('feedId', itemIndex) as string).trim();
+
+	// Validate required fields
+	if (!feedId) {
+		throw new NodeOperationError(this.getNode(), 'Feed ID is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const response = await apiClient.getCatalogFeed(feedId);
+
+		return {
+			json: DataTransformer.transformCatalogFeedResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to get catalog feed: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
@@ -0,0 +1,48 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Get catalog feeds operation handler
+ * Lists the product feeds of the connected account
+ */
+export async function getCatalogFeeds(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get list parameters
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const feeds = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getCatalogFeeds({
+					limit: returnAll ? 100 : Math.min(limit, 100),
+					bookmark,
+				}),
+			limit,
+		);
+
+		return feeds.map((feed) => ({
+			json: DataTransformer.transformCatalogFeedResponse(feed),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(this.getNode(), `Failed to list catalog feeds: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
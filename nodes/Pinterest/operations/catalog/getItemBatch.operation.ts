@@ -0,0 +1,68 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { CatalogItemsBatchResponse } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Get catalog items batch operation handler
+ * Retrieves the processing status of an item batch and, once processed, the result per item
+ */
+export async function getCatalogItemsBatch(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const batchId = (this.getNodeParameter('batchId', itemIndex) as string).trim();
+
+	// Validate required fields
+	if (!batchId) {
+		throw new NodeOperationError(this.getNode(), 'Batch ID is required', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const response = await apiClient.getCatalogItemsBatch(batchId);
+
+		return {
+			json: DataTransformer.transformCatalogItemsBatchResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to get catalog items batch: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
+
+/**
+ * Polls an item batch until Pinterest has finished processing it.
+ * Returns the last known state when the timeout is reached, so callers can report the
+ * batch as still processing instead of failing it.
+ */
+export async function waitForCatalogItemsBatch(
+	apiClient: PinterestApiClient,
+	batch: CatalogItemsBatchResponse,
+	pollInterval: number,
+	timeout: number,
+): Promise<CatalogItemsBatchResponse> {
+	const deadline = Date.now() + timeout;
+	let current = batch;
+
+	while (current.status === 'PROCESSING' && Date.now() + pollInterval <= deadline) {
+		await new Promise((resolve) => setTimeout(resolve, pollInterval));
+		current = await apiClient.getCatalogItemsBatch(batch.batch_id);
+	}
+
+	return current;
+}
@@ -0,0 +1,54 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+
+/**
+ * Get product groups operation handler
+ * Lists the product groups of the connected account's catalogs, optionally of a single feed
+ */
+export async function getProductGroups(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get list parameters
+	const feedId = (this.getNodeParameter('feedId', itemIndex, '') as string).trim();
+	const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+	const limit = returnAll ? 0 : (this.getNodeParameter('limit', itemIndex, 50) as number);
+
+	if (!returnAll && limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', {
+			itemIndex,
+		});
+	}
+
+	try {
+		const productGroups = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getProductGroups({
+					limit: returnAll ? 100 : Math.min(limit, 100),
+					bookmark,
+					...(feedId ? { feed_id: feedId } : {}),
+				}),
+			limit,
+		);
+
+		return productGroups.map((productGroup) => ({
+			json: DataTransformer.transformProductGroupResponse(productGroup),
+			pairedItem: { item: itemIndex },
+		}));
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to list product groups: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
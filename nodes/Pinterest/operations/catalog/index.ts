@@ -0,0 +1,11 @@
+// Catalog operations index file
+// Exports product feed, catalog item and product group operations
+
+export * from './createFeed.operation';
+export * from './generateFeed.operation';
+export * from './getFeed.operation';
+export * from './getFeeds.operation';
+export * from './getItemBatch.operation';
+export * from './getProductGroups.operation';
+export * from './items.operation';
+export * from './updateFeed.operation';
@@ -0,0 +1,278 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type {
+	BatchOperationConfig,
+	CatalogItemRow,
+	CatalogItemsBatchOperation,
+	CatalogItemsBatchResponse,
+} from '../../utils/types';
+import {
+	BatchProcessor,
+	CancellationToken,
+	MAX_CATALOG_ITEMS_PER_BATCH,
+} from '../../utils/BatchProcessor';
+import { waitForCatalogItemsBatch } from './getItemBatch.operation';
+
+/**
+ * Catalog item attributes entered as node fields, with their API names
+ */
+export const ITEM_ATTRIBUTE_FIELDS = [
+	['availability', 'availability'],
+	['brand', 'brand'],
+	['condition', 'condition'],
+	['description', 'description'],
+	['googleProductCategory', 'google_product_category'],
+	['itemGroupId', 'item_group_id'],
+	['link', 'link'],
+	['price', 'price'],
+	['productType', 'product_type'],
+	['salePrice', 'sale_price'],
+	['title', 'title'],
+] as const;
+
+/**
+ * Upsert catalog items operation handler
+ * Creates or replaces one catalog item per input item, sent to Pinterest in batches
+ */
+export async function upsertCatalogItems(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	return await writeCatalogItems.call(this, apiClient, itemIndex, 'UPSERT');
+}
+
+/**
+ * Delete catalog items operation handler
+ * Deletes the catalog item of every input item, sent to Pinterest in batches
+ */
+export async function deleteCatalogItems(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	return await writeCatalogItems.call(this, apiClient, itemIndex, 'DELETE');
+}
+
+/**
+ * Sends the catalog items of all input items as item batches and returns one result per
+ * input item. With Wait for Completion on, each batch is polled until Pinterest has
+ * processed it and the result of every item is reported.
+ */
+async function writeCatalogItems(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+	operation: CatalogItemsBatchOperation,
+): Promise<INodeExecutionData[]> {
+	// All input items are batched together when the node runs for the first item
+	if (itemIndex !== 0) {
+		return [];
+	}
+
+	const items = this.getInputData();
+	const country = (this.getNodeParameter('catalogCountry', 0, 'US') as string).trim();
+	const language = (this.getNodeParameter('catalogLanguage', 0, 'EN') as string).trim();
+	const options = this.getNodeParameter('catalogItemOptions', 0, {}) as IDataObject;
+	const waitForCompletion = options.waitForCompletion === true;
+	const pollInterval = Number(options.pollInterval ?? 5) * 1000;
+	const timeout = Number(options.processingTimeout ?? 300) * 1000;
+
+	if (!/^[A-Za-z]{2}$/.test(country)) {
+		throw new NodeOperationError(this.getNode(), `Invalid country code: ${country}`, {
+			itemIndex,
+		});
+	}
+
+	if (!/^[A-Za-z]{2}$/.test(language)) {
+		throw new NodeOperationError(this.getNode(), `Invalid language code: ${language}`, {
+			itemIndex,
+			description: 'Use a two-letter language code such as EN',
+		});
+	}
+
+	const results: IDataObject[] = [];
+	const rows: CatalogItemRow[] = [];
+
+	for (let rowIndex = 0; rowIndex < items.length; rowIndex++) {
+		try {
+			rows.push(buildCatalogItemRow.call(this, rowIndex, operation));
+		} catch (error) {
+			results[rowIndex] = {
+				success: false,
+				rowIndex,
+				status: 'invalid',
+				error: error.message,
+			};
+		}
+	}
+
+	const batchConfig: BatchOperationConfig = {
+		maxConcurrency: 1,
+		enableOptimization: false,
+		retryAttempts: 2,
+	};
+
+	const batchProcessor = new BatchProcessor(this, apiClient);
+	const cancellationToken = new CancellationToken();
+
+	try {
+		const batchResult = await batchProcessor.processCatalogItemBatch(
+			rows,
+			{
+				country: country.toUpperCase(),
+				language: language.toUpperCase(),
+				operation,
+				catalog_type: 'RETAIL',
+			},
+			Number(options.batchSize) || MAX_CATALOG_ITEMS_PER_BATCH,
+			batchConfig,
+			cancellationToken,
+		);
+
+		for (const { rows: batchRows, batch } of batchResult.success) {
+			let state: CatalogItemsBatchResponse = batch;
+			if (waitForCompletion) {
+				// A failed status check leaves the batch queued rather than failing its items
+				try {
+					state = await waitForCatalogItemsBatch(apiClient, batch, pollInterval, timeout);
+				} catch {
+					state = batch;
+				}
+			}
+
+			const itemResults = new Map((state.items || []).map((item) => [item.item_id, item]));
+
+			for (const { rowIndex, itemId } of batchRows) {
+				const itemResult = itemResults.get(itemId);
+				const errors = itemResult?.errors || [];
+				const failed =
+					state.status === 'FAILED' || itemResult?.status === 'FAILURE' || errors.length > 0;
+
+				results[rowIndex] = {
+					success: !failed,
+					rowIndex,
+					itemId,
+					batchId: state.batch_id,
+					status: itemResult?.status || state.status,
+					error: failed
+						? errors.map((error) => error.message).join('; ') || 'Pinterest rejected the item'
+						: null,
+					warnings: itemResult?.warnings || [],
+				};
+			}
+		}
+
+		for (const batchError of batchResult.errors) {
+			for (const rowIndex of batchError.itemId.split(',').map(Number)) {
+				const row = rows.find((candidate) => candidate.rowIndex === rowIndex);
+				results[rowIndex] = {
+					success: false,
+					rowIndex,
+					itemId: row?.itemId,
+					batchId: null,
+					status: 'failed',
+					error: batchError.error,
+					warnings: [],
+				};
+			}
+		}
+	} finally {
+		// Clean up resources
+		batchProcessor.clearCache();
+	}
+
+	return results.map((json, rowIndex) => ({
+		json,
+		pairedItem: { item: rowIndex },
+	}));
+}
+
+/**
+ * Reads the item ID and, for upserts, the attributes of one input item
+ */
+export function buildCatalogItemRow(
+	this: IExecuteFunctions,
+	rowIndex: number,
+	operation: CatalogItemsBatchOperation,
+): CatalogItemRow {
+	const itemId = String(this.getNodeParameter('itemId', rowIndex, '') ?? '').trim();
+
+	if (!itemId) {
+		throw new Error('Item ID is required');
+	}
+	if (itemId.length > 127) {
+		throw new Error('Item ID must be at most 127 characters');
+	}
+
+	if (operation === 'DELETE') {
+		return { rowIndex, itemId };
+	}
+
+	const fields = this.getNodeParameter('catalogItemAttributes', rowIndex, {}) as IDataObject;
+	const attributes: IDataObject = {};
+
+	if (fields.additionalAttributes) {
+		const additional =
+			typeof fields.additionalAttributes === 'string'
+				? parseAdditionalAttributes(fields.additionalAttributes)
+				: (fields.additionalAttributes as IDataObject);
+		Object.assign(attributes, additional);
+	}
+
+	for (const [field, apiField] of ITEM_ATTRIBUTE_FIELDS) {
+		if (typeof fields[field] === 'string' && fields[field].trim() !== '') {
+			attributes[apiField] = fields[field].trim();
+		}
+	}
+
+	if (fields.imageLink) {
+		const imageLinks = (
+			Array.isArray(fields.imageLink) ? fields.imageLink : String(fields.imageLink).split(',')
+		)
+			.map((link) => String(link).trim())
+			.filter((link) => link !== '');
+
+		for (const link of imageLinks) {
+			if (!/^https?:\/\/\S+$/i.test(link)) {
+				throw new Error(`Invalid image link: ${link}`);
+			}
+		}
+		if (imageLinks.length > 0) {
+			attributes.image_link = imageLinks;
+		}
+	}
+
+	if (typeof attributes.link === 'string' && !/^https?:\/\/\S+$/i.test(attributes.link)) {
+		throw new Error(`Invalid product link: ${attributes.link}`);
+	}
+
+	if (Object.keys(attributes).length === 0) {
+		throw new Error('At least one item attribute is required');
+	}
+
+	return { rowIndex, itemId, attributes };
+}
+
+/**
+ * Parses the JSON object of additional item attributes
+ */
+export function parseAdditionalAttributes(value: string): IDataObject {
+	if (value.trim() === '') {
+		return {};
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		throw new Error('Additional attributes must be valid JSON');
+	}
+
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error('Additional attributes must be a JSON object');
+	}
+
+	return parsed as IDataObject;
+}
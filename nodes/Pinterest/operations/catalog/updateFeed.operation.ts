@@ -0,0 +1,56 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { buildCatalogFeedFields } from './createFeed.operation';
+
+/**
+ * Update catalog feed operation handler
+ * Changes the name, file location, format, defaults or status of a product feed
+ */
+export async function updateCatalogFeed(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get required parameters
+	const feedId = (this.getNodeParameter('feedId', itemIndex) as string).trim();
+	const updateFields = this.getNodeParameter('updateFields', itemIndex, {}) as IDataObject;
+
+	// Validate required fields
+	if (!feedId) {
+		throw new NodeOperationError(this.getNode(), 'Feed ID is required', {
+			itemIndex,
+		});
+	}
+
+	const feedData = buildCatalogFeedFields.call(this, updateFields, itemIndex);
+
+	if (Object.keys(feedData).length === 0) {
+		throw new NodeOperationError(this.getNode(), 'At least one field must be provided for update', {
+			itemIndex,
+		});
+	}
+
+	try {
+		// Update feed via API
+		const response = await apiClient.updateCatalogFeed(feedId, feedData);
+
+		return {
+			json: DataTransformer.transformCatalogFeedResponse(response),
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		// Re-throw with additional context
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to update catalog feed: ${error.message}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
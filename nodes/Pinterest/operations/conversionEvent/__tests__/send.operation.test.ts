@@ -0,0 +1,188 @@
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { createHash } from 'crypto';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { ConversionEvent } from '../../../utils/types';
+import { hashIdentifiers, normalizePhone, sendConversionEvents } from '../send.operation';
+import { mockRows } from '../../../__tests__/helpers';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('Conversion Event Send Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const adAccountId = { __rl: true, mode: 'list', value: '549755885175' };
+
+	const mockEvents = (rows: IDataObject[]) =>
+		mockRows(
+			mockExecuteFunctions,
+			rows.map((row) => ({ adAccountId, eventName: 'checkout', actionSource: 'web', ...row })),
+		);
+
+	const processAll = () =>
+		(mockApiClient.sendConversionEvents as jest.Mock).mockImplementation(
+			async (_adAccountId: string, events: ConversionEvent[]) => ({
+				num_events_received: events.length,
+				num_events_processed: events.length,
+				events: events.map(() => ({ status: 'processed' })),
+			}),
+		);
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getInputData: jest.fn(),
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			sendConversionEvents: jest.fn(),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should normalize and hash user identifiers before sending', async () => {
+		processAll();
+		mockEvents([
+			{
+				eventId: 'order-1',
+				eventTime: '2025-01-01T00:00:00Z',
+				conversionUserData: {
+					email: ' Jane@Example.com ',
+					phone: '+1 (555) 010-0000',
+					externalId: 'user-42',
+					clientIpAddress: '203.0.113.10',
+				},
+				conversionCustomData: { currency: 'usd', value: 59.9, contentIds: 'sku-1, sku-2' },
+				conversionOptions: { eventSourceUrl: 'https://example.com/checkout' },
+			},
+		]);
+
+		const result = await sendConversionEvents.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.sendConversionEvents).toHaveBeenCalledWith(
+			'549755885175',
+			[
+				{
+					event_name: 'checkout',
+					action_source: 'web',
+					event_time: 1735689600,
+					event_id: 'order-1',
+					event_source_url: 'https://example.com/checkout',
+					user_data: {
+						em: [sha256('jane@example.com')],
+						ph: [sha256('15550100000')],
+						external_id: [sha256('user-42')],
+						client_ip_address: '203.0.113.10',
+					},
+					custom_data: { currency: 'USD', value: '59.9', content_ids: ['sku-1', 'sku-2'] },
+				},
+			],
+			false,
+		);
+		expect(result).toEqual([
+			{
+				json: {
+					success: true,
+					rowIndex: 0,
+					adAccountId: '549755885175',
+					eventId: 'order-1',
+					eventName: 'checkout',
+					status: 'processed',
+					error: null,
+					warning: null,
+					testMode: false,
+				},
+				pairedItem: { item: 0 },
+			},
+		]);
+	});
+
+	it('should split events into batches and pass the test mode flag', async () => {
+		processAll();
+		mockEvents(
+			[1, 2, 3].map((index) => ({
+				eventId: `event-${index}`,
+				conversionUserData: { email: `user${index}@example.com` },
+				conversionOptions: { batchSize: 2, testMode: true },
+			})),
+		);
+
+		const result = await sendConversionEvents.call(mockExecuteFunctions, mockApiClient, 0);
+
+		const calls = (mockApiClient.sendConversionEvents as jest.Mock).mock.calls;
+		expect(calls.map(([, events]) => events.length)).toEqual([2, 1]);
+		expect(calls.every(([, , test]) => test === true)).toBe(true);
+		expect(result.map((item) => item.json.eventId)).toEqual(['event-1', 'event-2', 'event-3']);
+	});
+
+	it('should report invalid events and per-event API errors', async () => {
+		(mockApiClient.sendConversionEvents as jest.Mock).mockResolvedValue({
+			num_events_received: 2,
+			num_events_processed: 1,
+			events: [
+				{ status: 'processed', warning_message: 'Event time is close to the limit' },
+				{ status: 'failed', error_message: 'Invalid event_name' },
+			],
+		});
+		mockEvents([
+			{ conversionUserData: { email: 'a@example.com' } },
+			{ conversionUserData: { phone: '+1 555 010 0000' } },
+			{ conversionUserData: { email: 'not-an-email' } },
+			{ conversionUserData: { email: 'b@example.com' } },
+		]);
+
+		const result = await sendConversionEvents.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result.map((item) => item.json.status)).toEqual([
+			'processed',
+			'invalid',
+			'invalid',
+			'failed',
+		]);
+		expect(result[0].json.warning).toBe('Event time is close to the limit');
+		expect(result[1].json.error).toBe(
+			'An email or both the client IP address and user agent are required to match the event',
+		);
+		expect(result[2].json.error).toBe('Invalid email address in user data');
+		expect(result[3].json).toMatchObject({ success: false, error: 'Invalid event_name' });
+		expect(result[3].pairedItem).toEqual({ item: 3 });
+	});
+
+	it('should mark every event of a failed request as failed', async () => {
+		(mockApiClient.sendConversionEvents as jest.Mock).mockRejectedValue(
+			new Error('Insufficient permissions'),
+		);
+		mockEvents([{ conversionUserData: { email: 'a@example.com' } }]);
+
+		const result = await sendConversionEvents.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result[0].json).toMatchObject({
+			success: false,
+			status: 'failed',
+			error: 'Insufficient permissions',
+		});
+		expect(result[0].json.eventId).toMatch(/^[a-f0-9]{32}$/);
+	});
+
+	it('should only run once for all input items', async () => {
+		mockEvents([{ conversionUserData: { email: 'a@example.com' } }]);
+
+		const result = await sendConversionEvents.call(mockExecuteFunctions, mockApiClient, 1);
+
+		expect(result).toEqual([]);
+		expect(mockApiClient.sendConversionEvents).not.toHaveBeenCalled();
+	});
+
+	describe('hashIdentifiers', () => {
+		it('should pass through values that are already hashed', () => {
+			const hashed = sha256('jane@example.com');
+
+			expect(hashIdentifiers([hashed.toUpperCase()], normalizePhone)).toEqual([hashed]);
+			expect(hashIdentifiers('', normalizePhone)).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,4 @@
+// Conversion event operations index file
+// Exports the Conversions API operations
+
+export * from './send.operation';
@@ -0,0 +1,300 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { ConversionEvent } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { SecurityValidator } from '../../utils/SecurityValidator';
+
+/**
+ * Maximum number of events the Conversions API accepts per request
+ */
+export const MAX_EVENTS_PER_REQUEST = 1000;
+
+const SHA256_HEX_REGEX = /^[a-f0-9]{64}$/;
+
+interface PreparedConversionEvent {
+	rowIndex: number;
+	adAccountId: string;
+	event: ConversionEvent;
+}
+
+/**
+ * Send conversion events operation handler
+ * Builds one event per input item, hashes the user identifiers and sends the events
+ * to each ad account in batches, returning the result of every event
+ */
+export async function sendConversionEvents(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// All input items are batched together when the node runs for the first item
+	if (itemIndex !== 0) {
+		return [];
+	}
+
+	const items = this.getInputData();
+	const options = this.getNodeParameter('conversionOptions', 0, {}) as IDataObject;
+	const testMode = options.testMode === true;
+	const batchSize = Math.min(
+		Math.max(Math.floor(Number(options.batchSize) || MAX_EVENTS_PER_REQUEST), 1),
+		MAX_EVENTS_PER_REQUEST,
+	);
+
+	const results: IDataObject[] = [];
+	const eventsByAdAccount = new Map<string, PreparedConversionEvent[]>();
+
+	for (let rowIndex = 0; rowIndex < items.length; rowIndex++) {
+		try {
+			const prepared = buildConversionEvent.call(this, rowIndex);
+			const events = eventsByAdAccount.get(prepared.adAccountId) || [];
+			events.push(prepared);
+			eventsByAdAccount.set(prepared.adAccountId, events);
+		} catch (error) {
+			results[rowIndex] = {
+				success: false,
+				rowIndex,
+				status: 'invalid',
+				error: error.message,
+			};
+		}
+	}
+
+	for (const [adAccountId, events] of eventsByAdAccount) {
+		for (let start = 0; start < events.length; start += batchSize) {
+			const batch = events.slice(start, start + batchSize);
+
+			try {
+				const response = await apiClient.sendConversionEvents(
+					adAccountId,
+					batch.map(({ event }) => event),
+					testMode,
+				);
+
+				// Results are returned in the order the events were sent
+				batch.forEach(({ rowIndex, event }, index) => {
+					const eventResult = response.events?.[index];
+					const processed = eventResult?.status === 'processed';
+
+					results[rowIndex] = {
+						success: processed,
+						rowIndex,
+						adAccountId,
+						eventId: event.event_id,
+						eventName: event.event_name,
+						status: eventResult?.status || 'failed',
+						error: processed
+							? null
+							: eventResult?.error_message || 'No result returned for the event',
+						warning: eventResult?.warning_message || null,
+						testMode,
+					};
+				});
+			} catch (error) {
+				for (const { rowIndex, event } of batch) {
+					results[rowIndex] = {
+						success: false,
+						rowIndex,
+						adAccountId,
+						eventId: event.event_id,
+						eventName: event.event_name,
+						status: 'failed',
+						error: error.message,
+						warning: null,
+						testMode,
+					};
+				}
+			}
+		}
+	}
+
+	return results.map((json, rowIndex) => ({
+		json,
+		pairedItem: { item: rowIndex },
+	}));
+}
+
+/**
+ * Builds the conversion event of one input item, normalizing and hashing its identifiers
+ */
+export function buildConversionEvent(
+	this: IExecuteFunctions,
+	rowIndex: number,
+): PreparedConversionEvent {
+	const adAccountId = ResourceLocator.getId(this.getNodeParameter('adAccountId', rowIndex));
+	const eventName = this.getNodeParameter('eventName', rowIndex) as string;
+	const actionSource = this.getNodeParameter(
+		'actionSource',
+		rowIndex,
+	) as ConversionEvent['action_source'];
+	const eventTime = this.getNodeParameter('eventTime', rowIndex, '') as string;
+	const eventId = (this.getNodeParameter('eventId', rowIndex, '') as string).trim();
+	const userData = this.getNodeParameter('conversionUserData', rowIndex, {}) as IDataObject;
+	const customData = this.getNodeParameter('conversionCustomData', rowIndex, {}) as IDataObject;
+	const options = this.getNodeParameter('conversionOptions', rowIndex, {}) as IDataObject;
+
+	if (!adAccountId) {
+		throw new NodeOperationError(this.getNode(), 'Ad account ID is required', {
+			itemIndex: rowIndex,
+		});
+	}
+
+	const event: ConversionEvent = {
+		event_name: eventName,
+		action_source: actionSource,
+		event_time: eventTime
+			? DataTransformer.toUnixSeconds(eventTime)
+			: Math.floor(Date.now() / 1000),
+		// Without a shared ID Pinterest cannot deduplicate the event against the tag
+		event_id: eventId || SecurityValidator.generateSecureRandom(16),
+		user_data: {},
+	};
+
+	const emails = hashIdentifiers(userData.email, normalizeEmail);
+	const phones = hashIdentifiers(userData.phone, normalizePhone);
+	const externalIds = hashIdentifiers(userData.externalId, (value) => value);
+
+	if (emails) {
+		event.user_data.em = emails;
+	}
+	if (phones) {
+		event.user_data.ph = phones;
+	}
+	if (externalIds) {
+		event.user_data.external_id = externalIds;
+	}
+
+	for (const [field, apiField] of [
+		['clientIpAddress', 'client_ip_address'],
+		['clientUserAgent', 'client_user_agent'],
+		['clickId', 'click_id'],
+	] as const) {
+		if (typeof userData[field] === 'string' && userData[field].trim() !== '') {
+			event.user_data[apiField] = userData[field].trim();
+		}
+	}
+
+	// Pinterest matches events to users by email or by the browser that sent them
+	if (
+		!event.user_data.em &&
+		!(event.user_data.client_ip_address && event.user_data.client_user_agent)
+	) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'An email or both the client IP address and user agent are required to match the event',
+			{ itemIndex: rowIndex },
+		);
+	}
+
+	const custom = buildCustomData(customData);
+	if (Object.keys(custom).length > 0) {
+		event.custom_data = custom;
+	}
+
+	if (typeof options.eventSourceUrl === 'string' && options.eventSourceUrl.trim() !== '') {
+		event.event_source_url = options.eventSourceUrl.trim();
+	}
+
+	if (options.optOut === true) {
+		event.opt_out = true;
+	}
+
+	return { rowIndex, adAccountId, event };
+}
+
+/**
+ * Normalizes and SHA-256 hashes a list of identifiers given as an array or comma-separated
+ * string. Values that already are SHA-256 hex digests are passed through unchanged.
+ */
+export function hashIdentifiers(
+	value: unknown,
+	normalize: (value: string) => string,
+): string[] | undefined {
+	const values = (Array.isArray(value) ? value : String(value ?? '').split(','))
+		.map((item) => String(item).trim())
+		.filter((item) => item !== '');
+
+	if (values.length === 0) {
+		return undefined;
+	}
+
+	return values.map((item) =>
+		SHA256_HEX_REGEX.test(item.toLowerCase())
+			? item.toLowerCase()
+			: SecurityValidator.hashSensitiveData(normalize(item), true),
+	);
+}
+
+/**
+ * Lowercases an email address as Pinterest does before hashing
+ */
+export function normalizeEmail(email: string): string {
+	const normalized = email.trim().toLowerCase();
+
+	if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+		throw new Error('Invalid email address in user data');
+	}
+
+	return normalized;
+}
+
+/**
+ * Reduces a phone number to its digits, including the country code
+ */
+export function normalizePhone(phone: string): string {
+	const digits = phone.replace(/\D/g, '');
+
+	if (digits.length < 7 || digits.length > 15) {
+		throw new Error('Invalid phone number in user data');
+	}
+
+	return digits;
+}
+
+/**
+ * Converts the custom data fields of an event into API fields
+ */
+function buildCustomData(customData: IDataObject): NonNullable<ConversionEvent['custom_data']> {
+	const custom: NonNullable<ConversionEvent['custom_data']> = {};
+
+	if (typeof customData.currency === 'string' && customData.currency.trim() !== '') {
+		const currency = customData.currency.trim().toUpperCase();
+		if (!/^[A-Z]{3}$/.test(currency)) {
+			throw new Error(`Invalid currency code: ${customData.currency}`);
+		}
+		custom.currency = currency;
+	}
+
+	if (customData.value !== undefined && customData.value !== '') {
+		const value = Number(customData.value);
+		if (isNaN(value) || value < 0) {
+			throw new Error(`Invalid event value: ${customData.value}`);
+		}
+		custom.value = String(value);
+	}
+
+	if (typeof customData.orderId === 'string' && customData.orderId.trim() !== '') {
+		custom.order_id = customData.orderId.trim();
+	}
+
+	if (customData.contentIds) {
+		const contentIds = String(customData.contentIds)
+			.split(',')
+			.map((id) => id.trim())
+			.filter((id) => id !== '');
+		if (contentIds.length > 0) {
+			custom.content_ids = contentIds;
+		}
+	}
+
+	if (customData.numItems !== undefined && customData.numItems !== '') {
+		custom.num_items = Number(customData.numItems);
+	}
+
+	if (typeof customData.searchString === 'string' && customData.searchString.trim() !== '') {
+		custom.search_string = customData.searchString.trim();
+	}
+
+	return custom;
+}
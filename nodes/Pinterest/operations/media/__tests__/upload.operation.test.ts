@@ -1,6 +1,7 @@
 import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import { uploadMedia } from '../upload.operation';
 import { MediaUploader } from '../../../utils/MediaUploader';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
 
 // Mock dependencies
 jest.mock('../../../utils/MediaUploader');
@@ -98,4 +99,60 @@ describe('Upload Media Operation', () => {
 			'Failed to upload media: Upload failed',
 		);
 	});
+
+	it('should pass processing settings to the uploader in milliseconds', async () => {
+		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('data') // binaryPropertyName
+			.mockReturnValueOnce(false) // trackProgress
+			.mockReturnValueOnce(true) // waitForProcessing
+			.mockReturnValueOnce(2) // pollInterval
+			.mockReturnValueOnce(60); // processingTimeout
+
+		(mockExecuteFunctions.helpers.assertBinaryData as jest.Mock).mockReturnValue({
+			data: Buffer.from('test-video-data'),
+			mimeType: 'video/mp4',
+			fileName: 'test.mp4',
+		});
+		mockUploadMedia.mockResolvedValue({
+			mediaId: 'video-123',
+			mediaType: 'video',
+			status: 'succeeded',
+			uploadTime: 1000,
+			fileSize: 15,
+			filename: 'test.mp4',
+		});
+
+		const apiClient = {} as PinterestApiClient;
+		await uploadMedia.call(mockExecuteFunctions, 0, apiClient);
+
+		expect(MediaUploader).toHaveBeenCalledWith(
+			mockExecuteFunctions,
+			{
+				waitForProcessing: true,
+				pollInterval: 2000,
+				timeout: 60000,
+			},
+			apiClient,
+		);
+	});
+
+	it('should reject a non-positive processing timeout', async () => {
+		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('data') // binaryPropertyName
+			.mockReturnValueOnce(false) // trackProgress
+			.mockReturnValueOnce(true) // waitForProcessing
+			.mockReturnValueOnce(5) // pollInterval
+			.mockReturnValueOnce(0); // processingTimeout
+
+		(mockExecuteFunctions.helpers.assertBinaryData as jest.Mock).mockReturnValue({
+			data: Buffer.from('test-video-data'),
+			mimeType: 'video/mp4',
+			fileName: 'test.mp4',
+		});
+
+		await expect(uploadMedia.call(mockExecuteFunctions, 0)).rejects.toThrow(
+			'Processing timeout must be greater than 0',
+		);
+		expect(mockUploadMedia).not.toHaveBeenCalled();
+	});
 });
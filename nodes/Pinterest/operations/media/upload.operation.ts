@@ -1,17 +1,25 @@
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
-import { MediaUploader, type MediaFileInfo, type UploadResult } from '../../utils/MediaUploader';
+import {
+	MediaUploader,
+	type MediaFileInfo,
+	type MediaUploaderOptions,
+	type UploadResult,
+} from '../../utils/MediaUploader';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
 
 /**
  * Upload media file to Pinterest
  * @param this n8n execution context
  * @param itemIndex Current item index
+ * @param apiClient Client of the node, created with the default settings when omitted
  * @returns Execution data with upload result
  */
 export async function uploadMedia(
 	this: IExecuteFunctions,
 	itemIndex: number,
+	apiClient?: PinterestApiClient,
 ): Promise<INodeExecutionData> {
 	try {
 		// Get binary data property name
@@ -35,8 +43,33 @@ export async function uploadMedia(
 			true,
 		) as boolean;
 
+		// Processing settings only apply while waiting for the media to be ready
+		const processingOptions: MediaUploaderOptions = { waitForProcessing };
+		if (waitForProcessing) {
+			const pollInterval = this.getNodeParameter('pollInterval', itemIndex, 5) as number;
+			const processingTimeout = this.getNodeParameter(
+				'processingTimeout',
+				itemIndex,
+				300,
+			) as number;
+
+			if (pollInterval <= 0) {
+				throw new NodeOperationError(this.getNode(), 'Poll interval must be greater than 0', {
+					itemIndex,
+				});
+			}
+			if (processingTimeout <= 0) {
+				throw new NodeOperationError(this.getNode(), 'Processing timeout must be greater than 0', {
+					itemIndex,
+				});
+			}
+
+			processingOptions.pollInterval = pollInterval * 1000;
+			processingOptions.timeout = processingTimeout * 1000;
+		}
+
 		// Create media uploader
-		const mediaUploader = new MediaUploader(this);
+		const mediaUploader = new MediaUploader(this, processingOptions, apiClient);
 
 		// Track upload progress if requested
 		let progressData: any = null;
@@ -95,11 +128,13 @@ export async function uploadMedia(
  * Get media upload status by media ID
  * @param this n8n execution context
  * @param itemIndex Current item index
+ * @param apiClient Client of the node, created with the default settings when omitted
  * @returns Execution data with media status
  */
 export async function getMediaStatus(
 	this: IExecuteFunctions,
 	itemIndex: number,
+	apiClient?: PinterestApiClient,
 ): Promise<INodeExecutionData> {
 	try {
 		const mediaId = this.getNodeParameter('mediaId', itemIndex) as string;
@@ -108,16 +143,12 @@ export async function getMediaStatus(
 			throw new NodeOperationError(this.getNode(), 'Media ID is required', { itemIndex });
 		}
 
-		// Note: Pinterest API doesn't have a direct endpoint to check media status
-		// This would typically be implemented by storing upload status in a database
-		// or using Pinterest's webhook notifications
-		// For now, we'll return a placeholder response
+		const media = await new MediaUploader(this, {}, apiClient).getMediaStatus(mediaId);
 
 		const outputData: IDataObject = {
-			mediaId,
-			status: 'succeeded', // This would come from actual API call
-			message:
-				'Media status check is not directly supported by Pinterest API. Use webhooks for real-time status updates.',
+			mediaId: media.media_id,
+			mediaType: media.media_type,
+			status: media.status,
 		};
 
 		return {
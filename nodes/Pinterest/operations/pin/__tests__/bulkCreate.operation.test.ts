@@ -0,0 +1,198 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { bulkCreatePins } from '../bulk.operation';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { CreatePinRequest, PinResponse } from '../../../utils/types';
+import { mockRows } from '../../../__tests__/helpers';
+
+describe('Pin Bulk Create Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const createPinResponse = (pinData: CreatePinRequest, id: string): PinResponse => ({
+		id,
+		created_at: '2024-01-01T00:00:00Z',
+		url: `https://pinterest.com/pin/${id}`,
+		title: pinData.title,
+		board_id: pinData.board_id,
+		media: { url: pinData.media_source.url!, media_type: 'image' },
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getInputData: jest.fn(),
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createPin: jest.fn(),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should create one pin per input row, linked to its row', async () => {
+		mockRows(mockExecuteFunctions, [
+			{
+				boardId: '111',
+				mediaUrl: 'https://example.com/a.jpg',
+				title: 'A',
+				description: 'First',
+				link: 'https://example.com/a',
+				altText: 'Alt A',
+			},
+			{ boardId: '222', mediaUrl: 'https://example.com/b.jpg', title: 'B' },
+		]);
+		mockApiClient.createPin.mockImplementation(async (pinData) =>
+			createPinResponse(pinData, `pin-${pinData.title}`),
+		);
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin).toHaveBeenCalledWith({
+			board_id: '111',
+			media_source: { source_type: 'image_url', url: 'https://example.com/a.jpg' },
+			title: 'A',
+			description: 'First',
+			link: 'https://example.com/a',
+			alt_text: 'Alt A',
+		});
+		expect(result).toHaveLength(2);
+		expect(result[0].json).toMatchObject({ success: true, rowIndex: 0, pinId: 'pin-A' });
+		expect(result[0].pairedItem).toEqual({ item: 0 });
+		expect(result[1].json).toMatchObject({ success: true, rowIndex: 1, pinId: 'pin-B' });
+		expect(result[1].pairedItem).toEqual({ item: 1 });
+	});
+
+	it('should create identical rows separately', async () => {
+		const row = { boardId: '111', mediaUrl: 'https://example.com/a.jpg', title: 'A' };
+		mockRows(mockExecuteFunctions, [row, row]);
+		mockApiClient.createPin.mockImplementation(async (pinData) =>
+			createPinResponse(pinData, 'pin'),
+		);
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin).toHaveBeenCalledTimes(2);
+		expect(result.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }]);
+	});
+
+	it('should look up a board URL once for all rows', async () => {
+		const boardId = {
+			__rl: true,
+			mode: 'url',
+			value: 'https://www.pinterest.com/jane/summer-recipes/',
+		};
+		mockRows(mockExecuteFunctions, [
+			{ boardId, mediaUrl: 'https://example.com/a.jpg', title: 'A' },
+			{ boardId, mediaUrl: 'https://example.com/b.jpg', title: 'B' },
+		]);
+		Object.assign(mockApiClient, {
+			getBoards: jest.fn().mockResolvedValue({
+				items: [{ id: '111', name: 'Summer Recipes', url: '/jane/summer-recipes/' }],
+			}),
+			fetchAllPages: jest.fn(async (fetchPage: () => Promise<{ items: unknown[] }>) => {
+				return (await fetchPage()).items;
+			}),
+		});
+		mockApiClient.createPin.mockImplementation(async (pinData) =>
+			createPinResponse(pinData, `pin-${pinData.title}`),
+		);
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result.map((item) => item.json.success)).toEqual([true, true]);
+		expect(mockApiClient.createPin).toHaveBeenCalledWith(
+			expect.objectContaining({ board_id: '111', title: 'B' }),
+		);
+		expect(mockApiClient.getBoards).toHaveBeenCalledTimes(1);
+	});
+
+	it('should report invalid rows and API failures without stopping other rows', async () => {
+		mockRows(
+			mockExecuteFunctions,
+			[
+				{ boardId: '111', mediaUrl: 'https://example.com/a.jpg', title: 'A' },
+				{ boardId: '222', mediaUrl: 'not a url' },
+				{ boardId: '333', mediaUrl: 'https://example.com/c.jpg', title: 'C' },
+			],
+			{ retryAttempts: 2, retryDelay: 1 },
+		);
+		mockApiClient.createPin.mockImplementation(async (pinData) => {
+			if (pinData.board_id === '333') {
+				throw Object.assign(new Error('Board not found'), { httpCode: '404' });
+			}
+			return createPinResponse(pinData, 'pin-A');
+		});
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result.map((item) => item.json.success)).toEqual([true, false, false]);
+		expect(result[1].json).toEqual({
+			success: false,
+			rowIndex: 1,
+			error: 'Invalid media URL format: not a url',
+		});
+		expect(result[2].json).toMatchObject({
+			success: false,
+			rowIndex: 2,
+			error: 'Board not found',
+			attempts: 1,
+		});
+		expect(result[2].pairedItem).toEqual({ item: 2 });
+		// Errors that are not retryable are reported after the first attempt
+		expect(mockApiClient.createPin).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not create a row again after a server error by default', async () => {
+		mockRows(mockExecuteFunctions, [
+			{ boardId: '111', mediaUrl: 'https://example.com/a.jpg', title: 'A' },
+		]);
+		mockApiClient.createPin.mockRejectedValue(
+			Object.assign(new Error('Service Unavailable'), { httpCode: '503' }),
+		);
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result[0].json).toMatchObject({ success: false, attempts: 1 });
+		expect(mockApiClient.createPin).toHaveBeenCalledTimes(1);
+	});
+
+	it('should retry rate limited rows when retries are enabled', async () => {
+		mockRows(
+			mockExecuteFunctions,
+			[{ boardId: '111', mediaUrl: 'https://example.com/a.jpg', title: 'A' }],
+			{
+				retryAttempts: 1,
+				retryDelay: 1,
+			},
+		);
+		mockApiClient.createPin
+			.mockRejectedValueOnce(Object.assign(new Error('Rate limit exceeded'), { httpCode: '429' }))
+			.mockImplementation(async (pinData) => createPinResponse(pinData, 'pin-A'));
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result[0].json).toMatchObject({ success: true, pinId: 'pin-A' });
+		expect(mockApiClient.createPin).toHaveBeenCalledTimes(2);
+	});
+
+	it('should require a board ID and media URL per row', async () => {
+		mockRows(mockExecuteFunctions, [{ mediaUrl: 'https://example.com/a.jpg' }, { boardId: '111' }]);
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(result.map((item) => item.json.error)).toEqual([
+			'Board ID is required',
+			'Media URL is required',
+		]);
+		expect(mockApiClient.createPin).not.toHaveBeenCalled();
+	});
+
+	it('should only run once for all input items', async () => {
+		mockRows(mockExecuteFunctions, [{ boardId: '111', mediaUrl: 'https://example.com/a.jpg' }]);
+
+		const result = await bulkCreatePins.call(mockExecuteFunctions, mockApiClient, 1);
+
+		expect(result).toEqual([]);
+		expect(mockExecuteFunctions.getInputData).not.toHaveBeenCalled();
+	});
+});
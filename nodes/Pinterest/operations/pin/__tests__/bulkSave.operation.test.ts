@@ -0,0 +1,105 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { bulkSavePins } from '../bulk.operation';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { PinResponse, SavePinRequest } from '../../../utils/types';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Pin Bulk Save Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const savedPin = (pinId: string, saveData: SavePinRequest): PinResponse => ({
+		id: `saved-${pinId}`,
+		created_at: '2024-01-01T00:00:00Z',
+		url: `https://pinterest.com/pin/saved-${pinId}`,
+		board_id: saveData.board_id,
+		board_section_id: saveData.board_section_id,
+		media: { url: `https://i.pinimg.com/${pinId}.jpg`, media_type: 'image' },
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			savePin: jest.fn(async (pinId: string, saveData: SavePinRequest) => {
+				if (pinId === 'gone') throw new Error('Pin not found');
+				return savedPin(pinId, saveData);
+			}),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should save every pin to the same board and section', async () => {
+		mockParameters(mockExecuteFunctions, {
+			pinIds: 'pin1, pin2',
+			boardId: { __rl: true, mode: 'id', value: '456' },
+			boardSectionId: { __rl: true, mode: 'id', value: '901' },
+		});
+
+		const results = await bulkSavePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.savePin).toHaveBeenCalledWith('pin1', {
+			board_id: '456',
+			board_section_id: '901',
+		});
+		expect(mockApiClient.savePin).toHaveBeenCalledWith('pin2', {
+			board_id: '456',
+			board_section_id: '901',
+		});
+		expect(results.slice(0, 2).map((result) => result.json)).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ sourcePinId: 'pin1', pinId: 'saved-pin1', boardId: '456' }),
+				expect.objectContaining({ sourcePinId: 'pin2', pinId: 'saved-pin2', boardId: '456' }),
+			]),
+		);
+		expect(results[2].json).toMatchObject({
+			operation: 'bulkSavePins',
+			totalItems: 2,
+			successCount: 2,
+			errorCount: 0,
+			saveData: { board_id: '456', board_section_id: '901' },
+		});
+	});
+
+	it('should report pins that could not be saved in the summary', async () => {
+		mockParameters(mockExecuteFunctions, { pinIds: ['pin1', 'gone'], boardId: '456' });
+
+		const results = await bulkSavePins.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(results).toHaveLength(2);
+		expect(results[1].json).toMatchObject({
+			successCount: 1,
+			errorCount: 1,
+			errors: [expect.objectContaining({ itemId: 'gone', error: 'Pin not found' })],
+		});
+	});
+
+	it('should only save a pin again after a retryable error when retries are enabled', async () => {
+		const unavailable = Object.assign(new Error('Service Unavailable'), { httpCode: '503' });
+		mockApiClient.savePin.mockRejectedValue(unavailable);
+
+		mockParameters(mockExecuteFunctions, { pinIds: 'pin1', boardId: '456' });
+		await bulkSavePins.call(mockExecuteFunctions, mockApiClient, 0);
+		expect(mockApiClient.savePin).toHaveBeenCalledTimes(1);
+
+		mockParameters(mockExecuteFunctions, {
+			pinIds: 'pin1',
+			boardId: '456',
+			retryAttempts: 1,
+			retryDelay: 1,
+		});
+		await bulkSavePins.call(mockExecuteFunctions, mockApiClient, 0);
+		expect(mockApiClient.savePin).toHaveBeenCalledTimes(3);
+	});
+
+	it('should require a board before saving anything', async () => {
+		mockParameters(mockExecuteFunctions, { pinIds: 'pin1,pin2', boardId: '' });
+
+		await expect(bulkSavePins.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Board ID is required for saving a pin',
+		);
+		expect(mockApiClient.savePin).not.toHaveBeenCalled();
+	});
+});
@@ -15,6 +15,7 @@ describe('Pin Create Operation', () => {
 	let mockApiClient: jest.Mocked<PinterestApiClient>;
 	let mockNode: any;
 	let mockUploadMedia: jest.Mock;
+	let mockDownloadMedia: jest.Mock;
 
 	beforeEach(() => {
 		mockNode = { name: 'Pinterest' };
@@ -49,8 +50,10 @@ describe('Pin Create Operation', () => {
 
 		// Mock MediaUploader instance methods
 		mockUploadMedia = jest.fn();
+		mockDownloadMedia = jest.fn();
 		(MediaUploader as any).mockImplementation(() => ({
 			uploadMedia: mockUploadMedia,
+			downloadMedia: mockDownloadMedia,
 		}));
 
 		jest.clearAllMocks();
@@ -230,6 +233,93 @@ describe('Pin Create Operation', () => {
 			});
 		});
 
+		it('should create a video pin from the uploaded video ID', async () => {
+			// Arrange
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('board123') // boardId
+				.mockReturnValueOnce('upload') // mediaSource
+				.mockReturnValueOnce('Video Pin') // title
+				.mockReturnValueOnce('') // description
+				.mockReturnValueOnce('') // link
+				.mockReturnValueOnce('') // altText
+				.mockReturnValueOnce('data'); // binaryPropertyName
+
+			(mockExecuteFunctions.helpers.assertBinaryData as jest.Mock).mockReturnValue({
+				data: Buffer.from('fake-video-data'),
+				mimeType: 'video/mp4',
+				fileName: 'clip.mp4',
+			});
+
+			mockUploadMedia.mockResolvedValue({
+				mediaId: 'video123',
+				mediaType: 'video',
+				status: 'succeeded',
+				uploadTime: 1000,
+				fileSize: 15,
+				filename: 'clip.mp4',
+			});
+			mockApiClient.createPin.mockResolvedValue({ id: 'test-pin-id' } as PinResponse);
+
+			// Act
+			await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+			// Assert
+			expect(mockApiClient.createPin).toHaveBeenCalledWith(
+				expect.objectContaining({
+					media_source: {
+						source_type: 'video_id',
+						url: undefined,
+						media_id: 'video123',
+					},
+				}),
+			);
+		});
+
+		it('should upload videos given by URL before creating the pin', async () => {
+			// Arrange
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('board123') // boardId
+				.mockReturnValueOnce('url') // mediaSource
+				.mockReturnValueOnce('') // title
+				.mockReturnValueOnce('') // description
+				.mockReturnValueOnce('') // link
+				.mockReturnValueOnce('') // altText
+				.mockReturnValueOnce('https://example.com/clip.mp4'); // mediaUrl
+
+			const videoFile = {
+				filename: 'clip.mp4',
+				mimeType: 'video/mp4',
+				size: 15,
+				buffer: Buffer.from('fake-video-data'),
+			};
+			mockDownloadMedia.mockResolvedValue(videoFile);
+			mockUploadMedia.mockResolvedValue({
+				mediaId: 'video123',
+				mediaType: 'video',
+				status: 'succeeded',
+				uploadTime: 1000,
+				fileSize: 15,
+				filename: 'clip.mp4',
+			});
+			mockApiClient.createPin.mockResolvedValue({ id: 'test-pin-id' } as PinResponse);
+
+			// Act
+			await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+			// Assert
+			expect(mockDownloadMedia).toHaveBeenCalledWith('https://example.com/clip.mp4');
+			expect(mockUploadMedia).toHaveBeenCalledWith(videoFile);
+			expect(mockApiClient.createPin).toHaveBeenCalledWith(
+				expect.objectContaining({
+					media_source: {
+						source_type: 'video_id',
+						url: undefined,
+						media_id: 'video123',
+					},
+				}),
+			);
+		});
+
 		it('should throw error when media file is missing', async () => {
 			// Arrange
 			mockExecuteFunctions.getNodeParameter
@@ -365,7 +455,7 @@ describe('Pin Create Operation', () => {
 
 			// Act & Assert
 			await expect(createPin.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
-				'Media source must be either "url" or "upload"',
+				'Media source must be "url", "upload", "multipleUrls" or "multipleUploads"',
 			);
 		});
 
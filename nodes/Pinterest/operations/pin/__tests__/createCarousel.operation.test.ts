@@ -0,0 +1,166 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { createPin } from '../create.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+/**
+ * Builds the header of a PNG file with the given dimensions
+ */
+const png = (width: number, height: number) => {
+	const buffer = Buffer.alloc(33);
+	buffer.writeUInt32BE(0x89504e47, 0);
+	buffer.writeUInt32BE(0x0d0a1a0a, 4);
+	buffer.writeUInt32BE(13, 8);
+	buffer.write('IHDR', 12, 'ascii');
+	buffer.writeUInt32BE(width, 16);
+	buffer.writeUInt32BE(height, 20);
+	return buffer;
+};
+
+/**
+ * Builds the start of a JPEG file with an APP0 segment before the frame header
+ */
+const jpeg = (width: number, height: number) => {
+	const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+	const frame = Buffer.alloc(11);
+	frame.writeUInt16BE(0xffc0, 0);
+	frame.writeUInt16BE(17, 2);
+	frame.writeUInt8(8, 4);
+	frame.writeUInt16BE(height, 5);
+	frame.writeUInt16BE(width, 7);
+	return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, frame]);
+};
+
+describe('Pin Create Operation - Carousel', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const binaries: Record<string, { data: string; mimeType: string; fileName: string }> = {
+		front: { data: png(1000, 1500).toString('base64'), mimeType: 'image/png', fileName: 'a.png' },
+		back: { data: jpeg(1000, 1500).toString('base64'), mimeType: 'image/jpeg', fileName: 'b.jpg' },
+		square: { data: png(800, 800).toString('base64'), mimeType: 'image/png', fileName: 'c.png' },
+		wide: { data: png(1920, 1080).toString('base64'), mimeType: 'image/png', fileName: 'd.png' },
+	};
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+			helpers: {
+				assertBinaryData: jest.fn((_itemIndex: number, name: string) => {
+					if (!binaries[name]) throw new Error(`No binary data property "${name}"`);
+					return binaries[name];
+				}),
+				httpRequest: jest.fn(async ({ url }: { url: string }) => ({
+					body: url.endsWith('.png') ? png(1000, 1000) : jpeg(1000, 1000),
+					headers: { 'content-type': url.endsWith('.png') ? 'image/png' : 'image/jpeg' },
+				})),
+			},
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createPin: jest.fn().mockResolvedValue({ id: 'pin-1', board_id: '123' }),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should send binary slides as base64 images with their own title, description and link', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'multipleUploads',
+			title: 'Spring launch',
+			carouselSlides: {
+				slides: [
+					{ binaryPropertyName: 'front', title: 'Front', link: 'https://example.com/front' },
+					{ binaryPropertyName: 'back', description: 'The back of the mug' },
+				],
+			},
+		});
+
+		await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin).toHaveBeenCalledWith(
+			expect.objectContaining({
+				board_id: '123',
+				title: 'Spring launch',
+				media_source: {
+					source_type: 'multiple_image_base64',
+					index: 0,
+					items: [
+						{
+							content_type: 'image/png',
+							data: binaries.front.data,
+							title: 'Front',
+							link: 'https://example.com/front',
+						},
+						{
+							content_type: 'image/jpeg',
+							data: binaries.back.data,
+							description: 'The back of the mug',
+						},
+					],
+				},
+			}),
+		);
+	});
+
+	it('should check the dimensions of URL slides and pass the URLs on', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'multipleUrls',
+			carouselSlides: {
+				slides: [
+					{ imageUrl: 'https://example.com/a.png', title: 'First' },
+					{ imageUrl: 'https://example.com/b.jpg' },
+				],
+			},
+		});
+
+		await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(2);
+		expect(mockApiClient.createPin.mock.calls[0][0].media_source).toEqual({
+			source_type: 'multiple_image_urls',
+			index: 0,
+			items: [
+				{ url: 'https://example.com/a.png', title: 'First' },
+				{ url: 'https://example.com/b.jpg' },
+			],
+		});
+	});
+
+	it.each([
+		[[{ binaryPropertyName: 'front' }], 'A carousel needs 2 to 5 slides, got 1'],
+		[
+			Array.from({ length: 6 }, () => ({ binaryPropertyName: 'front' })),
+			'A carousel needs 2 to 5 slides, got 6',
+		],
+		[
+			[{ binaryPropertyName: 'front' }, { binaryPropertyName: 'wide' }],
+			'Slide 2 is 1920x1080; carousel images must have a 1:1 or 2:3 aspect ratio',
+		],
+		[
+			[{ binaryPropertyName: 'front' }, { binaryPropertyName: 'square' }],
+			'Slide 2 has a 1:1 aspect ratio but slide 1 has 2:3',
+		],
+		[
+			[
+				{ binaryPropertyName: 'front' },
+				{ binaryPropertyName: 'back', link: 'javascript:alert(1)' },
+			],
+			'Slide 2: Invalid URL format for link',
+		],
+		[
+			[{ binaryPropertyName: 'front' }, { binaryPropertyName: 'missing' }],
+			'Slide 2: No binary data property "missing"',
+		],
+	])('should reject invalid carousels before creating the pin (%#)', async (slides, message) => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'multipleUploads',
+			carouselSlides: { slides },
+		});
+
+		await expect(createPin.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(message);
+		expect(mockApiClient.createPin).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,171 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { MediaUploader } from '../../../utils/MediaUploader';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { createPin } from '../create.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+/**
+ * Builds an MP4 file whose movie header reports the given duration in seconds
+ */
+const mp4 = (seconds: number) => {
+	const box = (type: string, body: Buffer) => {
+		const header = Buffer.alloc(8);
+		header.writeUInt32BE(body.length + 8, 0);
+		header.write(type, 4, 'ascii');
+		return Buffer.concat([header, body]);
+	};
+
+	const movieHeader = Buffer.alloc(20);
+	movieHeader.writeUInt32BE(1000, 12);
+	movieHeader.writeUInt32BE(seconds * 1000, 16);
+
+	return Buffer.concat([box('ftyp', Buffer.from('isom')), box('moov', box('mvhd', movieHeader))]);
+};
+
+describe('Pin Create Operation - Video Cover', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+	let uploadMedia: jest.SpyInstance;
+
+	const binaries: Record<string, { data: string; mimeType: string; fileName: string }> = {
+		data: { data: mp4(12.5).toString('base64'), mimeType: 'video/mp4', fileName: 'clip.mp4' },
+		cover: {
+			data: Buffer.from('cover').toString('base64'),
+			mimeType: 'image/png',
+			fileName: 'c.png',
+		},
+		notes: {
+			data: Buffer.from('notes').toString('base64'),
+			mimeType: 'text/plain',
+			fileName: 'n.txt',
+		},
+	};
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+			helpers: {
+				assertBinaryData: jest.fn((_itemIndex: number, name: string) => binaries[name]),
+				httpRequest: jest.fn().mockResolvedValue({
+					body: mp4(30),
+					headers: { 'content-type': 'video/mp4' },
+				}),
+			},
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			createPin: jest.fn().mockResolvedValue({ id: 'pin-1', board_id: '123' }),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+
+		uploadMedia = jest.spyOn(MediaUploader.prototype, 'uploadMedia').mockResolvedValue({
+			mediaId: 'video123',
+			mediaType: 'video',
+			status: 'succeeded',
+			uploadTime: 0,
+			fileSize: 0,
+			filename: 'clip.mp4',
+		});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should pick a key frame within the uploaded video', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'upload',
+			videoCover: 'keyFrame',
+			coverKeyFrameTime: 4.5,
+		});
+
+		await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin.mock.calls[0][0].media_source).toEqual({
+			source_type: 'video_id',
+			url: undefined,
+			media_id: 'video123',
+			cover_image_key_frame_time: 4.5,
+		});
+	});
+
+	it('should reject a key frame past the end of the video before uploading it', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'upload',
+			videoCover: 'keyFrame',
+			coverKeyFrameTime: 20,
+		});
+
+		await expect(createPin.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Cover key frame time of 20s is past the end of the video (12.5s)',
+		);
+		expect(uploadMedia).not.toHaveBeenCalled();
+	});
+
+	it('should pass a cover image URL for videos downloaded from a URL', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'url',
+			mediaUrl: 'https://example.com/clip.mp4',
+			videoCover: 'url',
+			coverImageUrl: 'https://example.com/cover.jpg',
+		});
+
+		await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin.mock.calls[0][0].media_source).toMatchObject({
+			source_type: 'video_id',
+			media_id: 'video123',
+			cover_image_url: 'https://example.com/cover.jpg',
+		});
+	});
+
+	it('should send a binary cover image as base64 data', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'upload',
+			videoCover: 'upload',
+		});
+
+		await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin.mock.calls[0][0].media_source).toMatchObject({
+			cover_image_content_type: 'image/png',
+			cover_image_data: binaries.cover.data,
+		});
+	});
+
+	it('should reject binary covers that are not JPEG or PNG images', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'upload',
+			videoCover: 'upload',
+			coverBinaryPropertyName: 'notes',
+		});
+
+		await expect(createPin.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Cover image must be a JPEG or PNG image, got text/plain',
+		);
+		expect(uploadMedia).not.toHaveBeenCalled();
+	});
+
+	it('should leave the cover settings out of image pins', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: '123',
+			mediaSource: 'url',
+			mediaUrl: 'https://example.com/photo.jpg',
+			videoCover: 'keyFrame',
+			coverKeyFrameTime: 4.5,
+		});
+
+		await createPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.createPin.mock.calls[0][0].media_source).toEqual({
+			source_type: 'image_url',
+			url: 'https://example.com/photo.jpg',
+			media_id: undefined,
+		});
+	});
+});
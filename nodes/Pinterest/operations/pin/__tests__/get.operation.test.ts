@@ -4,6 +4,7 @@ import { getPin } from '../get.operation';
 import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
 import type { PinResponse } from '../../../utils/types';
 import { DataTransformer } from '../../../utils/DataTransformer';
+import { mockParameters } from '../../../__tests__/helpers';
 
 // Mock the DataTransformer
 jest.mock('../../../utils/DataTransformer');
@@ -33,6 +34,19 @@ describe('Pin Get Operation', () => {
 	});
 
 	describe('successful pin retrieval', () => {
+		it('should accept a pin URL from the resource locator', async () => {
+			mockExecuteFunctions.getNodeParameter.mockReturnValue({
+				__rl: true,
+				mode: 'url',
+				value: 'https://www.pinterest.com/pin/123456789012345678/',
+			});
+			mockApiClient.getPin.mockResolvedValue({} as PinResponse);
+
+			await getPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getPin).toHaveBeenCalledWith('123456789012345678', {});
+		});
+
 		it('should retrieve pin with valid pin ID', async () => {
 			// Arrange
 			const pinId = 'test-pin-123';
@@ -66,8 +80,8 @@ describe('Pin Get Operation', () => {
 
 			// Assert
 			expect(mockExecuteFunctions.getNodeParameter).toHaveBeenCalledWith('pinId', 0);
-			expect(mockApiClient.getPin).toHaveBeenCalledWith(pinId);
-			expect(DataTransformer.transformPinResponse).toHaveBeenCalledWith(mockPinResponse);
+			expect(mockApiClient.getPin).toHaveBeenCalledWith(pinId, {});
+			expect(DataTransformer.transformPinResponse).toHaveBeenCalledWith(mockPinResponse, false);
 			expect(result).toEqual({
 				json: mockTransformedData,
 				pairedItem: { item: 0 },
@@ -107,6 +121,48 @@ describe('Pin Get Operation', () => {
 		});
 	});
 
+	describe('request options', () => {
+		it('should request metrics as the given ad account', async () => {
+			mockParameters(mockExecuteFunctions, {
+				pinId: '123456789',
+				pinOptions: { pinMetrics: true, adAccountId: ' 549755885175 ' },
+			});
+			mockApiClient.getPin.mockResolvedValue({} as PinResponse);
+
+			await getPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getPin).toHaveBeenCalledWith('123456789', {
+				pin_metrics: true,
+				ad_account_id: '549755885175',
+			});
+			expect(DataTransformer.transformPinResponse).toHaveBeenCalledWith({}, true);
+		});
+
+		it('should not send query parameters for options that are off', async () => {
+			mockParameters(mockExecuteFunctions, {
+				pinId: '123456789',
+				pinOptions: { pinMetrics: false },
+			});
+			mockApiClient.getPin.mockResolvedValue({} as PinResponse);
+
+			await getPin.call(mockExecuteFunctions, mockApiClient, 0);
+
+			expect(mockApiClient.getPin).toHaveBeenCalledWith('123456789', {});
+		});
+
+		it('should reject invalid ad account IDs', async () => {
+			mockParameters(mockExecuteFunctions, {
+				pinId: '123456789',
+				pinOptions: { adAccountId: 'abc/def' },
+			});
+
+			await expect(getPin.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Invalid ad account ID format',
+			);
+			expect(mockApiClient.getPin).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('validation errors', () => {
 		it('should throw error when pin ID is missing', async () => {
 			// Arrange
@@ -0,0 +1,80 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { savePin } from '../save.operation';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { PinResponse } from '../../../utils/types';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Pin Save Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const savedPin: PinResponse = {
+		id: 'pin-789',
+		created_at: '2024-01-01T00:00:00Z',
+		url: 'https://pinterest.com/pin/pin-789',
+		title: 'Autumn wreath',
+		board_id: '456',
+		board_section_id: '901',
+		media: { url: 'https://i.pinimg.com/wreath.jpg', media_type: 'image' },
+	};
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			savePin: jest.fn().mockResolvedValue(savedPin),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should save the pin to the board and section and return the new pin', async () => {
+		mockParameters(mockExecuteFunctions, {
+			pinId: { __rl: true, mode: 'url', value: 'https://www.pinterest.com/pin/123/' },
+			boardId: { __rl: true, mode: 'id', value: '456' },
+			boardSectionId: { __rl: true, mode: 'list', value: '901' },
+		});
+
+		const result = await savePin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.savePin).toHaveBeenCalledWith('123', {
+			board_id: '456',
+			board_section_id: '901',
+		});
+		expect(result).toEqual({
+			json: expect.objectContaining({ pinId: 'pin-789', boardId: '456', boardSectionId: '901' }),
+			pairedItem: { item: 0 },
+		});
+	});
+
+	it('should leave the section out when none is selected', async () => {
+		mockParameters(mockExecuteFunctions, { pinId: '123', boardId: '456' });
+
+		await savePin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.savePin).toHaveBeenCalledWith('123', { board_id: '456' });
+	});
+
+	it.each([
+		[{ pinId: '', boardId: '456' }, 'Pin ID is required'],
+		[{ pinId: '123', boardId: '' }, 'Board ID is required for saving a pin'],
+		[{ pinId: '123', boardId: '456', boardSectionId: 'a/b' }, 'Invalid board section ID format'],
+	])('should reject incomplete targets (%#)', async (parameters, message) => {
+		mockParameters(mockExecuteFunctions, parameters);
+
+		await expect(savePin.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(message);
+		expect(mockApiClient.savePin).not.toHaveBeenCalled();
+	});
+
+	it('should wrap API errors', async () => {
+		mockParameters(mockExecuteFunctions, { pinId: '123', boardId: '456' });
+		mockApiClient.savePin.mockRejectedValue(new Error('Board not found'));
+
+		const promise = savePin.call(mockExecuteFunctions, mockApiClient, 0);
+
+		await expect(promise).rejects.toThrow(NodeOperationError);
+		await expect(promise).rejects.toThrow('Failed to save pin: Board not found');
+	});
+});
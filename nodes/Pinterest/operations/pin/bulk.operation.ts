@@ -2,12 +2,17 @@ import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
 import type {
+	BulkPinCreateRow,
+	CreatePinRequest,
 	UpdatePinRequest,
 	BatchOperationConfig,
 	BatchOperationProgress,
 } from '../../utils/types';
 import { DataTransformer } from '../../utils/DataTransformer';
 import { BatchProcessor, CancellationToken } from '../../utils/BatchProcessor';
+import { Logger } from '../../utils/Logger';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { readSaveTarget } from './save.operation';
 
 /**
  * Enhanced bulk pin operations handler with optimization and progress tracking
@@ -193,7 +198,12 @@ export async function bulkUpdatePins(
 	const title = this.getNodeParameter('title', itemIndex, '') as string;
 	const description = this.getNodeParameter('description', itemIndex, '') as string;
 	const link = this.getNodeParameter('link', itemIndex, '') as string;
-	const boardId = this.getNodeParameter('boardId', itemIndex, '') as string;
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex, ''),
+		itemIndex,
+	);
 	const altText = this.getNodeParameter('altText', itemIndex, '') as string;
 
 	// Build update request object
@@ -479,3 +489,336 @@ export async function bulkDeletePins(
 		batchProcessor.clearCache();
 	}
 }
+
+/**
+ * Bulk save pins operation with enhanced batch processing
+ * Saves copies of multiple existing pins to the same board and optional section
+ */
+export async function bulkSavePins(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Get pin IDs from node parameters
+	const pinIdsParam = this.getNodeParameter('pinIds', itemIndex) as string | string[];
+
+	let pinIds: string[];
+	if (typeof pinIdsParam === 'string') {
+		pinIds = pinIdsParam
+			.split(',')
+			.map((id) => id.trim())
+			.filter((id) => id.length > 0);
+	} else {
+		pinIds = pinIdsParam;
+	}
+
+	// Validate that we have pin IDs
+	if (!pinIds || pinIds.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'At least one pin ID is required', {
+			itemIndex,
+		});
+	}
+
+	// Validate pin ID formats
+	for (const pinId of pinIds) {
+		if (!/^[a-zA-Z0-9_-]+$/.test(pinId)) {
+			throw new NodeOperationError(this.getNode(), `Invalid pin ID format: ${pinId}`, {
+				itemIndex,
+			});
+		}
+	}
+
+	// Every pin is saved to the same board and section
+	const saveData = await readSaveTarget.call(this, apiClient, itemIndex);
+
+	// Get batch configuration from node parameters
+	const batchConfig: BatchOperationConfig = {
+		maxBatchSize: this.getNodeParameter('maxBatchSize', itemIndex, 50) as number,
+		maxConcurrency: this.getNodeParameter('maxConcurrency', itemIndex, 3) as number, // Lower concurrency for saves
+		enableProgressTracking: this.getNodeParameter(
+			'enableProgressTracking',
+			itemIndex,
+			true,
+		) as boolean,
+		enableOptimization: this.getNodeParameter('enableOptimization', itemIndex, true) as boolean,
+		// The first attempt plus the retries, which are off unless asked for as a repeated save
+		// can save the pin twice
+		retryAttempts: (this.getNodeParameter('retryAttempts', itemIndex, 0) as number) + 1,
+		retryDelay: this.getNodeParameter('retryDelay', itemIndex, 1500) as number,
+	};
+
+	// Validate batch size limits
+	const maxAllowedBatchSize = 100;
+	if (batchConfig.maxBatchSize! > maxAllowedBatchSize) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Maximum batch size is ${maxAllowedBatchSize}, got ${batchConfig.maxBatchSize}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	// Initialize batch processor
+	const batchProcessor = new BatchProcessor(this, apiClient);
+	const cancellationToken = new CancellationToken();
+	const logger = new Logger(this.getNode());
+
+	// Set up progress tracking if enabled
+	let progressData: BatchOperationProgress | null = null;
+	if (batchConfig.enableProgressTracking) {
+		batchConfig.progressCallback = (progress: BatchOperationProgress) => {
+			progressData = progress;
+			logger.debug('Bulk save pins progress', {
+				percentage: progress.percentage,
+				completed: progress.completed,
+				total: progress.total,
+			});
+		};
+	}
+
+	try {
+		// Process batch with optimization
+		const batchResult = await batchProcessor.processPinBatch(
+			pinIds,
+			'save',
+			saveData,
+			batchConfig,
+			cancellationToken,
+		);
+
+		const results: INodeExecutionData[] = [];
+
+		// Transform the new pins, keeping the pin each one was saved from
+		for (const { sourcePinId, pin } of batchResult.success) {
+			results.push({
+				json: { sourcePinId, ...DataTransformer.transformPinResponse(pin) },
+				pairedItem: { item: itemIndex },
+			});
+		}
+
+		// Add batch operation summary
+		const summary = {
+			operation: 'bulkSavePins',
+			totalItems: pinIds.length,
+			successCount: batchResult.success.length,
+			errorCount: batchResult.errors.length,
+			duration: Date.now() - batchResult.progress.startTime,
+			saveData,
+			optimizations: batchResult.optimizations,
+			errors: batchResult.errors,
+			...(progressData ? { finalProgress: progressData } : {}),
+		};
+
+		results.push({
+			json: summary,
+			pairedItem: { item: itemIndex },
+		});
+
+		return results;
+	} catch (error) {
+		if (error instanceof Error && error.message.includes('cancelled')) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Bulk operation was cancelled: ${error.message}`,
+				{
+					itemIndex,
+				},
+			);
+		}
+		throw error;
+	} finally {
+		// Clean up resources
+		batchProcessor.clearCache();
+	}
+}
+
+/**
+ * Bulk create pins operation with enhanced batch processing
+ * Builds one pin per input item and creates them all on the first item's run,
+ * returning a success or error result linked to every input row
+ */
+export async function bulkCreatePins(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// All rows are handled together, so later items have nothing left to do
+	if (itemIndex > 0) {
+		return [];
+	}
+
+	const items = this.getInputData();
+	const rows: BulkPinCreateRow[] = [];
+	const results: INodeExecutionData[] = [];
+
+	// Build pin requests per row, reporting invalid rows instead of failing the whole run
+	for (let rowIndex = 0; rowIndex < items.length; rowIndex++) {
+		try {
+			rows.push({
+				rowIndex,
+				pinData: await buildCreatePinRequest.call(this, apiClient, rowIndex),
+			});
+		} catch (error) {
+			results.push({
+				json: {
+					success: false,
+					rowIndex,
+					error: error instanceof Error ? error.message : String(error),
+				},
+				pairedItem: { item: rowIndex },
+			});
+		}
+	}
+
+	// Get batch configuration from node parameters
+	const batchConfig: BatchOperationConfig = {
+		maxBatchSize: this.getNodeParameter('maxBatchSize', itemIndex, 50) as number,
+		maxConcurrency: this.getNodeParameter('maxConcurrency', itemIndex, 3) as number, // Lower concurrency for creates
+		enableProgressTracking: this.getNodeParameter(
+			'enableProgressTracking',
+			itemIndex,
+			true,
+		) as boolean,
+		enableOptimization: this.getNodeParameter('enableOptimization', itemIndex, true) as boolean,
+		// The first attempt plus the retries, which are off unless asked for since the client
+		// already repeats the requests it can
+		retryAttempts: (this.getNodeParameter('retryAttempts', itemIndex, 0) as number) + 1,
+		retryDelay: this.getNodeParameter('retryDelay', itemIndex, 1500) as number,
+	};
+
+	// Validate batch size limits
+	const maxAllowedBatchSize = 100;
+	if (batchConfig.maxBatchSize! > maxAllowedBatchSize) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Maximum batch size is ${maxAllowedBatchSize}, got ${batchConfig.maxBatchSize}`,
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	// Initialize batch processor
+	const batchProcessor = new BatchProcessor(this, apiClient);
+	const cancellationToken = new CancellationToken();
+	const logger = new Logger(this.getNode());
+
+	if (batchConfig.enableProgressTracking) {
+		batchConfig.progressCallback = (progress: BatchOperationProgress) => {
+			logger.debug('Bulk create pins progress', {
+				percentage: progress.percentage,
+				completed: progress.completed,
+				total: progress.total,
+			});
+		};
+	}
+
+	try {
+		const batchResult = await batchProcessor.processPinCreateBatch(
+			rows,
+			batchConfig,
+			cancellationToken,
+		);
+
+		for (const { rowIndex, pin } of batchResult.success) {
+			results.push({
+				json: { success: true, rowIndex, ...DataTransformer.transformPinResponse(pin) },
+				pairedItem: { item: rowIndex },
+			});
+		}
+
+		for (const batchError of batchResult.errors) {
+			const rowIndex = Number(batchError.itemId);
+			results.push({
+				json: {
+					success: false,
+					rowIndex,
+					error: batchError.error,
+					attempts: batchError.attempt,
+				},
+				pairedItem: { item: rowIndex },
+			});
+		}
+
+		// Keep the output in the same order as the input rows
+		return results.sort((a, b) => (a.json.rowIndex as number) - (b.json.rowIndex as number));
+	} catch (error) {
+		if (error instanceof Error && error.message.includes('cancelled')) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Bulk operation was cancelled: ${error.message}`,
+				{
+					itemIndex,
+				},
+			);
+		}
+		throw error;
+	} finally {
+		// Clean up resources
+		batchProcessor.clearCache();
+	}
+}
+
+/**
+ * Reads and validates the pin fields of a single input row
+ */
+async function buildCreatePinRequest(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	rowIndex: number,
+): Promise<CreatePinRequest> {
+	const boardId = (
+		await ResourceLocator.getBoardId(
+			this.getNode(),
+			apiClient,
+			this.getNodeParameter('boardId', rowIndex, ''),
+			rowIndex,
+		)
+	).trim();
+	const mediaUrl = (this.getNodeParameter('mediaUrl', rowIndex, '') as string).trim();
+	const title = this.getNodeParameter('title', rowIndex, '') as string;
+	const description = this.getNodeParameter('description', rowIndex, '') as string;
+	const link = (this.getNodeParameter('link', rowIndex, '') as string).trim();
+	const altText = this.getNodeParameter('altText', rowIndex, '') as string;
+
+	if (!boardId) {
+		throw new Error('Board ID is required');
+	}
+	if (!/^[a-zA-Z0-9_-]+$/.test(boardId)) {
+		throw new Error(`Invalid board ID format: ${boardId}`);
+	}
+	if (!mediaUrl) {
+		throw new Error('Media URL is required');
+	}
+	if (!isHttpUrl(mediaUrl)) {
+		throw new Error(`Invalid media URL format: ${mediaUrl}`);
+	}
+	if (link && !isHttpUrl(link)) {
+		throw new Error(`Invalid URL format for link: ${link}`);
+	}
+
+	const pinData: CreatePinRequest = {
+		board_id: boardId,
+		media_source: {
+			source_type: 'image_url',
+			url: mediaUrl,
+		},
+	};
+
+	if (title) pinData.title = title;
+	if (description) pinData.description = description;
+	if (link) pinData.link = link;
+	if (altText) pinData.alt_text = altText;
+
+	return pinData;
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
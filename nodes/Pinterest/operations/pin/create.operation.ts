@@ -1,9 +1,30 @@
-import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
-import type { CreatePinRequest } from '../../utils/types';
+import type { CarouselSlideRequest, CreatePinRequest } from '../../utils/types';
 import { DataTransformer } from '../../utils/DataTransformer';
-import { MediaUploader, type MediaFileInfo } from '../../utils/MediaUploader';
+import { FILE_SIZE_LIMITS, MediaUploader, type MediaFileInfo } from '../../utils/MediaUploader';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { SecurityValidator } from '../../utils/SecurityValidator';
+
+const MEDIA_SOURCES = ['url', 'upload', 'multipleUrls', 'multipleUploads'];
+
+/**
+ * Pinterest carousels hold 2 to 5 images that share a square or 2:3 aspect ratio
+ */
+const MIN_CAROUSEL_SLIDES = 2;
+const MAX_CAROUSEL_SLIDES = 5;
+const CAROUSEL_ASPECT_RATIOS = [
+	{ label: '1:1', ratio: 1 },
+	{ label: '2:3', ratio: 2 / 3 },
+];
+const ASPECT_RATIO_TOLERANCE = 0.01;
+const CAROUSEL_CONTENT_TYPES = ['image/jpeg', 'image/png'] as const;
+
+type VideoCover = Pick<
+	CreatePinRequest['media_source'],
+	'cover_image_url' | 'cover_image_content_type' | 'cover_image_data' | 'cover_image_key_frame_time'
+>;
 
 /**
  * Create pin operation handler
@@ -15,7 +36,12 @@ export async function createPin(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get required parameters
-	const boardId = this.getNodeParameter('boardId', itemIndex) as string;
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex),
+		itemIndex,
+	);
 	const mediaSource = this.getNodeParameter('mediaSource', itemIndex) as string;
 
 	// Validate required fields
@@ -23,8 +49,11 @@ export async function createPin(
 		throw new NodeOperationError(this.getNode(), 'Board ID is required for creating a pin');
 	}
 
-	if (!mediaSource || !['url', 'upload'].includes(mediaSource)) {
-		throw new NodeOperationError(this.getNode(), 'Media source must be either "url" or "upload"');
+	if (!mediaSource || !MEDIA_SOURCES.includes(mediaSource)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Media source must be "url", "upload", "multipleUrls" or "multipleUploads"',
+		);
 	}
 
 	// Get optional parameters
@@ -35,10 +64,15 @@ export async function createPin(
 
 	let mediaId: string | undefined;
 	let mediaUrl: string | undefined;
-	let sourceType: 'image_url' | 'video_url' | 'image_upload';
+	let sourceType: CreatePinRequest['media_source']['source_type'];
+	let carouselSlides: CarouselSlideRequest[] | undefined;
+	let videoCover: VideoCover = {};
 
 	// Handle media source
-	if (mediaSource === 'upload') {
+	if (mediaSource === 'multipleUrls' || mediaSource === 'multipleUploads') {
+		carouselSlides = await buildCarouselSlides.call(this, apiClient, mediaSource, itemIndex);
+		sourceType = mediaSource === 'multipleUrls' ? 'multiple_image_urls' : 'multiple_image_base64';
+	} else if (mediaSource === 'upload') {
 		// Handle file upload using MediaUploader
 		const binaryPropertyName = this.getNodeParameter(
 			'binaryPropertyName',
@@ -52,8 +86,13 @@ export async function createPin(
 		// Extract media file information
 		const mediaFileInfo: MediaFileInfo = MediaUploader.extractMediaFileInfo(binaryData);
 
-		// Create media uploader and upload file
-		const mediaUploader = new MediaUploader(this);
+		// Check the cover before spending time on the video upload
+		if (mediaFileInfo.mimeType.startsWith('video/')) {
+			videoCover = buildVideoCover.call(this, itemIndex, mediaFileInfo);
+		}
+
+		// Create media uploader and upload file, waiting until Pinterest processed it
+		const mediaUploader = new MediaUploader(this, {}, apiClient);
 		const uploadResult = await mediaUploader.uploadMedia(mediaFileInfo);
 
 		if (uploadResult.status !== 'succeeded') {
@@ -64,7 +103,7 @@ export async function createPin(
 		}
 
 		mediaId = uploadResult.mediaId;
-		sourceType = 'image_upload'; // Pinterest API uses image_upload for both images and videos when uploading
+		sourceType = uploadResult.mediaType === 'video' ? 'video_id' : 'image_upload';
 	} else {
 		// Handle URL source
 		mediaUrl = this.getNodeParameter('mediaUrl', itemIndex) as string;
@@ -78,18 +117,51 @@ export async function createPin(
 			throw new NodeOperationError(this.getNode(), 'Invalid media URL format');
 		}
 
-		// Determine source type based on URL
-		sourceType = isVideoUrl(mediaUrl) ? 'video_url' : 'image_url';
+		if (isVideoUrl(mediaUrl)) {
+			// Pinterest only accepts videos through the media upload flow
+			const mediaUploader = new MediaUploader(this, {}, apiClient);
+			const videoFile = await mediaUploader.downloadMedia(mediaUrl);
+			videoCover = buildVideoCover.call(this, itemIndex, videoFile);
+			const uploadResult = await mediaUploader.uploadMedia(videoFile);
+
+			if (uploadResult.status !== 'succeeded') {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Media upload failed with status: ${uploadResult.status}`,
+				);
+			}
+
+			mediaId = uploadResult.mediaId;
+			mediaUrl = undefined;
+			sourceType = 'video_id';
+		} else {
+			sourceType = 'image_url';
+		}
+	}
+
+	// Optionally place the pin in a section of the target board
+	const boardSectionId = ResourceLocator.getId(
+		this.getNodeParameter('boardSectionId', itemIndex, ''),
+	);
+
+	if (boardSectionId && !/^[a-zA-Z0-9_-]+$/.test(boardSectionId.trim())) {
+		throw new NodeOperationError(this.getNode(), 'Invalid board section ID format', {
+			itemIndex,
+		});
 	}
 
 	// Prepare pin creation request
 	const pinData: CreatePinRequest = {
 		board_id: boardId,
-		media_source: {
-			source_type: sourceType,
-			url: mediaUrl,
-			media_id: mediaId,
-		},
+		media_source: carouselSlides
+			? { source_type: sourceType, items: carouselSlides, index: 0 }
+			: {
+					source_type: sourceType,
+					url: mediaUrl,
+					media_id: mediaId,
+					...(sourceType === 'video_id' ? videoCover : {}),
+				},
+		board_section_id: boardSectionId ? boardSectionId.trim() : undefined,
 		title: title || undefined,
 		description: description || undefined,
 		link: link || undefined,
@@ -114,6 +186,232 @@ export async function createPin(
 	}
 }
 
+/**
+ * Reads the carousel slides of an item and checks the slide count, image types and
+ * dimensions before anything is sent to Pinterest. URL slides are downloaded to read their
+ * dimensions but are still passed to Pinterest as URLs.
+ */
+async function buildCarouselSlides(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	mediaSource: 'multipleUrls' | 'multipleUploads',
+	itemIndex: number,
+): Promise<CarouselSlideRequest[]> {
+	const slides =
+		((this.getNodeParameter('carouselSlides', itemIndex, {}) as IDataObject)
+			.slides as IDataObject[]) || [];
+
+	if (slides.length < MIN_CAROUSEL_SLIDES || slides.length > MAX_CAROUSEL_SLIDES) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`A carousel needs ${MIN_CAROUSEL_SLIDES} to ${MAX_CAROUSEL_SLIDES} slides, got ${slides.length}`,
+			{ itemIndex },
+		);
+	}
+
+	const validator = new SecurityValidator(this.getNode());
+	const mediaUploader = new MediaUploader(this, {}, apiClient);
+	const carouselSlides: CarouselSlideRequest[] = [];
+	let firstRatio: { slide: number; label: string } | undefined;
+
+	for (const [index, slide] of slides.entries()) {
+		const slideNumber = index + 1;
+		let file: MediaFileInfo;
+		const carouselSlide: CarouselSlideRequest = {};
+
+		try {
+			if (mediaSource === 'multipleUrls') {
+				const url = String(slide.imageUrl ?? '').trim();
+				if (!url) {
+					throw new Error('image URL is required');
+				}
+				carouselSlide.url = validator.sanitizeUrl(url, 'image URL');
+				file = await mediaUploader.downloadMedia(carouselSlide.url);
+			} else {
+				const binaryPropertyName = String(slide.binaryPropertyName ?? '').trim() || 'data';
+				const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+				file = MediaUploader.extractMediaFileInfo(binaryData);
+			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Slide ${slideNumber}: ${error.message}`, {
+				itemIndex,
+			});
+		}
+
+		const contentType = file.mimeType.toLowerCase();
+		if (!(CAROUSEL_CONTENT_TYPES as readonly string[]).includes(contentType)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Slide ${slideNumber} must be a JPEG or PNG image, got ${file.mimeType}`,
+				{ itemIndex },
+			);
+		}
+
+		if (file.size > FILE_SIZE_LIMITS.image) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Slide ${slideNumber} is ${MediaUploader.formatFileSize(file.size)}, the limit is ${MediaUploader.formatFileSize(FILE_SIZE_LIMITS.image)}`,
+				{ itemIndex },
+			);
+		}
+
+		const dimensions = MediaUploader.getImageDimensions(file.buffer);
+		if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Could not read the image dimensions of slide ${slideNumber}`,
+				{ itemIndex },
+			);
+		}
+
+		const ratio = CAROUSEL_ASPECT_RATIOS.find(
+			(candidate) =>
+				Math.abs(dimensions.width / dimensions.height - candidate.ratio) <= ASPECT_RATIO_TOLERANCE,
+		);
+		if (!ratio) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Slide ${slideNumber} is ${dimensions.width}x${dimensions.height}; carousel images must have a 1:1 or 2:3 aspect ratio`,
+				{ itemIndex },
+			);
+		}
+
+		if (firstRatio && firstRatio.label !== ratio.label) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Slide ${slideNumber} has a ${ratio.label} aspect ratio but slide ${firstRatio.slide} has ${firstRatio.label}; all carousel images must share one aspect ratio`,
+				{ itemIndex },
+			);
+		}
+		firstRatio = firstRatio || { slide: slideNumber, label: ratio.label };
+
+		if (mediaSource === 'multipleUploads') {
+			carouselSlide.content_type = contentType as CarouselSlideRequest['content_type'];
+			carouselSlide.data = file.buffer.toString('base64');
+		}
+
+		try {
+			const title = String(slide.title ?? '').trim();
+			const description = String(slide.description ?? '').trim();
+			const link = String(slide.link ?? '').trim();
+
+			if (title) {
+				carouselSlide.title = validator.sanitizePinTitle(title);
+			}
+			if (description) {
+				carouselSlide.description = validator.sanitizeDescription(description);
+			}
+			if (link) {
+				carouselSlide.link = validator.sanitizeUrl(link, 'link');
+			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Slide ${slideNumber}: ${error.message}`, {
+				itemIndex,
+			});
+		}
+
+		carouselSlides.push(carouselSlide);
+	}
+
+	return carouselSlides;
+}
+
+/**
+ * Reads the cover settings of a video pin. The cover is an image URL, an image from a binary
+ * property sent as base64 data, or a key frame whose time must fall within the video.
+ */
+function buildVideoCover(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	videoFile: MediaFileInfo,
+): VideoCover {
+	const coverSource = this.getNodeParameter('videoCover', itemIndex, 'default') as string;
+
+	if (coverSource === 'url') {
+		const coverImageUrl = String(this.getNodeParameter('coverImageUrl', itemIndex, '')).trim();
+		if (!coverImageUrl) {
+			throw new NodeOperationError(this.getNode(), 'Cover image URL is required', { itemIndex });
+		}
+
+		try {
+			return {
+				cover_image_url: new SecurityValidator(this.getNode()).sanitizeUrl(
+					coverImageUrl,
+					'cover image URL',
+				),
+			};
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error.message, { itemIndex });
+		}
+	}
+
+	if (coverSource === 'upload') {
+		const binaryPropertyName = this.getNodeParameter(
+			'coverBinaryPropertyName',
+			itemIndex,
+			'cover',
+		) as string;
+		const coverFile = MediaUploader.extractMediaFileInfo(
+			this.helpers.assertBinaryData(itemIndex, binaryPropertyName),
+		);
+		const contentType = coverFile.mimeType.toLowerCase();
+
+		if (contentType !== 'image/jpeg' && contentType !== 'image/png') {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Cover image must be a JPEG or PNG image, got ${coverFile.mimeType}`,
+				{ itemIndex },
+			);
+		}
+
+		if (coverFile.size > FILE_SIZE_LIMITS.image) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Cover image is ${MediaUploader.formatFileSize(coverFile.size)}, the limit is ${MediaUploader.formatFileSize(FILE_SIZE_LIMITS.image)}`,
+				{ itemIndex },
+			);
+		}
+
+		return {
+			cover_image_content_type: contentType,
+			cover_image_data: coverFile.buffer.toString('base64'),
+		};
+	}
+
+	if (coverSource === 'keyFrame') {
+		const keyFrameTime = Number(this.getNodeParameter('coverKeyFrameTime', itemIndex, 0));
+		if (!Number.isFinite(keyFrameTime) || keyFrameTime < 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Cover key frame time must be a number of seconds of at least 0',
+				{ itemIndex },
+			);
+		}
+
+		const duration = MediaUploader.getVideoDuration(videoFile.buffer);
+		if (duration === null) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Could not read the duration of ${videoFile.filename} to check the cover key frame time`,
+				{ itemIndex, description: 'Key frames can be picked for MP4 and MOV videos' },
+			);
+		}
+
+		if (keyFrameTime > duration) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Cover key frame time of ${keyFrameTime}s is past the end of the video (${Math.round(duration * 100) / 100}s)`,
+				{ itemIndex },
+			);
+		}
+
+		return { cover_image_key_frame_time: keyFrameTime };
+	}
+
+	// Pinterest picks the cover itself
+	return {};
+}
+
 /**
  * Validate URL format
  */
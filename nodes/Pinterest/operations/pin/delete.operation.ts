@@ -1,6 +1,7 @@
 import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import { ResourceLocator } from '../../utils/ResourceLocator';
 
 /**
  * Delete pin operation handler
@@ -12,7 +13,11 @@ export async function deletePin(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get pin ID from node parameters
-	const pinId = this.getNodeParameter('pinId', itemIndex) as string;
+	const pinId = ResourceLocator.getPinId(
+		this.getNode(),
+		this.getNodeParameter('pinId', itemIndex),
+		itemIndex,
+	);
 
 	// Validate required fields
 	if (!pinId) {
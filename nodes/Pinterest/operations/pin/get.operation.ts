@@ -1,11 +1,13 @@
-import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { GetPinParams } from '../../utils/types';
 import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
 
 /**
  * Get pin operation handler
- * Retrieves pin details by ID from Pinterest API
+ * Retrieves pin details by ID from Pinterest API, optionally with its metrics or as an ad account
  */
 export async function getPin(
 	this: IExecuteFunctions,
@@ -13,7 +15,11 @@ export async function getPin(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get pin ID from node parameters
-	const pinId = this.getNodeParameter('pinId', itemIndex) as string;
+	const pinId = ResourceLocator.getPinId(
+		this.getNode(),
+		this.getNodeParameter('pinId', itemIndex),
+		itemIndex,
+	);
 
 	// Validate required fields
 	if (!pinId) {
@@ -29,12 +35,33 @@ export async function getPin(
 		});
 	}
 
+	// Get optional request parameters
+	const options = this.getNodeParameter('pinOptions', itemIndex, {}) as IDataObject;
+	const params: GetPinParams = {};
+
+	if (options.pinMetrics === true) {
+		params.pin_metrics = true;
+	}
+
+	if (options.adAccountId) {
+		const adAccountId = String(options.adAccountId).trim();
+		if (!/^[0-9]+$/.test(adAccountId)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid ad account ID format', {
+				itemIndex,
+			});
+		}
+		params.ad_account_id = adAccountId;
+	}
+
 	try {
 		// Retrieve pin from Pinterest API
-		const pinResponse = await apiClient.getPin(pinId);
+		const pinResponse = await apiClient.getPin(pinId, params);
 
 		// Transform response to n8n format
-		const transformedData = DataTransformer.transformPinResponse(pinResponse);
+		const transformedData = DataTransformer.transformPinResponse(
+			pinResponse,
+			params.pin_metrics === true,
+		);
 
 		return {
 			json: transformedData,
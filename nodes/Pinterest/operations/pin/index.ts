@@ -5,4 +5,11 @@ export * from './create.operation';
 export * from './get.operation';
 export * from './update.operation';
 export * from './delete.operation';
-export { bulkGetPins, bulkUpdatePins, bulkDeletePins } from './bulk.operation';
+export * from './save.operation';
+export {
+	bulkCreatePins,
+	bulkGetPins,
+	bulkUpdatePins,
+	bulkDeletePins,
+	bulkSavePins,
+} from './bulk.operation';
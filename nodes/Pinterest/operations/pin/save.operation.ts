@@ -0,0 +1,100 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { SavePinRequest } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+
+/**
+ * Save pin operation handler
+ * Saves a copy of an existing pin to a board and optional section, leaving the original in place
+ */
+export async function savePin(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	// Get pin ID from node parameters
+	const pinId = ResourceLocator.getPinId(
+		this.getNode(),
+		this.getNodeParameter('pinId', itemIndex),
+		itemIndex,
+	);
+
+	// Validate required fields
+	if (!pinId) {
+		throw new NodeOperationError(this.getNode(), 'Pin ID is required', {
+			itemIndex,
+		});
+	}
+
+	// Validate pin ID format
+	if (!/^[a-zA-Z0-9_-]+$/.test(pinId)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid pin ID format', {
+			itemIndex,
+		});
+	}
+
+	const saveData = await readSaveTarget.call(this, apiClient, itemIndex);
+
+	try {
+		// Save pin via Pinterest API
+		const pinResponse = await apiClient.savePin(pinId, saveData);
+
+		// Transform response to n8n format
+		const transformedData = DataTransformer.transformPinResponse(pinResponse);
+
+		return {
+			json: transformedData,
+			pairedItem: { item: itemIndex },
+		};
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Failed to save pin: ${error.message}`, {
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Reads and validates the board and optional section a pin is saved to
+ */
+export async function readSaveTarget(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<SavePinRequest> {
+	const boardId = (
+		await ResourceLocator.getBoardId(
+			this.getNode(),
+			apiClient,
+			this.getNodeParameter('boardId', itemIndex, ''),
+			itemIndex,
+		)
+	).trim();
+	const boardSectionId = ResourceLocator.getId(
+		this.getNodeParameter('boardSectionId', itemIndex, ''),
+	).trim();
+
+	if (!boardId) {
+		throw new NodeOperationError(this.getNode(), 'Board ID is required for saving a pin', {
+			itemIndex,
+		});
+	}
+
+	if (!/^[a-zA-Z0-9_-]+$/.test(boardId)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid board ID format', {
+			itemIndex,
+		});
+	}
+
+	if (boardSectionId && !/^[a-zA-Z0-9_-]+$/.test(boardSectionId)) {
+		throw new NodeOperationError(this.getNode(), 'Invalid board section ID format', {
+			itemIndex,
+		});
+	}
+
+	return {
+		board_id: boardId,
+		...(boardSectionId ? { board_section_id: boardSectionId } : {}),
+	};
+}
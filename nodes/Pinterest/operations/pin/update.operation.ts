@@ -3,6 +3,7 @@ import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../utils/PinterestApiClient';
 import type { UpdatePinRequest } from '../../utils/types';
 import { DataTransformer } from '../../utils/DataTransformer';
+import { ResourceLocator } from '../../utils/ResourceLocator';
 
 /**
  * Update pin operation handler
@@ -14,7 +15,11 @@ export async function updatePin(
 	itemIndex: number,
 ): Promise<INodeExecutionData> {
 	// Get pin ID from node parameters
-	const pinId = this.getNodeParameter('pinId', itemIndex) as string;
+	const pinId = ResourceLocator.getPinId(
+		this.getNode(),
+		this.getNodeParameter('pinId', itemIndex),
+		itemIndex,
+	);
 
 	// Validate required fields
 	if (!pinId) {
@@ -34,8 +39,16 @@ export async function updatePin(
 	const title = this.getNodeParameter('title', itemIndex, '') as string;
 	const description = this.getNodeParameter('description', itemIndex, '') as string;
 	const link = this.getNodeParameter('link', itemIndex, '') as string;
-	const boardId = this.getNodeParameter('boardId', itemIndex, '') as string;
+	const boardId = await ResourceLocator.getBoardId(
+		this.getNode(),
+		apiClient,
+		this.getNodeParameter('boardId', itemIndex, ''),
+		itemIndex,
+	);
 	const altText = this.getNodeParameter('altText', itemIndex, '') as string;
+	const boardSectionId = ResourceLocator.getId(
+		this.getNodeParameter('boardSectionId', itemIndex, ''),
+	);
 
 	// Build update request object with only provided fields
 	const updateData: UpdatePinRequest = {};
@@ -74,11 +87,21 @@ export async function updatePin(
 		updateData.alt_text = altText;
 	}
 
+	if (boardSectionId) {
+		// Validate board section ID format
+		if (!/^[a-zA-Z0-9_-]+$/.test(boardSectionId)) {
+			throw new NodeOperationError(this.getNode(), 'Invalid board section ID format', {
+				itemIndex,
+			});
+		}
+		updateData.board_section_id = boardSectionId;
+	}
+
 	// Check if at least one field is being updated
 	if (Object.keys(updateData).length === 0) {
 		throw new NodeOperationError(
 			this.getNode(),
-			'At least one field must be provided for update (title, description, link, boardId, or altText)',
+			'At least one field must be provided for update (title, description, link, boardId, boardSectionId, or altText)',
 			{
 				itemIndex,
 			},
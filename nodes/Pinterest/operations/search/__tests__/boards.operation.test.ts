@@ -2,7 +2,7 @@ import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
 import { searchBoards } from '../boards.operation';
-import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
 import type { SearchBoardsResponse } from '../../../utils/types';
 
 // Mock the DataTransformer
@@ -37,6 +37,7 @@ describe('Pinterest Search Boards Operation', () => {
 
 		mockApiClient = {
 			searchBoards: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
 		} as any;
 	});
 
@@ -314,6 +315,55 @@ describe('Pinterest Search Boards Operation', () => {
 		});
 	});
 
+	describe('return all', () => {
+		const makeBoard = (id: string) => ({
+			id,
+			name: `Board ${id}`,
+			url: `https://pinterest.com/board/${id}`,
+			privacy: 'public',
+			pin_count: 1,
+			follower_count: 1,
+			created_at: '2023-01-01T00:00:00Z',
+		});
+
+		it('should collect every page and return one item per board', async () => {
+			// Arrange
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('test query') // query
+				.mockReturnValueOnce(25) // limit
+				.mockReturnValueOnce('') // bookmark
+				.mockReturnValueOnce(true) // returnAll
+				.mockReturnValueOnce(0); // maxResults
+
+			mockApiClient.searchBoards
+				.mockResolvedValueOnce({ items: [makeBoard('b1')], bookmark: 'page2' })
+				.mockResolvedValueOnce({ items: [makeBoard('b2')], bookmark: 'page2' });
+
+			// Act
+			const result = await searchBoards.call(mockExecuteFunctions, mockApiClient, 0);
+
+			// Assert
+			expect(mockApiClient.searchBoards).toHaveBeenCalledTimes(2);
+			expect(result.map((item) => item.json.boardId)).toEqual(['b1', 'b2']);
+		});
+
+		it('should reject a negative max results value', async () => {
+			// Arrange
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('test query') // query
+				.mockReturnValueOnce(25) // limit
+				.mockReturnValueOnce('') // bookmark
+				.mockReturnValueOnce(true) // returnAll
+				.mockReturnValueOnce(-1); // maxResults
+
+			// Act & Assert
+			await expect(searchBoards.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+				'Max results cannot be negative',
+			);
+			expect(mockApiClient.searchBoards).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('metadata filtering', () => {
 		it('should return boards with complete metadata', async () => {
 			// Arrange
@@ -2,7 +2,7 @@ import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
 import { searchPins } from '../pins.operation';
-import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { PinterestApiClient } from '../../../utils/PinterestApiClient';
 import type { SearchPinsResponse } from '../../../utils/types';
 
 // Mock the DataTransformer
@@ -36,6 +36,7 @@ describe('Pinterest Search Pins Operation', () => {
 
 		mockApiClient = {
 			searchPins: jest.fn(),
+			fetchAllPages: PinterestApiClient.prototype.fetchAllPages,
 		} as any;
 	});
 
@@ -355,4 +356,74 @@ describe('Pinterest Search Pins Operation', () => {
 			});
 		});
 	});
+
+	describe('return all', () => {
+		const makePin = (id: string) => ({
+			id,
+			title: `Pin ${id}`,
+			url: `https://pinterest.com/pin/${id}`,
+			created_at: '2023-01-01T00:00:00Z',
+			board_id: 'board1',
+			media: { url: `https://i.pinimg.com/${id}.jpg`, media_type: 'image' },
+		});
+
+		const mockReturnAllParameters = (maxResults: number) => {
+			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('test query') // query
+				.mockReturnValueOnce(25) // limit
+				.mockReturnValueOnce('') // bookmark
+				.mockReturnValueOnce([]) // creativeTypes
+				.mockReturnValueOnce('') // createdAt
+				.mockReturnValueOnce(undefined) // isPromoted
+				.mockReturnValueOnce(undefined) // hasProduct
+				.mockReturnValueOnce(undefined) // isEligibleForRelatedProducts
+				.mockReturnValueOnce(true) // returnAll
+				.mockReturnValueOnce(maxResults); // maxResults
+		};
+
+		it('should follow bookmarks until exhausted and omit the metadata item', async () => {
+			// Arrange
+			mockReturnAllParameters(0);
+			mockApiClient.searchPins
+				.mockResolvedValueOnce({ items: [makePin('p1'), makePin('p2')], bookmark: 'page2' })
+				.mockResolvedValueOnce({ items: [makePin('p3')] });
+
+			// Act
+			const result = await searchPins.call(mockExecuteFunctions, mockApiClient, 0);
+
+			// Assert
+			expect(mockApiClient.searchPins).toHaveBeenCalledTimes(2);
+			expect(mockApiClient.searchPins).toHaveBeenNthCalledWith(1, {
+				query: 'test query',
+				limit: 250,
+				bookmark: undefined,
+			});
+			expect(mockApiClient.searchPins).toHaveBeenNthCalledWith(2, {
+				query: 'test query',
+				limit: 250,
+				bookmark: 'page2',
+			});
+			expect(result.map((item) => item.json.pinId)).toEqual(['p1', 'p2', 'p3']);
+			expect(result.every((item) => item.pairedItem)).toBe(true);
+		});
+
+		it('should stop once max results is reached', async () => {
+			// Arrange
+			mockReturnAllParameters(3);
+			mockApiClient.searchPins
+				.mockResolvedValueOnce({ items: [makePin('p1'), makePin('p2')], bookmark: 'page2' })
+				.mockResolvedValueOnce({ items: [makePin('p3'), makePin('p4')], bookmark: 'page3' });
+
+			// Act
+			const result = await searchPins.call(mockExecuteFunctions, mockApiClient, 0);
+
+			// Assert
+			expect(mockApiClient.searchPins).toHaveBeenCalledTimes(2);
+			expect(mockApiClient.searchPins).toHaveBeenNthCalledWith(
+				1,
+				expect.objectContaining({ limit: 3 }),
+			);
+			expect(result).toHaveLength(3);
+		});
+	});
 });
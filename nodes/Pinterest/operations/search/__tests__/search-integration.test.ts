@@ -364,10 +364,12 @@ describe('Pinterest Search Operations Integration', () => {
 				.mockReturnValueOnce(undefined) // isPromoted
 				.mockReturnValueOnce(undefined) // hasProduct
 				.mockReturnValueOnce(undefined) // isEligibleForRelatedProducts
+				.mockReturnValueOnce(false) // returnAll
 				// Board search parameters
 				.mockReturnValueOnce('concurrent boards') // query
 				.mockReturnValueOnce(25) // limit
 				.mockReturnValueOnce('') // bookmark
+				.mockReturnValueOnce(false) // returnAll
 				// Trending parameters
 				.mockReturnValueOnce('') // region
 				.mockReturnValueOnce([]); // trendingTypes
@@ -19,6 +19,7 @@ export async function searchBoards(
 		const query = this.getNodeParameter('query', itemIndex) as string;
 		const limit = this.getNodeParameter('limit', itemIndex, 25) as number;
 		const bookmark = this.getNodeParameter('bookmark', itemIndex, '') as string;
+		const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
 
 		// Validate required parameters
 		if (!query || query.trim() === '') {
@@ -27,8 +28,8 @@ export async function searchBoards(
 			});
 		}
 
-		// Validate limit parameter
-		if (limit < 1 || limit > 250) {
+		// Validate limit parameter (page size is chosen automatically when returning all)
+		if (!returnAll && (limit < 1 || limit > 250)) {
 			throw new NodeOperationError(this.getNode(), 'Limit must be between 1 and 250', {
 				itemIndex,
 			});
@@ -45,6 +46,32 @@ export async function searchBoards(
 			searchParams.bookmark = bookmark.trim();
 		}
 
+		if (returnAll) {
+			const maxResults = this.getNodeParameter('maxResults', itemIndex, 0) as number;
+			if (maxResults < 0) {
+				throw new NodeOperationError(this.getNode(), 'Max results cannot be negative', {
+					itemIndex,
+				});
+			}
+
+			// Follow bookmarks until exhausted or the cap is reached, one item per board
+			searchParams.limit = maxResults > 0 ? Math.min(maxResults, 250) : 250;
+			const startBookmark = searchParams.bookmark;
+			const allBoards = await apiClient.fetchAllPages(
+				async (pageBookmark) =>
+					await apiClient.searchBoards({
+						...searchParams,
+						bookmark: pageBookmark || startBookmark,
+					}),
+				maxResults,
+			);
+
+			return allBoards.map((board) => ({
+				json: DataTransformer.transformBoardResponse(board),
+				pairedItem: { item: itemIndex },
+			}));
+		}
+
 		// Execute search request
 		const response = await apiClient.searchBoards(searchParams);
 
@@ -32,6 +32,7 @@ export async function searchPins(
 			itemIndex,
 			undefined,
 		) as boolean | undefined;
+		const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
 
 		// Validate required parameters
 		if (!query || query.trim() === '') {
@@ -40,8 +41,8 @@ export async function searchPins(
 			});
 		}
 
-		// Validate limit parameter
-		if (limit < 1 || limit > 250) {
+		// Validate limit parameter (page size is chosen automatically when returning all)
+		if (!returnAll && (limit < 1 || limit > 250)) {
 			throw new NodeOperationError(this.getNode(), 'Limit must be between 1 and 250', {
 				itemIndex,
 			});
@@ -78,6 +79,32 @@ export async function searchPins(
 			searchParams.is_eligible_for_related_products = isEligibleForRelatedProducts;
 		}
 
+		if (returnAll) {
+			const maxResults = this.getNodeParameter('maxResults', itemIndex, 0) as number;
+			if (maxResults < 0) {
+				throw new NodeOperationError(this.getNode(), 'Max results cannot be negative', {
+					itemIndex,
+				});
+			}
+
+			// Follow bookmarks until exhausted or the cap is reached, one item per pin
+			searchParams.limit = maxResults > 0 ? Math.min(maxResults, 250) : 250;
+			const startBookmark = searchParams.bookmark;
+			const allPins = await apiClient.fetchAllPages(
+				async (pageBookmark) =>
+					await apiClient.searchPins({
+						...searchParams,
+						bookmark: pageBookmark || startBookmark,
+					}),
+				maxResults,
+			);
+
+			return allPins.map((pin) => ({
+				json: DataTransformer.transformPinResponse(pin),
+				pairedItem: { item: itemIndex },
+			}));
+		}
+
 		// Execute search request
 		const response = await apiClient.searchPins(searchParams);
 
@@ -0,0 +1,127 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { AnalyticsResponse } from '../../../utils/types';
+import { getUserAnalytics } from '../analytics.operation';
+import { getPinAnalytics } from '../pin-analytics.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Analytics Anomaly Detection', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	// Impressions hold steady for two weeks and collapse on 15 January
+	const analytics: AnalyticsResponse = {
+		all_time: { IMPRESSION: 14400, SAVE: 150 },
+		daily_metrics: Array.from({ length: 15 }, (_, index) => ({
+			date: `2024-01-${String(index + 1).padStart(2, '0')}`,
+			data_status: 'READY',
+			metrics: { IMPRESSION: index === 14 ? 400 : index % 2 ? 990 : 1010, SAVE: 10 },
+		})),
+	};
+
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			getUserAnalytics: jest.fn().mockResolvedValue(analytics),
+			getPinAnalytics: jest.fn().mockResolvedValue(analytics),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should add the anomalies to the summary item', async () => {
+		mockParameters(mockExecuteFunctions, {
+			startDate: '2024-01-01',
+			endDate: '2024-01-15',
+			metricTypes: ['OUTBOUND_CLICK', 'SAVE'],
+			detectAnomalies: true,
+			anomalyOptions: { windowDays: 14 },
+		});
+
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
+
+		// The checked metrics are requested next to the chosen ones
+		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith({
+			start_date: '2024-01-01',
+			end_date: '2024-01-15',
+			metric_types: ['OUTBOUND_CLICK', 'SAVE', 'IMPRESSION'],
+		});
+		expect(result.json.anomalies).toEqual([
+			expect.objectContaining({
+				metric: 'IMPRESSION',
+				date: '2024-01-15',
+				value: 400,
+				expected: 1000,
+				deviationPercent: -60,
+				direction: 'drop',
+				severity: 'high',
+			}),
+		]);
+	});
+
+	it('should flag the daily rows', async () => {
+		mockParameters(mockExecuteFunctions, {
+			pinId: 'pin123',
+			startDate: '2024-01-01',
+			endDate: '2024-01-15',
+			analyticsOutput: 'dailyRows',
+			detectAnomalies: true,
+			anomalyOptions: { windowDays: 14 },
+		});
+
+		const rows = (await getPinAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(rows.filter(({ json }) => json.isAnomaly).map(({ json }) => json.date)).toEqual([
+			'2024-01-15',
+		]);
+		expect(rows[14].json).toMatchObject({
+			pinId: 'pin123',
+			anomalies: [expect.objectContaining({ metric: 'IMPRESSION', severity: 'high' })],
+		});
+	});
+
+	it('should leave the output unchanged when detection is off', async () => {
+		mockParameters(mockExecuteFunctions, { startDate: '2024-01-01', endDate: '2024-01-15' });
+
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
+
+		expect(result.json).not.toHaveProperty('anomalies');
+	});
+
+	it('should reject invalid anomaly options before fetching analytics', async () => {
+		mockParameters(mockExecuteFunctions, {
+			startDate: '2024-01-01',
+			endDate: '2024-01-15',
+			detectAnomalies: true,
+			anomalyOptions: { method: 'seasonalMedian', windowDays: 14 },
+		});
+
+		await expect(getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Seasonal median detection needs a window of at least 21 days',
+		);
+		expect(mockApiClient.getUserAnalytics).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,243 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { AnalyticsParams } from '../../../utils/types';
+import { getUserAnalytics } from '../analytics.operation';
+import { getPinAnalytics } from '../pin-analytics.operation';
+import { getBoardAnalytics } from '../board-analytics.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Analytics Date Ranges', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	// Answers each request with one day of metrics per requested day
+	const analyticsFor = async ({ start_date, end_date }: AnalyticsParams) => ({
+		all_time: { IMPRESSION: 10, SAVE: 1, SAVE_RATE: 0.1 },
+		daily_metrics: [
+			{ date: start_date, metrics: { IMPRESSION: 5 } },
+			{ date: end_date, metrics: { IMPRESSION: 5 } },
+		],
+	});
+
+	beforeEach(() => {
+		jest.useFakeTimers({ now: new Date('2024-03-01T02:30:00Z') });
+
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+			getTimezone: jest.fn().mockReturnValue('America/New_York'),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			getUserAnalytics: jest.fn(analyticsFor),
+			getPinAnalytics: jest.fn((_pinId: string, params: AnalyticsParams) => analyticsFor(params)),
+			getBoardAnalytics: jest.fn((_boardId: string, params: AnalyticsParams) =>
+				analyticsFor(params),
+			),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should resolve presets in the workflow timezone by default', async () => {
+		mockParameters(mockExecuteFunctions, { dateRange: 'last7Days' });
+
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
+
+		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith({
+			start_date: '2024-02-22',
+			end_date: '2024-02-28',
+		});
+		expect(result.json.requestParams).toMatchObject({
+			startDate: '2024-02-22',
+			endDate: '2024-02-28',
+			dateRange: 'last7Days',
+			timezone: 'America/New_York',
+		});
+	});
+
+	it('should resolve presets in the chosen timezone', async () => {
+		mockParameters(mockExecuteFunctions, {
+			pinId: 'pin123',
+			dateRange: 'previousMonth',
+			timezone: ' Asia/Tokyo ',
+		});
+
+		await getPinAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.getPinAnalytics).toHaveBeenCalledWith('pin123', {
+			start_date: '2024-02-01',
+			end_date: '2024-02-29',
+		});
+	});
+
+	it('should reject unknown timezones before calling the API', async () => {
+		mockParameters(mockExecuteFunctions, { dateRange: 'last30Days', timezone: 'Nowhere/City' });
+
+		await expect(getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Invalid timezone: Nowhere/City',
+		);
+		expect(mockApiClient.getUserAnalytics).not.toHaveBeenCalled();
+	});
+
+	it('should reject custom ranges that end before they start', async () => {
+		mockParameters(mockExecuteFunctions, {
+			dateRange: 'custom',
+			startDate: '2024-02-01',
+			endDate: '2024-01-01',
+		});
+
+		await expect(getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Start date 2024-02-01 is after end date 2024-01-01',
+		);
+	});
+
+	it('should reject ranges that start before the analytics lookback before calling the API', async () => {
+		mockParameters(mockExecuteFunctions, {
+			dateRange: 'custom',
+			startDate: '2021-08-29',
+			endDate: '2021-09-30',
+		});
+
+		await expect(getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Start date 2021-08-29 is more than 914 days ago. Pinterest only returns analytics from 2021-08-30 onwards.',
+		);
+		expect(mockApiClient.getUserAnalytics).not.toHaveBeenCalled();
+	});
+
+	it('should fetch long ranges in parts and merge them into one series', async () => {
+		mockParameters(mockExecuteFunctions, {
+			boardId: 'board123',
+			dateRange: 'custom',
+			startDate: '2024-01-01',
+			endDate: '2024-06-30',
+			metricTypes: ['IMPRESSION', 'SAVE'],
+		});
+
+		const result = (await getBoardAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
+
+		expect(mockApiClient.getBoardAnalytics.mock.calls).toEqual([
+			[
+				'board123',
+				{ start_date: '2024-01-01', end_date: '2024-03-30', metric_types: ['IMPRESSION', 'SAVE'] },
+			],
+			[
+				'board123',
+				{ start_date: '2024-03-31', end_date: '2024-06-28', metric_types: ['IMPRESSION', 'SAVE'] },
+			],
+			[
+				'board123',
+				{ start_date: '2024-06-29', end_date: '2024-06-30', metric_types: ['IMPRESSION', 'SAVE'] },
+			],
+		]);
+		expect((result.json.dailyMetrics as Array<{ date: string }>).map(({ date }) => date)).toEqual([
+			'2024-01-01',
+			'2024-03-30',
+			'2024-03-31',
+			'2024-06-28',
+			'2024-06-29',
+			'2024-06-30',
+		]);
+		expect(result.json.allTime).toEqual({ IMPRESSION: 30, SAVE: 3, SAVE_RATE: 0.1 });
+		expect(result.json.requestParams).toMatchObject({
+			startDate: '2024-01-01',
+			endDate: '2024-06-30',
+			dateRange: 'custom',
+			timezone: null,
+		});
+	});
+
+	it('should fetch the previous period with the same parameters and return the changes', async () => {
+		mockParameters(mockExecuteFunctions, {
+			dateRange: 'last7Days',
+			timezone: 'UTC',
+			metricTypes: ['IMPRESSION'],
+			compareTo: 'previousPeriod',
+		});
+
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
+
+		expect(mockApiClient.getUserAnalytics.mock.calls).toEqual([
+			[{ start_date: '2024-02-23', end_date: '2024-02-29', metric_types: ['IMPRESSION'] }],
+			[{ start_date: '2024-02-16', end_date: '2024-02-22', metric_types: ['IMPRESSION'] }],
+		]);
+		expect(result.json.comparison).toEqual({
+			startDate: '2024-02-16',
+			endDate: '2024-02-22',
+			allTime: expect.objectContaining({
+				IMPRESSION: { current: 10, previous: 10, change: 0, changePercent: 0 },
+			}),
+			dailyTotals: expect.objectContaining({
+				IMPRESSION: { current: 10, previous: 10, change: 0, changePercent: 0 },
+			}),
+		});
+	});
+
+	it('should compare to the same period last year', async () => {
+		mockParameters(mockExecuteFunctions, {
+			pinId: 'pin123',
+			dateRange: 'previousMonth',
+			timezone: 'UTC',
+			compareTo: 'previousYear',
+			analyticsOutput: 'dailyRows',
+		});
+
+		const rows = (await getPinAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(mockApiClient.getPinAnalytics).toHaveBeenLastCalledWith('pin123', {
+			start_date: '2023-02-01',
+			end_date: '2023-02-28',
+		});
+		expect(rows[rows.length - 1].json).toMatchObject({
+			rowType: 'total',
+			comparison: { allTime: { SAVE: { current: 1, previous: 1, change: 0, changePercent: 0 } } },
+		});
+	});
+
+	it('should reject a previous year that starts before the analytics lookback', async () => {
+		mockParameters(mockExecuteFunctions, {
+			dateRange: 'custom',
+			startDate: '2022-08-29',
+			endDate: '2022-09-04',
+			compareTo: 'previousYear',
+		});
+
+		await expect(getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Comparison start date 2021-08-29 is more than 914 days ago',
+		);
+		expect(mockApiClient.getUserAnalytics).not.toHaveBeenCalled();
+	});
+
+	it('should require both dates of a custom comparison range before calling the API', async () => {
+		mockParameters(mockExecuteFunctions, {
+			dateRange: 'custom',
+			startDate: '2024-02-01',
+			endDate: '2024-02-29',
+			compareTo: 'custom',
+			compareStartDate: '2024-01-01',
+		});
+
+		await expect(getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Comparison end date is required for analytics',
+		);
+		expect(mockApiClient.getUserAnalytics).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,104 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { AnalyticsResponse } from '../../../utils/types';
+import { getUserAnalytics } from '../analytics.operation';
+import { getPinAnalytics } from '../pin-analytics.operation';
+import { getBoardAnalytics } from '../board-analytics.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('Analytics Daily Rows Output', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const analytics: AnalyticsResponse = {
+		all_time: { IMPRESSION: 200, SAVE: 4 },
+		daily_metrics: [
+			{ date: '2024-01-01', metrics: { IMPRESSION: 120, SAVE: 3 } },
+			{ date: '2024-01-02', metrics: { IMPRESSION: 80, SAVE: 1 } },
+		],
+	};
+
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			getUserAnalytics: jest.fn().mockResolvedValue(analytics),
+			getPinAnalytics: jest.fn().mockResolvedValue(analytics),
+			getBoardAnalytics: jest.fn().mockResolvedValue(analytics),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should return one item per day and a totals item for user analytics', async () => {
+		mockParameters(mockExecuteFunctions, {
+			startDate: '2024-01-01',
+			endDate: '2024-01-02',
+			splitField: 'APP_TYPE',
+			analyticsOutput: 'dailyRows',
+		});
+
+		const result = await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith({
+			start_date: '2024-01-01',
+			end_date: '2024-01-02',
+			split_field: 'APP_TYPE',
+		});
+		expect(result).toEqual([
+			{
+				json: expect.objectContaining({ rowType: 'day', date: '2024-01-01', saveRate: 0.025 }),
+				pairedItem: { item: 0 },
+			},
+			{
+				json: expect.objectContaining({ rowType: 'day', date: '2024-01-02', saveRate: 0.0125 }),
+				pairedItem: { item: 0 },
+			},
+			{
+				json: expect.objectContaining({ rowType: 'total', IMPRESSION: 200, saveRate: 0.02 }),
+				pairedItem: { item: 0 },
+			},
+		]);
+	});
+
+	it('should add the pin and board to each row', async () => {
+		mockParameters(mockExecuteFunctions, {
+			pinId: 'pin123',
+			boardId: 'board123',
+			startDate: '2024-01-01',
+			endDate: '2024-01-02',
+			analyticsOutput: 'dailyRows',
+		});
+
+		const pinRows = (await getPinAnalytics.call(mockExecuteFunctions, mockApiClient, 1)) as any[];
+		const boardRows = (await getBoardAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			1,
+		)) as any[];
+
+		expect(pinRows).toHaveLength(3);
+		expect(pinRows.every(({ json }) => json.pinId === 'pin123')).toBe(true);
+		expect(boardRows.every(({ json }) => json.boardId === 'board123')).toBe(true);
+		expect(boardRows[0].pairedItem).toEqual({ item: 1 });
+	});
+
+	it('should keep the single summary item by default', async () => {
+		mockParameters(mockExecuteFunctions, { startDate: '2024-01-01', endDate: '2024-01-02' });
+
+		const result = await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+
+		expect(Array.isArray(result)).toBe(false);
+		expect(result).toMatchObject({ json: { allTime: analytics.all_time } });
+	});
+});
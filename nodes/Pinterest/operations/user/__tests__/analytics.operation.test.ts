@@ -12,10 +12,24 @@ describe('getUserAnalytics Operation', () => {
 	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
 	let mockApiClient: jest.Mocked<PinterestApiClient>;
 
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
 	beforeEach(() => {
 		// Reset all mocks
 		jest.clearAllMocks();
 
+		// Dates are formatted for real so the requested range can be checked
+		(DataTransformer.formatDateForApi as jest.Mock).mockImplementation(
+			jest.requireActual('../../../utils/DataTransformer').DataTransformer.formatDateForApi,
+		);
+
 		// Mock IExecuteFunctions
 		mockExecuteFunctions = {
 			getNodeParameter: jest.fn(),
@@ -34,12 +48,15 @@ describe('getUserAnalytics Operation', () => {
 		const endDate = '2024-01-31';
 
 		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce(startDate) // startDate
 			.mockReturnValueOnce(endDate) // endDate
 			.mockReturnValueOnce([]) // metricTypes
 			.mockReturnValueOnce([]) // appTypes
 			.mockReturnValueOnce('') // splitField
-			.mockReturnValueOnce(''); // adAccountId
+			.mockReturnValueOnce('') // adAccountId
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockAnalyticsResponse: AnalyticsResponse = {
 			all_time: {
@@ -79,7 +96,11 @@ describe('getUserAnalytics Operation', () => {
 		);
 
 		// Act
-		const result = await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
 
 		// Assert
 		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith({
@@ -93,6 +114,8 @@ describe('getUserAnalytics Operation', () => {
 				requestParams: {
 					startDate,
 					endDate,
+					dateRange: 'custom',
+					timezone: null,
 					metricTypes: null,
 					appTypes: null,
 					splitField: null,
@@ -113,12 +136,15 @@ describe('getUserAnalytics Operation', () => {
 		const adAccountId = 'ad123';
 
 		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce(startDate) // startDate
 			.mockReturnValueOnce(endDate) // endDate
 			.mockReturnValueOnce(metricTypes) // metricTypes
 			.mockReturnValueOnce(appTypes) // appTypes
 			.mockReturnValueOnce(splitField) // splitField
-			.mockReturnValueOnce(adAccountId); // adAccountId
+			.mockReturnValueOnce(adAccountId) // adAccountId
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockAnalyticsResponse: AnalyticsResponse = {
 			all_time: {
@@ -142,7 +168,11 @@ describe('getUserAnalytics Operation', () => {
 		);
 
 		// Act
-		const result = await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
 
 		// Assert
 		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith({
@@ -156,6 +186,8 @@ describe('getUserAnalytics Operation', () => {
 		expect(result.json.requestParams).toEqual({
 			startDate,
 			endDate,
+			dateRange: 'custom',
+			timezone: null,
 			metricTypes,
 			appTypes,
 			splitField,
@@ -166,6 +198,7 @@ describe('getUserAnalytics Operation', () => {
 	it('should throw error when start date is missing', async () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter.mockImplementation((paramName: string) => {
+			if (paramName === 'dateRange') return 'custom';
 			if (paramName === 'startDate') return '';
 			if (paramName === 'endDate') return '2024-01-31';
 			return [];
@@ -185,6 +218,7 @@ describe('getUserAnalytics Operation', () => {
 	it('should throw error when end date is missing', async () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter.mockImplementation((paramName: string) => {
+			if (paramName === 'dateRange') return 'custom';
 			if (paramName === 'startDate') return '2024-01-01';
 			if (paramName === 'endDate') return '';
 			return [];
@@ -204,12 +238,15 @@ describe('getUserAnalytics Operation', () => {
 	it('should handle API errors gracefully', async () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce('2024-01-01') // startDate
 			.mockReturnValueOnce('2024-01-31') // endDate
 			.mockReturnValueOnce([]) // metricTypes
 			.mockReturnValueOnce([]) // appTypes
 			.mockReturnValueOnce('') // splitField
-			.mockReturnValueOnce(''); // adAccountId
+			.mockReturnValueOnce('') // adAccountId
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockError = new Error('API Error');
 		mockApiClient.getUserAnalytics.mockRejectedValue(mockError);
@@ -226,12 +263,15 @@ describe('getUserAnalytics Operation', () => {
 	it('should handle empty analytics response', async () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce('2024-01-01') // startDate
 			.mockReturnValueOnce('2024-01-31') // endDate
 			.mockReturnValueOnce([]) // metricTypes
 			.mockReturnValueOnce([]) // appTypes
 			.mockReturnValueOnce('') // splitField
-			.mockReturnValueOnce(''); // adAccountId
+			.mockReturnValueOnce('') // adAccountId
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockAnalyticsResponse: AnalyticsResponse = {};
 		const mockTransformedAnalytics = {};
@@ -242,7 +282,11 @@ describe('getUserAnalytics Operation', () => {
 		);
 
 		// Act
-		const result = await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+		const result = (await getUserAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
 
 		// Assert
 		expect(result.json).toEqual({
@@ -250,6 +294,8 @@ describe('getUserAnalytics Operation', () => {
 			requestParams: {
 				startDate: '2024-01-01',
 				endDate: '2024-01-31',
+				dateRange: 'custom',
+				timezone: null,
 				metricTypes: null,
 				appTypes: null,
 				splitField: null,
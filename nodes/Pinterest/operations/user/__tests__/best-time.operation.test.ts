@@ -0,0 +1,222 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import { getBestTimeToPost } from '../best-time.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('getBestTimeToPost Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	// 1 January to 25 February 2024 is eight full weeks starting on a Monday
+	const dateOf = (index: number) =>
+		new Date(Date.UTC(2024, 0, index + 1)).toISOString().substring(0, 10);
+	const engagements: Record<string, number> = {
+		'2024-01-02': 100,
+		'2024-01-09': 120,
+		'2024-01-16': 110,
+		'2024-01-23': 130,
+	};
+	const dailyMetrics = Array.from({ length: 56 }, (_, index) => ({
+		date: dateOf(index),
+		data_status: 'READY',
+		metrics: { ENGAGEMENT: engagements[dateOf(index)] ?? (index % 2 ? 40 : 60), IMPRESSION: 1000 },
+	}));
+
+	// The first four Tuesdays and two Fridays have new pins, Sunday 7 January has a single one
+	const pins = [
+		{ id: 'p1', created_at: '2024-01-02T15:00:00Z' },
+		{ id: 'p2', created_at: '2024-01-02T18:00:00Z' },
+		{ id: 'p3', created_at: '2024-01-09T15:00:00Z' },
+		{ id: 'p4', created_at: '2024-01-16T15:00:00Z' },
+		{ id: 'p5', created_at: '2024-01-23T15:00:00Z' },
+		{ id: 'p6', created_at: '2024-01-05T15:00:00Z' },
+		{ id: 'p7', created_at: '2024-01-12T15:00:00Z' },
+		// 03:00 UTC on 8 January is still Sunday 7 January in New York
+		{ id: 'p8', created_at: '2024-01-08T03:00:00Z' },
+		{ id: 'p9', created_at: '2023-12-30T15:00:00Z' },
+		{ id: 'p10' },
+	];
+
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+			getTimezone: jest.fn().mockReturnValue('America/New_York'),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			getUserAnalytics: jest.fn().mockResolvedValue({ daily_metrics: dailyMetrics }),
+			fetchAllPages: jest.fn(async (fetchPage: () => Promise<{ items: unknown[] }>) => {
+				return (await fetchPage()).items;
+			}),
+			getUserPins: jest.fn().mockResolvedValue({ items: pins }),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+
+		mockParameters(mockExecuteFunctions, { startDate: '2024-01-01', endDate: '2024-02-25' });
+	});
+
+	it('should recommend weekdays whose posting days beat the same weekdays without posts', async () => {
+		const result = (await getBestTimeToPost.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith({
+			start_date: '2024-01-01',
+			end_date: '2024-02-25',
+			metric_types: ['ENGAGEMENT', 'IMPRESSION'],
+		});
+		expect(mockApiClient.getUserPins).toHaveBeenCalledWith({ limit: 250, bookmark: undefined });
+		expect(result).toHaveLength(8);
+
+		const [tuesday] = result;
+		expect(tuesday.json).toMatchObject({
+			weekday: 'Tuesday',
+			weekdayNumber: 2,
+			recommended: true,
+			insufficientData: false,
+			metric: 'engagementRate',
+			days: 8,
+			postingDays: 4,
+			baselineDays: 4,
+			pinsCreated: 5,
+			confidenceLevel: 0.95,
+		});
+		expect(tuesday.json.postingDayAverage).toBeCloseTo(0.115);
+		expect(tuesday.json.baselineAverage).toBeCloseTo(0.05);
+		expect(tuesday.json.expectedLift as number).toBeGreaterThan(1);
+		expect(tuesday.json.liftLower as number).toBeGreaterThan(0);
+		expect(tuesday.json.liftUpper as number).toBeGreaterThan(tuesday.json.expectedLift as number);
+
+		const byWeekday = Object.fromEntries(
+			result.slice(0, -1).map(({ json }) => [json.weekday, json]),
+		);
+		expect(byWeekday.Friday).toMatchObject({ postingDays: 2, baselineDays: 6, recommended: false });
+		expect(byWeekday.Friday.liftLower as number).toBeLessThan(0);
+		expect(byWeekday.Sunday).toMatchObject({
+			postingDays: 1,
+			pinsCreated: 1,
+			insufficientData: true,
+			expectedLift: null,
+			recommended: false,
+		});
+		expect(byWeekday.Monday).toMatchObject({ days: 8, postingDays: 0, insufficientData: true });
+		expect(byWeekday.Monday.average).toBeCloseTo(0.05);
+
+		// Weekdays without a lift follow in weekday order
+		expect(result.slice(2, -1).map(({ json }) => json.weekday)).toEqual([
+			'Monday',
+			'Wednesday',
+			'Thursday',
+			'Saturday',
+			'Sunday',
+		]);
+		expect(result[7].json).toMatchObject({
+			operation: 'getBestTimeToPost',
+			startDate: '2024-01-01',
+			endDate: '2024-02-25',
+			timezone: 'America/New_York',
+			days: 56,
+			postingDays: 7,
+			pinsCreated: 8,
+			recommendedDays: ['Tuesday'],
+			insufficientDataDays: ['Sunday', 'Monday', 'Wednesday', 'Thursday', 'Saturday'],
+		});
+	});
+
+	it('should not count the pattern of a weekday as lift', async () => {
+		// Saturdays always have three times the engagement, and pins were created on two of them
+		mockApiClient.getUserAnalytics.mockResolvedValue({
+			daily_metrics: dailyMetrics.map((day, index) => ({
+				...day,
+				metrics: { ENGAGEMENT: index % 7 === 5 ? 150 + (index % 2) * 10 : 50, IMPRESSION: 1000 },
+			})),
+		});
+		(mockApiClient.getUserPins as jest.Mock).mockResolvedValue({
+			items: [
+				{ id: 'p1', created_at: '2024-01-06T15:00:00Z' },
+				{ id: 'p2', created_at: '2024-01-13T15:00:00Z' },
+			],
+		});
+
+		const result = (await getBestTimeToPost.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		const saturday = result.find(({ json }) => json.weekday === 'Saturday')!;
+		expect(saturday.json).toMatchObject({ postingDays: 2, baselineDays: 6, recommended: false });
+		expect(saturday.json.expectedLift as number).toBeCloseTo(0, 1);
+	});
+
+	it('should flag weekdays without days to compare with', async () => {
+		// Every Tuesday of the first four weeks has a new pin
+		mockParameters(mockExecuteFunctions, { startDate: '2024-01-01', endDate: '2024-01-28' });
+		mockApiClient.getUserAnalytics.mockResolvedValue({ daily_metrics: dailyMetrics.slice(0, 28) });
+
+		const result = (await getBestTimeToPost.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		const tuesday = result.find(({ json }) => json.weekday === 'Tuesday')!;
+		expect(tuesday.json).toMatchObject({
+			postingDays: 4,
+			baselineDays: 0,
+			insufficientData: true,
+			expectedLift: null,
+			recommended: false,
+		});
+		expect(tuesday.json.postingDayAverage).toBeCloseTo(0.115);
+	});
+
+	it('should compare posting days on a daily count', async () => {
+		mockParameters(mockExecuteFunctions, {
+			startDate: '2024-01-01',
+			endDate: '2024-02-25',
+			bestTimeMetric: 'IMPRESSION',
+		});
+
+		const result = (await getBestTimeToPost.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(mockApiClient.getUserAnalytics).toHaveBeenCalledWith(
+			expect.objectContaining({ metric_types: ['IMPRESSION'] }),
+		);
+		expect(result[0].json).toMatchObject({
+			weekday: 'Tuesday',
+			average: 1000,
+			expectedLift: 0,
+			recommended: false,
+		});
+		expect(result[7].json.recommendedDays).toEqual([]);
+	});
+
+	it('should reject a minimum of fewer than two posting days', async () => {
+		mockParameters(mockExecuteFunctions, {
+			startDate: '2024-01-01',
+			endDate: '2024-01-28',
+			bestTimeOptions: { minPostingDays: 1 },
+		});
+
+		await expect(getBestTimeToPost.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
+			'Minimum posting days must be at least 2',
+		);
+		expect(mockApiClient.getUserAnalytics).not.toHaveBeenCalled();
+	});
+});
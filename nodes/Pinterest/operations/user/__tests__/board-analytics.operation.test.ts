@@ -12,10 +12,24 @@ describe('getBoardAnalytics Operation', () => {
 	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
 	let mockApiClient: jest.Mocked<PinterestApiClient>;
 
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
 	beforeEach(() => {
 		// Reset all mocks
 		jest.clearAllMocks();
 
+		// Dates are formatted for real so the requested range can be checked
+		(DataTransformer.formatDateForApi as jest.Mock).mockImplementation(
+			jest.requireActual('../../../utils/DataTransformer').DataTransformer.formatDateForApi,
+		);
+
 		// Mock IExecuteFunctions
 		mockExecuteFunctions = {
 			getNodeParameter: jest.fn(),
@@ -36,11 +50,14 @@ describe('getBoardAnalytics Operation', () => {
 
 		mockExecuteFunctions.getNodeParameter
 			.mockReturnValueOnce(boardId) // boardId
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce(startDate) // startDate
 			.mockReturnValueOnce(endDate) // endDate
 			.mockReturnValueOnce([]) // metricTypes
 			.mockReturnValueOnce([]) // appTypes
-			.mockReturnValueOnce(''); // splitField
+			.mockReturnValueOnce('') // splitField
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockAnalyticsResponse: AnalyticsResponse = {
 			all_time: {
@@ -80,7 +97,11 @@ describe('getBoardAnalytics Operation', () => {
 		);
 
 		// Act
-		const result = await getBoardAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+		const result = (await getBoardAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
 
 		// Assert
 		expect(mockApiClient.getBoardAnalytics).toHaveBeenCalledWith(boardId, {
@@ -95,6 +116,8 @@ describe('getBoardAnalytics Operation', () => {
 					boardId,
 					startDate,
 					endDate,
+					dateRange: 'custom',
+					timezone: null,
 					metricTypes: null,
 					appTypes: null,
 					splitField: null,
@@ -115,11 +138,14 @@ describe('getBoardAnalytics Operation', () => {
 
 		mockExecuteFunctions.getNodeParameter
 			.mockReturnValueOnce(boardId) // boardId
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce(startDate) // startDate
 			.mockReturnValueOnce(endDate) // endDate
 			.mockReturnValueOnce(metricTypes) // metricTypes
 			.mockReturnValueOnce(appTypes) // appTypes
-			.mockReturnValueOnce(splitField); // splitField
+			.mockReturnValueOnce(splitField) // splitField
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockAnalyticsResponse: AnalyticsResponse = {
 			all_time: {
@@ -143,7 +169,11 @@ describe('getBoardAnalytics Operation', () => {
 		);
 
 		// Act
-		const result = await getBoardAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+		const result = (await getBoardAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
 
 		// Assert
 		expect(mockApiClient.getBoardAnalytics).toHaveBeenCalledWith(boardId, {
@@ -157,6 +187,8 @@ describe('getBoardAnalytics Operation', () => {
 			boardId,
 			startDate,
 			endDate,
+			dateRange: 'custom',
+			timezone: null,
 			metricTypes,
 			appTypes,
 			splitField,
@@ -165,10 +197,13 @@ describe('getBoardAnalytics Operation', () => {
 
 	it('should throw error when board ID is missing', async () => {
 		// Arrange
-		mockExecuteFunctions.getNodeParameter
-			.mockReturnValueOnce('') // boardId (empty)
-			.mockReturnValueOnce('2024-01-01') // startDate
-			.mockReturnValueOnce('2024-01-31'); // endDate
+		mockExecuteFunctions.getNodeParameter.mockImplementation((paramName: string) => {
+			if (paramName === 'boardId') return ''; // boardId (empty)
+			if (paramName === 'dateRange') return 'custom';
+			if (paramName === 'startDate') return '2024-01-01';
+			if (paramName === 'endDate') return '2024-01-31';
+			return [];
+		});
 
 		// Act & Assert
 		await expect(getBoardAnalytics.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
@@ -185,6 +220,7 @@ describe('getBoardAnalytics Operation', () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter.mockImplementation((paramName: string) => {
 			if (paramName === 'boardId') return 'board123';
+			if (paramName === 'dateRange') return 'custom';
 			if (paramName === 'startDate') return '';
 			if (paramName === 'endDate') return '2024-01-31';
 			return [];
@@ -205,6 +241,7 @@ describe('getBoardAnalytics Operation', () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter.mockImplementation((paramName: string) => {
 			if (paramName === 'boardId') return 'board123';
+			if (paramName === 'dateRange') return 'custom';
 			if (paramName === 'startDate') return '2024-01-01';
 			if (paramName === 'endDate') return '';
 			return [];
@@ -225,11 +262,14 @@ describe('getBoardAnalytics Operation', () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter
 			.mockReturnValueOnce('board123') // boardId
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce('2024-01-01') // startDate
 			.mockReturnValueOnce('2024-01-31') // endDate
 			.mockReturnValueOnce([]) // metricTypes
 			.mockReturnValueOnce([]) // appTypes
-			.mockReturnValueOnce(''); // splitField
+			.mockReturnValueOnce('') // splitField
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockError = new Error('Board not found');
 		mockApiClient.getBoardAnalytics.mockRejectedValue(mockError);
@@ -247,11 +287,14 @@ describe('getBoardAnalytics Operation', () => {
 		// Arrange
 		mockExecuteFunctions.getNodeParameter
 			.mockReturnValueOnce('board123') // boardId
+			.mockReturnValueOnce('custom') // dateRange
 			.mockReturnValueOnce('2024-01-01') // startDate
 			.mockReturnValueOnce('2024-01-31') // endDate
 			.mockReturnValueOnce([]) // metricTypes
 			.mockReturnValueOnce([]) // appTypes
-			.mockReturnValueOnce(''); // splitField
+			.mockReturnValueOnce('') // splitField
+			.mockReturnValueOnce('summary') // analyticsOutput
+			.mockReturnValueOnce('none'); // compareTo
 
 		const mockAnalyticsResponse: AnalyticsResponse = {};
 		const mockTransformedAnalytics = {};
@@ -262,7 +305,11 @@ describe('getBoardAnalytics Operation', () => {
 		);
 
 		// Act
-		const result = await getBoardAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+		const result = (await getBoardAnalytics.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData;
 
 		// Assert
 		expect(result.json).toEqual({
@@ -271,6 +318,8 @@ describe('getBoardAnalytics Operation', () => {
 				boardId: 'board123',
 				startDate: '2024-01-01',
 				endDate: '2024-01-31',
+				dateRange: 'custom',
+				timezone: null,
 				metricTypes: null,
 				appTypes: null,
 				splitField: null,
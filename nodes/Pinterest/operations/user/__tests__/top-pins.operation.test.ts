@@ -0,0 +1,202 @@
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
+import type { AnalyticsParams } from '../../../utils/types';
+import { getTopPins } from '../top-pins.operation';
+import { mockParameters } from '../../../__tests__/helpers';
+
+describe('getTopPins Operation', () => {
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	const saves: Record<string, number> = { pin1: 5, pin2: 20, pin3: 5, pin4: 10 };
+
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
+	beforeEach(() => {
+		mockExecuteFunctions = {
+			getNodeParameter: jest.fn(),
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+
+		mockApiClient = {
+			fetchAllPages: jest.fn(
+				async (fetchPage: () => Promise<{ items: unknown[] }>, maxResults: number) => {
+					return (await fetchPage()).items.slice(0, maxResults);
+				},
+			),
+			getBoard: jest.fn().mockResolvedValue({ id: 'board1', pin_count: 1200 }),
+			getBoardPins: jest.fn().mockResolvedValue({
+				items: Object.keys(saves).map((id) => ({ id, title: `Pin ${id}`, board_id: 'board1' })),
+			}),
+			getPin: jest.fn(async (id: string) => ({ id, title: `Fetched ${id}` })),
+			getPinAnalytics: jest.fn(async (pinId: string, _params: AnalyticsParams) => {
+				if (pinId === 'broken') {
+					throw new Error('Pin not found');
+				}
+				return { all_time: { IMPRESSION: 100, SAVE: saves[pinId] } };
+			}),
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	it('should rank the pins of a board by the chosen metric', async () => {
+		mockParameters(mockExecuteFunctions, {
+			topPinsSource: 'board',
+			boardId: 'board1',
+			rankBy: 'SAVE',
+			limit: 3,
+			startDate: '2024-01-01',
+			endDate: '2024-01-31',
+		});
+
+		const result = (await getTopPins.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(mockApiClient.getPinAnalytics).toHaveBeenCalledTimes(4);
+		expect(mockApiClient.getPinAnalytics).toHaveBeenCalledWith('pin1', {
+			start_date: '2024-01-01',
+			end_date: '2024-01-31',
+			metric_types: ['IMPRESSION', 'OUTBOUND_CLICK', 'PIN_CLICK', 'SAVE'],
+		});
+		expect(mockApiClient.getPin).not.toHaveBeenCalled();
+
+		expect(
+			result.slice(0, -1).map(({ json }) => [json.rank, json.pinId, json.value, json.shareOfTotal]),
+		).toEqual([
+			[1, 'pin2', 20, 0.5],
+			[2, 'pin4', 10, 0.25],
+			[3, 'pin1', 5, 0.125],
+		]);
+		expect(result[0].json).toMatchObject({
+			metric: 'SAVE',
+			title: 'Pin pin2',
+			boardId: 'board1',
+			metrics: { IMPRESSION: 100, SAVE: 20 },
+		});
+		expect(result[result.length - 1].json).toMatchObject({
+			operation: 'getTopPins',
+			totalPins: 4,
+			rankedPins: 4,
+			truncated: false,
+			boardPinCount: 4,
+			total: 40,
+			errorCount: 0,
+		});
+		expect(mockApiClient.getBoard).not.toHaveBeenCalled();
+	});
+
+	it('should mark the summary as truncated when the board has more pins than the maximum', async () => {
+		mockParameters(mockExecuteFunctions, {
+			topPinsSource: 'board',
+			boardId: 'board1',
+			rankBy: 'SAVE',
+			startDate: '2024-01-01',
+			endDate: '2024-01-31',
+			topPinsOptions: { maxPins: 2 },
+		});
+
+		const result = (await getTopPins.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(mockApiClient.getBoardPins).toHaveBeenCalledWith('board1', {
+			limit: 3,
+			bookmark: undefined,
+		});
+		expect(mockApiClient.getPinAnalytics).toHaveBeenCalledTimes(2);
+		expect(result.slice(0, -1).map(({ json }) => json.pinId)).toEqual(['pin2', 'pin1']);
+		expect(result[result.length - 1].json).toMatchObject({
+			totalPins: 2,
+			rankedPins: 2,
+			truncated: true,
+			boardPinCount: 1200,
+		});
+	});
+
+	it('should give pins with the same value the same rank', async () => {
+		mockParameters(mockExecuteFunctions, {
+			topPinsSource: 'board',
+			boardId: 'board1',
+			rankBy: 'SAVE',
+			startDate: '2024-01-01',
+			endDate: '2024-01-31',
+		});
+
+		const result = (await getTopPins.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(result.slice(0, -1).map(({ json }) => [json.rank, json.pinId])).toEqual([
+			[1, 'pin2'],
+			[2, 'pin4'],
+			[3, 'pin1'],
+			[3, 'pin3'],
+		]);
+	});
+
+	it('should fetch listed pins and report the pins that failed', async () => {
+		mockParameters(mockExecuteFunctions, {
+			topPinsSource: 'pinIds',
+			pinIds: 'pin2, pin1,broken,pin2',
+			rankBy: 'VIDEO_START',
+			startDate: '2024-01-01',
+			endDate: '2024-01-31',
+		});
+
+		const result = (await getTopPins.call(
+			mockExecuteFunctions,
+			mockApiClient,
+			0,
+		)) as INodeExecutionData[];
+
+		expect(mockApiClient.getPinAnalytics).toHaveBeenCalledWith('pin1', {
+			start_date: '2024-01-01',
+			end_date: '2024-01-31',
+			metric_types: ['IMPRESSION', 'OUTBOUND_CLICK', 'PIN_CLICK', 'SAVE', 'VIDEO_START'],
+		});
+		expect(mockApiClient.getPin).toHaveBeenCalledTimes(2);
+		expect(result.slice(0, -1).map(({ json }) => [json.rank, json.title, json.value])).toEqual([
+			[1, 'Fetched pin1', 0],
+			[1, 'Fetched pin2', 0],
+		]);
+		expect(result[2].json).toMatchObject({
+			totalPins: 3,
+			rankedPins: 2,
+			truncated: false,
+			boardPinCount: null,
+			errorCount: 1,
+			errors: [expect.objectContaining({ itemId: 'broken', error: 'Pin not found' })],
+		});
+	});
+
+	it.each([
+		[{ topPinsSource: 'pinIds', pinIds: 'pin1,not a pin' }, 'Invalid pin ID format: not a pin'],
+		[
+			{ topPinsSource: 'pinIds', pinIds: 'pin1,pin2,pin3', topPinsOptions: { maxPins: 2 } },
+			'Top pins can rank at most 2 pins, got 3',
+		],
+		[{ topPinsSource: 'board', boardId: '' }, 'Board ID is required for top pins'],
+	])('should reject invalid input before fetching analytics (%#)', async (parameters, message) => {
+		mockParameters(mockExecuteFunctions, {
+			startDate: '2024-01-01',
+			endDate: '2024-01-31',
+			...parameters,
+		});
+
+		await expect(getTopPins.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(message);
+		expect(mockApiClient.getPinAnalytics).not.toHaveBeenCalled();
+	});
+});
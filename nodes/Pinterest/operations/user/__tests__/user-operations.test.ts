@@ -1,4 +1,4 @@
-import type { IExecuteFunctions } from 'n8n-workflow';
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import type { PinterestApiClient } from '../../../utils/PinterestApiClient';
 import type { UserProfileResponse, AnalyticsResponse } from '../../../utils/types';
 import { getUserProfile } from '../profile.operation';
@@ -14,10 +14,34 @@ describe('User Operations Integration', () => {
 	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
 	let mockApiClient: jest.Mocked<PinterestApiClient>;
 
+	// Every parameter gets the same value, apart from the ones that must be a valid date range
+	const mockGenericParameters = (paramName: string) => {
+		if (paramName === 'dateRange') return 'custom';
+		if (paramName === 'startDate') return '2024-01-01';
+		if (paramName === 'endDate') return '2024-01-31';
+		if (paramName === 'compareTo') return 'none';
+		if (paramName === 'detectAnomalies') return false;
+		return 'test-value';
+	};
+
+	// The fixed dates of the tests have to be within Pinterest's analytics lookback
+	beforeAll(() => {
+		jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+	});
+
+	afterAll(() => {
+		jest.useRealTimers();
+	});
+
 	beforeEach(() => {
 		// Reset all mocks
 		jest.clearAllMocks();
 
+		// Dates are formatted for real so the requested range can be checked
+		(DataTransformer.formatDateForApi as jest.Mock).mockImplementation(
+			jest.requireActual('../../../utils/DataTransformer').DataTransformer.formatDateForApi,
+		);
+
 		// Mock IExecuteFunctions
 		mockExecuteFunctions = {
 			getNodeParameter: jest.fn(),
@@ -125,18 +149,25 @@ describe('User Operations Integration', () => {
 
 			// Mock parameters for analytics
 			mockExecuteFunctions.getNodeParameter
+				.mockReturnValueOnce('custom') // dateRange
 				.mockReturnValueOnce(startDate) // startDate
 				.mockReturnValueOnce(endDate) // endDate
 				.mockReturnValueOnce(['IMPRESSION', 'SAVE', 'CLICK']) // metricTypes
 				.mockReturnValueOnce(['WEB']) // appTypes
 				.mockReturnValueOnce('') // splitField
-				.mockReturnValueOnce(''); // adAccountId
+				.mockReturnValueOnce('') // adAccountId
+				.mockReturnValueOnce('summary') // analyticsOutput
+				.mockReturnValueOnce('none'); // compareTo
 
 			// Act - Get user profile
 			const profileResult = await getUserProfile.call(mockExecuteFunctions, mockApiClient, 0);
 
 			// Act - Get user analytics
-			const analyticsResult = await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
+			const analyticsResult = (await getUserAnalytics.call(
+				mockExecuteFunctions,
+				mockApiClient,
+				0,
+			)) as INodeExecutionData;
 
 			// Assert - Profile
 			expect(mockApiClient.getUserProfile).toHaveBeenCalledTimes(1);
@@ -161,6 +192,8 @@ describe('User Operations Integration', () => {
 				requestParams: {
 					startDate,
 					endDate,
+					dateRange: 'custom',
+					timezone: null,
 					metricTypes: ['IMPRESSION', 'SAVE', 'CLICK'],
 					appTypes: ['WEB'],
 					splitField: null,
@@ -220,26 +253,38 @@ describe('User Operations Integration', () => {
 			// Mock parameters for pin analytics
 			mockExecuteFunctions.getNodeParameter
 				.mockReturnValueOnce(pinId) // pinId
+				.mockReturnValueOnce('custom') // dateRange
 				.mockReturnValueOnce(startDate) // startDate
 				.mockReturnValueOnce(endDate) // endDate
 				.mockReturnValueOnce([]) // metricTypes
 				.mockReturnValueOnce([]) // appTypes
 				.mockReturnValueOnce('') // splitField
+				.mockReturnValueOnce('summary') // analyticsOutput
+				.mockReturnValueOnce('none') // compareTo
+				.mockReturnValueOnce(false) // detectAnomalies
 				// Mock parameters for board analytics
 				.mockReturnValueOnce(boardId) // boardId
+				.mockReturnValueOnce('custom') // dateRange
 				.mockReturnValueOnce(startDate) // startDate
 				.mockReturnValueOnce(endDate) // endDate
 				.mockReturnValueOnce([]) // metricTypes
 				.mockReturnValueOnce([]) // appTypes
-				.mockReturnValueOnce(''); // splitField
+				.mockReturnValueOnce('') // splitField
+				.mockReturnValueOnce('summary') // analyticsOutput
+				.mockReturnValueOnce('none') // compareTo
+				.mockReturnValueOnce(false); // detectAnomalies
 
 			// Act
-			const pinAnalyticsResult = await getPinAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
-			const boardAnalyticsResult = await getBoardAnalytics.call(
+			const pinAnalyticsResult = (await getPinAnalytics.call(
+				mockExecuteFunctions,
+				mockApiClient,
+				0,
+			)) as INodeExecutionData;
+			const boardAnalyticsResult = (await getBoardAnalytics.call(
 				mockExecuteFunctions,
 				mockApiClient,
 				1,
-			);
+			)) as INodeExecutionData;
 
 			// Assert
 			expect(mockApiClient.getPinAnalytics).toHaveBeenCalledWith(pinId, {
@@ -271,7 +316,7 @@ describe('User Operations Integration', () => {
 			mockApiClient.getBoardAnalytics.mockRejectedValue(apiError);
 
 			// Mock parameters for analytics operations
-			mockExecuteFunctions.getNodeParameter.mockReturnValue('test-value'); // Generic mock for all parameter calls
+			mockExecuteFunctions.getNodeParameter.mockImplementation(mockGenericParameters); // Generic mock for all parameter calls
 
 			// Act & Assert - All operations should propagate the error
 			await expect(getUserProfile.call(mockExecuteFunctions, mockApiClient, 0)).rejects.toThrow(
@@ -308,7 +353,7 @@ describe('User Operations Integration', () => {
 			);
 
 			// Mock parameters
-			mockExecuteFunctions.getNodeParameter.mockReturnValue('test-value');
+			mockExecuteFunctions.getNodeParameter.mockImplementation(mockGenericParameters);
 
 			// Act
 			await getUserAnalytics.call(mockExecuteFunctions, mockApiClient, 0);
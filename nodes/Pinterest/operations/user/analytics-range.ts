@@ -0,0 +1,343 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { AnalyticsParams, AnalyticsResponse } from '../../utils/types';
+import {
+	ANALYTICS_DATE_PRESETS,
+	ANALYTICS_LOOKBACK_DAYS,
+	AnalyticsDateRange,
+	type AnalyticsDatePreset,
+	type AnalyticsDateWindow,
+} from '../../utils/AnalyticsDateRange';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { AnalyticsStatistics, type AnomalyDetectionOptions } from '../../utils/AnalyticsStatistics';
+
+/**
+ * Date range of an analytics request, with the preset and timezone it was resolved from
+ */
+export interface ResolvedAnalyticsRange extends AnalyticsDateWindow {
+	dateRange: string;
+	timezone: string | null;
+}
+
+/**
+ * What sets the user, pin and board analytics operations apart
+ */
+export interface AnalyticsSource {
+	/**
+	 * IDs the analytics are for, added to every daily row and to the request parameters
+	 */
+	ids: IDataObject;
+	/**
+	 * Requests the analytics of one part of the range
+	 */
+	fetch: (params: AnalyticsParams) => Promise<AnalyticsResponse>;
+	/**
+	 * Reads the parameters only this operation has, returning them as request parameters and as
+	 * they are shown in the request parameters of the summary
+	 */
+	readExtraParams?: () => { params: Partial<AnalyticsParams>; requestParams: IDataObject };
+}
+
+/**
+ * Runs an analytics operation: reads the shared parameters, fetches the range and the range it
+ * is compared to, flags anomalies and returns either one summary item or one item per day.
+ * @param source IDs and request of the operation
+ */
+export async function getAnalyticsItems(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	source: AnalyticsSource,
+): Promise<INodeExecutionData | INodeExecutionData[]> {
+	// Resolve the date range, which may be longer than one request allows
+	const range = readAnalyticsRange.call(this, itemIndex);
+
+	// Get optional parameters
+	const metricTypes = this.getNodeParameter('metricTypes', itemIndex, []) as string[];
+	const appTypes = this.getNodeParameter('appTypes', itemIndex, []) as string[];
+	const splitField = this.getNodeParameter('splitField', itemIndex, '') as string;
+	const extra = source.readExtraParams?.() ?? { params: {}, requestParams: {} };
+	const output = this.getNodeParameter('analyticsOutput', itemIndex, 'summary') as string;
+	const comparisonRange = readComparisonRange.call(this, itemIndex, range);
+	const anomalyOptions = readAnomalyOptions.call(this, itemIndex);
+
+	// Build analytics parameters
+	const analyticsParams: Omit<AnalyticsParams, 'start_date' | 'end_date'> = {};
+
+	// Add optional parameters if provided
+	if (metricTypes.length > 0) {
+		// The checked metrics must be in the response for anomalies to be found
+		analyticsParams.metric_types = anomalyOptions
+			? [...new Set([...metricTypes, ...anomalyOptions.metrics])]
+			: metricTypes;
+	}
+	if (appTypes.length > 0) {
+		analyticsParams.app_types = appTypes;
+	}
+	if (splitField) {
+		analyticsParams.split_field = splitField;
+	}
+	Object.assign(analyticsParams, extra.params);
+
+	// Get analytics data from Pinterest API
+	const analyticsData = await fetchAnalyticsRange(range, analyticsParams, source.fetch);
+
+	// Fetch the range compared to with the same parameters
+	const comparison = comparisonRange
+		? DataTransformer.compareAnalytics(
+				analyticsData,
+				await fetchAnalyticsRange(comparisonRange, analyticsParams, source.fetch),
+			)
+		: undefined;
+
+	// Flag days that deviate from what the days before them predict
+	const anomalies = anomalyOptions
+		? DataTransformer.findAnalyticsAnomalies(analyticsData, anomalyOptions)
+		: undefined;
+
+	// One item per day and split value, ready for spreadsheets and databases
+	if (output === 'dailyRows') {
+		return DataTransformer.transformAnalyticsRows(analyticsData, comparison, anomalies).map(
+			(row) => ({
+				json: { ...source.ids, ...row },
+				pairedItem: { item: itemIndex },
+			}),
+		);
+	}
+
+	// Transform the response to n8n format
+	const transformedAnalytics = DataTransformer.transformAnalyticsResponse(analyticsData);
+
+	return {
+		json: {
+			...transformedAnalytics,
+			...(comparison && comparisonRange
+				? { comparison: summarizeComparison(comparisonRange, comparison) }
+				: {}),
+			...(anomalies ? { anomalies } : {}),
+			// Include request parameters for reference
+			requestParams: {
+				...source.ids,
+				startDate: range.startDate,
+				endDate: range.endDate,
+				dateRange: range.dateRange,
+				timezone: range.timezone,
+				metricTypes: metricTypes.length > 0 ? metricTypes : null,
+				appTypes: appTypes.length > 0 ? appTypes : null,
+				splitField: splitField || null,
+				...extra.requestParams,
+			},
+		},
+		pairedItem: { item: itemIndex },
+	};
+}
+
+/**
+ * Reads the date range parameters shared by the analytics operations. Custom ranges take the
+ * calendar days of the entered dates; presets are resolved against today in the chosen
+ * timezone, which defaults to the workflow timezone.
+ */
+export function readAnalyticsRange(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): ResolvedAnalyticsRange {
+	const dateRange = this.getNodeParameter('dateRange', itemIndex, 'custom') as string;
+
+	if (dateRange === 'custom') {
+		const window = readDateWindow.call(this, itemIndex, 'startDate', 'endDate', {
+			start: 'Start date',
+			end: 'End date',
+		});
+
+		checkLookback.call(this, itemIndex, window, 'Start date');
+
+		return { ...window, dateRange, timezone: null };
+	}
+
+	if (!ANALYTICS_DATE_PRESETS.includes(dateRange as AnalyticsDatePreset)) {
+		throw new NodeOperationError(this.getNode(), `Unsupported date range: ${dateRange}`, {
+			itemIndex,
+		});
+	}
+
+	const timezone =
+		(this.getNodeParameter('timezone', itemIndex, '') as string).trim() || this.getTimezone();
+
+	// Validates the timezone before the preset is resolved in it
+	formatDate.call(this, new Date(), timezone, itemIndex);
+
+	const window = AnalyticsDateRange.resolvePreset(dateRange as AnalyticsDatePreset, timezone);
+	checkLookback.call(this, itemIndex, window, 'Start date');
+
+	return { ...window, dateRange, timezone };
+}
+
+/**
+ * Reads the range that the analytics are compared to, or null when they are not compared
+ * @param range Range of the analytics being compared
+ */
+export function readComparisonRange(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	range: AnalyticsDateWindow,
+): AnalyticsDateWindow | null {
+	const compareTo = (this.getNodeParameter('compareTo', itemIndex, 'none') as string) || 'none';
+
+	let window: AnalyticsDateWindow;
+	switch (compareTo) {
+		case 'none':
+			return null;
+		case 'previousPeriod':
+			window = AnalyticsDateRange.previousPeriod(range);
+			break;
+		case 'previousYear':
+			window = AnalyticsDateRange.previousYear(range);
+			break;
+		case 'custom':
+			window = readDateWindow.call(this, itemIndex, 'compareStartDate', 'compareEndDate', {
+				start: 'Comparison start date',
+				end: 'Comparison end date',
+			});
+			break;
+		default:
+			throw new NodeOperationError(this.getNode(), `Unsupported comparison: ${compareTo}`, {
+				itemIndex,
+			});
+	}
+
+	checkLookback.call(this, itemIndex, window, 'Comparison start date');
+
+	return window;
+}
+
+/**
+ * Reads the anomaly detection settings, or null when anomalies are not detected
+ */
+export function readAnomalyOptions(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): AnomalyDetectionOptions | null {
+	if (!this.getNodeParameter('detectAnomalies', itemIndex, false)) {
+		return null;
+	}
+
+	const options = this.getNodeParameter('anomalyOptions', itemIndex, {}) as IDataObject;
+
+	try {
+		return AnalyticsStatistics.resolveAnomalyOptions(options);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), error.message, { itemIndex });
+	}
+}
+
+/**
+ * Fetches an analytics range in requests of at most 90 days and merges them into one response
+ * @param range Inclusive date range
+ * @param params Analytics parameters other than the dates
+ * @param fetchRange Requests the analytics of one part of the range
+ */
+export async function fetchAnalyticsRange(
+	range: AnalyticsDateWindow,
+	params: Omit<AnalyticsParams, 'start_date' | 'end_date'>,
+	fetchRange: (params: AnalyticsParams) => Promise<AnalyticsResponse>,
+): Promise<AnalyticsResponse> {
+	const responses: AnalyticsResponse[] = [];
+
+	// Requests run one after another to stay within the analytics rate limit
+	for (const window of AnalyticsDateRange.split(range)) {
+		responses.push(
+			await fetchRange({ start_date: window.startDate, end_date: window.endDate, ...params }),
+		);
+	}
+
+	return responses.length === 1 ? responses[0] : DataTransformer.mergeAnalyticsResponses(responses);
+}
+
+/**
+ * Comparison added to the summary item, with the range that was compared to
+ * @param window Range compared to
+ * @param comparison Comparison per split value from DataTransformer.compareAnalytics
+ */
+export function summarizeComparison(
+	window: AnalyticsDateWindow,
+	comparison: IDataObject[],
+): IDataObject {
+	const [unsplit] = comparison;
+
+	return {
+		startDate: window.startDate,
+		endDate: window.endDate,
+		...(comparison.length === 1 && unsplit.splitValue === null
+			? { allTime: unsplit.allTime, dailyTotals: unsplit.dailyTotals }
+			: { splits: comparison }),
+	};
+}
+
+function readDateWindow(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	startParameter: string,
+	endParameter: string,
+	labels: { start: string; end: string },
+): AnalyticsDateWindow {
+	const startDate = this.getNodeParameter(startParameter, itemIndex, '') as string;
+	const endDate = this.getNodeParameter(endParameter, itemIndex, '') as string;
+
+	if (!startDate) {
+		throw new NodeOperationError(this.getNode(), `${labels.start} is required for analytics`, {
+			itemIndex,
+		});
+	}
+	if (!endDate) {
+		throw new NodeOperationError(this.getNode(), `${labels.end} is required for analytics`, {
+			itemIndex,
+		});
+	}
+
+	const window = {
+		startDate: formatDate.call(this, startDate, undefined, itemIndex),
+		endDate: formatDate.call(this, endDate, undefined, itemIndex),
+	};
+
+	if (window.startDate > window.endDate) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${labels.start} ${window.startDate} is after ${labels.end.toLowerCase()} ${window.endDate}`,
+			{ itemIndex },
+		);
+	}
+
+	return window;
+}
+
+/**
+ * Fails before anything is requested when a range starts before Pinterest's analytics lookback
+ */
+function checkLookback(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	window: AnalyticsDateWindow,
+	label: string,
+): void {
+	const earliestStartDate = AnalyticsDateRange.earliestStartDate();
+
+	if (window.startDate < earliestStartDate) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${label} ${window.startDate} is more than ${ANALYTICS_LOOKBACK_DAYS} days ago. Pinterest only returns analytics from ${earliestStartDate} onwards.`,
+			{ itemIndex },
+		);
+	}
+}
+
+function formatDate(
+	this: IExecuteFunctions,
+	date: string | Date,
+	timeZone: string | undefined,
+	itemIndex: number,
+): string {
+	try {
+		return DataTransformer.formatDateForApi(date, timeZone);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), error.message, { itemIndex });
+	}
+}
@@ -0,0 +1,156 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AnalyticsParams } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { AnalyticsStatistics } from '../../utils/AnalyticsStatistics';
+import { fetchAnalyticsRange, readAnalyticsRange } from './analytics-range';
+
+/**
+ * Weekday names in the order of Date.getUTCDay
+ */
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Get best time to post operation handler
+ * Recommends weekdays to post on from the account's daily analytics and the creation times of
+ * its pins. Days on which a pin was created are compared with the days of the same weekday on
+ * which nothing was posted, so weekly patterns do not count as lift. Weekdays with too few days
+ * on either side are flagged instead of getting a lift. A weekday is recommended when the lower
+ * bound of the 95% confidence interval of its lift is above zero.
+ */
+export async function getBestTimeToPost(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const metric = this.getNodeParameter('bestTimeMetric', itemIndex, 'engagementRate') as string;
+	const options = this.getNodeParameter('bestTimeOptions', itemIndex, {}) as IDataObject;
+	const maxPins = (options.maxPins as number) ?? 1000;
+	const minPostingDays = (options.minPostingDays as number) ?? 2;
+
+	if (maxPins < 1) {
+		throw new NodeOperationError(this.getNode(), 'Max pins must be at least 1', { itemIndex });
+	}
+	if (minPostingDays < 2) {
+		throw new NodeOperationError(this.getNode(), 'Minimum posting days must be at least 2', {
+			itemIndex,
+		});
+	}
+
+	const range = readAnalyticsRange.call(this, itemIndex);
+	const timezone = range.timezone ?? this.getTimezone();
+
+	const analyticsParams: Omit<AnalyticsParams, 'start_date' | 'end_date'> = {
+		metric_types: metric === 'engagementRate' ? ['ENGAGEMENT', 'IMPRESSION'] : [metric],
+	};
+	const analytics = await fetchAnalyticsRange(range, analyticsParams, (params) =>
+		apiClient.getUserAnalytics(params),
+	);
+
+	// Pins are counted on the day they were created in the range's timezone
+	const pins = await apiClient.fetchAllPages(
+		async (bookmark) => await apiClient.getUserPins({ limit: 250, bookmark }),
+		maxPins,
+	);
+	const pinsPerDay = new Map<string, number>();
+	for (const pin of pins) {
+		if (!pin.created_at) {
+			continue;
+		}
+
+		const day = DataTransformer.formatDateForApi(pin.created_at, timezone);
+		if (day >= range.startDate && day <= range.endDate) {
+			pinsPerDay.set(day, (pinsPerDay.get(day) || 0) + 1);
+		}
+	}
+
+	// Daily values of the chosen metric, skipping days without a value
+	const days: Array<{ date: string; weekday: number; value: number; pinsCreated: number }> = [];
+	for (const day of analytics.daily_metrics || []) {
+		const date = typeof day.date === 'string' ? day.date.substring(0, 10) : '';
+		const metrics = DataTransformer.getDailyMetricValues(day);
+		const value =
+			metric === 'engagementRate'
+				? DataTransformer.calculateAnalyticsKpis(metrics).engagementRate
+				: metrics[metric];
+
+		if (date && typeof value === 'number') {
+			days.push({
+				date,
+				weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+				value,
+				pinsCreated: pinsPerDay.get(date) || 0,
+			});
+		}
+	}
+
+	const weekdays = WEEKDAYS.map((weekday, weekdayIndex) => {
+		const weekdayDays = days.filter((day) => day.weekday === weekdayIndex);
+		const postingDays = weekdayDays.filter((day) => day.pinsCreated > 0);
+		const baseline = weekdayDays.filter((day) => day.pinsCreated === 0).map((day) => day.value);
+		const insufficientData =
+			postingDays.length < minPostingDays || baseline.length < minPostingDays;
+		const comparison = insufficientData
+			? null
+			: AnalyticsStatistics.compareMeans(
+					postingDays.map((day) => day.value),
+					baseline,
+				);
+
+		return {
+			weekday,
+			// ISO weekday number, Monday is 1 and Sunday is 7
+			weekdayNumber: weekdayIndex === 0 ? 7 : weekdayIndex,
+			recommended: (comparison?.liftLower ?? 0) > 0,
+			insufficientData,
+			metric,
+			days: weekdayDays.length,
+			postingDays: postingDays.length,
+			baselineDays: baseline.length,
+			pinsCreated: postingDays.reduce((sum, day) => sum + day.pinsCreated, 0),
+			average: AnalyticsStatistics.mean(weekdayDays.map((day) => day.value)),
+			postingDayAverage:
+				comparison?.mean ?? AnalyticsStatistics.mean(postingDays.map((day) => day.value)),
+			baselineAverage: comparison?.baselineMean ?? AnalyticsStatistics.mean(baseline),
+			expectedLift: comparison?.lift ?? null,
+			liftLower: comparison?.liftLower ?? null,
+			liftUpper: comparison?.liftUpper ?? null,
+			confidenceLevel: 0.95,
+		};
+	});
+
+	// Best expected lift first; weekdays without enough data go last in weekday order
+	const ranked = [...weekdays].sort(
+		(a, b) =>
+			(b.expectedLift ?? -Infinity) - (a.expectedLift ?? -Infinity) ||
+			a.weekdayNumber - b.weekdayNumber,
+	);
+
+	const results: INodeExecutionData[] = ranked.map((weekday) => ({
+		json: weekday,
+		pairedItem: { item: itemIndex },
+	}));
+
+	results.push({
+		json: {
+			operation: 'getBestTimeToPost',
+			metric,
+			startDate: range.startDate,
+			endDate: range.endDate,
+			timezone,
+			days: days.length,
+			postingDays: days.filter((day) => day.pinsCreated > 0).length,
+			pinsCreated: [...pinsPerDay.values()].reduce((sum, count) => sum + count, 0),
+			recommendedDays: ranked
+				.filter((weekday) => weekday.recommended)
+				.map(({ weekday }) => weekday),
+			insufficientDataDays: weekdays
+				.filter((weekday) => weekday.insufficientData)
+				.map(({ weekday }) => weekday),
+		},
+		pairedItem: { item: itemIndex },
+	});
+
+	return results;
+}
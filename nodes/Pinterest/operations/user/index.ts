@@ -4,3 +4,5 @@ export * from './profile.operation';
 export * from './analytics.operation';
 export * from './pin-analytics.operation';
 export * from './board-analytics.operation';
+export * from './top-pins.operation';
+export * from './best-time.operation';
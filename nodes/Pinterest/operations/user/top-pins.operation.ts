@@ -0,0 +1,182 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from '../../utils/PinterestApiClient';
+import type { AnalyticsParams, PinResponse } from '../../utils/types';
+import { DataTransformer } from '../../utils/DataTransformer';
+import { BatchProcessor, CancellationToken } from '../../utils/BatchProcessor';
+import { ResourceLocator } from '../../utils/ResourceLocator';
+import { fetchAnalyticsRange, readAnalyticsRange } from './analytics-range';
+
+/**
+ * Metrics requested for every pin, so each ranked pin can be compared on all of them
+ */
+const TOP_PINS_METRICS = ['IMPRESSION', 'OUTBOUND_CLICK', 'PIN_CLICK', 'SAVE'];
+
+/**
+ * Get top pins operation handler
+ * Ranks the pins of a board, or a list of pins, by one metric over a date range. Pin analytics
+ * are fetched through the batch processor with low concurrency, and pins whose analytics could
+ * not be fetched are listed in the summary item that follows the ranked pins. Boards with more
+ * pins than the maximum are ranked on their first pins, which the summary marks as truncated.
+ */
+export async function getTopPins(
+	this: IExecuteFunctions,
+	apiClient: PinterestApiClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const source = this.getNodeParameter('topPinsSource', itemIndex, 'board') as string;
+	const metric = this.getNodeParameter('rankBy', itemIndex, 'IMPRESSION') as string;
+	const limit = this.getNodeParameter('limit', itemIndex, 50) as number;
+	const options = this.getNodeParameter('topPinsOptions', itemIndex, {}) as IDataObject;
+	const maxPins = (options.maxPins as number) ?? 250;
+	const maxConcurrency = (options.maxConcurrency as number) ?? 2;
+
+	if (limit < 1) {
+		throw new NodeOperationError(this.getNode(), 'Limit must be at least 1', { itemIndex });
+	}
+	if (maxPins < 1) {
+		throw new NodeOperationError(this.getNode(), 'Max pins must be at least 1', { itemIndex });
+	}
+
+	const range = readAnalyticsRange.call(this, itemIndex);
+
+	// Pins listed by ID are fetched with their analytics, board pins come with their metadata
+	const knownPins = new Map<string, PinResponse>();
+	let pinIds: string[];
+	let truncated = false;
+	let boardPinCount: number | null = null;
+
+	if (source === 'pinIds') {
+		pinIds = readPinIds.call(this, itemIndex);
+
+		if (pinIds.length > maxPins) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Top pins can rank at most ${maxPins} pins, got ${pinIds.length}`,
+				{ itemIndex },
+			);
+		}
+	} else {
+		const boardId = await ResourceLocator.getBoardId(
+			this.getNode(),
+			apiClient,
+			this.getNodeParameter('boardId', itemIndex, ''),
+			itemIndex,
+		);
+		if (!boardId) {
+			throw new NodeOperationError(this.getNode(), 'Board ID is required for top pins', {
+				itemIndex,
+			});
+		}
+
+		// One pin more than the maximum tells whether the board has pins that are left out
+		const pins = await apiClient.fetchAllPages(
+			async (bookmark) =>
+				await apiClient.getBoardPins(boardId, { limit: Math.min(maxPins + 1, 250), bookmark }),
+			maxPins + 1,
+		);
+		truncated = pins.length > maxPins;
+		for (const pin of pins.slice(0, maxPins)) {
+			knownPins.set(pin.id, pin);
+		}
+		pinIds = [...knownPins.keys()];
+		boardPinCount = truncated ? (await apiClient.getBoard(boardId)).pin_count : pins.length;
+	}
+
+	const analyticsParams: Omit<AnalyticsParams, 'start_date' | 'end_date'> = {
+		metric_types: TOP_PINS_METRICS.includes(metric)
+			? TOP_PINS_METRICS
+			: [...TOP_PINS_METRICS, metric],
+	};
+
+	// The client already waits for the rate limit and retries throttled requests, so pins are
+	// tried once and a few at a time
+	const batchResult = await new BatchProcessor(this, apiClient).processBatch(
+		pinIds,
+		async (pinId) => {
+			const analytics = await fetchAnalyticsRange(range, analyticsParams, (params) =>
+				apiClient.getPinAnalytics(pinId, params),
+			);
+			const pin = knownPins.get(pinId) ?? (await apiClient.getPin(pinId));
+			const [segment] = DataTransformer.getAnalyticsSegments(analytics);
+			const metrics =
+				segment?.analytics.all_time || DataTransformer.sumDailyMetrics(segment?.analytics || {});
+
+			return { pin, metrics };
+		},
+		{ maxBatchSize: 50, maxConcurrency, retryAttempts: 1, enableOptimization: true },
+		new CancellationToken(),
+	);
+
+	const value = (metrics: IDataObject) =>
+		typeof metrics[metric] === 'number' ? (metrics[metric] as number) : 0;
+	const ranked = [...batchResult.success].sort(
+		(a, b) => value(b.metrics) - value(a.metrics) || a.pin.id.localeCompare(b.pin.id),
+	);
+	const total = ranked.reduce((sum, { metrics }) => sum + value(metrics), 0);
+
+	// Pins with the same value share a rank
+	let rank = 0;
+	const results: INodeExecutionData[] = ranked.slice(0, limit).map(({ pin, metrics }, index) => {
+		if (index === 0 || value(metrics) !== value(ranked[index - 1].metrics)) {
+			rank = index + 1;
+		}
+
+		return {
+			json: {
+				rank,
+				metric,
+				value: value(metrics),
+				shareOfTotal: total > 0 ? value(metrics) / total : null,
+				...DataTransformer.transformPinResponse(pin),
+				metrics,
+			},
+			pairedItem: { item: itemIndex },
+		};
+	});
+
+	results.push({
+		json: {
+			operation: 'getTopPins',
+			metric,
+			startDate: range.startDate,
+			endDate: range.endDate,
+			totalPins: pinIds.length,
+			rankedPins: ranked.length,
+			truncated,
+			boardPinCount,
+			total,
+			errorCount: batchResult.errors.length,
+			errors: batchResult.errors,
+		},
+		pairedItem: { item: itemIndex },
+	});
+
+	return results;
+}
+
+/**
+ * Reads the pin IDs to rank from a comma-separated string or an array
+ */
+function readPinIds(this: IExecuteFunctions, itemIndex: number): string[] {
+	const pinIdsParam = this.getNodeParameter('pinIds', itemIndex, '') as string | string[];
+	const pinIds = (typeof pinIdsParam === 'string' ? pinIdsParam.split(',') : pinIdsParam)
+		.map((id) => String(id).trim())
+		.filter((id) => id.length > 0);
+
+	if (pinIds.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'At least one pin ID is required', {
+			itemIndex,
+		});
+	}
+
+	for (const pinId of pinIds) {
+		if (!/^[a-zA-Z0-9_-]+$/.test(pinId)) {
+			throw new NodeOperationError(this.getNode(), `Invalid pin ID format: ${pinId}`, {
+				itemIndex,
+			});
+		}
+	}
+
+	return [...new Set(pinIds)];
+}
@@ -0,0 +1,152 @@
+import { DataTransformer } from './DataTransformer';
+
+/**
+ * Relative date ranges offered by the analytics operations
+ */
+export const ANALYTICS_DATE_PRESETS = [
+	'last7Days',
+	'last30Days',
+	'last90Days',
+	'monthToDate',
+	'previousMonth',
+] as const;
+
+export type AnalyticsDatePreset = (typeof ANALYTICS_DATE_PRESETS)[number];
+
+/**
+ * Pinterest returns at most 90 days of analytics per request
+ */
+export const MAX_ANALYTICS_DAYS_PER_REQUEST = 90;
+
+/**
+ * Pinterest rejects analytics requests that start more than this many days before today (UTC)
+ */
+export const ANALYTICS_LOOKBACK_DAYS = 914;
+
+/**
+ * An inclusive range of calendar days in YYYY-MM-DD format
+ */
+export interface AnalyticsDateWindow {
+	startDate: string;
+	endDate: string;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves relative analytics date ranges and splits long ranges into ranges Pinterest accepts.
+ * Days are handled as calendar dates, so the arithmetic does not depend on the server timezone.
+ */
+export class AnalyticsDateRange {
+	/**
+	 * Resolve a relative range against the current day in the given timezone. The "last N days"
+	 * ranges end yesterday, so they only cover complete days; month to date includes today.
+	 * @param preset Relative date range
+	 * @param timeZone IANA timezone that decides which day today is
+	 * @param now Current time, for tests
+	 */
+	static resolvePreset(
+		preset: AnalyticsDatePreset,
+		timeZone: string,
+		now: Date = new Date(),
+	): AnalyticsDateWindow {
+		const today = DataTransformer.formatDateForApi(now, timeZone);
+		const yesterday = AnalyticsDateRange.addDays(today, -1);
+		const firstOfMonth = `${today.substring(0, 8)}01`;
+
+		switch (preset) {
+			case 'last7Days':
+				return { startDate: AnalyticsDateRange.addDays(today, -7), endDate: yesterday };
+			case 'last30Days':
+				return { startDate: AnalyticsDateRange.addDays(today, -30), endDate: yesterday };
+			case 'last90Days':
+				return { startDate: AnalyticsDateRange.addDays(today, -90), endDate: yesterday };
+			case 'monthToDate':
+				return { startDate: firstOfMonth, endDate: today };
+			case 'previousMonth': {
+				const endDate = AnalyticsDateRange.addDays(firstOfMonth, -1);
+				return { startDate: `${endDate.substring(0, 8)}01`, endDate };
+			}
+			default:
+				throw new Error(`Unsupported date range: ${preset}`);
+		}
+	}
+
+	/**
+	 * The earliest start date Pinterest accepts for an analytics request
+	 * @param now Current time, for tests
+	 */
+	static earliestStartDate(now: Date = new Date()): string {
+		return AnalyticsDateRange.addDays(now.toISOString().substring(0, 10), -ANALYTICS_LOOKBACK_DAYS);
+	}
+
+	/**
+	 * The range of the same length that ends the day before the given range starts
+	 */
+	static previousPeriod(window: AnalyticsDateWindow): AnalyticsDateWindow {
+		return {
+			startDate: AnalyticsDateRange.addDays(
+				window.startDate,
+				-AnalyticsDateRange.countDays(window),
+			),
+			endDate: AnalyticsDateRange.addDays(window.startDate, -1),
+		};
+	}
+
+	/**
+	 * The same calendar days one year earlier. 29 February becomes 28 February.
+	 */
+	static previousYear(window: AnalyticsDateWindow): AnalyticsDateWindow {
+		const shift = (date: string) => {
+			const year = String(Number(date.substring(0, 4)) - 1).padStart(4, '0');
+			const monthDay = date.substring(5);
+			return `${year}-${monthDay === '02-29' ? '02-28' : monthDay}`;
+		};
+
+		return { startDate: shift(window.startDate), endDate: shift(window.endDate) };
+	}
+
+	/**
+	 * Split a range into consecutive ranges of at most the given number of days
+	 * @param window Inclusive date range
+	 * @param maxDays Maximum number of days per range
+	 */
+	static split(
+		window: AnalyticsDateWindow,
+		maxDays: number = MAX_ANALYTICS_DAYS_PER_REQUEST,
+	): AnalyticsDateWindow[] {
+		const windows: AnalyticsDateWindow[] = [];
+
+		let startDate = window.startDate;
+		while (startDate <= window.endDate) {
+			const chunkEnd = AnalyticsDateRange.addDays(startDate, maxDays - 1);
+			const endDate = chunkEnd < window.endDate ? chunkEnd : window.endDate;
+
+			windows.push({ startDate, endDate });
+			startDate = AnalyticsDateRange.addDays(endDate, 1);
+		}
+
+		return windows;
+	}
+
+	/**
+	 * Number of days in an inclusive range
+	 */
+	static countDays(window: AnalyticsDateWindow): number {
+		return (
+			Math.round(
+				(Date.parse(`${window.endDate}T00:00:00Z`) - Date.parse(`${window.startDate}T00:00:00Z`)) /
+					DAY_IN_MS,
+			) + 1
+		);
+	}
+
+	/**
+	 * Add a number of days to a YYYY-MM-DD date
+	 */
+	static addDays(date: string, days: number): string {
+		return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_IN_MS)
+			.toISOString()
+			.substring(0, 10);
+	}
+}
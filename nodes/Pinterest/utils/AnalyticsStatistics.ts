@@ -0,0 +1,307 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Anomaly detection methods. Rolling z-score compares a day with the mean and standard deviation
+ * of the days before it; seasonal median compares it with the median of the same weekday in the
+ * weeks before it, which keeps weekly patterns from being flagged.
+ */
+export const ANOMALY_METHODS = ['rollingZScore', 'seasonalMedian'] as const;
+
+export type AnomalyMethod = (typeof ANOMALY_METHODS)[number];
+
+export const ANOMALY_DIRECTIONS = ['both', 'drops', 'spikes'] as const;
+
+export type AnomalyDirection = (typeof ANOMALY_DIRECTIONS)[number];
+
+/**
+ * Settings of the anomaly detector, with the metrics whose daily series are checked
+ */
+export interface AnomalyDetectionOptions {
+	method: AnomalyMethod;
+	direction: AnomalyDirection;
+	threshold: number;
+	windowDays: number;
+	metrics: string[];
+}
+
+/**
+ * One day of a daily metric series in YYYY-MM-DD format
+ */
+export interface AnalyticsSeriesPoint {
+	date: string;
+	value: number;
+}
+
+/**
+ * A day whose value deviates from the expected value by at least the threshold. Severity is high
+ * from twice the threshold and medium from one and a half times the threshold.
+ */
+export interface AnalyticsAnomaly {
+	date: string;
+	value: number;
+	expected: number;
+	deviation: number;
+	deviationPercent: number | null;
+	score: number;
+	direction: 'drop' | 'spike';
+	severity: 'low' | 'medium' | 'high';
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scales the median absolute deviation to the standard deviation of normally distributed data
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Lower bound of the spread relative to the expected value, so that a change after a perfectly
+ * flat history still gets a finite score
+ */
+const MIN_RELATIVE_SPREAD = 0.01;
+
+/**
+ * Two-sided 95% critical values of Student's t distribution for 1 to 30 degrees of freedom
+ */
+const T_CRITICAL_95 = [
+	12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145,
+	2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048,
+	2.045, 2.042,
+];
+
+/**
+ * Difference between the mean of a sample and the mean of a baseline, with its 95% confidence
+ * interval. Lift is the difference relative to the baseline mean.
+ */
+export interface MeanComparison {
+	mean: number;
+	baselineMean: number;
+	difference: number;
+	lower: number;
+	upper: number;
+	lift: number | null;
+	liftLower: number | null;
+	liftUpper: number | null;
+}
+
+/**
+ * Statistics and anomaly detection for analytics series. Everything is computed locally on the
+ * fetched values, so results are only as reliable as the number of days they are based on.
+ */
+export class AnalyticsStatistics {
+	/**
+	 * Arithmetic mean, or null for an empty sample
+	 */
+	static mean(values: number[]): number | null {
+		if (values.length === 0) {
+			return null;
+		}
+
+		return values.reduce((sum, value) => sum + value, 0) / values.length;
+	}
+
+	/**
+	 * Sample variance with Bessel's correction, or null for fewer than two values
+	 */
+	static variance(values: number[]): number | null {
+		const mean = AnalyticsStatistics.mean(values);
+		if (mean === null || values.length < 2) {
+			return null;
+		}
+
+		return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+	}
+
+	/**
+	 * Two-sided 95% critical value of Student's t distribution. Fractional degrees of freedom are
+	 * rounded down, which widens the interval slightly.
+	 */
+	static tCritical95(degreesOfFreedom: number): number {
+		const df = Math.max(1, Math.floor(degreesOfFreedom));
+
+		if (df <= T_CRITICAL_95.length) {
+			return T_CRITICAL_95[df - 1];
+		}
+		if (df <= 40) {
+			return 2.021;
+		}
+		if (df <= 60) {
+			return 2.0;
+		}
+		if (df <= 120) {
+			return 1.98;
+		}
+		return 1.96;
+	}
+
+	/**
+	 * Compare the mean of a sample with the mean of a baseline using Welch's t interval, which does
+	 * not assume equal variances. Returns null when either side has fewer than two values. The lift
+	 * interval divides the difference interval by the baseline mean and is null when that mean is
+	 * not positive.
+	 * @param sample Values of the group being evaluated
+	 * @param baseline Values the group is compared to
+	 */
+	static compareMeans(sample: number[], baseline: number[]): MeanComparison | null {
+		const mean = AnalyticsStatistics.mean(sample);
+		const baselineMean = AnalyticsStatistics.mean(baseline);
+		const variance = AnalyticsStatistics.variance(sample);
+		const baselineVariance = AnalyticsStatistics.variance(baseline);
+		if (mean === null || baselineMean === null || variance === null || baselineVariance === null) {
+			return null;
+		}
+
+		const sampleTerm = variance / sample.length;
+		const baselineTerm = baselineVariance / baseline.length;
+		const standardError = Math.sqrt(sampleTerm + baselineTerm);
+
+		// Welch-Satterthwaite degrees of freedom, falling back to the pooled count for constant series
+		const degreesOfFreedom =
+			standardError > 0
+				? (sampleTerm + baselineTerm) ** 2 /
+					(sampleTerm ** 2 / (sample.length - 1) + baselineTerm ** 2 / (baseline.length - 1))
+				: sample.length + baseline.length - 2;
+
+		const difference = mean - baselineMean;
+		const margin = AnalyticsStatistics.tCritical95(degreesOfFreedom) * standardError;
+		const relative = (value: number) => (baselineMean > 0 ? value / baselineMean : null);
+
+		return {
+			mean,
+			baselineMean,
+			difference,
+			lower: difference - margin,
+			upper: difference + margin,
+			lift: relative(difference),
+			liftLower: relative(difference - margin),
+			liftUpper: relative(difference + margin),
+		};
+	}
+
+	/**
+	 * Median, or null for an empty sample
+	 */
+	static median(values: number[]): number | null {
+		if (values.length === 0) {
+			return null;
+		}
+
+		const sorted = [...values].sort((a, b) => a - b);
+		const middle = Math.floor(sorted.length / 2);
+
+		return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+	}
+
+	/**
+	 * Validate anomaly detection settings and fill in the defaults
+	 * @param options Settings as entered in the node, all optional
+	 */
+	static resolveAnomalyOptions(options: IDataObject): AnomalyDetectionOptions {
+		const method = (options.method as AnomalyMethod) || 'rollingZScore';
+		const direction = (options.direction as AnomalyDirection) || 'drops';
+		const threshold = (options.threshold as number) ?? 3;
+		const windowDays = (options.windowDays as number) ?? 28;
+		const metrics = (options.metrics as string[]) ?? ['IMPRESSION', 'SAVE'];
+
+		if (!ANOMALY_METHODS.includes(method)) {
+			throw new Error(`Unsupported anomaly method: ${method}`);
+		}
+		if (!ANOMALY_DIRECTIONS.includes(direction)) {
+			throw new Error(`Unsupported anomaly direction: ${direction}`);
+		}
+		if (!(threshold > 0)) {
+			throw new Error('Anomaly threshold must be greater than 0');
+		}
+		if (!(windowDays >= 3)) {
+			throw new Error('Anomaly window must be at least 3 days');
+		}
+		if (method === 'seasonalMedian' && windowDays < 21) {
+			throw new Error('Seasonal median detection needs a window of at least 21 days');
+		}
+		if (metrics.length === 0) {
+			throw new Error('At least one anomaly metric is required');
+		}
+
+		return { method, direction, threshold, windowDays, metrics };
+	}
+
+	/**
+	 * Flag the days of a daily series that deviate from what the days before them predict. Each day
+	 * is compared with the days of the window before it, so the first days of a series are never
+	 * flagged. Rolling z-score needs half the window as history and seasonal median needs three
+	 * earlier values of the same weekday. Days after a history of zeros are skipped.
+	 * @param series Daily values, in any order
+	 * @param options Detection settings
+	 */
+	static detectAnomalies(
+		series: AnalyticsSeriesPoint[],
+		options: Omit<AnomalyDetectionOptions, 'metrics'>,
+	): AnalyticsAnomaly[] {
+		const points = [...series].sort((a, b) => a.date.localeCompare(b.date));
+		const seasonal = options.method === 'seasonalMedian';
+		const minHistory = seasonal ? 3 : Math.max(3, Math.ceil(options.windowDays / 2));
+		const anomalies: AnalyticsAnomaly[] = [];
+
+		points.forEach((point, index) => {
+			const time = Date.parse(`${point.date}T00:00:00Z`);
+			const history = points
+				.slice(0, index)
+				.filter((previous) => {
+					const daysBefore = Math.round(
+						(time - Date.parse(`${previous.date}T00:00:00Z`)) / DAY_IN_MS,
+					);
+					return daysBefore <= options.windowDays && (!seasonal || daysBefore % 7 === 0);
+				})
+				.map(({ value }) => value);
+
+			if (history.length < minHistory) {
+				return;
+			}
+
+			let expected: number;
+			let spread: number;
+			if (seasonal) {
+				expected = AnalyticsStatistics.median(history)!;
+				spread =
+					MAD_SCALE *
+					AnalyticsStatistics.median(history.map((value) => Math.abs(value - expected)))!;
+			} else {
+				expected = AnalyticsStatistics.mean(history)!;
+				spread = Math.sqrt(AnalyticsStatistics.variance(history)!);
+			}
+
+			const scale = Math.max(spread, Math.abs(expected) * MIN_RELATIVE_SPREAD);
+			if (scale === 0) {
+				return;
+			}
+
+			const deviation = point.value - expected;
+			const score = deviation / scale;
+			if (
+				Math.abs(score) < options.threshold ||
+				(options.direction === 'drops' && deviation >= 0) ||
+				(options.direction === 'spikes' && deviation <= 0)
+			) {
+				return;
+			}
+
+			anomalies.push({
+				date: point.date,
+				value: point.value,
+				expected,
+				deviation,
+				deviationPercent: expected !== 0 ? (deviation / expected) * 100 : null,
+				score,
+				direction: deviation < 0 ? 'drop' : 'spike',
+				severity:
+					Math.abs(score) >= 2 * options.threshold
+						? 'high'
+						: Math.abs(score) >= 1.5 * options.threshold
+							? 'medium'
+							: 'low',
+			});
+		});
+
+		return anomalies;
+	}
+}
@@ -12,10 +12,15 @@ export class AuditLogger {
 		'pin:create',
 		'pin:update',
 		'pin:delete',
+		'pin:save',
 		'board:create',
 		'board:update',
 		'board:delete',
 		'user:getAnalytics',
+		'conversionEvent:send',
+		'catalog:delete',
+		'audience:create',
+		'audience:update',
 		'credential:validate',
 		'credential:refresh',
 		'auth:failure',
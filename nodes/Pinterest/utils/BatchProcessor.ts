@@ -1,6 +1,30 @@
 import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type { PinterestApiClient } from './PinterestApiClient';
+import { ErrorHandler } from './ErrorHandler';
+import type {
+	AudienceMemberRow,
+	BoardResponse,
+	BoardSectionResponse,
+	BulkBoardCreateRow,
+	BulkPinCreateRow,
+	CatalogItemRow,
+	CatalogItemsBatchRequest,
+	CatalogItemsBatchResponse,
+	CustomerListOperation,
+	CustomerListResponse,
+	PinResponse,
+} from './types';
+
+/**
+ * Maximum number of items Pinterest accepts in one catalog items batch request
+ */
+export const MAX_CATALOG_ITEMS_PER_BATCH = 1000;
+
+/**
+ * Maximum number of records sent in one customer list upload
+ */
+export const MAX_AUDIENCE_RECORDS_PER_REQUEST = 5000;
 
 /**
  * Batch operation configuration
@@ -100,11 +124,14 @@ export class BatchProcessor {
 
 	private cache = new Map<string, any>();
 	private duplicateTracker = new Set<string>();
+	private errorHandler: ErrorHandler;
 
 	constructor(
 		private executeFunctions: IExecuteFunctions,
 		private apiClient: PinterestApiClient,
-	) {}
+	) {
+		this.errorHandler = new ErrorHandler(executeFunctions.getNode());
+	}
 
 	/**
 	 * Process batch operation with optimization and progress tracking
@@ -114,6 +141,7 @@ export class BatchProcessor {
 		processor: (item: TInput, index: number) => Promise<TOutput>,
 		config: Partial<BatchConfig> = {},
 		cancellationToken?: CancellationToken,
+		getItemId: (item: TInput) => string = String,
 	): Promise<BatchResult<TOutput>> {
 		const finalConfig = { ...this.defaultConfig, ...config };
 		const startTime = Date.now();
@@ -162,6 +190,7 @@ export class BatchProcessor {
 				processor,
 				finalConfig,
 				cancellationToken,
+				getItemId,
 			);
 
 			// Collect results and errors
@@ -203,7 +232,7 @@ export class BatchProcessor {
 	 */
 	async processPinBatch(
 		pinIds: string[],
-		operation: 'get' | 'update' | 'delete',
+		operation: 'get' | 'update' | 'delete' | 'save',
 		operationData?: any,
 		config: Partial<BatchConfig> = {},
 		cancellationToken?: CancellationToken,
@@ -217,6 +246,9 @@ export class BatchProcessor {
 				case 'delete':
 					await this.apiClient.deletePin(pinId);
 					return { deleted: true, pinId };
+				case 'save':
+					// Saving creates a new pin, so keep the pin it was saved from
+					return { sourcePinId: pinId, pin: await this.apiClient.savePin(pinId, operationData) };
 				default:
 					throw new Error(`Unsupported pin operation: ${operation}`);
 			}
@@ -225,6 +257,24 @@ export class BatchProcessor {
 		return await this.processBatch(pinIds, processor, config, cancellationToken);
 	}
 
+	/**
+	 * Create pins in batches, keeping the input row index on every result and error
+	 */
+	async processPinCreateBatch(
+		rows: BulkPinCreateRow[],
+		config: Partial<BatchConfig> = {},
+		cancellationToken?: CancellationToken,
+	): Promise<BatchResult<{ rowIndex: number; pin: PinResponse }>> {
+		const processor = async (row: BulkPinCreateRow) => ({
+			rowIndex: row.rowIndex,
+			pin: await this.apiClient.createPin(row.pinData),
+		});
+
+		return await this.processBatch(rows, processor, config, cancellationToken, (row) =>
+			String(row.rowIndex),
+		);
+	}
+
 	/**
 	 * Process batch of boards with intelligent optimization
 	 */
@@ -252,6 +302,113 @@ export class BatchProcessor {
 		return await this.processBatch(boardIds, processor, config, cancellationToken);
 	}
 
+	/**
+	 * Create boards and their sections in batches, keeping the input row index on every result.
+	 * Section failures are collected on the row instead of failing it, so a retry never
+	 * creates the board twice.
+	 */
+	async processBoardCreateBatch(
+		rows: BulkBoardCreateRow[],
+		config: Partial<BatchConfig> = {},
+		cancellationToken?: CancellationToken,
+	): Promise<
+		BatchResult<{
+			rowIndex: number;
+			board: BoardResponse;
+			sections: BoardSectionResponse[];
+			sectionErrors: Array<{ name: string; error: string }>;
+		}>
+	> {
+		const processor = async (row: BulkBoardCreateRow) => {
+			const board = await this.apiClient.createBoard(row.boardData);
+			const sections: BoardSectionResponse[] = [];
+			const sectionErrors: Array<{ name: string; error: string }> = [];
+
+			for (const name of row.sectionNames) {
+				try {
+					sections.push(await this.apiClient.createBoardSection(board.id, { name }));
+				} catch (error) {
+					sectionErrors.push({
+						name,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+
+			return { rowIndex: row.rowIndex, board, sections, sectionErrors };
+		};
+
+		return await this.processBatch(rows, processor, config, cancellationToken, (row) =>
+			String(row.rowIndex),
+		);
+	}
+
+	/**
+	 * Upsert or delete catalog items, sending up to itemsPerRequest items in each batch request.
+	 * Every result keeps the input rows of its request, and the item ID of a failed request
+	 * lists those row indexes separated by commas.
+	 */
+	async processCatalogItemBatch(
+		rows: CatalogItemRow[],
+		request: Omit<CatalogItemsBatchRequest, 'items'>,
+		itemsPerRequest = MAX_CATALOG_ITEMS_PER_BATCH,
+		config: Partial<BatchConfig> = {},
+		cancellationToken?: CancellationToken,
+	): Promise<BatchResult<{ rows: CatalogItemRow[]; batch: CatalogItemsBatchResponse }>> {
+		const chunks = this.createBatches(
+			rows,
+			Math.min(Math.max(Math.floor(itemsPerRequest), 1), MAX_CATALOG_ITEMS_PER_BATCH),
+		);
+
+		const processor = async (chunk: CatalogItemRow[]) => ({
+			rows: chunk,
+			batch: await this.apiClient.sendCatalogItemsBatch({
+				...request,
+				items: chunk.map(({ itemId, attributes }) =>
+					request.operation === 'DELETE'
+						? { item_id: itemId }
+						: { item_id: itemId, attributes: attributes || {} },
+				),
+			}),
+		});
+
+		return await this.processBatch(chunks, processor, config, cancellationToken, (chunk) =>
+			chunk.map((row) => row.rowIndex).join(','),
+		);
+	}
+
+	/**
+	 * Add records to or remove records from a customer list, sending up to recordsPerRequest
+	 * hashed records in each request. Every result keeps the input rows of its request, and the
+	 * item ID of a failed request lists those row indexes separated by commas.
+	 */
+	async processAudienceMemberBatch(
+		adAccountId: string,
+		customerListId: string,
+		rows: AudienceMemberRow[],
+		operationType: CustomerListOperation,
+		recordsPerRequest = MAX_AUDIENCE_RECORDS_PER_REQUEST,
+		config: Partial<BatchConfig> = {},
+		cancellationToken?: CancellationToken,
+	): Promise<BatchResult<{ rows: AudienceMemberRow[]; customerList: CustomerListResponse }>> {
+		const chunks = this.createBatches(
+			rows,
+			Math.min(Math.max(Math.floor(recordsPerRequest), 1), MAX_AUDIENCE_RECORDS_PER_REQUEST),
+		);
+
+		const processor = async (chunk: AudienceMemberRow[]) => ({
+			rows: chunk,
+			customerList: await this.apiClient.updateCustomerList(adAccountId, customerListId, {
+				records: chunk.map((row) => row.record).join(','),
+				operation_type: operationType,
+			}),
+		});
+
+		return await this.processBatch(chunks, processor, config, cancellationToken, (chunk) =>
+			chunk.map((row) => row.rowIndex).join(','),
+		);
+	}
+
 	/**
 	 * Optimize items by removing duplicates and applying caching
 	 */
@@ -288,6 +445,7 @@ export class BatchProcessor {
 		processor: (item: TInput, index: number) => Promise<TOutput>,
 		config: BatchConfig,
 		cancellationToken?: CancellationToken,
+		getItemId: (item: TInput) => string = String,
 	): Promise<Array<{ success: boolean; data?: TOutput; error?: BatchError }>> {
 		const semaphore = new Semaphore(config.maxConcurrency);
 		const promises = batch.map(async (item, index) => {
@@ -298,7 +456,7 @@ export class BatchProcessor {
 					() => processor(item, index),
 					config.retryAttempts,
 					config.retryDelay,
-					String(item),
+					getItemId(item),
 				);
 			});
 		});
@@ -307,7 +465,8 @@ export class BatchProcessor {
 	}
 
 	/**
-	 * Process single item with retry logic
+	 * Process single item with retry logic. Only errors that ErrorHandler considers retryable,
+	 * such as rate limits and server errors, are tried again.
 	 */
 	private async processWithRetry<T>(
 		processor: () => Promise<T>,
@@ -316,14 +475,19 @@ export class BatchProcessor {
 		itemId: string,
 	): Promise<{ success: boolean; data?: T; error?: BatchError }> {
 		let lastError: Error | undefined;
+		let attempt = 0;
 
-		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		while (attempt < Math.max(1, maxAttempts)) {
+			attempt++;
 			try {
 				const result = await processor();
 				return { success: true, data: result };
 			} catch (error) {
 				lastError = error instanceof Error ? error : new Error(String(error));
 
+				if (!this.errorHandler.isRetryableError(lastError)) {
+					break;
+				}
 				if (attempt < maxAttempts) {
 					await this.sleep(delay * attempt); // Exponential backoff
 				}
@@ -335,7 +499,7 @@ export class BatchProcessor {
 			error: {
 				itemId,
 				error: lastError?.message || 'Unknown error',
-				attempt: maxAttempts,
+				attempt,
 				timestamp: Date.now(),
 			},
 		};
@@ -0,0 +1,279 @@
+import type { INode } from 'n8n-workflow';
+import { SecurityValidator } from './SecurityValidator';
+import type { CatalogFeedFormat } from './types';
+
+/**
+ * A catalog item as feed columns, keyed by the Pinterest attribute name
+ */
+export type CatalogFeedItem = Record<string, string>;
+
+/**
+ * Columns every Pinterest product feed must contain, in the order they are written
+ */
+export const REQUIRED_FEED_COLUMNS = [
+	'id',
+	'title',
+	'description',
+	'link',
+	'image_link',
+	'price',
+	'availability',
+];
+
+const MAX_COLUMN_LENGTHS: Record<string, number> = {
+	id: 127,
+	title: 500,
+	description: 10000,
+	link: 2000,
+	image_link: 2000,
+	additional_image_link: 2000,
+	item_group_id: 127,
+	brand: 100,
+	google_product_category: 250,
+	product_type: 750,
+};
+
+const URL_COLUMNS = ['link', 'image_link', 'additional_image_link'];
+
+const AVAILABILITY_VALUES = ['in stock', 'out of stock', 'preorder'];
+
+const PRICE_REGEX = /^(\d+(?:\.\d{1,2})?)\s*([A-Za-z]{3})$/;
+
+const FEED_FILE_TYPES: Record<CatalogFeedFormat, { mimeType: string; extension: string }> = {
+	CSV: { mimeType: 'text/csv', extension: 'csv' },
+	TSV: { mimeType: 'text/tab-separated-values', extension: 'tsv' },
+	XML: { mimeType: 'application/rss+xml', extension: 'xml' },
+};
+
+/**
+ * Intl.supportedValuesOf, which the configured ES libraries do not declare
+ */
+interface IntlSupportedValues {
+	supportedValuesOf(key: 'currency'): string[];
+}
+
+const hasSupportedValues = (intl: typeof Intl): intl is typeof Intl & IntlSupportedValues =>
+	'supportedValuesOf' in intl && typeof intl.supportedValuesOf === 'function';
+
+/**
+ * Validates catalog items against the Pinterest product feed rules and writes them as
+ * CSV, TSV or RSS 2.0 feed files
+ */
+export class CatalogFeedBuilder {
+	private static supportedCurrencies?: Set<string>;
+
+	/**
+	 * Validates and normalizes the columns of one item, returning every problem found
+	 * instead of stopping at the first one
+	 */
+	static validateItem(
+		node: INode,
+		item: CatalogFeedItem,
+	): { item: CatalogFeedItem; errors: string[] } {
+		const validator = new SecurityValidator(node);
+		const normalized: CatalogFeedItem = {};
+		const errors: string[] = [];
+		const invalidColumns = new Set<string>();
+
+		for (const [column, rawValue] of Object.entries(item)) {
+			const value = String(rawValue ?? '').trim();
+			if (value === '') {
+				continue;
+			}
+
+			// Column names become CSV headers and XML element names
+			if (!/^[a-z][a-z0-9_]*$/.test(column)) {
+				errors.push(`Invalid column name: ${column}`);
+				invalidColumns.add(column);
+				continue;
+			}
+
+			const maxLength = MAX_COLUMN_LENGTHS[column];
+			if (maxLength && value.length > maxLength) {
+				errors.push(`${column} must be at most ${maxLength} characters`);
+				invalidColumns.add(column);
+				continue;
+			}
+
+			if (URL_COLUMNS.includes(column)) {
+				try {
+					// Only additional images hold a comma-separated list of URLs
+					const urls = column === 'additional_image_link' ? value.split(',') : [value];
+					normalized[column] = urls
+						.map((url) => validator.sanitizeUrl(url.trim(), column))
+						.filter((url) => url !== '')
+						.join(',');
+				} catch (error) {
+					errors.push(error.message);
+					invalidColumns.add(column);
+				}
+				continue;
+			}
+
+			normalized[column] = value;
+		}
+
+		for (const column of REQUIRED_FEED_COLUMNS) {
+			if (!normalized[column] && !invalidColumns.has(column)) {
+				errors.push(`${column} is required`);
+			}
+		}
+
+		if (normalized.availability) {
+			const availability = normalized.availability.toLowerCase().replace(/_/g, ' ');
+			if (AVAILABILITY_VALUES.includes(availability)) {
+				normalized.availability = availability;
+			} else {
+				errors.push(`availability must be one of: ${AVAILABILITY_VALUES.join(', ')}`);
+			}
+		}
+
+		let currency: string | undefined;
+		let price: number | undefined;
+		for (const column of ['price', 'sale_price']) {
+			if (!normalized[column]) {
+				continue;
+			}
+
+			const match = normalized[column].match(PRICE_REGEX);
+			if (!match) {
+				errors.push(`${column} must be an amount followed by a currency code, such as 24.99 USD`);
+				continue;
+			}
+
+			const code = match[2].toUpperCase();
+			if (!CatalogFeedBuilder.isSupportedCurrency(code)) {
+				errors.push(`${column} has an unknown currency code: ${match[2]}`);
+				continue;
+			}
+
+			if (column === 'price') {
+				currency = code;
+				price = Number(match[1]);
+			} else if (currency && code !== currency) {
+				errors.push('sale_price must use the same currency as price');
+				continue;
+			} else if (price !== undefined && Number(match[1]) > price) {
+				errors.push('sale_price must not be higher than price');
+				continue;
+			}
+
+			normalized[column] = `${Number(match[1]).toFixed(2)} ${code}`;
+		}
+
+		return { item: normalized, errors };
+	}
+
+	/**
+	 * Writes items as a feed file. The required columns come first, followed by the optional
+	 * columns in the order they first appear.
+	 */
+	static build(
+		format: CatalogFeedFormat,
+		items: CatalogFeedItem[],
+		title: string,
+	): { content: string; columns: string[]; mimeType: string; extension: string } {
+		const columns = [...REQUIRED_FEED_COLUMNS];
+		for (const item of items) {
+			for (const column of Object.keys(item)) {
+				if (!columns.includes(column)) {
+					columns.push(column);
+				}
+			}
+		}
+
+		let content: string;
+		switch (format) {
+			case 'TSV':
+				content = CatalogFeedBuilder.toDelimited(columns, items, '\t');
+				break;
+			case 'XML':
+				content = CatalogFeedBuilder.toRss(columns, items, title);
+				break;
+			default:
+				content = CatalogFeedBuilder.toDelimited(columns, items, ',');
+		}
+
+		return { content, columns, ...FEED_FILE_TYPES[format] };
+	}
+
+	/**
+	 * Writes CSV with RFC 4180 quoting, or TSV with tabs and line breaks replaced by spaces
+	 */
+	private static toDelimited(
+		columns: string[],
+		items: CatalogFeedItem[],
+		delimiter: string,
+	): string {
+		const formatValue = (value: string) => {
+			if (delimiter === '\t') {
+				return value.replace(/[\t\r\n]+/g, ' ');
+			}
+			return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+		};
+
+		const lines = [
+			columns.join(delimiter),
+			...items.map((item) =>
+				columns.map((column) => formatValue(item[column] ?? '')).join(delimiter),
+			),
+		];
+
+		return `${lines.join('\r\n')}\r\n`;
+	}
+
+	/**
+	 * Writes an RSS 2.0 feed with the attributes in the Google product namespace, which
+	 * Pinterest reads for XML feeds
+	 */
+	private static toRss(columns: string[], items: CatalogFeedItem[], title: string): string {
+		const escape = (value: string) =>
+			value
+				.replace(/&/g, '&amp;')
+				.replace(/</g, '&lt;')
+				.replace(/>/g, '&gt;')
+				.replace(/"/g, '&quot;')
+				.replace(/'/g, '&apos;');
+
+		const entries = items.map((item) => {
+			const fields = columns
+				.filter((column) => item[column])
+				.flatMap((column) =>
+					// Additional images are repeated elements rather than a comma-separated list
+					(column === 'additional_image_link' ? item[column].split(',') : [item[column]]).map(
+						(value) => `      <g:${column}>${escape(value)}</g:${column}>`,
+					),
+				);
+			return ['    <item>', ...fields, '    </item>'].join('\n');
+		});
+
+		return [
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			'<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+			'  <channel>',
+			`    <title>${escape(title)}</title>`,
+			...entries,
+			'  </channel>',
+			'</rss>',
+			'',
+		].join('\n');
+	}
+
+	/**
+	 * Checks a currency code against the ISO 4217 codes known to the runtime
+	 */
+	private static isSupportedCurrency(code: string): boolean {
+		if (!CatalogFeedBuilder.supportedCurrencies) {
+			const intl = Intl;
+			CatalogFeedBuilder.supportedCurrencies = new Set(
+				hasSupportedValues(intl) ? intl.supportedValuesOf('currency') : [],
+			);
+		}
+
+		// Runtimes without the currency list only get the format check
+		return (
+			CatalogFeedBuilder.supportedCurrencies.size === 0 ||
+			CatalogFeedBuilder.supportedCurrencies.has(code)
+		);
+	}
+}
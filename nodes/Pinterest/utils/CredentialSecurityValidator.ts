@@ -339,6 +339,7 @@ export class CredentialSecurityValidator {
 				create: 'pins:write',
 				update: 'pins:write',
 				delete: 'pins:write',
+				save: 'pins:write',
 				get: 'pins:read',
 			},
 			board: {
@@ -351,6 +352,38 @@ export class CredentialSecurityValidator {
 				getProfile: 'user_accounts:read',
 				getAnalytics: 'user_accounts:read',
 			},
+			adAccount: {
+				get: 'ads:read',
+			},
+			campaign: {
+				create: 'ads:write',
+				update: 'ads:write',
+				get: 'ads:read',
+			},
+			adGroup: {
+				create: 'ads:write',
+				update: 'ads:write',
+				get: 'ads:read',
+			},
+			ad: {
+				create: 'ads:write',
+				update: 'ads:write',
+				get: 'ads:read',
+			},
+			conversionEvent: {
+				send: 'ads:write',
+			},
+			audience: {
+				create: 'ads:write',
+				update: 'ads:write',
+				get: 'ads:read',
+			},
+			catalog: {
+				create: 'catalogs:write',
+				update: 'catalogs:write',
+				delete: 'catalogs:write',
+				get: 'catalogs:read',
+			},
 		};
 
 		return scopeMap[resource]?.[operation] || null;
@@ -2,14 +2,33 @@ import type { IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import type {
 	PinResponse,
+	PinMetrics,
 	BoardResponse,
+	BoardSectionResponse,
 	UserProfileResponse,
 	AnalyticsResponse,
+	AnalyticsSegment,
 	SearchResponse,
 	SearchPinsResponse,
 	SearchBoardsResponse,
 	TrendingResponse,
+	AdAccountResponse,
+	CampaignResponse,
+	AdGroupResponse,
+	AdResponse,
+	CatalogFeedResponse,
+	CatalogItemsBatchResponse,
+	ProductGroupResponse,
+	AudienceResponse,
+	CustomerListResponse,
 } from './types';
+import { AnalyticsStatistics, type AnomalyDetectionOptions } from './AnalyticsStatistics';
+
+/**
+ * Metrics whose totals are not the sum of the totals of shorter periods: unique audiences count a
+ * person once per period, and averages need the counts they were taken over
+ */
+const NON_ADDITIVE_METRIC_REGEX = /AUDIENCE|AVG/;
 
 /**
  * Data Transformer for converting Pinterest API responses to n8n format
@@ -19,8 +38,10 @@ export class DataTransformer {
 	/**
 	 * Transform Pinterest pin response to n8n format
 	 * @param pin Pinterest pin response
+	 * @param metricsRequested Whether the pin was fetched with its metrics, which adds the metric
+	 * fields even when Pinterest returned none
 	 */
-	static transformPinResponse(pin: PinResponse): IDataObject {
+	static transformPinResponse(pin: PinResponse, metricsRequested = false): IDataObject {
 		return {
 			pinId: pin.id,
 			url: pin.url,
@@ -39,6 +60,34 @@ export class DataTransformer {
 			creativeType: pin.creative_type ? this.emptyStringToNull(pin.creative_type) : null,
 			isOwner: this.convertToBoolean(pin.is_owner),
 			isStandard: this.convertToBoolean(pin.is_standard),
+			hasBeenPromoted: this.convertToBoolean(pin.has_been_promoted),
+			dominantColor: pin.dominant_color ? this.emptyStringToNull(pin.dominant_color) : null,
+			parentPinId: pin.parent_pin_id ? this.emptyStringToNull(pin.parent_pin_id) : null,
+			productTagPinIds: (pin.product_tags || []).map((tag) => tag.pin_id).filter(Boolean),
+			...(pin.pin_metrics || metricsRequested
+				? this.transformPinMetrics(pin.pin_metrics || {})
+				: {}),
+		};
+	}
+
+	/**
+	 * Flatten the lifetime and 90 day metrics of a pin into one field per metric, so every pin
+	 * fetched with metrics has the same fields
+	 * @param metrics Pinterest pin metrics
+	 */
+	static transformPinMetrics(metrics: PinMetrics): IDataObject {
+		const lifetime = metrics.lifetime_metrics || {};
+		const last90Days = metrics['90d'] || {};
+
+		return {
+			lifetimeImpressions: this.convertToNumber(lifetime.impression),
+			lifetimePinClicks: this.convertToNumber(lifetime.pin_click),
+			lifetimeOutboundClicks: this.convertToNumber(lifetime.clickthrough),
+			lifetimeReactions: this.convertToNumber(lifetime.reaction),
+			lifetimeComments: this.convertToNumber(lifetime.comment),
+			last90DaysImpressions: this.convertToNumber(last90Days.impression),
+			last90DaysPinClicks: this.convertToNumber(last90Days.pin_click),
+			last90DaysOutboundClicks: this.convertToNumber(last90Days.clickthrough),
 		};
 	}
 
@@ -62,6 +111,22 @@ export class DataTransformer {
 		};
 	}
 
+	/**
+	 * Transform Pinterest board section response to n8n format
+	 * @param section Pinterest board section response
+	 * @param boardId ID of the board that owns the section
+	 */
+	static transformBoardSectionResponse(
+		section: BoardSectionResponse,
+		boardId: string,
+	): IDataObject {
+		return {
+			sectionId: section.id,
+			name: section.name,
+			boardId,
+		};
+	}
+
 	/**
 	 * Transform Pinterest user profile response to n8n format
 	 * @param user Pinterest user profile response
@@ -103,9 +168,320 @@ export class DataTransformer {
 			}));
 		}
 
+		// Responses requested with a split field hold the metrics of each split value
+		if (!analytics.all_time && !analytics.daily_metrics) {
+			const segments = this.getAnalyticsSegments(analytics);
+			if (segments.length > 0) {
+				result.splits = segments.map(({ splitValue, analytics: segment }) => ({
+					splitValue,
+					...this.transformAnalyticsResponse(segment),
+				}));
+			}
+		}
+
 		return result;
 	}
 
+	/**
+	 * Merge the responses of an analytics range that was fetched in several requests into one
+	 * response with a single daily series. Counts in the totals are summed and rates are recomputed
+	 * from the summed counts and impressions. Unique audiences and averages cannot be combined, so
+	 * their totals are null; their daily values are kept.
+	 * @param responses Pinterest analytics responses in date order
+	 */
+	static mergeAnalyticsResponses(responses: AnalyticsResponse[]): AnalyticsResponse {
+		const segments = responses.flatMap((response) => this.getAnalyticsSegments(response));
+		if (segments.every(({ splitValue }) => splitValue === null)) {
+			return this.mergeAnalyticsSegments(segments.map(({ analytics }) => analytics));
+		}
+
+		// Split responses are merged per split value
+		const bySplitValue = new Map<string, AnalyticsResponse[]>();
+		for (const { splitValue, analytics } of segments) {
+			const key = splitValue ?? 'all';
+			bySplitValue.set(key, [...(bySplitValue.get(key) || []), analytics]);
+		}
+
+		return Object.fromEntries(
+			[...bySplitValue].map(([key, analytics]) => [key, this.mergeAnalyticsSegments(analytics)]),
+		) as AnalyticsResponse;
+	}
+
+	/**
+	 * Merge analytics responses of the same split value
+	 */
+	static mergeAnalyticsSegments(responses: AnalyticsResponse[]): AnalyticsResponse {
+		const merged: AnalyticsResponse = {};
+
+		const dailyMetrics = new Map<string, IDataObject>();
+		for (const response of responses) {
+			for (const metric of response.daily_metrics || []) {
+				dailyMetrics.set(String(metric.date), metric);
+			}
+		}
+		if (dailyMetrics.size > 0) {
+			merged.daily_metrics = [...dailyMetrics.values()].sort((a, b) =>
+				String(a.date).localeCompare(String(b.date)),
+			);
+		}
+
+		const totals = responses.filter((response) => response.all_time);
+		if (totals.length > 0) {
+			const allTime: IDataObject = {};
+
+			for (const { all_time } of totals) {
+				for (const [key, value] of Object.entries(all_time!)) {
+					if (typeof value !== 'number') {
+						allTime[key] = value;
+					} else if (key.endsWith('_RATE') || NON_ADDITIVE_METRIC_REGEX.test(key)) {
+						allTime[key] = null;
+					} else {
+						allTime[key] = ((allTime[key] as number) || 0) + value;
+					}
+				}
+			}
+
+			// Rates such as SAVE_RATE are a count divided by the impressions of the same period
+			for (const key of Object.keys(allTime)) {
+				const count = allTime[key.replace(/_RATE$/, '')];
+				const impressions = allTime.IMPRESSION;
+				if (
+					key.endsWith('_RATE') &&
+					typeof count === 'number' &&
+					typeof impressions === 'number' &&
+					impressions > 0
+				) {
+					allTime[key] = count / impressions;
+				}
+			}
+
+			merged.all_time = allTime;
+		}
+
+		return merged;
+	}
+
+	/**
+	 * Split an analytics response into the analytics of each split value. A response without a
+	 * split field has a single segment whose split value is null.
+	 * @param analytics Pinterest analytics response
+	 */
+	static getAnalyticsSegments(analytics: AnalyticsResponse): AnalyticsSegment[] {
+		if (analytics.all_time || analytics.daily_metrics) {
+			return [{ splitValue: null, analytics }];
+		}
+
+		return Object.entries(analytics as IDataObject)
+			.filter(([, segment]) => segment && typeof segment === 'object' && !Array.isArray(segment))
+			.map(([key, segment]) => ({
+				splitValue: key === 'all' ? null : key,
+				analytics: segment as AnalyticsResponse,
+			}));
+	}
+
+	/**
+	 * Transform Pinterest analytics response to one row per day, or per day and split value,
+	 * followed by a totals row for each split value. Every row has the raw metrics and the
+	 * engagement, save, outbound click and video completion rates.
+	 * @param analytics Pinterest analytics response
+	 * @param comparison Comparison from compareAnalytics, added to the totals rows
+	 * @param anomalies Anomalies from findAnalyticsAnomalies, added to the day rows they were found on
+	 */
+	static transformAnalyticsRows(
+		analytics: AnalyticsResponse,
+		comparison?: IDataObject[],
+		anomalies?: IDataObject[],
+	): IDataObject[] {
+		const rows: IDataObject[] = [];
+
+		for (const { splitValue, analytics: segment } of this.getAnalyticsSegments(analytics)) {
+			const split = splitValue === null ? {} : { splitValue };
+
+			for (const day of segment.daily_metrics || []) {
+				const metrics = this.getDailyMetricValues(day);
+				const dayAnomalies = anomalies
+					?.filter(
+						(anomaly) =>
+							anomaly.date === String(day.date).substring(0, 10) &&
+							(anomaly.splitValue ?? null) === splitValue,
+					)
+					.map(({ splitValue: _splitValue, date: _date, ...anomaly }) => anomaly);
+				rows.push({
+					rowType: 'day',
+					date: day.date || null,
+					...split,
+					...metrics,
+					...this.calculateAnalyticsKpis(metrics),
+					...(dayAnomalies ? { isAnomaly: dayAnomalies.length > 0, anomalies: dayAnomalies } : {}),
+				});
+			}
+
+			// Pinterest's own totals are preferred, as they count unique values over the whole range
+			const totals = segment.all_time || this.sumDailyMetrics(segment);
+			const changes = comparison?.find((entry) => entry.splitValue === splitValue);
+			rows.push({
+				rowType: 'total',
+				date: null,
+				...split,
+				...totals,
+				...this.calculateAnalyticsKpis(totals),
+				...(changes
+					? { comparison: { allTime: changes.allTime, dailyTotals: changes.dailyTotals } }
+					: {}),
+			});
+		}
+
+		return rows;
+	}
+
+	/**
+	 * Find anomalous days in the daily series of every checked metric, per split value. Days that
+	 * Pinterest has not finished processing are left out, so the latest days are not mistaken for
+	 * drops.
+	 * @param analytics Pinterest analytics response
+	 * @param options Anomaly detection settings
+	 */
+	static findAnalyticsAnomalies(
+		analytics: AnalyticsResponse,
+		options: AnomalyDetectionOptions,
+	): IDataObject[] {
+		const anomalies: IDataObject[] = [];
+
+		for (const { splitValue, analytics: segment } of this.getAnalyticsSegments(analytics)) {
+			const days = (segment.daily_metrics || []).filter(
+				(day) => !day.data_status || day.data_status === 'READY',
+			);
+
+			for (const metric of options.metrics) {
+				const series = days.flatMap((day) => {
+					const value = this.getDailyMetricValues(day)[metric];
+					return typeof day.date === 'string' && typeof value === 'number'
+						? [{ date: day.date.substring(0, 10), value }]
+						: [];
+				});
+
+				for (const anomaly of AnalyticsStatistics.detectAnomalies(series, options)) {
+					anomalies.push({ ...(splitValue === null ? {} : { splitValue }), metric, ...anomaly });
+				}
+			}
+		}
+
+		return anomalies.sort((a, b) => (a.date as string).localeCompare(b.date as string));
+	}
+
+	/**
+	 * Compare analytics with the analytics of an earlier range, per split value. Every numeric
+	 * metric of the all-time totals and of the summed daily series gets its current and previous
+	 * value, the change and the change in percent.
+	 * @param current Analytics of the reported range
+	 * @param previous Analytics of the range compared to
+	 */
+	static compareAnalytics(current: AnalyticsResponse, previous: AnalyticsResponse): IDataObject[] {
+		const currentSegments = this.getAnalyticsSegments(current);
+		const previousSegments = this.getAnalyticsSegments(previous);
+		const splitValues = [
+			...new Set([...currentSegments, ...previousSegments].map(({ splitValue }) => splitValue)),
+		];
+
+		return splitValues.map((splitValue) => {
+			const find = (segments: AnalyticsSegment[]) =>
+				segments.find((segment) => segment.splitValue === splitValue)?.analytics || {};
+			const now = find(currentSegments);
+			const before = find(previousSegments);
+
+			return {
+				splitValue,
+				allTime: this.calculateMetricChanges(now.all_time || {}, before.all_time || {}),
+				dailyTotals: this.calculateMetricChanges(
+					this.sumDailyMetrics(now),
+					this.sumDailyMetrics(before),
+				),
+			};
+		});
+	}
+
+	/**
+	 * Change of every numeric metric between two sets of metrics. The percentage is null when
+	 * the previous value is zero or either value is missing.
+	 */
+	static calculateMetricChanges(current: IDataObject, previous: IDataObject): IDataObject {
+		const changes: IDataObject = {};
+
+		for (const key of new Set([...Object.keys(current), ...Object.keys(previous)])) {
+			const now = typeof current[key] === 'number' ? (current[key] as number) : null;
+			const before = typeof previous[key] === 'number' ? (previous[key] as number) : null;
+			if (now === null && before === null) {
+				continue;
+			}
+
+			const change = now !== null && before !== null ? now - before : null;
+			changes[key] = {
+				current: now,
+				previous: before,
+				change,
+				changePercent: change !== null && before !== 0 ? (change / before!) * 100 : null,
+			};
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Sum of every numeric metric over the daily series of an analytics response
+	 */
+	static sumDailyMetrics(analytics: AnalyticsResponse): IDataObject {
+		const totals: IDataObject = {};
+
+		for (const day of analytics.daily_metrics || []) {
+			for (const [key, value] of Object.entries(this.getDailyMetricValues(day))) {
+				if (typeof value === 'number') {
+					totals[key] = ((totals[key] as number) || 0) + value;
+				}
+			}
+		}
+
+		return totals;
+	}
+
+	/**
+	 * Metric values of one day of analytics, which are either nested under metrics or stored next
+	 * to the date
+	 */
+	static getDailyMetricValues(day: IDataObject): IDataObject {
+		if (day.metrics && typeof day.metrics === 'object' && !Array.isArray(day.metrics)) {
+			return { ...(day.metrics as IDataObject) };
+		}
+
+		const { date, data_status, ...metrics } = day;
+		return metrics;
+	}
+
+	/**
+	 * Calculate rates from analytics counts. Rates whose base is missing or zero are null.
+	 * @param metrics Analytics counts such as IMPRESSION, SAVE and OUTBOUND_CLICK
+	 */
+	static calculateAnalyticsKpis(metrics: IDataObject): IDataObject {
+		const count = (key: string) =>
+			typeof metrics[key] === 'number' ? (metrics[key] as number) : null;
+		const rate = (value: number | null, base: number | null) =>
+			value !== null && base !== null && base > 0 ? value / base : null;
+
+		// Engagements are derived from their parts when Pinterest does not report them
+		const parts = ['SAVE', 'PIN_CLICK', 'OUTBOUND_CLICK'].map(count);
+		const engagements =
+			count('ENGAGEMENT') ??
+			(parts.some((part) => part !== null)
+				? parts.reduce<number>((sum, part) => sum + (part || 0), 0)
+				: null);
+
+		return {
+			engagementRate: rate(engagements, count('IMPRESSION')),
+			saveRate: rate(count('SAVE'), count('IMPRESSION')),
+			outboundClickRate: rate(count('OUTBOUND_CLICK'), count('IMPRESSION')),
+			videoCompletionRate: rate(count('QUARTILE_95_PERCENT_VIEW'), count('VIDEO_START')),
+		};
+	}
+
 	/**
 	 * Transform Pinterest search pins response to n8n format
 	 * @param searchResponse Pinterest search pins response
@@ -150,6 +526,193 @@ export class DataTransformer {
 		};
 	}
 
+	/**
+	 * Transform Pinterest ad account response to n8n format
+	 * @param adAccount Pinterest ad account response
+	 */
+	static transformAdAccountResponse(adAccount: AdAccountResponse): IDataObject {
+		return {
+			adAccountId: adAccount.id,
+			name: adAccount.name,
+			ownerUsername: adAccount.owner?.username || null,
+			country: adAccount.country || null,
+			currency: adAccount.currency || null,
+			permissions: adAccount.permissions || [],
+			createdAt: this.fromUnixSeconds(adAccount.created_time),
+			updatedAt: this.fromUnixSeconds(adAccount.updated_time),
+		};
+	}
+
+	/**
+	 * Transform Pinterest campaign response to n8n format
+	 * @param campaign Pinterest campaign response
+	 */
+	static transformCampaignResponse(campaign: CampaignResponse): IDataObject {
+		return {
+			campaignId: campaign.id,
+			adAccountId: campaign.ad_account_id,
+			name: campaign.name || null,
+			status: campaign.status || null,
+			objectiveType: campaign.objective_type || null,
+			dailySpendCap: this.fromMicroCurrency(campaign.daily_spend_cap),
+			lifetimeSpendCap: this.fromMicroCurrency(campaign.lifetime_spend_cap),
+			startTime: this.fromUnixSeconds(campaign.start_time),
+			endTime: this.fromUnixSeconds(campaign.end_time),
+			createdAt: this.fromUnixSeconds(campaign.created_time),
+			updatedAt: this.fromUnixSeconds(campaign.updated_time),
+		};
+	}
+
+	/**
+	 * Transform Pinterest ad group response to n8n format
+	 * @param adGroup Pinterest ad group response
+	 */
+	static transformAdGroupResponse(adGroup: AdGroupResponse): IDataObject {
+		return {
+			adGroupId: adGroup.id,
+			adAccountId: adGroup.ad_account_id,
+			campaignId: adGroup.campaign_id || null,
+			name: adGroup.name || null,
+			status: adGroup.status || null,
+			budgetType: adGroup.budget_type || null,
+			budget: this.fromMicroCurrency(adGroup.budget_in_micro_currency),
+			bid: this.fromMicroCurrency(adGroup.bid_in_micro_currency),
+			billableEvent: adGroup.billable_event || null,
+			autoTargetingEnabled: this.convertToBoolean(adGroup.auto_targeting_enabled),
+			startTime: this.fromUnixSeconds(adGroup.start_time),
+			endTime: this.fromUnixSeconds(adGroup.end_time),
+			createdAt: this.fromUnixSeconds(adGroup.created_time),
+			updatedAt: this.fromUnixSeconds(adGroup.updated_time),
+		};
+	}
+
+	/**
+	 * Transform Pinterest ad response to n8n format
+	 * @param ad Pinterest ad response
+	 */
+	static transformAdResponse(ad: AdResponse): IDataObject {
+		return {
+			adId: ad.id,
+			adAccountId: ad.ad_account_id,
+			campaignId: ad.campaign_id || null,
+			adGroupId: ad.ad_group_id || null,
+			pinId: ad.pin_id || null,
+			name: ad.name || null,
+			status: ad.status || null,
+			creativeType: ad.creative_type || null,
+			destinationUrl: ad.destination_url || null,
+			reviewStatus: ad.review_status || null,
+			createdAt: this.fromUnixSeconds(ad.created_time),
+			updatedAt: this.fromUnixSeconds(ad.updated_time),
+		};
+	}
+
+	/**
+	 * Transform Pinterest catalog feed response to n8n format
+	 * @param feed Pinterest catalog feed response
+	 */
+	static transformCatalogFeedResponse(feed: CatalogFeedResponse): IDataObject {
+		return {
+			feedId: feed.id,
+			name: feed.name || null,
+			format: feed.format || null,
+			location: feed.location || null,
+			status: feed.status || null,
+			catalogType: feed.catalog_type || null,
+			defaultCurrency: feed.default_currency || null,
+			defaultLocale: feed.default_locale || null,
+			defaultCountry: feed.default_country || null,
+			defaultAvailability: feed.default_availability || null,
+			createdAt: feed.created_at || null,
+			updatedAt: feed.updated_at || null,
+		};
+	}
+
+	/**
+	 * Transform Pinterest catalog items batch response to n8n format
+	 * @param batch Pinterest catalog items batch response
+	 */
+	static transformCatalogItemsBatchResponse(batch: CatalogItemsBatchResponse): IDataObject {
+		return {
+			batchId: batch.batch_id,
+			status: batch.status,
+			createdAt: batch.created_time || null,
+			completedAt: batch.completed_time || null,
+			items: (batch.items || []).map((item) => ({
+				itemId: item.item_id,
+				status: item.status || null,
+				errors: item.errors || [],
+				warnings: item.warnings || [],
+			})),
+		};
+	}
+
+	/**
+	 * Transform Pinterest audience response to n8n format
+	 * @param audience Pinterest audience response
+	 */
+	static transformAudienceResponse(audience: AudienceResponse): IDataObject {
+		return {
+			audienceId: audience.id,
+			adAccountId: audience.ad_account_id || null,
+			name: audience.name || null,
+			description: audience.description || null,
+			audienceType: audience.audience_type || null,
+			customerListId: audience.rule?.customer_list_id || null,
+			status: audience.status || null,
+			size: audience.size ?? null,
+			createdAt: this.fromUnixSeconds(audience.created_timestamp),
+			updatedAt: this.fromUnixSeconds(audience.updated_timestamp),
+		};
+	}
+
+	/**
+	 * Summarize how many uploaded customer list records matched Pinterest users.
+	 * The match rate stays empty until Pinterest reports the audience size.
+	 * @param audience Pinterest audience response
+	 * @param customerList Pinterest customer list response
+	 */
+	static transformAudienceMatchStatus(
+		audience: AudienceResponse,
+		customerList?: CustomerListResponse | null,
+	): IDataObject {
+		const uploadedRecords = customerList?.num_uploaded_user_records ?? null;
+		const removedRecords = customerList?.num_removed_user_records ?? null;
+		const activeRecords =
+			uploadedRecords === null ? null : Math.max(uploadedRecords - (removedRecords || 0), 0);
+		const matchedUsers = audience.size ?? null;
+
+		return {
+			audienceStatus: audience.status || null,
+			listStatus: customerList?.status || null,
+			uploadedRecords,
+			removedRecords,
+			matchedUsers,
+			matchRate:
+				matchedUsers === null || !activeRecords
+					? null
+					: Math.round(Math.min(matchedUsers / activeRecords, 1) * 10000) / 10000,
+		};
+	}
+
+	/**
+	 * Transform Pinterest product group response to n8n format
+	 * @param productGroup Pinterest product group response
+	 */
+	static transformProductGroupResponse(productGroup: ProductGroupResponse): IDataObject {
+		return {
+			productGroupId: productGroup.id,
+			name: productGroup.name || null,
+			description: productGroup.description || null,
+			feedId: productGroup.feed_id || null,
+			type: productGroup.type || null,
+			isFeatured: productGroup.is_featured ?? false,
+			filters: productGroup.filters || null,
+			createdAt: this.fromUnixSeconds(productGroup.created_at),
+			updatedAt: this.fromUnixSeconds(productGroup.updated_at),
+		};
+	}
+
 	/**
 	 * Validate and sanitize input data
 	 * @param data Input data to validate
@@ -275,8 +838,9 @@ export class DataTransformer {
 	/**
 	 * Convert date strings to proper format for Pinterest API (YYYY-MM-DD)
 	 * @param dateInput Date string or Date object to convert
+	 * @param timeZone IANA timezone whose calendar day is returned, instead of the server's
 	 */
-	static formatDateForApi(dateInput: string | Date): string {
+	static formatDateForApi(dateInput: string | Date, timeZone?: string): string {
 		let date: Date;
 
 		if (typeof dateInput === 'string') {
@@ -300,6 +864,23 @@ export class DataTransformer {
 			throw new NodeOperationError({} as any, `Invalid date value: ${dateInput}`);
 		}
 
+		if (timeZone) {
+			let parts: Intl.DateTimeFormatPart[];
+			try {
+				parts = new Intl.DateTimeFormat('en-US', {
+					timeZone,
+					year: 'numeric',
+					month: '2-digit',
+					day: '2-digit',
+				}).formatToParts(date);
+			} catch {
+				throw new NodeOperationError({} as any, `Invalid timezone: ${timeZone}`);
+			}
+
+			const part = (type: string) => parts.find((p) => p.type === type)?.value;
+			return `${part('year')}-${part('month')}-${part('day')}`;
+		}
+
 		// Format as YYYY-MM-DD
 		const year = date.getFullYear();
 		const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -349,6 +930,46 @@ export class DataTransformer {
 		return null;
 	}
 
+	/**
+	 * Convert a currency amount to the micro-currency units the ads API expects
+	 * @param amount Amount in the ad account's currency
+	 */
+	static toMicroCurrency(amount: number): number {
+		return Math.round(amount * 1_000_000);
+	}
+
+	/**
+	 * Convert a micro-currency amount from the ads API back to the account's currency
+	 * @param microAmount Amount in micro-currency units
+	 */
+	static fromMicroCurrency(microAmount: number | null | undefined): number | null {
+		const value = this.convertToNumber(microAmount);
+		return value === null ? null : value / 1_000_000;
+	}
+
+	/**
+	 * Convert a date to the Unix timestamp in seconds the ads API expects
+	 * @param dateInput Date string or Date object to convert
+	 */
+	static toUnixSeconds(dateInput: string | Date): number {
+		const date = dateInput instanceof Date ? dateInput : new Date(dateInput);
+
+		if (isNaN(date.getTime())) {
+			throw new NodeOperationError({} as any, `Invalid date value: ${dateInput}`);
+		}
+
+		return Math.floor(date.getTime() / 1000);
+	}
+
+	/**
+	 * Convert a Unix timestamp in seconds from the ads API to ISO format
+	 * @param seconds Unix timestamp in seconds
+	 */
+	static fromUnixSeconds(seconds: number | null | undefined): string | null {
+		const value = this.convertToNumber(seconds);
+		return value === null ? null : new Date(value * 1000).toISOString();
+	}
+
 	/**
 	 * Convert value to boolean with validation
 	 * @param value Value to convert to boolean
@@ -215,7 +215,9 @@ export class ErrorHandler {
 	 * @param error Error to check
 	 */
 	isRetryableError(error: any): boolean {
-		const statusCode = error.response?.status || error.status;
+		// NodeApiError built by handleApiError carries the status as a string
+		const statusCode =
+			error.response?.status || error.status || Number(error.httpCode) || undefined;
 
 		// Retryable status codes
 		const retryableStatusCodes = [
@@ -1,6 +1,6 @@
 import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import type { MediaUploadRequest } from './types';
+import type { MediaResponse, MediaUploadRequest } from './types';
 import { PinterestApiClient } from './PinterestApiClient';
 
 /**
@@ -21,6 +21,18 @@ export const FILE_SIZE_LIMITS = {
 	video: 100 * 1024 * 1024, // 100MB
 } as const;
 
+/**
+ * MIME types used when a download does not report its content type
+ */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+	jpeg: 'image/jpeg',
+	jpg: 'image/jpeg',
+	png: 'image/png',
+	gif: 'image/gif',
+	mp4: 'video/mp4',
+	mov: 'video/quicktime',
+};
+
 /**
  * Media upload progress callback
  */
@@ -55,16 +67,53 @@ export interface UploadResult {
 	filename: string;
 }
 
+/**
+ * Processing options for media uploads
+ */
+export interface MediaUploaderOptions {
+	/** Block until Pinterest finished processing the media (default: true) */
+	waitForProcessing?: boolean;
+	/** Delay between status checks in milliseconds (default: 5000) */
+	pollInterval?: number;
+	/** Maximum time to wait for processing in milliseconds (default: 300000) */
+	timeout?: number;
+}
+
+/**
+ * Default processing options
+ */
+export const DEFAULT_UPLOAD_OPTIONS: Required<MediaUploaderOptions> = {
+	waitForProcessing: true,
+	pollInterval: 5000,
+	timeout: 5 * 60 * 1000,
+};
+
 /**
  * MediaUploader class handles file validation, upload, and progress tracking
  */
 export class MediaUploader {
 	private apiClient: PinterestApiClient;
 	private executeFunctions: IExecuteFunctions;
+	private options: Required<MediaUploaderOptions>;
 
-	constructor(executeFunctions: IExecuteFunctions) {
+	/**
+	 * @param executeFunctions n8n execution context
+	 * @param options Processing options
+	 * @param apiClient Client of the node, so uploads use its retry settings. A client with the
+	 * default settings is created when omitted.
+	 */
+	constructor(
+		executeFunctions: IExecuteFunctions,
+		options: MediaUploaderOptions = {},
+		apiClient?: PinterestApiClient,
+	) {
 		this.executeFunctions = executeFunctions;
-		this.apiClient = new PinterestApiClient(executeFunctions);
+		this.apiClient = apiClient ?? new PinterestApiClient(executeFunctions);
+		this.options = {
+			waitForProcessing: options.waitForProcessing ?? DEFAULT_UPLOAD_OPTIONS.waitForProcessing,
+			pollInterval: options.pollInterval ?? DEFAULT_UPLOAD_OPTIONS.pollInterval,
+			timeout: options.timeout ?? DEFAULT_UPLOAD_OPTIONS.timeout,
+		};
 	}
 
 	/**
@@ -96,14 +145,14 @@ export class MediaUploader {
 				});
 			}
 
-			// Prepare upload request
+			// Register the upload to get a signed upload URL
 			const uploadRequest: MediaUploadRequest = {
 				media_type: mediaType,
-				file: fileData.buffer,
 			};
+			const registration = await this.apiClient.registerMedia(uploadRequest);
 
-			// Upload to Pinterest API
-			const response = await this.apiClient.uploadMedia(uploadRequest);
+			// Send the file to the signed URL
+			await this.apiClient.uploadMediaFile(registration, fileData);
 
 			// Report upload completion
 			if (progressCallback) {
@@ -111,21 +160,21 @@ export class MediaUploader {
 					loaded: fileData.size,
 					total: fileData.size,
 					percentage: 100,
-					status: response.status === 'succeeded' ? 'completed' : 'processing',
+					status: 'processing',
 				});
 			}
 
-			// If still processing, poll for completion
-			if (response.status === 'processing') {
-				await this.pollUploadStatus(response.media_id, progressCallback);
-			}
+			// Pinterest processes the media asynchronously after the upload
+			const status = this.options.waitForProcessing
+				? await this.pollUploadStatus(registration.media_id, progressCallback)
+				: 'processing';
 
 			const uploadTime = Date.now() - startTime;
 
 			return {
-				mediaId: response.media_id,
-				mediaType: response.media_type,
-				status: response.status,
+				mediaId: registration.media_id,
+				mediaType: registration.media_type || mediaType,
+				status,
 				uploadTime,
 				fileSize: fileData.size,
 				filename: fileData.filename,
@@ -272,58 +321,106 @@ export class MediaUploader {
 	}
 
 	/**
-	 * Poll upload status until completion
+	 * Get the current processing status of an uploaded media
+	 * @param mediaId Media ID to check
+	 * @returns Media status reported by Pinterest
+	 */
+	async getMediaStatus(mediaId: string): Promise<MediaResponse> {
+		return await this.apiClient.getMediaStatus(mediaId);
+	}
+
+	/**
+	 * Poll upload status until Pinterest finished processing the media
 	 * @param mediaId Media ID to check
 	 * @param progressCallback Optional progress callback
+	 * @returns Final status once processing succeeded
+	 * @throws NodeOperationError if processing failed or timed out
 	 */
 	private async pollUploadStatus(
-		_mediaId: string,
+		mediaId: string,
 		progressCallback?: UploadProgressCallback,
-	): Promise<void> {
-		const maxAttempts = 30; // 5 minutes with 10-second intervals
-		const pollInterval = 10000; // 10 seconds
+	): Promise<'succeeded'> {
+		const { pollInterval, timeout } = this.options;
+		const deadline = Date.now() + timeout;
 
-		for (let attempt = 0; attempt < maxAttempts; attempt++) {
-			try {
-				// Check media status (this would need to be implemented in the API client)
-				// For now, we'll simulate the polling behavior
-				await this.sleep(pollInterval);
+		while (true) {
+			const media = await this.apiClient.getMediaStatus(mediaId);
 
+			if (media.status === 'succeeded') {
 				if (progressCallback) {
 					progressCallback({
 						loaded: 0,
 						total: 0,
-						percentage: Math.min(90, (attempt / maxAttempts) * 100),
-						status: 'processing',
+						percentage: 100,
+						status: 'completed',
 					});
 				}
+				return 'succeeded';
+			}
 
-				// In a real implementation, we would check the actual status
-				// For now, assume processing completes after a few attempts
-				if (attempt >= 3) {
-					if (progressCallback) {
-						progressCallback({
-							loaded: 0,
-							total: 0,
-							percentage: 100,
-							status: 'completed',
-						});
-					}
-					return;
-				}
-			} catch (error) {
-				// If status check fails, continue polling
-				continue;
+			if (media.status === 'failed') {
+				throw new NodeOperationError(
+					this.executeFunctions.getNode(),
+					`Media processing failed for media ID ${mediaId}`,
+				);
+			}
+
+			if (Date.now() + pollInterval > deadline) {
+				break;
+			}
+
+			if (progressCallback) {
+				const elapsed = timeout - (deadline - Date.now());
+				progressCallback({
+					loaded: 0,
+					total: 0,
+					percentage: Math.min(90, Math.round((elapsed / timeout) * 100)),
+					status: 'processing',
+				});
 			}
+
+			await this.sleep(pollInterval);
 		}
 
-		// If we reach here, polling timed out
 		throw new NodeOperationError(
 			this.executeFunctions.getNode(),
-			`Media upload processing timed out after ${(maxAttempts * pollInterval) / 1000} seconds`,
+			`Media upload processing timed out after ${Math.round(timeout / 1000)} seconds`,
 		);
 	}
 
+	/**
+	 * Download a remote media file so it can go through the upload flow
+	 * @param url Public URL of the media file
+	 * @returns Media file information
+	 */
+	async downloadMedia(url: string): Promise<MediaFileInfo> {
+		const response = await this.executeFunctions.helpers.httpRequest({
+			method: 'GET',
+			url,
+			encoding: 'arraybuffer',
+			returnFullResponse: true,
+		});
+
+		const buffer = Buffer.from(response.body as ArrayBuffer);
+		const filename = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'upload';
+		const contentType = String(response.headers?.['content-type'] || '')
+			.split(';')[0]
+			.trim();
+		const extension = filename.includes('.')
+			? filename.substring(filename.lastIndexOf('.') + 1).toLowerCase()
+			: '';
+
+		return {
+			filename,
+			// Storage services often answer with a generic content type, so fall back to the extension
+			mimeType: /^(image|video)\//.test(contentType)
+				? contentType
+				: MIME_TYPES_BY_EXTENSION[extension] || contentType || 'application/octet-stream',
+			size: buffer.length,
+			buffer,
+		};
+	}
+
 	/**
 	 * Sleep for specified milliseconds
 	 * @param ms Milliseconds to sleep
@@ -355,6 +452,114 @@ export class MediaUploader {
 		};
 	}
 
+	/**
+	 * Read the pixel dimensions from the header of a JPEG, PNG or GIF image
+	 * @param buffer Image file contents
+	 * @returns Width and height, or null when the format is not recognized
+	 */
+	static getImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+		// PNG: the IHDR chunk follows the 8-byte signature
+		if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+			return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+		}
+
+		// GIF: the logical screen size follows the 6-byte signature
+		if (buffer.length >= 10 && buffer.toString('ascii', 0, 4) === 'GIF8') {
+			return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+		}
+
+		// JPEG: walk the segments until the start-of-frame marker
+		if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+			let offset = 2;
+			while (offset + 9 <= buffer.length) {
+				if (buffer[offset] !== 0xff) {
+					return null;
+				}
+
+				const marker = buffer[offset + 1];
+				if (marker === 0xff) {
+					// Fill byte before a marker
+					offset++;
+					continue;
+				}
+
+				const isStartOfFrame =
+					marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+				if (isStartOfFrame) {
+					return {
+						width: buffer.readUInt16BE(offset + 7),
+						height: buffer.readUInt16BE(offset + 5),
+					};
+				}
+
+				// Restart and standalone markers have no length field
+				if ((marker >= 0xd0 && marker <= 0xd9) || marker === 0x01) {
+					offset += 2;
+					continue;
+				}
+
+				offset += 2 + buffer.readUInt16BE(offset + 2);
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Read the duration of an MP4 or MOV video from its movie header box
+	 * @param buffer Video file contents
+	 * @returns Duration in seconds, or null when no movie header is found
+	 */
+	static getVideoDuration(buffer: Buffer): number | null {
+		const findBox = (type: string, start: number, end: number): [number, number] | null => {
+			let offset = start;
+			while (offset + 8 <= end) {
+				let size = buffer.readUInt32BE(offset);
+				let headerSize = 8;
+
+				if (size === 1) {
+					// 64-bit box size follows the type
+					if (offset + 16 > end) return null;
+					size = Number(buffer.readBigUInt64BE(offset + 8));
+					headerSize = 16;
+				} else if (size === 0) {
+					// The box runs to the end of the file
+					size = end - offset;
+				}
+
+				if (size < headerSize) return null;
+
+				if (buffer.toString('ascii', offset + 4, offset + 8) === type) {
+					return [offset + headerSize, Math.min(offset + size, end)];
+				}
+				offset += size;
+			}
+			return null;
+		};
+
+		const movie = findBox('moov', 0, buffer.length);
+		const header = movie && findBox('mvhd', movie[0], movie[1]);
+		if (!header) {
+			return null;
+		}
+
+		// Version 1 headers use 64-bit creation, modification and duration fields
+		const [start, end] = header;
+		const version = buffer[start];
+		const timescaleOffset = start + (version === 1 ? 20 : 12);
+		if (timescaleOffset + (version === 1 ? 12 : 8) > end) {
+			return null;
+		}
+
+		const timescale = buffer.readUInt32BE(timescaleOffset);
+		const duration =
+			version === 1
+				? Number(buffer.readBigUInt64BE(timescaleOffset + 4))
+				: buffer.readUInt32BE(timescaleOffset + 4);
+
+		return timescale > 0 ? duration / timescale : null;
+	}
+
 	/**
 	 * Get human-readable file size
 	 * @param bytes File size in bytes
@@ -135,8 +135,9 @@ export class PerformanceMonitor {
 	 * Record a failed request (when request couldn't complete)
 	 * @param requestId Unique request identifier
 	 * @param error Error that caused the failure
+	 * @param retryCount Number of retries made before giving up (optional)
 	 */
-	recordFailedRequest(requestId: string, error: Error): void {
+	recordFailedRequest(requestId: string, error: Error, retryCount?: number): void {
 		const timing = this.activeRequests.get(requestId);
 		if (!timing) {
 			this.logger.warn('Performance monitoring: Failed request not found', { requestId });
@@ -163,6 +164,7 @@ export class PerformanceMonitor {
 				responseTime,
 				errorName: error.name,
 				errorMessage: error.message,
+				retryCount,
 			},
 		});
 
@@ -171,6 +173,7 @@ export class PerformanceMonitor {
 			operation: timing.operation,
 			responseTime,
 			error: error.message,
+			retryCount,
 		});
 	}
 
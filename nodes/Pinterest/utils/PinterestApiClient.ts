@@ -1,34 +1,111 @@
-import type { IRequestOptions, IExecuteFunctions, IHttpRequestMethods } from 'n8n-workflow';
+import type {
+	IRequestOptions,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	ILoadOptionsFunctions,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
 import type {
 	CreatePinRequest,
 	UpdatePinRequest,
+	SavePinRequest,
 	CreateBoardRequest,
 	UpdateBoardRequest,
+	CreateBoardSectionRequest,
+	UpdateBoardSectionRequest,
 	MediaUploadRequest,
 	SearchParams,
 	SearchPinsParams,
 	SearchBoardsParams,
 	TrendingParams,
 	AnalyticsParams,
+	PaginationParams,
+	GetPinParams,
+	ListBoardsParams,
 	PinResponse,
 	BoardResponse,
+	BoardsResponse,
+	BoardPinsResponse,
+	UserPinsResponse,
+	BoardSectionResponse,
+	BoardSectionsResponse,
+	BoardSectionPinsResponse,
 	UserProfileResponse,
 	MediaResponse,
+	MediaRegistrationResponse,
 	SearchResponse,
 	SearchPinsResponse,
 	SearchBoardsResponse,
 	TrendingResponse,
 	AnalyticsResponse,
+	CampaignRequest,
+	AdGroupRequest,
+	AdRequest,
+	ListAdEntitiesParams,
+	CatalogFeedRequest,
+	CatalogFeedResponse,
+	CatalogFeedsResponse,
+	CatalogItemsBatchRequest,
+	CatalogItemsBatchResponse,
+	CustomerListRequest,
+	CustomerListResponse,
+	ProductGroupsResponse,
+	AdAccountResponse,
+	AdAccountsResponse,
+	CampaignResponse,
+	CampaignsResponse,
+	AdGroupResponse,
+	AdGroupsResponse,
+	AdResponse,
+	AdsResponse,
+	AdsBulkWriteResponse,
+	AudienceRequest,
+	AudienceResponse,
+	AudiencesResponse,
+	ConversionEvent,
+	ConversionEventsResponse,
 } from './types';
 
-import { RateLimiter } from './RateLimiter';
+import { RateLimiter, StaticDataRateLimitStore, type RateLimitStore } from './RateLimiter';
+import { CredentialSecurityValidator } from './CredentialSecurityValidator';
 import { ErrorHandler } from './ErrorHandler';
 import { Logger } from './Logger';
 import { PerformanceMonitor } from './PerformanceMonitor';
 import { SecurityMiddleware } from './SecurityMiddleware';
 import { AuditLogger } from './AuditLogger';
 
+/**
+ * Retry settings for failed API requests
+ */
+export interface RetryOptions {
+	/** Maximum retries per request; defaults to the ErrorHandler policy for the error type */
+	maxRetries?: number;
+	/** Longest wait between attempts in milliseconds (default: 60000) */
+	maxDelay?: number;
+}
+
+/**
+ * Network errors raised before the request reached Pinterest, so even a create can be sent again
+ */
+const CONNECTION_NOT_ESTABLISHED_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * n8n contexts the client sends requests from. The trigger's poll functions and the list search
+ * methods' load options functions have the same request helpers as execute functions.
+ */
+export type PinterestApiContext = IExecuteFunctions | IPollFunctions | ILoadOptionsFunctions;
+
+/**
+ * Optional behaviour of the API client
+ */
+export interface PinterestApiClientOptions {
+	retry?: RetryOptions;
+	/** Storage for the rate limit budget; defaults to global workflow static data */
+	rateLimitStore?: RateLimitStore;
+}
+
 /**
  * Pinterest API Client for handling all Pinterest API interactions
  * Provides comprehensive HTTP request handling with authentication, error management, logging, and performance monitoring
@@ -43,11 +120,17 @@ export class PinterestApiClient {
 	private readonly baseUrl = 'https://api.pinterest.com/v5';
 	private requestCounter = 0;
 	private credentials: any;
+	private retryOptions: RetryOptions;
+	private rateLimitStore?: RateLimitStore;
+	private rateLimitStoreAttached = false;
 
 	constructor(
-		private executeFunctions: IExecuteFunctions,
+		private executeFunctions: PinterestApiContext,
 		itemIndex: number = 0,
+		options: PinterestApiClientOptions = {},
 	) {
+		this.retryOptions = options.retry || {};
+		this.rateLimitStore = options.rateLimitStore;
 		this.rateLimiter = new RateLimiter();
 		this.errorHandler = new ErrorHandler(this.executeFunctions.getNode());
 		this.logger = new Logger(this.executeFunctions.getNode());
@@ -96,6 +179,9 @@ export class PinterestApiClient {
 		// Log request start
 		this.logger.logApiRequestStart(operationName, normalizedEndpoint, method, requestId);
 
+		// Share the rate limit budget with other clients using the same credential
+		await this.attachRateLimitStore();
+
 		// Check rate limits before making request
 		const rateLimitInfo = this.rateLimiter.getRateLimitInfo();
 		if (this.rateLimiter.isApproachingLimit()) {
@@ -146,12 +232,38 @@ export class PinterestApiClient {
 				rateLimitRemaining: rateLimitInfo.remaining,
 			});
 
-			// Make authenticated request using n8n's request helper with credentials
-			const response = await this.executeFunctions.helpers.requestWithAuthentication.call(
-				this.executeFunctions,
-				'pinterestOAuth2Api',
-				requestOptions,
-			);
+			// Make authenticated request using n8n's request helper with credentials,
+			// retrying rate limit, server and network errors with backoff
+			let response: any;
+			while (true) {
+				try {
+					response = await this.executeFunctions.helpers.requestWithAuthentication.call(
+						this.executeFunctions,
+						'pinterestOAuth2Api',
+						requestOptions,
+					);
+					break;
+				} catch (error) {
+					const retryDelay = this.getRetryDelay(error, retryCount, requestOptions.method);
+					if (retryDelay === null) {
+						throw error;
+					}
+
+					retryCount++;
+					this.logger.warn(`Retrying API request: ${operationName}`, {
+						requestId,
+						operation: operationName,
+						method: method.toUpperCase(),
+						endpoint: normalizedEndpoint,
+						statusCode: (error as any).response?.status || (error as any).status,
+						retryCount,
+						retryDelay,
+					});
+
+					await this.sleep(retryDelay);
+					await this.rateLimiter.checkLimit();
+				}
+			}
 
 			// Extract response information
 			statusCode = response.status || 200;
@@ -195,7 +307,7 @@ export class PinterestApiClient {
 			});
 
 			// End performance monitoring with failure
-			this.performanceMonitor.recordFailedRequest(requestId, error as Error);
+			this.performanceMonitor.recordFailedRequest(requestId, error as Error, retryCount);
 
 			// Handle API errors through ErrorHandler
 			throw this.errorHandler.handleApiError(error);
@@ -286,6 +398,138 @@ export class PinterestApiClient {
 		return this.credentials;
 	}
 
+	/**
+	 * Connect the rate limiter to shared storage keyed by the credential hash.
+	 * Falls back to per-client accounting when credentials cannot be read.
+	 */
+	private async attachRateLimitStore(): Promise<void> {
+		if (this.rateLimitStoreAttached) {
+			return;
+		}
+		this.rateLimitStoreAttached = true;
+
+		try {
+			const credentials = await this.executeFunctions.getCredentials('pinterestOAuth2Api');
+			const key = CredentialSecurityValidator.generateCredentialHash(credentials);
+			this.rateLimiter.attachStore(this.getRateLimitStore(), key);
+		} catch (error) {
+			this.logger.debug('Rate limit state is not shared', {
+				reason: (error as Error)?.message,
+			});
+		}
+	}
+
+	/**
+	 * Pick the storage for rate limit state: configured store, workflow static data or process memory
+	 */
+	private getRateLimitStore(): RateLimitStore {
+		if (this.rateLimitStore) {
+			return this.rateLimitStore;
+		}
+
+		if (typeof this.executeFunctions.getWorkflowStaticData === 'function') {
+			return new StaticDataRateLimitStore(this.executeFunctions.getWorkflowStaticData('global'));
+		}
+
+		return RateLimiter.sharedStore;
+	}
+
+	/**
+	 * Decide whether a failed request should be retried and how long to wait first
+	 * @param error Error thrown by the request helper
+	 * @param retryCount Retries already made for this request
+	 * @param method HTTP method of the request
+	 * @returns Delay in milliseconds, or null when the request should not be retried
+	 */
+	private getRetryDelay(error: any, retryCount: number, method?: string): number | null {
+		if (!error || !this.isRetryableFor(error, method)) {
+			return null;
+		}
+
+		const maxRetries = this.retryOptions.maxRetries ?? this.errorHandler.getMaxRetryAttempts(error);
+		if (retryCount >= maxRetries) {
+			return null;
+		}
+
+		const headers = error.response?.headers || error.headers;
+		if (headers) {
+			this.rateLimiter.updateFromHeaders(headers);
+		}
+
+		const maxDelay = this.retryOptions.maxDelay ?? 60000;
+		const requestedDelay = this.getRequestedRetryDelay(
+			headers,
+			error.response?.status || error.status,
+		);
+
+		// Retrying before the server allows it would only fail again
+		if (requestedDelay !== null) {
+			return requestedDelay <= maxDelay ? requestedDelay : null;
+		}
+
+		return Math.min(this.errorHandler.getRetryDelay(retryCount), maxDelay);
+	}
+
+	/**
+	 * A POST that failed with a server error or timeout may already have created something, so it
+	 * is only sent again when Pinterest rate limited it or the connection was never established
+	 */
+	private isRetryableFor(error: any, method?: string): boolean {
+		if (method?.toUpperCase() !== 'POST') {
+			return this.errorHandler.isRetryableError(error);
+		}
+
+		const statusCode = error.response?.status || error.status;
+		return (
+			statusCode === 429 || (!statusCode && CONNECTION_NOT_ESTABLISHED_CODES.includes(error.code))
+		);
+	}
+
+	/**
+	 * Read the wait time requested by the server from Retry-After or, for rate limit errors, x-ratelimit-reset
+	 * @param headers Response headers of the failed request
+	 * @param statusCode HTTP status of the failed request
+	 * @returns Delay in milliseconds, or null when the server did not ask for one
+	 */
+	private getRequestedRetryDelay(
+		headers: Record<string, any> | undefined,
+		statusCode?: number,
+	): number | null {
+		if (!headers) {
+			return null;
+		}
+
+		const retryAfter = headers['retry-after'] ?? headers['Retry-After'];
+		if (retryAfter !== undefined && retryAfter !== null && retryAfter !== '') {
+			const seconds = Number(retryAfter);
+			if (!isNaN(seconds)) {
+				return Math.max(0, seconds * 1000);
+			}
+
+			// Retry-After may also be an HTTP date
+			const date = Date.parse(String(retryAfter));
+			if (!isNaN(date)) {
+				return Math.max(0, date - Date.now());
+			}
+		}
+
+		const reset = Number(headers['x-ratelimit-reset']);
+		if (statusCode === 429 && !isNaN(reset) && reset > 0) {
+			// Unix timestamps are absolute, smaller values are seconds until the reset
+			return reset > 1e9 ? Math.max(0, reset * 1000 - Date.now()) : reset * 1000;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Wait before the next attempt
+	 * @param ms Milliseconds to wait
+	 */
+	private sleep(ms: number): Promise<void> {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+
 	/**
 	 * Calculate approximate request size in bytes
 	 * @param data Request data
@@ -311,6 +555,26 @@ export class PinterestApiClient {
 		}
 	}
 
+	/**
+	 * Append page size and bookmark query parameters to a list endpoint
+	 * @param endpoint API endpoint
+	 * @param params Pagination parameters
+	 */
+	private withPagination(endpoint: string, params?: PaginationParams): string {
+		const queryParams = new URLSearchParams();
+
+		if (params?.limit) {
+			queryParams.append('page_size', params.limit.toString());
+		}
+
+		if (params?.bookmark) {
+			queryParams.append('bookmark', params.bookmark);
+		}
+
+		const queryString = queryParams.toString();
+		return queryString ? `${endpoint}?${queryString}` : endpoint;
+	}
+
 	/**
 	 * Infer operation name from HTTP method and endpoint
 	 * @param method HTTP method
@@ -382,8 +646,35 @@ export class PinterestApiClient {
 		}
 	}
 
-	async getPin(pinId: string): Promise<PinResponse> {
-		return this.makeRequest<PinResponse>('GET', `/pins/${pinId}`, undefined, undefined, 'get_pin');
+	async getPin(pinId: string, params?: GetPinParams): Promise<PinResponse> {
+		const queryParams = new URLSearchParams();
+
+		if (params?.pin_metrics) {
+			queryParams.append('pin_metrics', 'true');
+		}
+
+		if (params?.ad_account_id) {
+			queryParams.append('ad_account_id', params.ad_account_id);
+		}
+
+		const queryString = queryParams.toString();
+		return this.makeRequest<PinResponse>(
+			'GET',
+			queryString ? `/pins/${pinId}?${queryString}` : `/pins/${pinId}`,
+			undefined,
+			undefined,
+			'get_pin',
+		);
+	}
+
+	async getUserPins(params?: PaginationParams): Promise<UserPinsResponse> {
+		return this.makeRequest<UserPinsResponse>(
+			'GET',
+			this.withPagination('/pins', params),
+			undefined,
+			undefined,
+			'get_user_pins',
+		);
 	}
 
 	async updatePin(pinId: string, updateData: UpdatePinRequest): Promise<PinResponse> {
@@ -420,6 +711,41 @@ export class PinterestApiClient {
 		}
 	}
 
+	async savePin(pinId: string, saveData: SavePinRequest): Promise<PinResponse> {
+		await this.initializeCredentials();
+
+		// Validate operation permissions
+		this.securityMiddleware.validateOperationPermissions(this.credentials, 'save', 'pin');
+
+		// Log API operation for audit
+		const startTime = Date.now();
+		try {
+			const result = await this.makeRequest<PinResponse>(
+				'POST',
+				`/pins/${pinId}/save`,
+				saveData,
+				undefined,
+				'save_pin',
+			);
+
+			this.auditLogger.logApiOperation('save', 'pin', this.credentials, true, {
+				responseTime: Date.now() - startTime,
+				statusCode: 201,
+				resourceId: result.id,
+				sourcePinId: pinId,
+			});
+
+			return result;
+		} catch (error) {
+			this.auditLogger.logApiOperation('save', 'pin', this.credentials, false, {
+				responseTime: Date.now() - startTime,
+				error: (error as Error).message,
+				resourceId: pinId,
+			});
+			throw error;
+		}
+	}
+
 	async deletePin(pinId: string): Promise<void> {
 		await this.initializeCredentials();
 
@@ -469,6 +795,26 @@ export class PinterestApiClient {
 		);
 	}
 
+	async getBoards(params?: ListBoardsParams): Promise<BoardsResponse> {
+		let endpoint = this.withPagination('/boards', params);
+
+		if (params?.privacy) {
+			endpoint += `${endpoint.includes('?') ? '&' : '?'}privacy=${params.privacy}`;
+		}
+
+		return this.makeRequest<BoardsResponse>('GET', endpoint, undefined, undefined, 'get_boards');
+	}
+
+	async getBoardPins(boardId: string, params?: PaginationParams): Promise<BoardPinsResponse> {
+		return this.makeRequest<BoardPinsResponse>(
+			'GET',
+			this.withPagination(`/boards/${boardId}/pins`, params),
+			undefined,
+			undefined,
+			'get_board_pins',
+		);
+	}
+
 	async updateBoard(boardId: string, updateData: UpdateBoardRequest): Promise<BoardResponse> {
 		return this.makeRequest<BoardResponse>(
 			'PATCH',
@@ -489,50 +835,125 @@ export class PinterestApiClient {
 		);
 	}
 
-	// Media operations
-	async uploadMedia(mediaData: MediaUploadRequest): Promise<MediaResponse> {
-		// For media upload, we need to use multipart/form-data
-		const formData = new FormData();
-		formData.append('media_type', mediaData.media_type);
+	// Board section operations
+	async getBoardSections(
+		boardId: string,
+		params?: PaginationParams,
+	): Promise<BoardSectionsResponse> {
+		return this.makeRequest<BoardSectionsResponse>(
+			'GET',
+			this.withPagination(`/boards/${boardId}/sections`, params),
+			undefined,
+			undefined,
+			'get_board_sections',
+		);
+	}
 
-		// Handle file data
-		if (mediaData.file instanceof Buffer) {
-			// Convert Buffer to Blob for FormData
-			const blob = new Blob([mediaData.file]);
-			formData.append('file', blob);
-		} else {
-			formData.append('file', mediaData.file);
-		}
+	async createBoardSection(
+		boardId: string,
+		sectionData: CreateBoardSectionRequest,
+	): Promise<BoardSectionResponse> {
+		return this.makeRequest<BoardSectionResponse>(
+			'POST',
+			`/boards/${boardId}/sections`,
+			sectionData,
+			undefined,
+			'create_board_section',
+		);
+	}
 
-		return this.makeRequest<MediaResponse>(
+	async updateBoardSection(
+		boardId: string,
+		sectionId: string,
+		updateData: UpdateBoardSectionRequest,
+	): Promise<BoardSectionResponse> {
+		return this.makeRequest<BoardSectionResponse>(
+			'PATCH',
+			`/boards/${boardId}/sections/${sectionId}`,
+			updateData,
+			undefined,
+			'update_board_section',
+		);
+	}
+
+	async deleteBoardSection(boardId: string, sectionId: string): Promise<void> {
+		return this.makeRequest<void>(
+			'DELETE',
+			`/boards/${boardId}/sections/${sectionId}`,
+			undefined,
+			undefined,
+			'delete_board_section',
+		);
+	}
+
+	async getBoardSectionPins(
+		boardId: string,
+		sectionId: string,
+		params?: PaginationParams,
+	): Promise<BoardSectionPinsResponse> {
+		return this.makeRequest<BoardSectionPinsResponse>(
+			'GET',
+			this.withPagination(`/boards/${boardId}/sections/${sectionId}/pins`, params),
+			undefined,
+			undefined,
+			'get_board_section_pins',
+		);
+	}
+
+	// Media operations
+	/**
+	 * Register a media upload and get the signed URL the file must be sent to
+	 */
+	async registerMedia(mediaData: MediaUploadRequest): Promise<MediaRegistrationResponse> {
+		return this.makeRequest<MediaRegistrationResponse>(
 			'POST',
 			'/media',
-			formData,
-			{
-				headers: {
-					// Remove Content-Type header to let the browser set it with boundary
-					'Content-Type': undefined,
-				},
-			},
-			'upload_media',
+			mediaData,
+			undefined,
+			'register_media',
 		);
 	}
 
 	/**
-	 * Get media upload status (if supported by Pinterest API)
-	 * Note: Pinterest API v5 doesn't have a direct endpoint for this
-	 * This is a placeholder for future API updates
+	 * Upload a file to the signed URL returned by media registration.
+	 * The signed URL is not a Pinterest API endpoint, so no credentials are sent.
 	 */
-	async getMediaStatus(mediaId: string): Promise<MediaResponse> {
-		// This would be the endpoint if Pinterest supported it
-		// return this.makeRequest<MediaResponse>('GET', `/media/${mediaId}`);
+	async uploadMediaFile(
+		registration: MediaRegistrationResponse,
+		file: { buffer: Buffer; filename: string; mimeType: string },
+	): Promise<void> {
+		const formData = new FormData();
+
+		// The signed upload parameters must precede the file field
+		for (const [key, value] of Object.entries(registration.upload_parameters || {})) {
+			formData.append(key, value);
+		}
+		formData.append('file', new Blob([file.buffer], { type: file.mimeType }), file.filename);
 
-		// For now, return a placeholder response
-		return {
-			media_id: mediaId,
-			media_type: 'image', // We don't know the actual type
-			status: 'succeeded', // Assume success for now
-		};
+		this.logger.debug('Uploading media file to signed URL', {
+			mediaId: registration.media_id,
+			mediaType: registration.media_type,
+			fileSize: file.buffer.length,
+		});
+
+		await this.executeFunctions.helpers.httpRequest({
+			method: 'POST',
+			url: registration.upload_url,
+			body: formData,
+		});
+	}
+
+	/**
+	 * Get the processing status of a registered media upload
+	 */
+	async getMediaStatus(mediaId: string): Promise<MediaResponse> {
+		return this.makeRequest<MediaResponse>(
+			'GET',
+			`/media/${mediaId}`,
+			undefined,
+			undefined,
+			'get_media_status',
+		);
 	}
 
 	// User operations
@@ -628,6 +1049,557 @@ export class PinterestApiClient {
 		return this.makeRequest<AnalyticsResponse>('GET', endpoint);
 	}
 
+	// Ads operations
+	async getAdAccounts(params?: PaginationParams): Promise<AdAccountsResponse> {
+		await this.validateScope('get', 'adAccount');
+
+		return this.makeRequest<AdAccountsResponse>(
+			'GET',
+			this.withPagination('/ad_accounts', params),
+			undefined,
+			undefined,
+			'get_ad_accounts',
+		);
+	}
+
+	async getAdAccount(adAccountId: string): Promise<AdAccountResponse> {
+		await this.validateScope('get', 'adAccount');
+
+		return this.makeRequest<AdAccountResponse>(
+			'GET',
+			`/ad_accounts/${adAccountId}`,
+			undefined,
+			undefined,
+			'get_ad_account',
+		);
+	}
+
+	async getCampaigns(
+		adAccountId: string,
+		params?: ListAdEntitiesParams,
+	): Promise<CampaignsResponse> {
+		await this.validateScope('get', 'campaign');
+
+		return this.makeRequest<CampaignsResponse>(
+			'GET',
+			this.withAdsFilters(`/ad_accounts/${adAccountId}/campaigns`, params),
+			undefined,
+			undefined,
+			'get_campaigns',
+		);
+	}
+
+	async getCampaign(adAccountId: string, campaignId: string): Promise<CampaignResponse> {
+		await this.validateScope('get', 'campaign');
+
+		return this.makeRequest<CampaignResponse>(
+			'GET',
+			`/ad_accounts/${adAccountId}/campaigns/${campaignId}`,
+			undefined,
+			undefined,
+			'get_campaign',
+		);
+	}
+
+	async createCampaign(
+		adAccountId: string,
+		campaignData: CampaignRequest,
+	): Promise<CampaignResponse> {
+		return this.writeAdsEntity<CampaignResponse>('create', 'campaign', adAccountId, {
+			...campaignData,
+			ad_account_id: adAccountId,
+		});
+	}
+
+	async updateCampaign(
+		adAccountId: string,
+		campaignId: string,
+		updateData: CampaignRequest,
+	): Promise<CampaignResponse> {
+		return this.writeAdsEntity<CampaignResponse>('update', 'campaign', adAccountId, {
+			...updateData,
+			id: campaignId,
+			ad_account_id: adAccountId,
+		});
+	}
+
+	async getAdGroups(adAccountId: string, params?: ListAdEntitiesParams): Promise<AdGroupsResponse> {
+		await this.validateScope('get', 'adGroup');
+
+		return this.makeRequest<AdGroupsResponse>(
+			'GET',
+			this.withAdsFilters(`/ad_accounts/${adAccountId}/ad_groups`, params),
+			undefined,
+			undefined,
+			'get_ad_groups',
+		);
+	}
+
+	async getAdGroup(adAccountId: string, adGroupId: string): Promise<AdGroupResponse> {
+		await this.validateScope('get', 'adGroup');
+
+		return this.makeRequest<AdGroupResponse>(
+			'GET',
+			`/ad_accounts/${adAccountId}/ad_groups/${adGroupId}`,
+			undefined,
+			undefined,
+			'get_ad_group',
+		);
+	}
+
+	async createAdGroup(adAccountId: string, adGroupData: AdGroupRequest): Promise<AdGroupResponse> {
+		return this.writeAdsEntity<AdGroupResponse>('create', 'adGroup', adAccountId, {
+			...adGroupData,
+			ad_account_id: adAccountId,
+		});
+	}
+
+	async updateAdGroup(
+		adAccountId: string,
+		adGroupId: string,
+		updateData: AdGroupRequest,
+	): Promise<AdGroupResponse> {
+		return this.writeAdsEntity<AdGroupResponse>('update', 'adGroup', adAccountId, {
+			...updateData,
+			id: adGroupId,
+			ad_account_id: adAccountId,
+		});
+	}
+
+	async getAds(adAccountId: string, params?: ListAdEntitiesParams): Promise<AdsResponse> {
+		await this.validateScope('get', 'ad');
+
+		return this.makeRequest<AdsResponse>(
+			'GET',
+			this.withAdsFilters(`/ad_accounts/${adAccountId}/ads`, params),
+			undefined,
+			undefined,
+			'get_ads',
+		);
+	}
+
+	async getAd(adAccountId: string, adId: string): Promise<AdResponse> {
+		await this.validateScope('get', 'ad');
+
+		return this.makeRequest<AdResponse>(
+			'GET',
+			`/ad_accounts/${adAccountId}/ads/${adId}`,
+			undefined,
+			undefined,
+			'get_ad',
+		);
+	}
+
+	async createAd(adAccountId: string, adData: AdRequest): Promise<AdResponse> {
+		return this.writeAdsEntity<AdResponse>('create', 'ad', adAccountId, adData);
+	}
+
+	async updateAd(adAccountId: string, adId: string, updateData: AdRequest): Promise<AdResponse> {
+		return this.writeAdsEntity<AdResponse>('update', 'ad', adAccountId, {
+			...updateData,
+			id: adId,
+		});
+	}
+
+	/**
+	 * Sends conversion events to the Conversions API
+	 * @param adAccountId Ad account the events are attributed to
+	 * @param events Events with hashed user data, at most 1000 per request
+	 * @param test Whether Pinterest should validate the events without recording them
+	 */
+	async sendConversionEvents(
+		adAccountId: string,
+		events: ConversionEvent[],
+		test = false,
+	): Promise<ConversionEventsResponse> {
+		await this.validateScope('send', 'conversionEvent');
+
+		const startTime = Date.now();
+		try {
+			const result = await this.makeRequest<ConversionEventsResponse>(
+				'POST',
+				`/ad_accounts/${adAccountId}/events${test ? '?test=true' : ''}`,
+				{ data: events },
+				undefined,
+				'send_conversion_events',
+			);
+
+			this.auditLogger.logApiOperation('send', 'conversionEvent', this.credentials, true, {
+				responseTime: Date.now() - startTime,
+				statusCode: 200,
+				resourceId: adAccountId,
+			});
+
+			return result;
+		} catch (error) {
+			this.auditLogger.logApiOperation('send', 'conversionEvent', this.credentials, false, {
+				responseTime: Date.now() - startTime,
+				error: (error as Error).message,
+			});
+			throw error;
+		}
+	}
+
+	// Catalog operations
+	async getCatalogFeeds(params?: PaginationParams): Promise<CatalogFeedsResponse> {
+		await this.validateScope('get', 'catalog');
+
+		return this.makeRequest<CatalogFeedsResponse>(
+			'GET',
+			this.withPagination('/catalogs/feeds', params),
+			undefined,
+			undefined,
+			'get_catalog_feeds',
+		);
+	}
+
+	async getCatalogFeed(feedId: string): Promise<CatalogFeedResponse> {
+		await this.validateScope('get', 'catalog');
+
+		return this.makeRequest<CatalogFeedResponse>(
+			'GET',
+			`/catalogs/feeds/${feedId}`,
+			undefined,
+			undefined,
+			'get_catalog_feed',
+		);
+	}
+
+	async createCatalogFeed(feedData: CatalogFeedRequest): Promise<CatalogFeedResponse> {
+		return this.writeCatalog<CatalogFeedResponse>(
+			'create',
+			'POST',
+			'/catalogs/feeds',
+			feedData,
+			'create_catalog_feed',
+			(feed) => feed.id,
+		);
+	}
+
+	async updateCatalogFeed(
+		feedId: string,
+		feedData: CatalogFeedRequest,
+	): Promise<CatalogFeedResponse> {
+		return this.writeCatalog<CatalogFeedResponse>(
+			'update',
+			'PATCH',
+			`/catalogs/feeds/${feedId}`,
+			feedData,
+			'update_catalog_feed',
+			() => feedId,
+		);
+	}
+
+	/**
+	 * Queues a batch of catalog item upserts or deletes.
+	 * Pinterest processes the batch asynchronously; poll its status with getCatalogItemsBatch.
+	 * @param batch Items of one country and language, at most 1000 per request
+	 */
+	async sendCatalogItemsBatch(batch: CatalogItemsBatchRequest): Promise<CatalogItemsBatchResponse> {
+		return this.writeCatalog<CatalogItemsBatchResponse>(
+			batch.operation === 'DELETE' ? 'delete' : 'update',
+			'POST',
+			'/catalogs/items/batch',
+			batch,
+			`${batch.operation.toLowerCase()}_catalog_items`,
+			(response) => response.batch_id,
+		);
+	}
+
+	async getCatalogItemsBatch(batchId: string): Promise<CatalogItemsBatchResponse> {
+		await this.validateScope('get', 'catalog');
+
+		return this.makeRequest<CatalogItemsBatchResponse>(
+			'GET',
+			`/catalogs/items/batch/${batchId}`,
+			undefined,
+			undefined,
+			'get_catalog_items_batch',
+		);
+	}
+
+	async getProductGroups(
+		params?: PaginationParams & { feed_id?: string },
+	): Promise<ProductGroupsResponse> {
+		await this.validateScope('get', 'catalog');
+
+		let endpoint = this.withPagination('/catalogs/product_groups', params);
+		if (params?.feed_id) {
+			endpoint += `${endpoint.includes('?') ? '&' : '?'}feed_id=${encodeURIComponent(params.feed_id)}`;
+		}
+
+		return this.makeRequest<ProductGroupsResponse>(
+			'GET',
+			endpoint,
+			undefined,
+			undefined,
+			'get_product_groups',
+		);
+	}
+
+	// Audience operations
+	async getAudiences(adAccountId: string, params?: PaginationParams): Promise<AudiencesResponse> {
+		await this.validateScope('get', 'audience');
+
+		return this.makeRequest<AudiencesResponse>(
+			'GET',
+			this.withPagination(`/ad_accounts/${adAccountId}/audiences`, params),
+			undefined,
+			undefined,
+			'get_audiences',
+		);
+	}
+
+	async getAudience(adAccountId: string, audienceId: string): Promise<AudienceResponse> {
+		await this.validateScope('get', 'audience');
+
+		return this.makeRequest<AudienceResponse>(
+			'GET',
+			`/ad_accounts/${adAccountId}/audiences/${audienceId}`,
+			undefined,
+			undefined,
+			'get_audience',
+		);
+	}
+
+	async createAudience(
+		adAccountId: string,
+		audienceData: AudienceRequest,
+	): Promise<AudienceResponse> {
+		return this.writeAudience<AudienceResponse>(
+			'create',
+			'POST',
+			`/ad_accounts/${adAccountId}/audiences`,
+			audienceData,
+			'create_audience',
+			{},
+		);
+	}
+
+	async getCustomerList(
+		adAccountId: string,
+		customerListId: string,
+	): Promise<CustomerListResponse> {
+		await this.validateScope('get', 'audience');
+
+		return this.makeRequest<CustomerListResponse>(
+			'GET',
+			`/ad_accounts/${adAccountId}/customer_lists/${customerListId}`,
+			undefined,
+			undefined,
+			'get_customer_list',
+		);
+	}
+
+	/**
+	 * Creates a customer list with its first records
+	 * @param listData List name, type and hashed records, at most 5000 per request
+	 */
+	async createCustomerList(
+		adAccountId: string,
+		listData: CustomerListRequest,
+	): Promise<CustomerListResponse> {
+		return this.writeAudience<CustomerListResponse>(
+			'create',
+			'POST',
+			`/ad_accounts/${adAccountId}/customer_lists`,
+			listData,
+			'create_customer_list',
+			{ listType: listData.list_type, recordCount: this.countRecords(listData.records) },
+		);
+	}
+
+	/**
+	 * Adds records to or removes records from a customer list
+	 * @param listData Hashed records, at most 5000 per request, and the operation type
+	 */
+	async updateCustomerList(
+		adAccountId: string,
+		customerListId: string,
+		listData: CustomerListRequest,
+	): Promise<CustomerListResponse> {
+		return this.writeAudience<CustomerListResponse>(
+			'update',
+			'PATCH',
+			`/ad_accounts/${adAccountId}/customer_lists/${customerListId}`,
+			listData,
+			`${(listData.operation_type || 'ADD').toLowerCase()}_customer_list_records`,
+			{
+				operationType: listData.operation_type || 'ADD',
+				recordCount: this.countRecords(listData.records),
+			},
+		);
+	}
+
+	/**
+	 * Checks that the connected account granted the ads or catalogs scope an operation needs
+	 */
+	private async validateScope(operation: string, resource: string): Promise<void> {
+		await this.initializeCredentials();
+		this.securityMiddleware.validateOperationPermissions(this.credentials, operation, resource);
+	}
+
+	/**
+	 * Creates or updates a single campaign, ad group or ad.
+	 * These endpoints take a list of entities and report failures per entity with a 200 response,
+	 * so the first entity's exceptions are raised as errors.
+	 */
+	private async writeAdsEntity<T extends { id: string }>(
+		operation: 'create' | 'update',
+		resource: 'campaign' | 'adGroup' | 'ad',
+		adAccountId: string,
+		entity: (CampaignRequest | AdGroupRequest | AdRequest) & {
+			id?: string;
+			ad_account_id?: string;
+		},
+	): Promise<T> {
+		await this.validateScope(operation, resource);
+
+		const collection = { campaign: 'campaigns', adGroup: 'ad_groups', ad: 'ads' }[resource];
+		const entityName = { campaign: 'campaign', adGroup: 'ad_group', ad: 'ad' }[resource];
+
+		const startTime = Date.now();
+		try {
+			const response = await this.makeRequest<AdsBulkWriteResponse<T>>(
+				operation === 'create' ? 'POST' : 'PATCH',
+				`/ad_accounts/${adAccountId}/${collection}`,
+				[entity],
+				undefined,
+				`${operation}_${entityName}`,
+			);
+
+			const result = response.items?.[0];
+			if (!result?.data) {
+				const reason =
+					result?.exceptions
+						?.map((exception) => exception.message)
+						.filter(Boolean)
+						.join('; ') || 'No result returned';
+				throw new NodeOperationError(
+					this.executeFunctions.getNode(),
+					`Pinterest rejected the ${entityName.replace('_', ' ')}: ${reason}`,
+				);
+			}
+
+			this.auditLogger.logApiOperation(operation, resource, this.credentials, true, {
+				responseTime: Date.now() - startTime,
+				statusCode: 200,
+				resourceId: result.data.id,
+			});
+
+			return result.data;
+		} catch (error) {
+			this.auditLogger.logApiOperation(operation, resource, this.credentials, false, {
+				responseTime: Date.now() - startTime,
+				error: (error as Error).message,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Sends a catalog write and records it in the audit log
+	 */
+	private async writeCatalog<T>(
+		operation: 'create' | 'update' | 'delete',
+		method: 'POST' | 'PATCH',
+		endpoint: string,
+		body: CatalogFeedRequest | CatalogItemsBatchRequest,
+		operationName: string,
+		getResourceId: (result: T) => string,
+	): Promise<T> {
+		await this.validateScope(operation, 'catalog');
+
+		const startTime = Date.now();
+		try {
+			const result = await this.makeRequest<T>(method, endpoint, body, undefined, operationName);
+
+			this.auditLogger.logApiOperation(operation, 'catalog', this.credentials, true, {
+				responseTime: Date.now() - startTime,
+				statusCode: 200,
+				resourceId: getResourceId(result),
+			});
+
+			return result;
+		} catch (error) {
+			this.auditLogger.logApiOperation(operation, 'catalog', this.credentials, false, {
+				responseTime: Date.now() - startTime,
+				error: (error as Error).message,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Sends an audience or customer list write and records it in the audit log.
+	 * Only counts go into the log entry so hashed identifiers never leave the request.
+	 */
+	private async writeAudience<T extends { id: string }>(
+		operation: 'create' | 'update',
+		method: 'POST' | 'PATCH',
+		endpoint: string,
+		body: AudienceRequest | CustomerListRequest,
+		operationName: string,
+		auditDetails: Record<string, string | number | undefined>,
+	): Promise<T> {
+		await this.validateScope(operation, 'audience');
+
+		const startTime = Date.now();
+		try {
+			const result = await this.makeRequest<T>(method, endpoint, body, undefined, operationName);
+
+			this.auditLogger.logApiOperation(operation, 'audience', this.credentials, true, {
+				...auditDetails,
+				responseTime: Date.now() - startTime,
+				statusCode: 200,
+				resourceId: result.id,
+			});
+
+			return result;
+		} catch (error) {
+			this.auditLogger.logApiOperation(operation, 'audience', this.credentials, false, {
+				...auditDetails,
+				responseTime: Date.now() - startTime,
+				error: (error as Error).message,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Counts the records of a comma-separated customer list upload
+	 */
+	private countRecords(records: string): number {
+		return records ? records.split(',').length : 0;
+	}
+
+	/**
+	 * Appends pagination and the ads list filters to an endpoint
+	 */
+	private withAdsFilters(endpoint: string, params?: ListAdEntitiesParams): string {
+		const url = this.withPagination(endpoint, params);
+		const queryParams = new URLSearchParams();
+
+		if (params?.entity_statuses && params.entity_statuses.length > 0) {
+			queryParams.append('entity_statuses', params.entity_statuses.join(','));
+		}
+
+		if (params?.campaign_ids && params.campaign_ids.length > 0) {
+			queryParams.append('campaign_ids', params.campaign_ids.join(','));
+		}
+
+		if (params?.ad_group_ids && params.ad_group_ids.length > 0) {
+			queryParams.append('ad_group_ids', params.ad_group_ids.join(','));
+		}
+
+		const queryString = queryParams.toString();
+		if (!queryString) {
+			return url;
+		}
+
+		return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+	}
+
 	// Search operations
 	async searchPins(params: SearchPinsParams): Promise<SearchPinsResponse> {
 		const queryParams = new URLSearchParams({
@@ -687,6 +1659,42 @@ export class PinterestApiClient {
 		);
 	}
 
+	/**
+	 * Follow bookmarks through a paginated endpoint until exhausted or the cap is reached
+	 * Each page goes through makeRequest, so the rate limiter is consulted for every request
+	 * @param fetchPage Function that fetches one page for the given bookmark
+	 * @param maxResults Maximum number of items to collect (0 for no cap)
+	 */
+	async fetchAllPages<T>(
+		fetchPage: (bookmark?: string) => Promise<SearchResponse<T>>,
+		maxResults = 0,
+	): Promise<T[]> {
+		const results: T[] = [];
+		const seenBookmarks = new Set<string>();
+		let bookmark: string | undefined;
+
+		do {
+			const response = await fetchPage(bookmark);
+			results.push(...(response.items || []));
+
+			if (maxResults > 0 && results.length >= maxResults) {
+				return results.slice(0, maxResults);
+			}
+
+			bookmark = response.bookmark || undefined;
+
+			// Guard against the API returning the same bookmark twice
+			if (bookmark && seenBookmarks.has(bookmark)) {
+				break;
+			}
+			if (bookmark) {
+				seenBookmarks.add(bookmark);
+			}
+		} while (bookmark);
+
+		return results;
+	}
+
 	async getTrending(params?: TrendingParams): Promise<TrendingResponse> {
 		const queryParams = new URLSearchParams();
 
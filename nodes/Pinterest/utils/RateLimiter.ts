@@ -1,6 +1,48 @@
-import type { RateLimitInfo } from './types';
+import type { IDataObject } from 'n8n-workflow';
+import type { RateLimitInfo, RateLimitState } from './types';
 import type { Logger } from './Logger';
 
+/**
+ * Storage for rate limit state, keyed by credential hash
+ */
+export interface RateLimitStore {
+	get(key: string): RateLimitState | undefined;
+	set(key: string, state: RateLimitState): void;
+}
+
+/**
+ * In-process store shared by every client running in the same n8n instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+	private states = new Map<string, RateLimitState>();
+
+	get(key: string): RateLimitState | undefined {
+		return this.states.get(key);
+	}
+
+	set(key: string, state: RateLimitState): void {
+		this.states.set(key, state);
+	}
+}
+
+/**
+ * Store backed by workflow static data so the budget survives across executions
+ */
+export class StaticDataRateLimitStore implements RateLimitStore {
+	constructor(private staticData: IDataObject) {}
+
+	get(key: string): RateLimitState | undefined {
+		const states = this.staticData.pinterestRateLimits as IDataObject | undefined;
+		return states?.[key] as RateLimitState | undefined;
+	}
+
+	set(key: string, state: RateLimitState): void {
+		const states = (this.staticData.pinterestRateLimits || {}) as IDataObject;
+		states[key] = state as unknown as IDataObject;
+		this.staticData.pinterestRateLimits = states;
+	}
+}
+
 /**
  * Rate Limiter for Pinterest API compliance
  * Implements intelligent queuing and rate limit management for Pinterest API (1000 requests/hour)
@@ -18,6 +60,14 @@ export class RateLimiter {
 	private lastRequestTime = 0;
 	private readonly minRequestInterval = 100; // Minimum 100ms between requests
 	private logger?: Logger;
+	private store?: RateLimitStore;
+	private storeKey?: string;
+	private lastHeaders?: RateLimitState['lastHeaders'];
+
+	/**
+	 * Store used when no workflow storage is available
+	 */
+	static readonly sharedStore: RateLimitStore = new MemoryRateLimitStore();
 
 	/**
 	 * Set logger for rate limiting events
@@ -27,11 +77,30 @@ export class RateLimiter {
 		this.logger = logger;
 	}
 
+	/**
+	 * Keep rate limit state in shared storage so other clients using the same credential see it
+	 * @param store Storage for the state
+	 * @param key Credential hash the state belongs to
+	 */
+	attachStore(store: RateLimitStore, key: string): void {
+		this.store = store;
+		this.storeKey = key;
+
+		if (store.get(key)) {
+			this.loadState();
+		} else {
+			this.saveState();
+		}
+	}
+
 	/**
 	 * Check if request can be made within rate limits
 	 * Implements intelligent queuing when approaching limits
 	 */
 	async checkLimit(): Promise<void> {
+		// Pick up requests made by other clients since our last check
+		this.loadState();
+
 		const now = Date.now();
 
 		// Reset counter if window has passed
@@ -39,6 +108,7 @@ export class RateLimiter {
 			const wasReset = this.requestCount > 0;
 			this.requestCount = 0;
 			this.resetTime = now + this.windowMs;
+			this.saveState();
 
 			if (wasReset && this.logger) {
 				this.logger.logRateLimit('reset', 0, this.windowMs, 0);
@@ -80,8 +150,11 @@ export class RateLimiter {
 			}
 		}
 
+		// Other clients may have used the budget while this request was waiting
+		this.loadState();
 		this.requestCount++;
 		this.lastRequestTime = Date.now();
+		this.saveState();
 	}
 
 	/**
@@ -110,16 +183,30 @@ export class RateLimiter {
 			this.resetTime = reset * 1000; // Convert to milliseconds
 		}
 
+		if (remaining !== null || reset !== null || limit !== null) {
+			this.lastHeaders = { limit, remaining, reset, receivedAt: Date.now() };
+			this.saveState();
+		}
+
 		// If we have accurate data from headers, process any queued requests
 		if (remaining !== null && remaining > 0 && this.requestQueue.length > 0) {
 			this.processQueue();
 		}
 	}
 
+	/**
+	 * Get the last rate limit headers received from Pinterest
+	 */
+	getLastHeaders(): RateLimitState['lastHeaders'] {
+		return this.lastHeaders;
+	}
+
 	/**
 	 * Get current rate limit status
 	 */
 	getRateLimitInfo(): RateLimitInfo {
+		this.loadState();
+
 		const now = Date.now();
 		const remaining = Math.max(0, this.currentLimit - this.requestCount);
 		const resetTimeSeconds = Math.ceil(this.resetTime / 1000);
@@ -144,6 +231,8 @@ export class RateLimiter {
 	 * Check if we're approaching rate limits
 	 */
 	isApproachingLimit(): boolean {
+		this.loadState();
+
 		const usageRatio = this.requestCount / this.maxRequests;
 		return usageRatio >= this.warningThreshold;
 	}
@@ -152,6 +241,8 @@ export class RateLimiter {
 	 * Check if rate limit is exceeded
 	 */
 	isLimitExceeded(): boolean {
+		this.loadState();
+
 		const now = Date.now();
 
 		// If window has passed, we're not exceeded
@@ -254,6 +345,47 @@ export class RateLimiter {
 		return isNaN(parsed) ? null : parsed;
 	}
 
+	/**
+	 * Load the latest state from the attached store
+	 */
+	private loadState(): void {
+		if (!this.store || !this.storeKey) {
+			return;
+		}
+
+		const state = this.store.get(this.storeKey);
+		if (!state) {
+			return;
+		}
+
+		this.requestCount = state.requestCount;
+		this.resetTime = state.resetTime;
+		this.currentLimit = state.currentLimit;
+		this.lastRequestTime = state.lastRequestTime;
+		this.lastHeaders = state.lastHeaders;
+	}
+
+	/**
+	 * Write the current state to the attached store
+	 */
+	private saveState(): void {
+		if (!this.store || !this.storeKey) {
+			return;
+		}
+
+		const state: RateLimitState = {
+			requestCount: this.requestCount,
+			resetTime: this.resetTime,
+			currentLimit: this.currentLimit,
+			lastRequestTime: this.lastRequestTime,
+		};
+		if (this.lastHeaders) {
+			state.lastHeaders = this.lastHeaders;
+		}
+
+		this.store.set(this.storeKey, state);
+	}
+
 	/**
 	 * Sleep for specified milliseconds
 	 * @param ms Milliseconds to sleep
@@ -272,6 +404,8 @@ export class RateLimiter {
 		this.requestQueue = [];
 		this.isProcessingQueue = false;
 		this.lastRequestTime = 0;
+		this.lastHeaders = undefined;
+		this.saveState();
 	}
 
 	/**
@@ -0,0 +1,182 @@
+import type { INode, INodeParameterResourceLocator } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { PinterestApiClient } from './PinterestApiClient';
+import type { BoardResponse } from './types';
+
+/**
+ * Matches pinterest.com pin URLs, capturing the pin ID
+ */
+export const PIN_URL_REGEX = 'https?://(?:[a-z]+\\.)?pinterest\\.[a-z.]+/pin/([0-9]+)';
+
+/**
+ * Matches pinterest.com board URLs, capturing the owner's username and the board slug
+ */
+export const BOARD_URL_REGEX = 'https?://(?:[a-z]+\\.)?pinterest\\.[a-z.]+/([^/?#]+)/([^/?#]+)';
+
+/**
+ * Pinterest IDs are numeric strings, usually 18 digits long
+ */
+export const PINTEREST_ID_REGEX = '^[0-9]{10,20}$';
+
+/**
+ * Resolves the values of the node's board, pin and section resource locators into IDs
+ */
+export class ResourceLocator {
+	/**
+	 * Boards found by URL per client, keyed by owner and slug, so that items pointing at the same
+	 * board URL only page through the boards once per execution
+	 */
+	private static boardsByUrl = new WeakMap<
+		PinterestApiClient,
+		Map<string, Promise<BoardResponse | undefined>>
+	>();
+
+	/**
+	 * Returns the mode and value of a resource locator parameter.
+	 * Plain strings, as saved by workflows from before the parameter was a locator, are treated as IDs.
+	 */
+	static read(parameter: unknown): { mode: string; value: string } {
+		if (parameter && typeof parameter === 'object' && '__rl' in parameter) {
+			const locator = parameter as INodeParameterResourceLocator;
+			return { mode: locator.mode, value: String(locator.value ?? '').trim() };
+		}
+
+		return { mode: 'id', value: parameter == null ? '' : String(parameter).trim() };
+	}
+
+	/**
+	 * Returns the ID of a locator that only offers list and ID modes, such as board sections
+	 */
+	static getId(parameter: unknown): string {
+		return ResourceLocator.read(parameter).value;
+	}
+
+	/**
+	 * Resolves a pin locator, extracting the ID from pinterest.com pin URLs
+	 */
+	static getPinId(node: INode, parameter: unknown, itemIndex: number): string {
+		const { mode, value } = ResourceLocator.read(parameter);
+
+		if (mode !== 'url' || value === '') {
+			return value;
+		}
+
+		const match = value.match(new RegExp(PIN_URL_REGEX, 'i'));
+		if (!match) {
+			throw new NodeOperationError(node, `Invalid Pinterest pin URL: ${value}`, { itemIndex });
+		}
+
+		return match[1];
+	}
+
+	/**
+	 * Resolves a board locator. Board URLs carry the owner and a slug of the board name rather
+	 * than the ID, so they are matched against the connected account's boards.
+	 */
+	static async getBoardId(
+		node: INode,
+		apiClient: PinterestApiClient,
+		parameter: unknown,
+		itemIndex: number,
+	): Promise<string> {
+		const { mode, value } = ResourceLocator.read(parameter);
+
+		if (mode !== 'url' || value === '') {
+			return value;
+		}
+
+		if (!new RegExp(BOARD_URL_REGEX, 'i').test(value)) {
+			throw new NodeOperationError(node, `Invalid Pinterest board URL: ${value}`, { itemIndex });
+		}
+
+		const board = await ResourceLocator.findBoardByUrl(apiClient, value);
+		if (!board) {
+			throw new NodeOperationError(
+				node,
+				`No board of the connected account matches the URL: ${value}`,
+				{
+					itemIndex,
+					description: 'Only boards owned by the connected account can be selected by URL',
+				},
+			);
+		}
+
+		return board.id;
+	}
+
+	/**
+	 * Finds the connected account's board that a pinterest.com board URL points to. Matches are
+	 * remembered for the client; misses and failures are looked up again on the next call.
+	 */
+	static async findBoardByUrl(
+		apiClient: PinterestApiClient,
+		url: string,
+	): Promise<BoardResponse | undefined> {
+		const match = url.match(new RegExp(BOARD_URL_REGEX, 'i'));
+		if (!match) {
+			return undefined;
+		}
+
+		const username = decodeURIComponent(match[1]).toLowerCase();
+		const slug = decodeURIComponent(match[2]).toLowerCase();
+		const key = `${username}/${slug}`;
+
+		let cache = ResourceLocator.boardsByUrl.get(apiClient);
+		if (!cache) {
+			cache = new Map();
+			ResourceLocator.boardsByUrl.set(apiClient, cache);
+		}
+
+		let lookup = cache.get(key);
+		if (!lookup) {
+			lookup = ResourceLocator.searchBoards(apiClient, username, slug);
+			cache.set(key, lookup);
+		}
+
+		try {
+			const board = await lookup;
+			if (!board) {
+				cache.delete(key);
+			}
+			return board;
+		} catch (error) {
+			cache.delete(key);
+			throw error;
+		}
+	}
+
+	private static async searchBoards(
+		apiClient: PinterestApiClient,
+		username: string,
+		slug: string,
+	): Promise<BoardResponse | undefined> {
+		const boards = await apiClient.fetchAllPages(
+			async (bookmark) => await apiClient.getBoards({ limit: 250, bookmark }),
+		);
+
+		return boards.find((board) => {
+			// Board URLs may come back absolute or as a path relative to pinterest.com
+			const boardMatch = board.url?.match(/^(?:https?:\/\/[^/]+)?\/([^/?#]+)\/([^/?#]+)/i);
+			if (boardMatch) {
+				return boardMatch[1].toLowerCase() === username && boardMatch[2].toLowerCase() === slug;
+			}
+
+			return (
+				board.owner?.username?.toLowerCase() === username &&
+				ResourceLocator.slugify(board.name) === slug
+			);
+		});
+	}
+
+	/**
+	 * Builds the URL slug Pinterest derives from a board name
+	 */
+	static slugify(name: string): string {
+		return name
+			.toLowerCase()
+			.normalize('NFKD')
+			.replace(/[\u0300-\u036f]/g, '')
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '');
+	}
+}
@@ -1,12 +1,8 @@
-import {
-	type IExecuteFunctions,
-	type ICredentialDataDecryptedObject,
-	type INode,
-	NodeOperationError,
-} from 'n8n-workflow';
+import { type ICredentialDataDecryptedObject, type INode, NodeOperationError } from 'n8n-workflow';
 import { SecurityValidator } from './SecurityValidator';
 import { CredentialSecurityValidator } from './CredentialSecurityValidator';
 import { AuditLogger } from './AuditLogger';
+import type { PinterestApiContext } from './PinterestApiClient';
 
 /**
  * Security Middleware for Pinterest Node
@@ -18,7 +14,7 @@ export class SecurityMiddleware {
 	private auditLogger: AuditLogger;
 
 	constructor(
-		private executeFunctions: IExecuteFunctions,
+		private executeFunctions: PinterestApiContext,
 		private node: INode,
 		private itemIndex: number = 0,
 	) {
@@ -92,8 +88,14 @@ export class SecurityMiddleware {
 
 			// Validate media source
 			const mediaSource = params.mediaSource;
-			if (!mediaSource || !['url', 'upload'].includes(mediaSource)) {
-				throw new NodeOperationError(this.node, 'Invalid media source: must be "url" or "upload"');
+			if (
+				!mediaSource ||
+				!['url', 'upload', 'multipleUrls', 'multipleUploads'].includes(mediaSource)
+			) {
+				throw new NodeOperationError(
+					this.node,
+					'Invalid media source: must be "url", "upload", "multipleUrls" or "multipleUploads"',
+				);
 			}
 			sanitized.mediaSource = mediaSource;
 
@@ -432,7 +434,13 @@ export class SecurityMiddleware {
 	 */
 	getSecureParameter<T = any>(parameterName: string, fallback?: T): T {
 		try {
-			return this.executeFunctions.getNodeParameter(parameterName, this.itemIndex, fallback) as T;
+			// Only execute functions read parameters per item
+			const context = this.executeFunctions;
+			return (
+				'getInputData' in context
+					? context.getNodeParameter(parameterName, this.itemIndex, fallback)
+					: context.getNodeParameter(parameterName, fallback)
+			) as T;
 		} catch (error) {
 			this.auditLogger.logValidationFailure(
 				parameterName,
@@ -447,7 +455,7 @@ export class SecurityMiddleware {
 	 * Create security middleware instance for operation
 	 */
 	static createForOperation(
-		executeFunctions: IExecuteFunctions,
+		executeFunctions: PinterestApiContext,
 		node: INode,
 		itemIndex: number = 0,
 	): SecurityMiddleware {
@@ -360,10 +360,13 @@ export class SecurityValidator {
 	}
 
 	/**
-	 * Hash sensitive data for logging
+	 * Hash sensitive data with SHA-256
+	 * @param data Value to hash
+	 * @param fullDigest Return the full hex digest instead of the short prefix used in logs
 	 */
-	static hashSensitiveData(data: string): string {
-		return createHash('sha256').update(data).digest('hex').substring(0, 8);
+	static hashSensitiveData(data: string, fullDigest = false): string {
+		const digest = createHash('sha256').update(data).digest('hex');
+		return fullDigest ? digest : digest.substring(0, 8);
 	}
 
 	/**
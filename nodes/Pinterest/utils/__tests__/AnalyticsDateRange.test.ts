@@ -0,0 +1,91 @@
+import { AnalyticsDateRange } from '../AnalyticsDateRange';
+
+describe('AnalyticsDateRange', () => {
+	describe('resolvePreset', () => {
+		// 02:30 UTC on 1 March is still 28 February in New York
+		const now = new Date('2024-03-01T02:30:00Z');
+
+		it.each([
+			['last7Days', { startDate: '2024-02-23', endDate: '2024-02-29' }],
+			['last30Days', { startDate: '2024-01-31', endDate: '2024-02-29' }],
+			['last90Days', { startDate: '2023-12-02', endDate: '2024-02-29' }],
+			['monthToDate', { startDate: '2024-03-01', endDate: '2024-03-01' }],
+			['previousMonth', { startDate: '2024-02-01', endDate: '2024-02-29' }],
+		] as const)('should resolve %s against today in the timezone', (preset, expected) => {
+			expect(AnalyticsDateRange.resolvePreset(preset, 'UTC', now)).toEqual(expected);
+		});
+
+		it('should use the day of the given timezone as today', () => {
+			expect(AnalyticsDateRange.resolvePreset('monthToDate', 'America/New_York', now)).toEqual({
+				startDate: '2024-02-01',
+				endDate: '2024-02-29',
+			});
+			expect(AnalyticsDateRange.resolvePreset('last7Days', 'America/New_York', now)).toEqual({
+				startDate: '2024-02-22',
+				endDate: '2024-02-28',
+			});
+		});
+
+		it('should resolve the previous month across a year boundary', () => {
+			expect(
+				AnalyticsDateRange.resolvePreset('previousMonth', 'UTC', new Date('2024-01-10T12:00:00Z')),
+			).toEqual({ startDate: '2023-12-01', endDate: '2023-12-31' });
+		});
+	});
+
+	describe('comparison ranges', () => {
+		it('should return the range of the same length before a range', () => {
+			expect(
+				AnalyticsDateRange.previousPeriod({ startDate: '2024-03-01', endDate: '2024-03-07' }),
+			).toEqual({ startDate: '2024-02-23', endDate: '2024-02-29' });
+		});
+
+		it('should return the same days one year earlier', () => {
+			expect(
+				AnalyticsDateRange.previousYear({ startDate: '2024-02-01', endDate: '2024-02-29' }),
+			).toEqual({ startDate: '2023-02-01', endDate: '2023-02-28' });
+		});
+	});
+
+	describe('earliestStartDate', () => {
+		it('should count the lookback back from today in UTC', () => {
+			expect(AnalyticsDateRange.earliestStartDate(new Date('2024-03-01T23:30:00-05:00'))).toBe(
+				'2021-08-31',
+			);
+		});
+	});
+
+	describe('split', () => {
+		it('should keep ranges within the limit as a single range', () => {
+			const window = { startDate: '2024-01-01', endDate: '2024-03-30' };
+
+			expect(AnalyticsDateRange.countDays(window)).toBe(90);
+			expect(AnalyticsDateRange.split(window)).toEqual([window]);
+		});
+
+		it('should split long ranges into consecutive ranges without gaps or overlaps', () => {
+			const windows = AnalyticsDateRange.split({ startDate: '2024-01-01', endDate: '2024-12-31' });
+
+			expect(windows).toEqual([
+				{ startDate: '2024-01-01', endDate: '2024-03-30' },
+				{ startDate: '2024-03-31', endDate: '2024-06-28' },
+				{ startDate: '2024-06-29', endDate: '2024-09-26' },
+				{ startDate: '2024-09-27', endDate: '2024-12-25' },
+				{ startDate: '2024-12-26', endDate: '2024-12-31' },
+			]);
+			expect(windows.reduce((days, window) => days + AnalyticsDateRange.countDays(window), 0)).toBe(
+				366,
+			);
+		});
+
+		it('should honour a custom maximum', () => {
+			expect(
+				AnalyticsDateRange.split({ startDate: '2024-01-01', endDate: '2024-01-05' }, 2),
+			).toEqual([
+				{ startDate: '2024-01-01', endDate: '2024-01-02' },
+				{ startDate: '2024-01-03', endDate: '2024-01-04' },
+				{ startDate: '2024-01-05', endDate: '2024-01-05' },
+			]);
+		});
+	});
+});
@@ -0,0 +1,192 @@
+import { AnalyticsDateRange } from '../AnalyticsDateRange';
+import { AnalyticsStatistics } from '../AnalyticsStatistics';
+
+// Consecutive days starting on Monday 1 January 2024
+const dailySeries = (values: number[]) =>
+	values.map((value, index) => ({ date: AnalyticsDateRange.addDays('2024-01-01', index), value }));
+
+describe('AnalyticsStatistics', () => {
+	describe('mean and variance', () => {
+		it('should calculate the mean and the sample variance', () => {
+			expect(AnalyticsStatistics.mean([1, 2, 3, 6])).toBe(3);
+			expect(AnalyticsStatistics.variance([1, 2, 3, 6])).toBeCloseTo(14 / 3);
+		});
+
+		it('should return null when there are too few values', () => {
+			expect(AnalyticsStatistics.mean([])).toBeNull();
+			expect(AnalyticsStatistics.variance([5])).toBeNull();
+		});
+	});
+
+	describe('tCritical95', () => {
+		it.each([
+			[1, 12.706],
+			[4.9, 2.776],
+			[30, 2.042],
+			[45, 2.0],
+			[1000, 1.96],
+		])('should return the critical value for %p degrees of freedom', (df, expected) => {
+			expect(AnalyticsStatistics.tCritical95(df)).toBe(expected);
+		});
+	});
+
+	describe('compareMeans', () => {
+		it('should calculate the difference and lift with a Welch interval', () => {
+			const comparison = AnalyticsStatistics.compareMeans([4, 6], [1, 2, 3]);
+
+			// Standard error is sqrt(4/3) with 1.68 degrees of freedom, rounded down to 1
+			const margin = 12.706 * Math.sqrt(4 / 3);
+			expect(comparison?.mean).toBe(5);
+			expect(comparison?.baselineMean).toBe(2);
+			expect(comparison?.difference).toBe(3);
+			expect(comparison?.lower).toBeCloseTo(3 - margin);
+			expect(comparison?.upper).toBeCloseTo(3 + margin);
+			expect(comparison?.lift).toBe(1.5);
+			expect(comparison?.liftLower).toBeCloseTo((3 - margin) / 2);
+			expect(comparison?.liftUpper).toBeCloseTo((3 + margin) / 2);
+		});
+
+		it('should collapse the interval for constant series', () => {
+			expect(AnalyticsStatistics.compareMeans([3, 3], [1, 1, 1])).toEqual({
+				mean: 3,
+				baselineMean: 1,
+				difference: 2,
+				lower: 2,
+				upper: 2,
+				lift: 2,
+				liftLower: 2,
+				liftUpper: 2,
+			});
+		});
+
+		it('should leave lift empty when the baseline mean is not positive', () => {
+			const comparison = AnalyticsStatistics.compareMeans([1, 2], [0, 0]);
+
+			expect(comparison?.difference).toBe(1.5);
+			expect(comparison?.lift).toBeNull();
+			expect(comparison?.liftLower).toBeNull();
+		});
+
+		it('should return null when either side has fewer than two values', () => {
+			expect(AnalyticsStatistics.compareMeans([1], [1, 2])).toBeNull();
+			expect(AnalyticsStatistics.compareMeans([1, 2], [])).toBeNull();
+		});
+	});
+
+	describe('median', () => {
+		it('should return the middle value or the mean of the two middle values', () => {
+			expect(AnalyticsStatistics.median([5, 1, 3])).toBe(3);
+			expect(AnalyticsStatistics.median([4, 1, 3, 2])).toBe(2.5);
+			expect(AnalyticsStatistics.median([])).toBeNull();
+		});
+	});
+
+	describe('resolveAnomalyOptions', () => {
+		it('should fill in the defaults', () => {
+			expect(AnalyticsStatistics.resolveAnomalyOptions({})).toEqual({
+				method: 'rollingZScore',
+				direction: 'drops',
+				threshold: 3,
+				windowDays: 28,
+				metrics: ['IMPRESSION', 'SAVE'],
+			});
+		});
+
+		it.each([
+			[{ method: 'prophet' }, 'Unsupported anomaly method: prophet'],
+			[{ direction: 'sideways' }, 'Unsupported anomaly direction: sideways'],
+			[{ threshold: 0 }, 'Anomaly threshold must be greater than 0'],
+			[{ windowDays: 2 }, 'Anomaly window must be at least 3 days'],
+			[
+				{ method: 'seasonalMedian', windowDays: 14 },
+				'Seasonal median detection needs a window of at least 21 days',
+			],
+			[{ metrics: [] }, 'At least one anomaly metric is required'],
+		])('should reject %p', (options, message) => {
+			expect(() => AnalyticsStatistics.resolveAnomalyOptions(options)).toThrow(message);
+		});
+	});
+
+	describe('detectAnomalies', () => {
+		const options = AnalyticsStatistics.resolveAnomalyOptions({ windowDays: 14 });
+
+		it('should flag a drop against the rolling mean with its expected value and severity', () => {
+			const series = dailySeries([
+				...Array.from({ length: 14 }, (_, index) => (index % 2 ? 990 : 1010)),
+				400,
+			]);
+
+			const [anomaly, ...rest] = AnalyticsStatistics.detectAnomalies(series, options);
+
+			expect(rest).toEqual([]);
+			expect(anomaly).toMatchObject({
+				date: '2024-01-15',
+				value: 400,
+				expected: 1000,
+				deviation: -600,
+				deviationPercent: -60,
+				direction: 'drop',
+				severity: 'high',
+			});
+			expect(anomaly.score).toBeLessThan(-6);
+		});
+
+		it('should only flag the requested direction', () => {
+			const series = dailySeries([
+				...Array.from({ length: 14 }, (_, index) => (index % 2 ? 990 : 1010)),
+				1600,
+			]);
+
+			expect(AnalyticsStatistics.detectAnomalies(series, options)).toEqual([]);
+			expect(
+				AnalyticsStatistics.detectAnomalies(series, { ...options, direction: 'both' }),
+			).toEqual([expect.objectContaining({ date: '2024-01-15', direction: 'spike' })]);
+		});
+
+		it('should not flag days without enough history', () => {
+			const series = dailySeries([1000, 1000, 1000, 1000, 1000, 1000, 10]);
+
+			expect(AnalyticsStatistics.detectAnomalies(series, options)).toEqual([]);
+		});
+
+		it('should grade severity by how far the score exceeds the threshold', () => {
+			// A flat history has a spread of 1% of the expected value
+			const severityOf = (value: number) =>
+				AnalyticsStatistics.detectAnomalies(
+					dailySeries([...Array(14).fill(100), value]),
+					options,
+				)[0]?.severity;
+
+			expect(severityOf(98)).toBeUndefined();
+			expect(severityOf(96)).toBe('low');
+			expect(severityOf(95)).toBe('medium');
+			expect(severityOf(94)).toBe('high');
+		});
+
+		it('should leave weekly patterns alone with the seasonal median', () => {
+			// Weekdays have 1000 impressions and weekends 500, and the fifth Wednesday drops to 400
+			const values: number[] = Array.from({ length: 35 }, (_, index) =>
+				index % 7 >= 5 ? 500 : 1000,
+			);
+			values[30] = 400;
+			const series = dailySeries(values);
+
+			expect(
+				AnalyticsStatistics.detectAnomalies(series, {
+					...options,
+					threshold: 1.5,
+					windowDays: 28,
+				}).map(({ date }) => date),
+			).toContain('2024-01-20');
+			expect(
+				AnalyticsStatistics.detectAnomalies(series, {
+					...options,
+					method: 'seasonalMedian',
+					windowDays: 28,
+				}),
+			).toEqual([
+				expect.objectContaining({ date: '2024-01-31', expected: 1000, direction: 'drop' }),
+			]);
+		});
+	});
+});
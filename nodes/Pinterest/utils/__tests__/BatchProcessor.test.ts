@@ -21,6 +21,8 @@ const mockApiClient = {
 	getBoard: jest.fn(),
 	updateBoard: jest.fn(),
 	deleteBoard: jest.fn(),
+	sendCatalogItemsBatch: jest.fn(),
+	updateCustomerList: jest.fn(),
 } as unknown as PinterestApiClient;
 
 describe('BatchProcessor', () => {
@@ -200,6 +202,112 @@ describe('BatchProcessor', () => {
 		});
 	});
 
+	describe('processCatalogItemBatch', () => {
+		const rows = [
+			{ rowIndex: 0, itemId: 'SKU-1', attributes: { title: 'Mug' } },
+			{ rowIndex: 1, itemId: 'SKU-2', attributes: { title: 'Plate' } },
+			{ rowIndex: 2, itemId: 'SKU-3' },
+		];
+		const request = { country: 'US', language: 'EN', operation: 'UPSERT' as const };
+
+		it('should send one batch request per chunk of items', async () => {
+			(mockApiClient.sendCatalogItemsBatch as jest.Mock).mockImplementation(async () => ({
+				batch_id: 'batch-1',
+				status: 'PROCESSING',
+			}));
+
+			const result = await batchProcessor.processCatalogItemBatch(rows, request, 2);
+
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenCalledTimes(2);
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenNthCalledWith(1, {
+				...request,
+				items: [
+					{ item_id: 'SKU-1', attributes: { title: 'Mug' } },
+					{ item_id: 'SKU-2', attributes: { title: 'Plate' } },
+				],
+			});
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenNthCalledWith(2, {
+				...request,
+				items: [{ item_id: 'SKU-3', attributes: {} }],
+			});
+			expect(result.success.map((chunk) => chunk.rows.length)).toEqual([2, 1]);
+		});
+
+		it('should only send item IDs for deletes and report failed chunks by row index', async () => {
+			(mockApiClient.sendCatalogItemsBatch as jest.Mock).mockRejectedValue(
+				new Error('Catalog not found'),
+			);
+
+			const result = await batchProcessor.processCatalogItemBatch(
+				rows,
+				{ ...request, operation: 'DELETE' },
+				1000,
+				{ retryAttempts: 1, retryDelay: 1 },
+			);
+
+			expect(mockApiClient.sendCatalogItemsBatch).toHaveBeenCalledWith({
+				...request,
+				operation: 'DELETE',
+				items: [{ item_id: 'SKU-1' }, { item_id: 'SKU-2' }, { item_id: 'SKU-3' }],
+			});
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors[0]).toMatchObject({ itemId: '0,1,2', error: 'Catalog not found' });
+		});
+	});
+
+	describe('processAudienceMemberBatch', () => {
+		const rows = [
+			{ rowIndex: 0, record: 'a'.repeat(64) },
+			{ rowIndex: 1, record: 'b'.repeat(64) },
+			{ rowIndex: 1, record: 'c'.repeat(64) },
+		];
+
+		it('should send the hashed records of each chunk as one comma-separated list', async () => {
+			(mockApiClient.updateCustomerList as jest.Mock).mockResolvedValue({ id: 'list-1' });
+
+			const result = await batchProcessor.processAudienceMemberBatch(
+				'549755885175',
+				'list-1',
+				rows,
+				'REMOVE',
+				2,
+			);
+
+			expect(mockApiClient.updateCustomerList).toHaveBeenCalledTimes(2);
+			expect(mockApiClient.updateCustomerList).toHaveBeenNthCalledWith(
+				1,
+				'549755885175',
+				'list-1',
+				{
+					records: `${'a'.repeat(64)},${'b'.repeat(64)}`,
+					operation_type: 'REMOVE',
+				},
+			);
+			expect(result.success.map((chunk) => chunk.rows.length)).toEqual([2, 1]);
+		});
+
+		it('should report failed chunks by row index', async () => {
+			(mockApiClient.updateCustomerList as jest.Mock).mockRejectedValue(
+				new Error('Customer list not found'),
+			);
+
+			const result = await batchProcessor.processAudienceMemberBatch(
+				'549755885175',
+				'list-1',
+				rows,
+				'ADD',
+				5000,
+				{ retryAttempts: 1, retryDelay: 1 },
+			);
+
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors[0]).toMatchObject({
+				itemId: '0,1,1',
+				error: 'Customer list not found',
+			});
+		});
+	});
+
 	describe('Optimization Features', () => {
 		it('should remove duplicates when optimization is enabled', async () => {
 			const items = ['item1', 'item2', 'item1', 'item3', 'item2']; // Contains duplicates
@@ -274,6 +274,45 @@ describe('CredentialSecurityValidator', () => {
 				validator.validateOperationPermissions(credentials, 'getProfile', 'user'),
 			).not.toThrow();
 		});
+
+		it('should require the ads scopes for ads operations', () => {
+			const credentials = {
+				scope: 'user_accounts:read,ads:read',
+			};
+
+			expect(() =>
+				validator.validateOperationPermissions(credentials, 'get', 'campaign'),
+			).not.toThrow();
+			expect(() => validator.validateOperationPermissions(credentials, 'update', 'ad')).toThrow(
+				'Required scope: ads:write',
+			);
+		});
+
+		it('should require the ads scopes for audience operations', () => {
+			const credentials = {
+				scope: 'user_accounts:read,ads:read',
+			};
+
+			expect(() =>
+				validator.validateOperationPermissions(credentials, 'get', 'audience'),
+			).not.toThrow();
+			expect(() =>
+				validator.validateOperationPermissions(credentials, 'update', 'audience'),
+			).toThrow('Required scope: ads:write');
+		});
+
+		it('should require the catalogs scopes for catalog operations', () => {
+			const credentials = {
+				scope: 'user_accounts:read,catalogs:read',
+			};
+
+			expect(() =>
+				validator.validateOperationPermissions(credentials, 'get', 'catalog'),
+			).not.toThrow();
+			expect(() =>
+				validator.validateOperationPermissions(credentials, 'update', 'catalog'),
+			).toThrow('Required scope: catalogs:write');
+		});
 	});
 
 	describe('static methods', () => {
@@ -58,6 +58,69 @@ describe('DataTransformer', () => {
 				creativeType: 'regular',
 				isOwner: true,
 				isStandard: true,
+				hasBeenPromoted: false,
+				dominantColor: null,
+				parentPinId: null,
+				productTagPinIds: [],
+			});
+		});
+
+		it('should flatten metrics, dominant color, parent pin and product tags', () => {
+			// Arrange
+			const pinResponse: PinResponse = {
+				id: 'repin-id',
+				created_at: '2023-01-01T12:00:00Z',
+				url: 'https://pinterest.com/pin/repin-id',
+				board_id: 'board-id-456',
+				media: { url: 'https://pinterest.com/media/image123.jpg', media_type: 'image' },
+				has_been_promoted: true,
+				dominant_color: '#6E7874',
+				parent_pin_id: 'parent-pin-id',
+				product_tags: [{ pin_id: 'product-pin-1' }, { pin_id: 'product-pin-2' }],
+				pin_metrics: {
+					'90d': { impression: 120, pin_click: 7, clickthrough: 3 },
+					lifetime_metrics: { impression: 900, pin_click: 40, clickthrough: 12, comment: 2 },
+				},
+			};
+
+			// Act
+			const result = DataTransformer.transformPinResponse(pinResponse);
+
+			// Assert
+			expect(result).toMatchObject({
+				hasBeenPromoted: true,
+				dominantColor: '#6E7874',
+				parentPinId: 'parent-pin-id',
+				productTagPinIds: ['product-pin-1', 'product-pin-2'],
+				lifetimeImpressions: 900,
+				lifetimePinClicks: 40,
+				lifetimeOutboundClicks: 12,
+				lifetimeReactions: null,
+				lifetimeComments: 2,
+				last90DaysImpressions: 120,
+				last90DaysPinClicks: 7,
+				last90DaysOutboundClicks: 3,
+			});
+		});
+
+		it('should add empty metric fields when metrics were requested but not returned', () => {
+			const pinResponse: PinResponse = {
+				id: 'pin-id',
+				created_at: '2023-01-01T12:00:00Z',
+				url: 'https://pinterest.com/pin/pin-id',
+				board_id: 'board-id-456',
+				media: { url: 'https://pinterest.com/media/image123.jpg', media_type: 'image' },
+			};
+
+			expect(DataTransformer.transformPinResponse(pinResponse, true)).toMatchObject({
+				lifetimeImpressions: null,
+				lifetimePinClicks: null,
+				lifetimeOutboundClicks: null,
+				lifetimeReactions: null,
+				lifetimeComments: null,
+				last90DaysImpressions: null,
+				last90DaysPinClicks: null,
+				last90DaysOutboundClicks: null,
 			});
 		});
 
@@ -96,6 +159,10 @@ describe('DataTransformer', () => {
 				creativeType: null,
 				isOwner: false,
 				isStandard: false,
+				hasBeenPromoted: false,
+				dominantColor: null,
+				parentPinId: null,
+				productTagPinIds: [],
 			});
 		});
 
@@ -139,6 +206,10 @@ describe('DataTransformer', () => {
 				creativeType: null,
 				isOwner: false,
 				isStandard: false,
+				hasBeenPromoted: false,
+				dominantColor: null,
+				parentPinId: null,
+				productTagPinIds: [],
 			});
 		});
 
@@ -180,6 +251,10 @@ describe('DataTransformer', () => {
 				creativeType: null,
 				isOwner: false,
 				isStandard: false,
+				hasBeenPromoted: false,
+				dominantColor: null,
+				parentPinId: null,
+				productTagPinIds: [],
 			});
 		});
 
@@ -214,6 +289,10 @@ describe('DataTransformer', () => {
 				creativeType: null,
 				isOwner: false,
 				isStandard: false,
+				hasBeenPromoted: false,
+				dominantColor: null,
+				parentPinId: null,
+				productTagPinIds: [],
 			});
 		});
 
@@ -335,6 +414,21 @@ describe('DataTransformer', () => {
 		});
 	});
 
+	describe('transformBoardSectionResponse', () => {
+		it('should transform board section with owning board ID', () => {
+			const result = DataTransformer.transformBoardSectionResponse(
+				{ id: 'section123', name: 'Spring Collection' },
+				'board123',
+			);
+
+			expect(result).toEqual({
+				sectionId: 'section123',
+				name: 'Spring Collection',
+				boardId: 'board123',
+			});
+		});
+	});
+
 	describe('transformUserProfile', () => {
 		it('should transform complete user profile correctly', () => {
 			// Arrange
@@ -700,6 +794,381 @@ describe('DataTransformer', () => {
 				DataTransformer.formatDateForApi(invalidDate);
 			}).toThrow(NodeOperationError);
 		});
+
+		it('should return the calendar day in the given timezone', () => {
+			// Arrange
+			const date = new Date('2023-01-15T02:30:00Z');
+
+			// Act & Assert
+			expect(DataTransformer.formatDateForApi(date, 'UTC')).toBe('2023-01-15');
+			expect(DataTransformer.formatDateForApi(date, 'America/New_York')).toBe('2023-01-14');
+			expect(DataTransformer.formatDateForApi(date, 'Asia/Tokyo')).toBe('2023-01-15');
+		});
+
+		it('should throw error for unknown timezones', () => {
+			expect(() => {
+				DataTransformer.formatDateForApi(new Date(), 'Mars/Olympus_Mons');
+			}).toThrow('Invalid timezone: Mars/Olympus_Mons');
+		});
+	});
+
+	describe('transformAnalyticsRows', () => {
+		it('should return one row per day with rates and a totals row from the all-time metrics', () => {
+			// Arrange
+			const analytics: AnalyticsResponse = {
+				all_time: { IMPRESSION: 300, SAVE: 6, PIN_CLICK: 9, OUTBOUND_CLICK: 3 },
+				daily_metrics: [
+					{
+						date: '2024-01-01',
+						data_status: 'READY',
+						metrics: { IMPRESSION: 100, SAVE: 2, PIN_CLICK: 3, OUTBOUND_CLICK: 1 },
+					},
+					{ date: '2024-01-02', IMPRESSION: 0, SAVE: 0 },
+				],
+			};
+
+			// Act
+			const rows = DataTransformer.transformAnalyticsRows(analytics);
+
+			// Assert
+			expect(rows).toEqual([
+				{
+					rowType: 'day',
+					date: '2024-01-01',
+					IMPRESSION: 100,
+					SAVE: 2,
+					PIN_CLICK: 3,
+					OUTBOUND_CLICK: 1,
+					engagementRate: 0.06,
+					saveRate: 0.02,
+					outboundClickRate: 0.01,
+					videoCompletionRate: null,
+				},
+				{
+					rowType: 'day',
+					date: '2024-01-02',
+					IMPRESSION: 0,
+					SAVE: 0,
+					engagementRate: null,
+					saveRate: null,
+					outboundClickRate: null,
+					videoCompletionRate: null,
+				},
+				{
+					rowType: 'total',
+					date: null,
+					IMPRESSION: 300,
+					SAVE: 6,
+					PIN_CLICK: 9,
+					OUTBOUND_CLICK: 3,
+					engagementRate: 0.06,
+					saveRate: 0.02,
+					outboundClickRate: 0.01,
+					videoCompletionRate: null,
+				},
+			]);
+		});
+
+		it('should sum the days for the totals row when there are no all-time metrics', () => {
+			// Arrange
+			const analytics: AnalyticsResponse = {
+				daily_metrics: [
+					{ date: '2024-01-01', VIDEO_START: 10, QUARTILE_95_PERCENT_VIEW: 4 },
+					{ date: '2024-01-02', VIDEO_START: 30, QUARTILE_95_PERCENT_VIEW: 6 },
+				],
+			};
+
+			// Act
+			const total = DataTransformer.transformAnalyticsRows(analytics)[2];
+
+			// Assert
+			expect(total).toMatchObject({
+				rowType: 'total',
+				VIDEO_START: 40,
+				QUARTILE_95_PERCENT_VIEW: 10,
+				videoCompletionRate: 0.25,
+			});
+		});
+
+		it('should return rows per day and split value for split responses', () => {
+			// Arrange
+			const analytics = {
+				MOBILE: { daily_metrics: [{ date: '2024-01-01', IMPRESSION: 80, ENGAGEMENT: 8 }] },
+				WEB: { daily_metrics: [{ date: '2024-01-01', IMPRESSION: 20, ENGAGEMENT: 1 }] },
+			} as unknown as AnalyticsResponse;
+
+			// Act
+			const rows = DataTransformer.transformAnalyticsRows(analytics);
+
+			// Assert
+			expect(
+				rows.map(({ rowType, splitValue, engagementRate }) => [
+					rowType,
+					splitValue,
+					engagementRate,
+				]),
+			).toEqual([
+				['day', 'MOBILE', 0.1],
+				['total', 'MOBILE', 0.1],
+				['day', 'WEB', 0.05],
+				['total', 'WEB', 0.05],
+			]);
+		});
+	});
+
+	describe('compareAnalytics', () => {
+		it('should return the change of every metric in the totals and the daily series', () => {
+			// Arrange
+			const current: AnalyticsResponse = {
+				all_time: { IMPRESSION: 150, SAVE: 3, DATA_STATUS: 'READY' },
+				daily_metrics: [
+					{ date: '2024-01-08', metrics: { IMPRESSION: 100, SAVE: 3 } },
+					{ date: '2024-01-09', metrics: { IMPRESSION: 50, SAVE: 0 } },
+				],
+			};
+			const previous: AnalyticsResponse = {
+				all_time: { IMPRESSION: 100, SAVE: 0 },
+				daily_metrics: [{ date: '2024-01-01', metrics: { IMPRESSION: 100, SAVE: 0 } }],
+			};
+
+			// Act
+			const result = DataTransformer.compareAnalytics(current, previous);
+
+			// Assert
+			expect(result).toEqual([
+				{
+					splitValue: null,
+					allTime: {
+						IMPRESSION: { current: 150, previous: 100, change: 50, changePercent: 50 },
+						SAVE: { current: 3, previous: 0, change: 3, changePercent: null },
+					},
+					dailyTotals: {
+						IMPRESSION: { current: 150, previous: 100, change: 50, changePercent: 50 },
+						SAVE: { current: 3, previous: 0, change: 3, changePercent: null },
+					},
+				},
+			]);
+		});
+
+		it('should compare split responses per split value', () => {
+			// Arrange
+			const current = { WEB: { all_time: { IMPRESSION: 10 } } } as unknown as AnalyticsResponse;
+			const previous = {
+				WEB: { all_time: { IMPRESSION: 20 } },
+				MOBILE: { all_time: { IMPRESSION: 5 } },
+			} as unknown as AnalyticsResponse;
+
+			// Act
+			const result = DataTransformer.compareAnalytics(current, previous);
+
+			// Assert
+			expect(result).toEqual([
+				{
+					splitValue: 'WEB',
+					allTime: { IMPRESSION: { current: 10, previous: 20, change: -10, changePercent: -50 } },
+					dailyTotals: {},
+				},
+				{
+					splitValue: 'MOBILE',
+					allTime: {
+						IMPRESSION: { current: null, previous: 5, change: null, changePercent: null },
+					},
+					dailyTotals: {},
+				},
+			]);
+		});
+
+		it('should add the comparison to the totals rows', () => {
+			// Arrange
+			const current: AnalyticsResponse = { all_time: { IMPRESSION: 150 } };
+			const comparison = DataTransformer.compareAnalytics(current, {
+				all_time: { IMPRESSION: 100 },
+			});
+
+			// Act
+			const [total] = DataTransformer.transformAnalyticsRows(current, comparison);
+
+			// Assert
+			expect(total.comparison).toEqual({
+				allTime: { IMPRESSION: { current: 150, previous: 100, change: 50, changePercent: 50 } },
+				dailyTotals: {},
+			});
+		});
+	});
+
+	describe('findAnalyticsAnomalies', () => {
+		const options = {
+			method: 'rollingZScore' as const,
+			direction: 'drops' as const,
+			threshold: 3,
+			windowDays: 6,
+			metrics: ['IMPRESSION', 'SAVE'],
+		};
+		const days = (impressions: number[], lastStatus = 'READY') =>
+			impressions.map((impression, index) => ({
+				date: `2024-01-0${index + 1}`,
+				data_status: index === impressions.length - 1 ? lastStatus : 'READY',
+				metrics: { IMPRESSION: impression, SAVE: 10 },
+			}));
+
+		it('should flag anomalous days per metric and split value', () => {
+			// Arrange
+			const analytics = {
+				APP: { daily_metrics: days([100, 102, 98, 100, 101, 99, 20]) },
+				WEB: { daily_metrics: days([100, 102, 98, 100, 101, 99, 100]) },
+			} as unknown as AnalyticsResponse;
+
+			// Act
+			const anomalies = DataTransformer.findAnalyticsAnomalies(analytics, options);
+
+			// Assert
+			expect(anomalies).toEqual([
+				expect.objectContaining({
+					splitValue: 'APP',
+					metric: 'IMPRESSION',
+					date: '2024-01-07',
+					value: 20,
+					expected: 100,
+					severity: 'high',
+				}),
+			]);
+		});
+
+		it('should leave out days Pinterest is still processing', () => {
+			// Arrange
+			const analytics: AnalyticsResponse = {
+				daily_metrics: days([100, 102, 98, 100, 101, 99, 20], 'PROCESSING'),
+			};
+
+			// Act & Assert
+			expect(DataTransformer.findAnalyticsAnomalies(analytics, options)).toEqual([]);
+		});
+
+		it('should flag the day rows the anomalies were found on', () => {
+			// Arrange
+			const analytics: AnalyticsResponse = {
+				daily_metrics: days([100, 102, 98, 100, 101, 99, 20]),
+			};
+			const anomalies = DataTransformer.findAnalyticsAnomalies(analytics, options);
+
+			// Act
+			const rows = DataTransformer.transformAnalyticsRows(analytics, undefined, anomalies);
+
+			// Assert
+			expect(rows[0]).toMatchObject({ isAnomaly: false, anomalies: [] });
+			expect(rows[6]).toMatchObject({
+				isAnomaly: true,
+				anomalies: [{ metric: 'IMPRESSION', value: 20, expected: 100, direction: 'drop' }],
+			});
+			expect(rows[7]).not.toHaveProperty('isAnomaly');
+		});
+	});
+
+	describe('mergeAnalyticsResponses', () => {
+		it('should join the daily metrics of consecutive ranges in date order', () => {
+			// Arrange
+			const responses: AnalyticsResponse[] = [
+				{ daily_metrics: [{ date: '2024-04-01', IMPRESSION: 5 }] },
+				{
+					daily_metrics: [
+						{ date: '2024-01-02', IMPRESSION: 2 },
+						{ date: '2024-01-01', IMPRESSION: 1 },
+					],
+				},
+			];
+
+			// Act
+			const result = DataTransformer.mergeAnalyticsResponses(responses);
+
+			// Assert
+			expect(result.daily_metrics!.map((metric) => metric.date)).toEqual([
+				'2024-01-01',
+				'2024-01-02',
+				'2024-04-01',
+			]);
+			expect(result.all_time).toBeUndefined();
+		});
+
+		it('should merge split responses per split value', () => {
+			// Arrange
+			const responses = [
+				{ MOBILE: { daily_metrics: [{ date: '2024-01-01', IMPRESSION: 1 }] } },
+				{
+					MOBILE: { daily_metrics: [{ date: '2024-04-01', IMPRESSION: 2 }] },
+					WEB: { daily_metrics: [{ date: '2024-04-01', IMPRESSION: 3 }] },
+				},
+			] as unknown as AnalyticsResponse[];
+
+			// Act
+			const result = DataTransformer.mergeAnalyticsResponses(responses);
+
+			// Assert
+			expect(result).toEqual({
+				MOBILE: {
+					daily_metrics: [
+						{ date: '2024-01-01', IMPRESSION: 1 },
+						{ date: '2024-04-01', IMPRESSION: 2 },
+					],
+				},
+				WEB: { daily_metrics: [{ date: '2024-04-01', IMPRESSION: 3 }] },
+			});
+		});
+
+		it('should add up totals and recompute rates from the merged counts', () => {
+			// Arrange
+			const responses: AnalyticsResponse[] = [
+				{ all_time: { IMPRESSION: 100, SAVE: 10, SAVE_RATE: 0.1, DATA_STATUS: 'READY' } },
+				{ all_time: { IMPRESSION: 300, SAVE: 10, SAVE_RATE: 0.033, DATA_STATUS: 'READY' } },
+			];
+
+			// Act
+			const result = DataTransformer.mergeAnalyticsResponses(responses);
+
+			// Assert
+			expect(result.all_time).toEqual({
+				IMPRESSION: 400,
+				SAVE: 20,
+				SAVE_RATE: 0.05,
+				DATA_STATUS: 'READY',
+			});
+		});
+
+		it('should leave totals that cannot be added up empty', () => {
+			// Arrange
+			const responses: AnalyticsResponse[] = [
+				{
+					all_time: {
+						IMPRESSION: 100,
+						TOTAL_AUDIENCE: 80,
+						ENGAGED_AUDIENCE: 20,
+						VIDEO_AVG_WATCH_TIME: 4.5,
+						OUTBOUND_CLICK_RATE: 0.1,
+					},
+				},
+				{
+					all_time: {
+						IMPRESSION: 300,
+						TOTAL_AUDIENCE: 200,
+						ENGAGED_AUDIENCE: 30,
+						VIDEO_AVG_WATCH_TIME: 6,
+						OUTBOUND_CLICK_RATE: 0.05,
+					},
+				},
+			];
+
+			// Act
+			const result = DataTransformer.mergeAnalyticsResponses(responses);
+
+			// Assert
+			expect(result.all_time).toEqual({
+				IMPRESSION: 400,
+				TOTAL_AUDIENCE: null,
+				ENGAGED_AUDIENCE: null,
+				VIDEO_AVG_WATCH_TIME: null,
+				// The clicks are not in the totals, so the rate cannot be recomputed
+				OUTBOUND_CLICK_RATE: null,
+			});
+		});
 	});
 
 	describe('formatDateFromApi', () => {
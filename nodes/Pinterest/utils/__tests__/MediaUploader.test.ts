@@ -1,9 +1,13 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
 import {
 	MediaUploader,
 	SUPPORTED_IMAGE_FORMATS,
 	SUPPORTED_VIDEO_FORMATS,
 	FILE_SIZE_LIMITS,
 } from '../MediaUploader';
+import { PinterestApiClient } from '../PinterestApiClient';
+
+jest.mock('../PinterestApiClient');
 
 describe('MediaUploader', () => {
 	describe('Static utility methods', () => {
@@ -103,6 +107,157 @@ describe('MediaUploader', () => {
 		});
 	});
 
+	describe('getVideoDuration', () => {
+		const box = (type: string, ...content: Buffer[]) => {
+			const body = Buffer.concat(content);
+			const header = Buffer.alloc(8);
+			header.writeUInt32BE(body.length + 8, 0);
+			header.write(type, 4, 'ascii');
+			return Buffer.concat([header, body]);
+		};
+
+		const movieHeader = (version: 0 | 1, timescale: number, duration: number) => {
+			const fields = Buffer.alloc(version === 1 ? 32 : 20);
+			fields.writeUInt8(version, 0);
+			if (version === 1) {
+				fields.writeUInt32BE(timescale, 20);
+				fields.writeBigUInt64BE(BigInt(duration), 24);
+			} else {
+				fields.writeUInt32BE(timescale, 12);
+				fields.writeUInt32BE(duration, 16);
+			}
+			return box('mvhd', fields);
+		};
+
+		it('should read the duration from the movie header after other boxes', () => {
+			const video = Buffer.concat([
+				box('ftyp', Buffer.from('isom')),
+				box('free', Buffer.alloc(16)),
+				box('moov', box('udta', Buffer.alloc(4)), movieHeader(0, 1000, 12500)),
+			]);
+
+			expect(MediaUploader.getVideoDuration(video)).toBe(12.5);
+		});
+
+		it('should read version 1 movie headers', () => {
+			const video = box('moov', movieHeader(1, 600, 5400));
+
+			expect(MediaUploader.getVideoDuration(video)).toBe(9);
+		});
+
+		it('should return null without a movie header', () => {
+			expect(MediaUploader.getVideoDuration(Buffer.from('fake-video-data'))).toBeNull();
+		});
+	});
+
+	describe('uploadMedia', () => {
+		const mockExecuteFunctions = {
+			getNode: jest.fn().mockReturnValue({ name: 'Pinterest' }),
+		} as unknown as IExecuteFunctions;
+		const videoFile = {
+			filename: 'clip.mp4',
+			mimeType: 'video/mp4',
+			size: 4,
+			buffer: Buffer.from('data'),
+		};
+		const registration = {
+			media_id: 'media-1',
+			media_type: 'video' as const,
+			upload_url: 'https://uploads.example.com/',
+			upload_parameters: { key: 'uploads/clip.mp4', policy: 'abc' },
+		};
+		let registerMedia: jest.Mock;
+		let uploadMediaFile: jest.Mock;
+		let getMediaStatus: jest.Mock;
+
+		beforeEach(() => {
+			registerMedia = jest.fn().mockResolvedValue(registration);
+			uploadMediaFile = jest.fn().mockResolvedValue(undefined);
+			getMediaStatus = jest.fn();
+			(PinterestApiClient as jest.MockedClass<typeof PinterestApiClient>).mockImplementation(
+				() =>
+					({
+						registerMedia,
+						uploadMediaFile,
+						getMediaStatus,
+					}) as unknown as PinterestApiClient,
+			);
+		});
+
+		it('should register, upload to the signed URL and poll until processing succeeds', async () => {
+			getMediaStatus
+				.mockResolvedValueOnce({ media_id: 'media-1', media_type: 'video', status: 'registered' })
+				.mockResolvedValueOnce({ media_id: 'media-1', media_type: 'video', status: 'processing' })
+				.mockResolvedValueOnce({ media_id: 'media-1', media_type: 'video', status: 'succeeded' });
+			const progress = jest.fn();
+
+			const uploader = new MediaUploader(mockExecuteFunctions, { pollInterval: 1 });
+			const result = await uploader.uploadMedia(videoFile, progress);
+
+			expect(registerMedia).toHaveBeenCalledWith({ media_type: 'video' });
+			expect(uploadMediaFile).toHaveBeenCalledWith(registration, videoFile);
+			expect(getMediaStatus).toHaveBeenCalledTimes(3);
+			expect(result).toMatchObject({ mediaId: 'media-1', mediaType: 'video', status: 'succeeded' });
+			expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'completed' }));
+		});
+
+		it('should upload through the client it is given', async () => {
+			const apiClient = {
+				registerMedia: jest.fn().mockResolvedValue(registration),
+				uploadMediaFile: jest.fn().mockResolvedValue(undefined),
+			} as unknown as PinterestApiClient;
+			(PinterestApiClient as jest.MockedClass<typeof PinterestApiClient>).mockClear();
+
+			const uploader = new MediaUploader(
+				mockExecuteFunctions,
+				{ waitForProcessing: false },
+				apiClient,
+			);
+			await uploader.uploadMedia(videoFile);
+
+			expect(PinterestApiClient).not.toHaveBeenCalled();
+			expect(apiClient.registerMedia).toHaveBeenCalledWith({ media_type: 'video' });
+			expect(registerMedia).not.toHaveBeenCalled();
+		});
+
+		it('should not poll when waiting for processing is disabled', async () => {
+			const uploader = new MediaUploader(mockExecuteFunctions, { waitForProcessing: false });
+			const result = await uploader.uploadMedia(videoFile);
+
+			expect(getMediaStatus).not.toHaveBeenCalled();
+			expect(result.status).toBe('processing');
+		});
+
+		it('should fail when Pinterest reports a processing failure', async () => {
+			getMediaStatus.mockResolvedValue({
+				media_id: 'media-1',
+				media_type: 'video',
+				status: 'failed',
+			});
+
+			const uploader = new MediaUploader(mockExecuteFunctions, { pollInterval: 1 });
+
+			await expect(uploader.uploadMedia(videoFile)).rejects.toThrow(
+				'Media processing failed for media ID media-1',
+			);
+		});
+
+		it('should time out when processing takes too long', async () => {
+			getMediaStatus.mockResolvedValue({
+				media_id: 'media-1',
+				media_type: 'video',
+				status: 'processing',
+			});
+
+			const uploader = new MediaUploader(mockExecuteFunctions, { pollInterval: 5, timeout: 12 });
+
+			await expect(uploader.uploadMedia(videoFile)).rejects.toThrow(
+				'Media upload processing timed out',
+			);
+			expect(getMediaStatus.mock.calls.length).toBeGreaterThanOrEqual(2);
+		});
+	});
+
 	describe('Constants', () => {
 		it('should have correct supported image formats', () => {
 			expect(SUPPORTED_IMAGE_FORMATS).toEqual(['jpeg', 'jpg', 'png', 'gif']);
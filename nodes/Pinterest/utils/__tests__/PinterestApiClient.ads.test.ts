@@ -0,0 +1,134 @@
+import type { IExecuteFunctions, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { PinterestApiClient } from '../PinterestApiClient';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+describe('PinterestApiClient ads operations', () => {
+	let client: PinterestApiClient;
+	let makeRequest: jest.SpyInstance;
+
+	const createClient = (scope: string) => {
+		const apiClient = new PinterestApiClient({
+			getNode: jest.fn().mockReturnValue(mockNode),
+			helpers: { requestWithAuthentication: jest.fn() },
+		} as unknown as IExecuteFunctions);
+		(apiClient as any).credentials = { scope };
+		return apiClient;
+	};
+
+	beforeEach(() => {
+		client = createClient('user_accounts:read,ads:read,ads:write');
+		makeRequest = jest.spyOn(client, 'makeRequest');
+
+		jest.spyOn(console, 'info').mockImplementation(() => {});
+		jest.spyOn(console, 'warn').mockImplementation(() => {});
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should pass list filters and pagination as query parameters', async () => {
+		makeRequest.mockResolvedValue({ items: [] });
+
+		await client.getAdGroups('549755885175', {
+			limit: 25,
+			bookmark: 'next',
+			entity_statuses: ['ACTIVE', 'PAUSED'],
+			campaign_ids: ['1', '2'],
+			ad_group_ids: [],
+		});
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'GET',
+			'/ad_accounts/549755885175/ad_groups?page_size=25&bookmark=next&entity_statuses=ACTIVE%2CPAUSED&campaign_ids=1%2C2',
+			undefined,
+			undefined,
+			'get_ad_groups',
+		);
+	});
+
+	it('should send a single-entity list and unwrap the created campaign', async () => {
+		makeRequest.mockResolvedValue({
+			items: [{ data: { id: 'campaign-1', ad_account_id: '549755885175' }, exceptions: [] }],
+		});
+
+		const result = await client.createCampaign('549755885175', { name: 'Spring' });
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'POST',
+			'/ad_accounts/549755885175/campaigns',
+			[{ name: 'Spring', ad_account_id: '549755885175' }],
+			undefined,
+			'create_campaign',
+		);
+		expect(result).toEqual({ id: 'campaign-1', ad_account_id: '549755885175' });
+	});
+
+	it('should patch updates with the entity ID', async () => {
+		makeRequest.mockResolvedValue({ items: [{ data: { id: 'ad-1' } }] });
+
+		await client.updateAd('549755885175', 'ad-1', { status: 'PAUSED' });
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'PATCH',
+			'/ad_accounts/549755885175/ads',
+			[{ status: 'PAUSED', id: 'ad-1' }],
+			undefined,
+			'update_ad',
+		);
+	});
+
+	it('should raise the exceptions Pinterest reports for an entity', async () => {
+		makeRequest.mockResolvedValue({
+			items: [{ data: null, exceptions: [{ code: 2, message: 'Budget is too low' }] }],
+		});
+
+		await expect(
+			client.createAdGroup('549755885175', { campaign_id: '1', name: 'Group' }),
+		).rejects.toThrow('Pinterest rejected the ad group: Budget is too low');
+	});
+
+	it('should require the ads scopes', async () => {
+		client = createClient('user_accounts:read,ads:read');
+		makeRequest = jest.spyOn(client, 'makeRequest').mockResolvedValue({ items: [] });
+
+		await expect(client.createAd('549755885175', { pin_id: '1' })).rejects.toThrow(
+			NodeOperationError,
+		);
+		await expect(client.getAdAccounts()).resolves.toEqual({ items: [] });
+		expect(makeRequest).toHaveBeenCalledTimes(1);
+	});
+
+	it('should send conversion events in test mode', async () => {
+		makeRequest.mockResolvedValue({ num_events_received: 1, num_events_processed: 1, events: [] });
+		const events = [
+			{
+				event_name: 'checkout',
+				action_source: 'web' as const,
+				event_time: 1735689600,
+				event_id: 'order-1',
+				user_data: { em: ['hash'] },
+			},
+		];
+
+		await client.sendConversionEvents('549755885175', events, true);
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'POST',
+			'/ad_accounts/549755885175/events?test=true',
+			{ data: events },
+			undefined,
+			'send_conversion_events',
+		);
+	});
+});
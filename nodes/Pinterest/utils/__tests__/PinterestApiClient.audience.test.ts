@@ -0,0 +1,80 @@
+import type { IExecuteFunctions, INode } from 'n8n-workflow';
+import { PinterestApiClient } from '../PinterestApiClient';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+describe('PinterestApiClient audience operations', () => {
+	let client: PinterestApiClient;
+	let makeRequest: jest.SpyInstance;
+	let consoleInfo: jest.SpyInstance;
+
+	const records = ['a'.repeat(64), 'b'.repeat(64)].join(',');
+
+	beforeEach(() => {
+		client = new PinterestApiClient({
+			getNode: jest.fn().mockReturnValue(mockNode),
+			helpers: { requestWithAuthentication: jest.fn() },
+		} as unknown as IExecuteFunctions);
+		(client as any).credentials = { scope: 'user_accounts:read,ads:read,ads:write' };
+		makeRequest = jest.spyOn(client, 'makeRequest');
+
+		consoleInfo = jest.spyOn(console, 'info').mockImplementation(() => {});
+		jest.spyOn(console, 'warn').mockImplementation(() => {});
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should patch customer list records and name the operation after the operation type', async () => {
+		makeRequest.mockResolvedValue({ id: 'list-1', num_uploaded_user_records: 2 });
+
+		await client.updateCustomerList('549755885175', 'list-1', {
+			records,
+			operation_type: 'REMOVE',
+		});
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'PATCH',
+			'/ad_accounts/549755885175/customer_lists/list-1',
+			{ records, operation_type: 'REMOVE' },
+			undefined,
+			'remove_customer_list_records',
+		);
+	});
+
+	it('should audit membership changes with counts instead of identifiers', async () => {
+		makeRequest.mockResolvedValue({ id: 'list-1' });
+
+		await client.updateCustomerList('549755885175', 'list-1', {
+			records,
+			operation_type: 'ADD',
+		});
+
+		const auditEntries = consoleInfo.mock.calls
+			.map(([message]) => String(message))
+			.filter((message) => message.includes('api:audience:update'));
+
+		expect(auditEntries).toHaveLength(1);
+		expect(auditEntries[0]).toContain('"recordCount":2');
+		expect(auditEntries[0]).toContain('"operationType":"ADD"');
+		expect(auditEntries[0]).not.toContain('a'.repeat(64));
+	});
+
+	it('should reject audience writes without the ads:write scope', async () => {
+		(client as any).credentials = { scope: 'user_accounts:read,ads:read' };
+
+		await expect(
+			client.createCustomerList('549755885175', { name: 'Subscribers', records }),
+		).rejects.toThrow('Required scope: ads:write');
+		expect(makeRequest).not.toHaveBeenCalled();
+	});
+});
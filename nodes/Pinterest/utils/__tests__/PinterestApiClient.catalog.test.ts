@@ -0,0 +1,84 @@
+import type { IExecuteFunctions, INode } from 'n8n-workflow';
+import { PinterestApiClient } from '../PinterestApiClient';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+describe('PinterestApiClient catalog operations', () => {
+	let client: PinterestApiClient;
+	let makeRequest: jest.SpyInstance;
+
+	const createClient = (scope: string) => {
+		const apiClient = new PinterestApiClient({
+			getNode: jest.fn().mockReturnValue(mockNode),
+			helpers: { requestWithAuthentication: jest.fn() },
+		} as unknown as IExecuteFunctions);
+		(apiClient as any).credentials = { scope };
+		return apiClient;
+	};
+
+	beforeEach(() => {
+		client = createClient('user_accounts:read,catalogs:read,catalogs:write');
+		makeRequest = jest.spyOn(client, 'makeRequest');
+
+		jest.spyOn(console, 'info').mockImplementation(() => {});
+		jest.spyOn(console, 'warn').mockImplementation(() => {});
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should pass the feed filter of product groups after the pagination', async () => {
+		makeRequest.mockResolvedValue({ items: [] });
+
+		await client.getProductGroups({ limit: 25, bookmark: 'next', feed_id: '2680059592705' });
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'GET',
+			'/catalogs/product_groups?page_size=25&bookmark=next&feed_id=2680059592705',
+			undefined,
+			undefined,
+			'get_product_groups',
+		);
+	});
+
+	it('should post item batches and name the operation after the batch operation', async () => {
+		makeRequest.mockResolvedValue({ batch_id: 'batch-1', status: 'PROCESSING' });
+		const batch = {
+			country: 'US',
+			language: 'EN',
+			operation: 'DELETE' as const,
+			items: [{ item_id: 'SKU-1' }],
+		};
+
+		await expect(client.sendCatalogItemsBatch(batch)).resolves.toEqual({
+			batch_id: 'batch-1',
+			status: 'PROCESSING',
+		});
+		expect(makeRequest).toHaveBeenCalledWith(
+			'POST',
+			'/catalogs/items/batch',
+			batch,
+			undefined,
+			'delete_catalog_items',
+		);
+	});
+
+	it('should reject catalog writes without the catalogs:write scope', async () => {
+		const readOnlyClient = createClient('user_accounts:read,catalogs:read');
+		const readOnlyRequest = jest.spyOn(readOnlyClient, 'makeRequest');
+
+		await expect(readOnlyClient.createCatalogFeed({ name: 'Spring' })).rejects.toThrow(
+			'Required scope: catalogs:write',
+		);
+		expect(readOnlyRequest).not.toHaveBeenCalled();
+	});
+});
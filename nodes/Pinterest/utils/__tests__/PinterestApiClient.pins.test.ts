@@ -0,0 +1,62 @@
+import type { IExecuteFunctions, INode } from 'n8n-workflow';
+import { PinterestApiClient } from '../PinterestApiClient';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+describe('PinterestApiClient pin operations', () => {
+	let client: PinterestApiClient;
+	let makeRequest: jest.SpyInstance;
+
+	beforeEach(() => {
+		client = new PinterestApiClient({
+			getNode: jest.fn().mockReturnValue(mockNode),
+			helpers: { requestWithAuthentication: jest.fn() },
+		} as unknown as IExecuteFunctions);
+		(client as any).credentials = { scope: 'pins:read,pins:write' };
+		makeRequest = jest.spyOn(client, 'makeRequest').mockResolvedValue({ id: 'pin-1' });
+
+		jest.spyOn(console, 'info').mockImplementation(() => {});
+		jest.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should request pin metrics as an ad account', async () => {
+		await client.getPin('123', { pin_metrics: true, ad_account_id: '549755885175' });
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'GET',
+			'/pins/123?pin_metrics=true&ad_account_id=549755885175',
+			undefined,
+			undefined,
+			'get_pin',
+		);
+	});
+
+	it('should request the pin without query parameters by default', async () => {
+		await client.getPin('123');
+
+		expect(makeRequest).toHaveBeenCalledWith('GET', '/pins/123', undefined, undefined, 'get_pin');
+	});
+
+	it('should save a pin to a board section', async () => {
+		await client.savePin('123', { board_id: '456', board_section_id: '901' });
+
+		expect(makeRequest).toHaveBeenCalledWith(
+			'POST',
+			'/pins/123/save',
+			{ board_id: '456', board_section_id: '901' },
+			undefined,
+			'save_pin',
+		);
+	});
+});
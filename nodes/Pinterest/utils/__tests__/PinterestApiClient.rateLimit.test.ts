@@ -0,0 +1,76 @@
+import type { IDataObject, IExecuteFunctions, INode } from 'n8n-workflow';
+import { PinterestApiClient } from '../PinterestApiClient';
+import { MemoryRateLimitStore } from '../RateLimiter';
+import { CredentialSecurityValidator } from '../CredentialSecurityValidator';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+const credentials = { clientId: 'client-123', clientSecret: 'secret' };
+const credentialKey = CredentialSecurityValidator.generateCredentialHash(credentials);
+
+describe('PinterestApiClient shared rate limit state', () => {
+	let staticData: IDataObject;
+	let mockExecuteFunctions: IExecuteFunctions;
+
+	beforeEach(() => {
+		staticData = {};
+		mockExecuteFunctions = {
+			getNode: jest.fn().mockReturnValue(mockNode),
+			getCredentials: jest.fn().mockResolvedValue(credentials),
+			getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+			helpers: {
+				requestWithAuthentication: jest.fn().mockResolvedValue({
+					headers: { 'x-ratelimit-limit': '1000', 'x-ratelimit-remaining': '500' },
+				}),
+			},
+		} as unknown as IExecuteFunctions;
+
+		jest.spyOn(console, 'info').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should keep the budget in global workflow static data keyed by credential hash', async () => {
+		await new PinterestApiClient(mockExecuteFunctions).makeRequest('GET', '/user_account');
+
+		expect(mockExecuteFunctions.getWorkflowStaticData).toHaveBeenCalledWith('global');
+		expect((staticData.pinterestRateLimits as IDataObject)[credentialKey]).toMatchObject({
+			requestCount: 500,
+			currentLimit: 1000,
+			lastHeaders: { limit: 1000, remaining: 500 },
+		});
+	});
+
+	it('should share the budget between clients of the same execution', async () => {
+		await new PinterestApiClient(mockExecuteFunctions).makeRequest('GET', '/user_account');
+
+		// The second response carries no rate limit headers, so the count continues from the shared state
+		(mockExecuteFunctions.helpers.requestWithAuthentication as jest.Mock).mockResolvedValueOnce({});
+		await new PinterestApiClient(mockExecuteFunctions).makeRequest('GET', '/pins/1');
+
+		expect(
+			((staticData.pinterestRateLimits as IDataObject)[credentialKey] as IDataObject).requestCount,
+		).toBe(501);
+	});
+
+	it('should use a configured store instead of static data', async () => {
+		const store = new MemoryRateLimitStore();
+
+		await new PinterestApiClient(mockExecuteFunctions, 0, { rateLimitStore: store }).makeRequest(
+			'GET',
+			'/user_account',
+		);
+
+		expect(store.get(credentialKey)?.requestCount).toBe(500);
+		expect(staticData.pinterestRateLimits).toBeUndefined();
+	});
+});
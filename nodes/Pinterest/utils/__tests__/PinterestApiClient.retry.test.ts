@@ -0,0 +1,165 @@
+import type { IExecuteFunctions, INode } from 'n8n-workflow';
+import { PinterestApiClient } from '../PinterestApiClient';
+import { Logger } from '../Logger';
+import { PerformanceMonitor } from '../PerformanceMonitor';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+	Object.assign(new Error(`Request failed with status ${status}`), {
+		response: { status, headers, data: {} },
+	});
+
+describe('PinterestApiClient retries', () => {
+	let mockExecuteFunctions: IExecuteFunctions;
+	let requestWithAuthentication: jest.Mock;
+	let sleep: jest.SpyInstance;
+
+	const createClient = (retry = {}) => {
+		const client = new PinterestApiClient(mockExecuteFunctions, 0, { retry });
+		sleep = jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined);
+		return client;
+	};
+
+	beforeEach(() => {
+		requestWithAuthentication = jest.fn();
+		mockExecuteFunctions = {
+			getNode: jest.fn().mockReturnValue(mockNode),
+			helpers: { requestWithAuthentication },
+		} as unknown as IExecuteFunctions;
+
+		jest.spyOn(console, 'info').mockImplementation(() => {});
+		jest.spyOn(console, 'warn').mockImplementation(() => {});
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+		jest.spyOn(Math, 'random').mockReturnValue(0);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should retry server errors with exponential backoff and report the retry count', async () => {
+		const logComplete = jest.spyOn(Logger.prototype, 'logApiRequestComplete');
+		const endRequest = jest.spyOn(PerformanceMonitor.prototype, 'endRequest');
+		requestWithAuthentication
+			.mockRejectedValueOnce(httpError(503))
+			.mockRejectedValueOnce(httpError(502))
+			.mockResolvedValueOnce({ id: 'user-1' });
+
+		const client = createClient();
+		const result = await client.makeRequest('GET', '/user_account', undefined, undefined, 'test');
+
+		expect(result).toEqual({ id: 'user-1' });
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(3);
+		expect(sleep.mock.calls.map(([delay]) => delay)).toEqual([1000, 2000]);
+		expect(logComplete.mock.calls[0][8]).toBe(2);
+		expect(endRequest).toHaveBeenCalledWith(expect.any(String), 200, expect.any(Number), 2);
+	});
+
+	it('should honor Retry-After on rate limit errors', async () => {
+		requestWithAuthentication
+			.mockRejectedValueOnce(httpError(429, { 'retry-after': '7' }))
+			.mockResolvedValueOnce({});
+
+		await createClient().makeRequest('GET', '/pins/1');
+
+		expect(sleep).toHaveBeenCalledWith(7000);
+	});
+
+	it('should wait until x-ratelimit-reset when no Retry-After is sent', async () => {
+		const now = 1_700_000_000_000;
+		jest.spyOn(Date, 'now').mockReturnValue(now);
+		requestWithAuthentication
+			.mockRejectedValueOnce(httpError(429, { 'x-ratelimit-reset': String(now / 1000 + 12) }))
+			.mockResolvedValueOnce({});
+
+		await createClient().makeRequest('GET', '/pins/1');
+
+		expect(sleep).toHaveBeenCalledWith(12000);
+	});
+
+	it('should not retry when the server asks to wait longer than the max delay', async () => {
+		requestWithAuthentication.mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+
+		await expect(createClient({ maxDelay: 30000 }).makeRequest('GET', '/pins/1')).rejects.toThrow();
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(1);
+		expect(sleep).not.toHaveBeenCalled();
+	});
+
+	it('should retry network errors', async () => {
+		requestWithAuthentication
+			.mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+			.mockResolvedValueOnce({});
+
+		await createClient().makeRequest('GET', '/pins/1');
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not replay a create that failed with a server error', async () => {
+		requestWithAuthentication.mockRejectedValue(httpError(503));
+
+		await expect(
+			createClient().makeRequest('POST', '/pins', { board_id: '1' }, undefined, 'create_pin'),
+		).rejects.toThrow();
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(1);
+		expect(sleep).not.toHaveBeenCalled();
+	});
+
+	it('should not replay a create after the connection dropped mid-request', async () => {
+		requestWithAuthentication.mockRejectedValue(
+			Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+		);
+
+		await expect(createClient().makeRequest('POST', '/boards', { name: 'x' })).rejects.toThrow();
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(1);
+	});
+
+	it('should retry a create that was rate limited or never sent', async () => {
+		requestWithAuthentication
+			.mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+			.mockRejectedValueOnce(Object.assign(new Error('connect refused'), { code: 'ECONNREFUSED' }))
+			.mockResolvedValueOnce({ id: 'pin-1' });
+
+		const result = await createClient().makeRequest('POST', '/pins', { board_id: '1' });
+
+		expect(result).toEqual({ id: 'pin-1' });
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(3);
+	});
+
+	it('should not retry client errors', async () => {
+		requestWithAuthentication.mockRejectedValue(httpError(404));
+
+		await expect(createClient().makeRequest('GET', '/pins/1')).rejects.toThrow();
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(1);
+	});
+
+	it('should stop after the configured number of retries', async () => {
+		const recordFailed = jest.spyOn(PerformanceMonitor.prototype, 'recordFailedRequest');
+		requestWithAuthentication.mockRejectedValue(httpError(500));
+
+		await expect(createClient({ maxRetries: 1 }).makeRequest('GET', '/pins/1')).rejects.toThrow();
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(2);
+		expect(recordFailed).toHaveBeenCalledWith(expect.any(String), expect.any(Error), 1);
+	});
+
+	it('should disable retries when max retries is 0', async () => {
+		requestWithAuthentication.mockRejectedValue(httpError(503));
+
+		await expect(createClient({ maxRetries: 0 }).makeRequest('GET', '/pins/1')).rejects.toThrow();
+
+		expect(requestWithAuthentication).toHaveBeenCalledTimes(1);
+	});
+});
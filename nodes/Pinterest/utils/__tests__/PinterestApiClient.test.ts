@@ -317,4 +317,40 @@ describe('PinterestApiClient', () => {
 			);
 		});
 	});
+
+	describe('fetchAllPages', () => {
+		it('should follow bookmarks until no bookmark is returned', async () => {
+			const fetchPage = jest
+				.fn()
+				.mockResolvedValueOnce({ items: [1, 2], bookmark: 'b1' })
+				.mockResolvedValueOnce({ items: [3], bookmark: 'b2' })
+				.mockResolvedValueOnce({ items: [4] });
+
+			const result = await apiClient.fetchAllPages<number>(fetchPage);
+
+			expect(result).toEqual([1, 2, 3, 4]);
+			expect(fetchPage.mock.calls).toEqual([[undefined], ['b1'], ['b2']]);
+		});
+
+		it('should stop and truncate once the cap is reached', async () => {
+			const fetchPage = jest
+				.fn()
+				.mockResolvedValueOnce({ items: [1, 2], bookmark: 'b1' })
+				.mockResolvedValueOnce({ items: [3, 4], bookmark: 'b2' });
+
+			const result = await apiClient.fetchAllPages<number>(fetchPage, 3);
+
+			expect(result).toEqual([1, 2, 3]);
+			expect(fetchPage).toHaveBeenCalledTimes(2);
+		});
+
+		it('should stop when the API repeats a bookmark', async () => {
+			const fetchPage = jest.fn().mockResolvedValue({ items: [1], bookmark: 'same' });
+
+			const result = await apiClient.fetchAllPages<number>(fetchPage);
+
+			expect(result).toEqual([1, 1]);
+			expect(fetchPage).toHaveBeenCalledTimes(2);
+		});
+	});
 });
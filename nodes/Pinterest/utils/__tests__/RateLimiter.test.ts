@@ -1,4 +1,5 @@
-import { RateLimiter } from '../RateLimiter';
+import type { IDataObject } from 'n8n-workflow';
+import { RateLimiter, MemoryRateLimitStore, StaticDataRateLimitStore } from '../RateLimiter';
 import type { RateLimitInfo } from '../types';
 
 describe('RateLimiter', () => {
@@ -330,4 +331,66 @@ describe('RateLimiter', () => {
 			expect(info.remaining).toBe(1000); // Should be reset to full limit
 		});
 	});
+
+	describe('Shared State', () => {
+		it('should share the request budget between limiters using the same store and key', async () => {
+			const store = new MemoryRateLimitStore();
+			const first = new RateLimiter();
+			const second = new RateLimiter();
+			first.attachStore(store, 'pinterest_cred_abc');
+			second.attachStore(store, 'pinterest_cred_abc');
+
+			await first.checkLimit();
+			jest.advanceTimersByTime(200);
+			await second.checkLimit();
+
+			expect(store.get('pinterest_cred_abc')?.requestCount).toBe(2);
+			expect(first.getRateLimitInfo().remaining).toBe(998);
+		});
+
+		it('should keep separate budgets per credential', async () => {
+			const store = new MemoryRateLimitStore();
+			const first = new RateLimiter();
+			const second = new RateLimiter();
+			first.attachStore(store, 'pinterest_cred_abc');
+			second.attachStore(store, 'pinterest_cred_def');
+
+			await first.checkLimit();
+
+			expect(store.get('pinterest_cred_abc')?.requestCount).toBe(1);
+			expect(store.get('pinterest_cred_def')?.requestCount).toBe(0);
+		});
+
+		it('should restore the window and server headers from workflow static data', () => {
+			const staticData: IDataObject = {};
+			const resetSeconds = Math.ceil(Date.now() / 1000) + 600;
+
+			const previous = new RateLimiter();
+			previous.attachStore(new StaticDataRateLimitStore(staticData), 'pinterest_cred_abc');
+			previous.updateFromHeaders({
+				'x-ratelimit-limit': '1000',
+				'x-ratelimit-remaining': '40',
+				'x-ratelimit-reset': String(resetSeconds),
+			});
+
+			// A later execution starts with a fresh limiter and the persisted static data
+			const next = new RateLimiter();
+			next.attachStore(
+				new StaticDataRateLimitStore(JSON.parse(JSON.stringify(staticData))),
+				'pinterest_cred_abc',
+			);
+
+			expect(next.getRateLimitInfo()).toEqual({
+				limit: 1000,
+				remaining: 40,
+				reset: resetSeconds,
+			});
+			expect(next.getLastHeaders()).toMatchObject({
+				limit: 1000,
+				remaining: 40,
+				reset: resetSeconds,
+			});
+			expect(next.isApproachingLimit()).toBe(true);
+		});
+	});
 });
@@ -0,0 +1,143 @@
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { ResourceLocator } from '../ResourceLocator';
+import type { PinterestApiClient } from '../PinterestApiClient';
+
+const mockNode: INode = {
+	id: 'test-node-id',
+	name: 'Pinterest',
+	type: 'n8n-nodes-pinterest.pinterest',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+const locator = (mode: string, value: string) => ({ __rl: true, mode, value });
+
+describe('ResourceLocator', () => {
+	let mockApiClient: jest.Mocked<PinterestApiClient>;
+
+	beforeEach(() => {
+		mockApiClient = {
+			getBoards: jest.fn().mockResolvedValue({
+				items: [
+					{
+						id: '111111111111111111',
+						name: 'Summer Recipes',
+						url: '/jane/summer-recipes/',
+						owner: { username: 'jane' },
+					},
+					{ id: '222222222222222222', name: 'Café Ideas', owner: { username: 'jane' } },
+				],
+			}),
+			fetchAllPages:
+				jest.requireActual('../PinterestApiClient').PinterestApiClient.prototype.fetchAllPages,
+		} as unknown as jest.Mocked<PinterestApiClient>;
+	});
+
+	describe('read', () => {
+		it('should treat plain strings from older workflows as IDs', () => {
+			expect(ResourceLocator.read(' 123 ')).toEqual({ mode: 'id', value: '123' });
+			expect(ResourceLocator.read(undefined)).toEqual({ mode: 'id', value: '' });
+		});
+
+		it('should return the mode and value of a locator', () => {
+			expect(ResourceLocator.read(locator('list', '123'))).toEqual({ mode: 'list', value: '123' });
+		});
+	});
+
+	describe('getPinId', () => {
+		it('should return list and ID values as they are', () => {
+			expect(ResourceLocator.getPinId(mockNode, locator('list', '123'), 0)).toBe('123');
+			expect(ResourceLocator.getPinId(mockNode, locator('id', '456'), 0)).toBe('456');
+		});
+
+		it('should extract the ID from a pin URL', () => {
+			expect(
+				ResourceLocator.getPinId(
+					mockNode,
+					locator('url', 'https://www.pinterest.com/pin/123456789012345678/'),
+					0,
+				),
+			).toBe('123456789012345678');
+			expect(
+				ResourceLocator.getPinId(mockNode, locator('url', 'https://pinterest.co.uk/pin/987/'), 0),
+			).toBe('987');
+		});
+
+		it('should reject URLs that are not pin URLs', () => {
+			expect(() =>
+				ResourceLocator.getPinId(mockNode, locator('url', 'https://example.com/pin/1'), 0),
+			).toThrow(NodeOperationError);
+		});
+	});
+
+	describe('getBoardId', () => {
+		it('should not call the API for list and ID values', async () => {
+			await expect(
+				ResourceLocator.getBoardId(mockNode, mockApiClient, locator('list', '123'), 0),
+			).resolves.toBe('123');
+			expect(mockApiClient.getBoards).not.toHaveBeenCalled();
+		});
+
+		it('should match a board URL against the board URL returned by the API', async () => {
+			await expect(
+				ResourceLocator.getBoardId(
+					mockNode,
+					mockApiClient,
+					locator('url', 'https://www.pinterest.com/Jane/summer-recipes/'),
+					0,
+				),
+			).resolves.toBe('111111111111111111');
+		});
+
+		it('should fall back to the owner and a slug of the board name', async () => {
+			await expect(
+				ResourceLocator.getBoardId(
+					mockNode,
+					mockApiClient,
+					locator('url', 'https://www.pinterest.com/jane/cafe-ideas'),
+					0,
+				),
+			).resolves.toBe('222222222222222222');
+		});
+
+		it('should page through the boards once per URL and client', async () => {
+			const url = locator('url', 'https://www.pinterest.com/jane/summer-recipes/');
+
+			await ResourceLocator.getBoardId(mockNode, mockApiClient, url, 0);
+			await expect(ResourceLocator.getBoardId(mockNode, mockApiClient, url, 1)).resolves.toBe(
+				'111111111111111111',
+			);
+
+			expect(mockApiClient.getBoards).toHaveBeenCalledTimes(1);
+		});
+
+		it('should look a board up again after a miss', async () => {
+			const url = locator('url', 'https://www.pinterest.com/jane/new-board/');
+
+			await expect(ResourceLocator.getBoardId(mockNode, mockApiClient, url, 0)).rejects.toThrow(
+				NodeOperationError,
+			);
+			mockApiClient.getBoards.mockResolvedValueOnce({
+				items: [{ id: '333333333333333333', name: 'New Board', url: '/jane/new-board/' }],
+			} as never);
+
+			await expect(ResourceLocator.getBoardId(mockNode, mockApiClient, url, 1)).resolves.toBe(
+				'333333333333333333',
+			);
+			expect(mockApiClient.getBoards).toHaveBeenCalledTimes(2);
+		});
+
+		it('should fail when no board of the account matches', async () => {
+			await expect(
+				ResourceLocator.getBoardId(
+					mockNode,
+					mockApiClient,
+					locator('url', 'https://www.pinterest.com/someone/other-board/'),
+					0,
+				),
+			).rejects.toThrow('No board of the connected account matches the URL');
+		});
+	});
+});
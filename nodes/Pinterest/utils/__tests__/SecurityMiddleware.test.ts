@@ -15,6 +15,7 @@ describe('SecurityMiddleware', () => {
 
 		mockExecuteFunctions = {
 			getCredentials: jest.fn(),
+			getInputData: jest.fn(),
 			getNodeParameter: jest.fn(),
 			getWorkflow: jest.fn(() => ({ id: 'test-workflow-id' })),
 			getExecutionId: jest.fn(() => 'test-execution-id'),
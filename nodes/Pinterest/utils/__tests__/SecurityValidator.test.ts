@@ -465,6 +465,12 @@ describe('SecurityValidator', () => {
 			expect(/^[a-f0-9]+$/.test(hash1)).toBe(true);
 		});
 
+		it('should return the full SHA-256 digest when requested', () => {
+			expect(SecurityValidator.hashSensitiveData('abc', true)).toBe(
+				'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+			);
+		});
+
 		it('should produce different hashes for different data', () => {
 			const hash1 = SecurityValidator.hashSensitiveData('data1');
 			const hash2 = SecurityValidator.hashSensitiveData('data2');
@@ -4,24 +4,54 @@ import type { IDataObject } from 'n8n-workflow';
 export interface CreatePinRequest {
 	board_id: string;
 	media_source: {
-		source_type: 'image_url' | 'video_url' | 'image_upload';
+		source_type:
+			| 'image_url'
+			| 'image_upload'
+			| 'video_id'
+			| 'multiple_image_urls'
+			| 'multiple_image_base64';
 		url?: string;
 		media_id?: string;
+		items?: CarouselSlideRequest[];
+		index?: number;
+		cover_image_url?: string;
+		cover_image_content_type?: 'image/jpeg' | 'image/png';
+		cover_image_data?: string;
+		cover_image_key_frame_time?: number;
 	};
+	board_section_id?: string;
 	description?: string;
 	link?: string;
 	title?: string;
 	alt_text?: string;
 }
 
+/**
+ * One image of a carousel pin, given as a URL or as base64 data, with its own text and link
+ */
+export interface CarouselSlideRequest {
+	url?: string;
+	content_type?: 'image/jpeg' | 'image/png';
+	data?: string;
+	title?: string;
+	description?: string;
+	link?: string;
+}
+
 export interface UpdatePinRequest {
 	title?: string;
 	description?: string;
 	link?: string;
 	board_id?: string;
+	board_section_id?: string;
 	alt_text?: string;
 }
 
+export interface SavePinRequest {
+	board_id: string;
+	board_section_id?: string;
+}
+
 export interface CreateBoardRequest {
 	name: string;
 	description?: string;
@@ -34,9 +64,16 @@ export interface UpdateBoardRequest {
 	privacy?: 'public' | 'protected' | 'secret';
 }
 
+export interface CreateBoardSectionRequest {
+	name: string;
+}
+
+export interface UpdateBoardSectionRequest {
+	name: string;
+}
+
 export interface MediaUploadRequest {
 	media_type: 'image' | 'video';
-	file: Buffer | File;
 }
 
 export interface SearchParams {
@@ -57,6 +94,20 @@ export interface SearchBoardsParams extends SearchParams {
 	// Additional board-specific search parameters can be added here
 }
 
+export interface PaginationParams {
+	limit?: number;
+	bookmark?: string;
+}
+
+export interface GetPinParams {
+	pin_metrics?: boolean;
+	ad_account_id?: string;
+}
+
+export interface ListBoardsParams extends PaginationParams {
+	privacy?: 'ALL' | 'PUBLIC' | 'PROTECTED' | 'SECRET' | 'PUBLIC_AND_SECRET';
+}
+
 export interface TrendingParams {
 	region?: string;
 	trending_types?: string[];
@@ -71,6 +122,167 @@ export interface AnalyticsParams {
 	ad_account_id?: string;
 }
 
+export type AdEntityStatus = 'ACTIVE' | 'PAUSED' | 'ARCHIVED';
+
+export type CampaignObjectiveType =
+	| 'AWARENESS'
+	| 'CONSIDERATION'
+	| 'VIDEO_VIEW'
+	| 'WEB_CONVERSION'
+	| 'CATALOG_SALES'
+	| 'WEB_SESSIONS'
+	| 'VIDEO_COMPLETION';
+
+/**
+ * Campaign fields; budgets are in micro-currency and times in Unix seconds
+ */
+export interface CampaignRequest {
+	name?: string;
+	status?: AdEntityStatus;
+	objective_type?: CampaignObjectiveType;
+	daily_spend_cap?: number | null;
+	lifetime_spend_cap?: number | null;
+	start_time?: number | null;
+	end_time?: number | null;
+}
+
+/**
+ * Ad group fields; budgets and bids are in micro-currency and times in Unix seconds
+ */
+export interface AdGroupRequest {
+	campaign_id?: string;
+	name?: string;
+	status?: AdEntityStatus;
+	budget_type?: 'DAILY' | 'LIFETIME' | 'CBO_ADGROUP';
+	budget_in_micro_currency?: number | null;
+	bid_in_micro_currency?: number | null;
+	billable_event?: 'CLICKTHROUGH' | 'IMPRESSION' | 'VIDEO_V_50_MRC';
+	start_time?: number | null;
+	end_time?: number | null;
+	auto_targeting_enabled?: boolean;
+}
+
+export interface AdRequest {
+	ad_group_id?: string;
+	pin_id?: string;
+	creative_type?: string;
+	name?: string;
+	status?: AdEntityStatus;
+	destination_url?: string;
+}
+
+export interface ListAdEntitiesParams extends PaginationParams {
+	entity_statuses?: AdEntityStatus[];
+	campaign_ids?: string[];
+	ad_group_ids?: string[];
+}
+
+export type CatalogFeedFormat = 'TSV' | 'CSV' | 'XML';
+
+export type CatalogAvailability = 'IN_STOCK' | 'OUT_OF_STOCK' | 'PREORDER';
+
+/**
+ * Product feed fields; Pinterest fetches the feed file from the location on a schedule
+ */
+export interface CatalogFeedRequest {
+	name?: string;
+	format?: CatalogFeedFormat;
+	location?: string;
+	catalog_type?: 'RETAIL';
+	default_currency?: string | null;
+	default_locale?: string;
+	default_country?: string;
+	default_availability?: CatalogAvailability | null;
+	status?: 'ACTIVE' | 'INACTIVE';
+}
+
+export type CatalogItemsBatchOperation = 'UPSERT' | 'DELETE';
+
+/**
+ * A batch of catalog item writes; upserts carry the item attributes, deletes only the ID
+ */
+export interface CatalogItemsBatchRequest {
+	country: string;
+	language: string;
+	operation: CatalogItemsBatchOperation;
+	catalog_type?: 'RETAIL';
+	items: Array<{
+		item_id: string;
+		attributes?: IDataObject;
+	}>;
+}
+
+/**
+ * A catalog item to write in a batch run, tied back to the input item it came from
+ */
+export interface CatalogItemRow {
+	rowIndex: number;
+	itemId: string;
+	attributes?: IDataObject;
+}
+
+export type CustomerListType = 'EMAIL' | 'MAID';
+
+export type CustomerListOperation = 'ADD' | 'REMOVE';
+
+/**
+ * Customer list fields; records is a comma-separated list of SHA-256 hashed identifiers
+ */
+export interface CustomerListRequest {
+	name?: string;
+	records: string;
+	list_type?: CustomerListType;
+	operation_type?: CustomerListOperation;
+}
+
+/**
+ * An audience targeting the users matched from a customer list
+ */
+export interface AudienceRequest {
+	name: string;
+	audience_type: 'CUSTOMER_LIST';
+	description?: string;
+	rule: {
+		customer_list_id: string;
+	};
+}
+
+/**
+ * A hashed audience member to upload in a batch run, tied back to the input item it came from
+ */
+export interface AudienceMemberRow {
+	rowIndex: number;
+	record: string;
+}
+
+/**
+ * A conversion event for the Conversions API; identifiers in user_data are SHA-256 hashed
+ */
+export interface ConversionEvent {
+	event_name: string;
+	action_source: 'app_android' | 'app_ios' | 'web' | 'offline';
+	event_time: number;
+	event_id: string;
+	event_source_url?: string;
+	opt_out?: boolean;
+	user_data: {
+		em?: string[];
+		ph?: string[];
+		external_id?: string[];
+		client_ip_address?: string;
+		client_user_agent?: string;
+		click_id?: string;
+	};
+	custom_data?: {
+		currency?: string;
+		value?: string;
+		order_id?: string;
+		content_ids?: string[];
+		num_items?: number;
+		search_string?: string;
+	};
+}
+
 // Pinterest API Response Types
 export interface PinResponse {
 	id: string;
@@ -92,6 +304,32 @@ export interface PinResponse {
 	creative_type?: string;
 	is_owner?: boolean;
 	is_standard?: boolean;
+	has_been_promoted?: boolean;
+	dominant_color?: string;
+	parent_pin_id?: string | null;
+	product_tags?: PinProductTag[];
+	pin_metrics?: PinMetrics | null;
+}
+
+/**
+ * Metrics returned with a pin when pin_metrics is requested. Reactions and comments are only
+ * reported in the lifetime metrics.
+ */
+export interface PinMetrics {
+	'90d'?: PinMetricValues;
+	lifetime_metrics?: PinMetricValues;
+}
+
+export interface PinMetricValues {
+	impression?: number;
+	pin_click?: number;
+	clickthrough?: number;
+	reaction?: number;
+	comment?: number;
+}
+
+export interface PinProductTag {
+	pin_id: string;
 }
 
 export interface BoardResponse {
@@ -112,6 +350,11 @@ export interface BoardResponse {
 	};
 }
 
+export interface BoardSectionResponse {
+	id: string;
+	name: string;
+}
+
 export interface UserProfileResponse {
 	username: string;
 	id: string;
@@ -126,10 +369,17 @@ export interface UserProfileResponse {
 	is_verified_merchant?: boolean;
 }
 
+export interface MediaRegistrationResponse {
+	media_id: string;
+	media_type: 'image' | 'video';
+	upload_url: string;
+	upload_parameters: Record<string, string>;
+}
+
 export interface MediaResponse {
 	media_id: string;
 	media_type: 'image' | 'video';
-	status: 'succeeded' | 'failed' | 'processing';
+	status: 'registered' | 'processing' | 'succeeded' | 'failed';
 }
 
 export interface SearchResponse<T = PinResponse | BoardResponse> {
@@ -141,6 +391,16 @@ export interface SearchPinsResponse extends SearchResponse<PinResponse> {}
 
 export interface SearchBoardsResponse extends SearchResponse<BoardResponse> {}
 
+export interface BoardsResponse extends SearchResponse<BoardResponse> {}
+
+export interface BoardPinsResponse extends SearchResponse<PinResponse> {}
+
+export interface UserPinsResponse extends SearchResponse<PinResponse> {}
+
+export interface BoardSectionsResponse extends SearchResponse<BoardSectionResponse> {}
+
+export interface BoardSectionPinsResponse extends SearchResponse<PinResponse> {}
+
 export interface TrendingResponse {
 	trends: Array<{
 		keyword: string;
@@ -158,16 +418,165 @@ export interface AnalyticsResponse {
 	daily_metrics?: IDataObject[];
 }
 
+/**
+ * Analytics of one split value. Responses requested with a split field are keyed by split value
+ * instead of holding the metrics directly.
+ */
+export interface AnalyticsSegment {
+	splitValue: string | null;
+	analytics: AnalyticsResponse;
+}
+
+export interface AdAccountResponse {
+	id: string;
+	name: string;
+	owner?: {
+		username: string;
+		id?: string;
+	};
+	country?: string;
+	currency?: string;
+	permissions?: string[];
+	created_time?: number;
+	updated_time?: number;
+}
+
+export interface CampaignResponse extends CampaignRequest {
+	id: string;
+	ad_account_id: string;
+	created_time?: number;
+	updated_time?: number;
+}
+
+export interface AdGroupResponse extends AdGroupRequest {
+	id: string;
+	ad_account_id: string;
+	created_time?: number;
+	updated_time?: number;
+}
+
+export interface AdResponse extends AdRequest {
+	id: string;
+	ad_account_id: string;
+	campaign_id?: string;
+	review_status?: string;
+	created_time?: number;
+	updated_time?: number;
+}
+
+export interface AdAccountsResponse extends SearchResponse<AdAccountResponse> {}
+
+export interface CampaignsResponse extends SearchResponse<CampaignResponse> {}
+
+export interface AdGroupsResponse extends SearchResponse<AdGroupResponse> {}
+
+export interface AdsResponse extends SearchResponse<AdResponse> {}
+
+/**
+ * Conversions API results, listed in the order the events were sent
+ */
+export interface ConversionEventsResponse {
+	num_events_received: number;
+	num_events_processed: number;
+	events: Array<{
+		status: 'processed' | 'failed';
+		error_message?: string | null;
+		warning_message?: string | null;
+	}>;
+}
+
+export interface CatalogFeedResponse extends CatalogFeedRequest {
+	id: string;
+	created_at?: string;
+	updated_at?: string;
+}
+
+export interface CatalogFeedsResponse extends SearchResponse<CatalogFeedResponse> {}
+
+/**
+ * Processing state of a catalog items batch, with a result per item once it has run
+ */
+export interface CatalogItemsBatchResponse {
+	batch_id: string;
+	status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+	created_time?: string;
+	completed_time?: string | null;
+	items?: Array<{
+		item_id: string;
+		status?: 'SUCCESS' | 'FAILURE';
+		errors?: Array<{ attribute?: string; code?: number; message: string }>;
+		warnings?: Array<{ attribute?: string; code?: number; message: string }>;
+	}>;
+}
+
+export interface ProductGroupResponse {
+	id: string;
+	name?: string;
+	description?: string | null;
+	feed_id?: string | null;
+	is_featured?: boolean;
+	type?: string;
+	filters?: IDataObject;
+	created_at?: number;
+	updated_at?: number;
+}
+
+export interface ProductGroupsResponse extends SearchResponse<ProductGroupResponse> {}
+
+/**
+ * Upload state of a customer list; record counts grow as Pinterest processes each upload
+ */
+export interface CustomerListResponse {
+	id: string;
+	ad_account_id?: string;
+	name?: string;
+	type?: CustomerListType;
+	status?: 'PROCESSING' | 'READY' | 'TOO_SMALL' | 'UPLOADING';
+	num_batches?: number;
+	num_uploaded_user_records?: number;
+	num_removed_user_records?: number;
+	created_time?: number;
+	updated_time?: number;
+}
+
+/**
+ * An audience; size is the number of matched users and stays empty until it is ready
+ */
+export interface AudienceResponse extends Partial<AudienceRequest> {
+	id: string;
+	ad_account_id?: string;
+	size?: number | null;
+	status?: 'READY' | 'TOO_SMALL' | 'PROCESSING' | 'ARCHIVED' | 'UNARCHIVED';
+	created_timestamp?: number;
+	updated_timestamp?: number;
+}
+
+export interface AudiencesResponse extends SearchResponse<AudienceResponse> {}
+
+/**
+ * Campaign, ad group and ad writes are bulk endpoints reporting a result per entity
+ */
+export interface AdsBulkWriteResponse<T> {
+	items: Array<{
+		data?: T | null;
+		exceptions?: Array<{
+			code?: number;
+			message?: string;
+		}>;
+	}>;
+}
+
 // n8n Node Parameter Types
 export interface PinCreateParams {
 	boardId: string;
-	mediaSource: 'url' | 'upload';
+	mediaSource: 'url' | 'upload' | 'multipleUrls' | 'multipleUploads';
 	mediaUrl?: string;
 	mediaFile?: IDataObject;
 	title?: string;
 	description?: string;
 	link?: string;
 	altText?: string;
+	boardSectionId?: string;
 }
 
 export interface PinUpdateParams {
@@ -176,6 +585,7 @@ export interface PinUpdateParams {
 	description?: string;
 	link?: string;
 	boardId?: string;
+	boardSectionId?: string;
 	altText?: string;
 }
 
@@ -239,6 +649,22 @@ export interface RateLimitInfo {
 	reset: number;
 }
 
+/**
+ * Rate limit accounting shared between executions of the same credential
+ */
+export interface RateLimitState {
+	requestCount: number;
+	resetTime: number;
+	currentLimit: number;
+	lastRequestTime: number;
+	lastHeaders?: {
+		limit: number | null;
+		remaining: number | null;
+		reset: number | null;
+		receivedAt: number;
+	};
+}
+
 // Batch Operation Types
 export interface BatchOperationConfig {
 	maxBatchSize?: number;
@@ -250,6 +676,23 @@ export interface BatchOperationConfig {
 	progressCallback?: (progress: BatchOperationProgress) => void;
 }
 
+/**
+ * A pin to create in a bulk run, tied back to the input item it came from
+ */
+export interface BulkPinCreateRow {
+	rowIndex: number;
+	pinData: CreatePinRequest;
+}
+
+/**
+ * A board to create in a bulk run, with the sections to add once it exists
+ */
+export interface BulkBoardCreateRow {
+	rowIndex: number;
+	boardData: CreateBoardRequest;
+	sectionNames: string[];
+}
+
 export interface BatchOperationProgress {
 	total: number;
 	completed: number;
@@ -334,9 +777,10 @@ export interface CredentialSecurityInfo {
 }
 
 // Utility Types
-export type PinterestResource = 'pin' | 'board' | 'user' | 'search';
+export type PinterestResource = 'pin' | 'board' | 'boardSection' | 'user' | 'search';
 export type PinOperation = 'create' | 'get' | 'update' | 'delete' | 'bulk';
-export type BoardOperation = 'create' | 'get' | 'update' | 'delete' | 'bulk';
+export type BoardOperation = 'create' | 'get' | 'getAll' | 'getPins' | 'update' | 'delete' | 'bulk';
+export type BoardSectionOperation = 'create' | 'getAll' | 'update' | 'delete' | 'getPins';
 export type UserOperation = 'getProfile' | 'getAnalytics';
 export type SearchOperation = 'pins' | 'boards' | 'trending';
 